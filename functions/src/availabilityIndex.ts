@@ -0,0 +1,106 @@
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { ScheduleData, travelBufferMs } from "./lib/availability";
+import {
+    AVAILABILITY_INDEX_DAYS,
+    bookingDates,
+    rebuildAvailabilityDays,
+    upcomingDates
+} from "./lib/availabilityIndex";
+import { toLocalParts } from "./lib/time";
+
+// Initialize admin if not already initialized
+if (!admin.apps.length) {
+    admin.initializeApp();
+}
+
+/**
+ * Trigger: host schedule created, changed or removed
+ * Action: rebuild the host's whole availability index window
+ */
+export const onScheduleWrittenIndexAvailability = onDocumentWritten("provider_schedules/{hostId}", async (event) => {
+    const hostId = event.params.hostId;
+
+    try {
+        await rebuildAvailabilityDays(hostId, upcomingDates());
+    } catch (error) {
+        logger.error(`Error indexing availability for host ${hostId}:`, error);
+    }
+});
+
+/**
+ * Trigger: booking written
+ * Action: rebuild the days the booking blocked before and blocks now
+ * (status, date, duration or slot hold changes), within the index window
+ */
+export const onBookingWrittenIndexAvailability = onDocumentWritten("bookings/{bookingId}", async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    const hostId = (after || before)?.hostId as string | undefined;
+    if (!hostId) return;
+
+    const unchanged = before && after &&
+        before.status === after.status &&
+        before.estimatedDuration === after.estimatedDuration &&
+        before.slotHold?.active === after.slotHold?.active &&
+        (before.scheduledDate as admin.firestore.Timestamp | undefined)?.isEqual(after.scheduledDate);
+    if (unchanged) return;
+
+    try {
+        const scheduleSnap = await admin.firestore().collection("provider_schedules").doc(hostId).get();
+        const bufferMs = travelBufferMs((scheduleSnap.data() || {}) as ScheduleData);
+
+        const window = new Set(upcomingDates());
+        const dates = new Set([...bookingDates(before, bufferMs), ...bookingDates(after, bufferMs)]);
+
+        await rebuildAvailabilityDays(hostId, [...dates].filter(date => window.has(date)));
+    } catch (error) {
+        logger.error(`Error indexing availability for booking ${event.params.bookingId}:`, error);
+    }
+});
+
+/**
+ * Scheduled: roll the index window over at night
+ *
+ * Adds the newest day for every host with a schedule and removes the
+ * documents of past days.
+ */
+export const rollAvailabilityIndex = onSchedule({
+    schedule: "15 0 * * *",
+    timeZone: "Europe/Warsaw"
+}, async () => {
+    const db = admin.firestore();
+    const newestDate = upcomingDates(AVAILABILITY_INDEX_DAYS)[AVAILABILITY_INDEX_DAYS - 1];
+
+    const schedulesSnap = await db.collection("provider_schedules").get();
+    let indexed = 0;
+
+    for (const scheduleDoc of schedulesSnap.docs) {
+        try {
+            await rebuildAvailabilityDays(scheduleDoc.id, [newestDate]);
+            indexed++;
+        } catch (error) {
+            logger.error(`Error indexing availability for host ${scheduleDoc.id}:`, error);
+        }
+    }
+
+    const today = toLocalParts(new Date()).dateStr;
+    let removed = 0;
+
+    for (;;) {
+        const pastSnap = await db.collection("availability")
+            .where("date", "<", today)
+            .limit(500)
+            .get();
+        if (pastSnap.empty) break;
+
+        const batch = db.batch();
+        pastSnap.docs.forEach(doc => batch.delete(doc.ref));
+        await batch.commit();
+        removed += pastSnap.size;
+    }
+
+    logger.info(`Availability index: ${indexed} hosts extended to ${newestDate}, ${removed} past days removed`);
+});
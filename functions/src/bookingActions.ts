@@ -0,0 +1,1021 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { randomUUID } from "crypto";
+import {
+    BookingDoc,
+    BookingStatus,
+    RescheduleRequest,
+    AdditionalCharge,
+    LocationVerification,
+    assertCanPerform,
+    assertTransition,
+    calculateRefund,
+    calculateTotalAmount,
+    getPaymentStatusAfterRefund,
+    statusChange
+} from "./lib/bookingMachine";
+import {
+    assertClient,
+    assertDailyCapacity,
+    assertInstantBookAllowed,
+    assertParticipant,
+    assertSlotFree,
+    cancelOutcome,
+    createSlotHold,
+    formatServiceDate,
+    generateBookingHash,
+    getBooking,
+    isSlotHeld,
+    parseServiceLocation,
+    requireAuth,
+    releasedSlotHold,
+    requireString,
+    resolveOffer,
+    runTransition
+} from "./lib/bookingStore";
+import { BookingEventInput, appendBookingEvents, verifyBookingEvents } from "./lib/bookingEvents";
+import { isHostAvailable } from "./lib/availability";
+import { calculateDistance, isValidLatLng } from "./lib/geo";
+import { recalculatePunctuality, recalculateRequestMetrics } from "./lib/hostMetrics";
+import { newChatDoc, postSystemMessage } from "./lib/chat";
+import { notifyUser } from "./lib/notifications";
+import { verifyBookingPayment } from "./lib/payments";
+
+// Initialize admin if not already initialized
+if (!admin.apps.length) {
+    admin.initializeApp();
+}
+
+/**
+ * Booking state machine callables
+ *
+ * Bookings are read-only for clients (firestore.rules) - every write goes
+ * through these functions, which re-read the booking inside a transaction,
+ * check the caller's role and validate the transition.
+ */
+
+// ===========================================
+// CREATE
+// ===========================================
+
+interface CreateInquiryData {
+    hostId: string;
+    listingId?: string;
+    scheduledDate: string;      // ISO 8601
+    estimatedDuration: number;  // minutes
+    serviceLocation: {
+        lat: number;
+        lng: number;
+        address: string;
+    };
+    notes?: string;
+}
+
+/**
+ * Tworzy zapytanie (INQUIRY) wraz z czatem rezerwacji
+ */
+export const bookingCreateInquiry = onCall<CreateInquiryData>(async (request) => {
+    const clientId = requireAuth(request);
+    const data = request.data || ({} as CreateInquiryData);
+
+    const hostId = requireString(data.hostId, "hostId");
+    if (hostId === clientId) {
+        throw new HttpsError("invalid-argument", "Nie możesz zarezerwować własnej usługi");
+    }
+
+    const scheduledDate = new Date(data.scheduledDate);
+    if (isNaN(scheduledDate.getTime()) || scheduledDate.getTime() < Date.now()) {
+        throw new HttpsError("invalid-argument", "Nieprawidłowa data usługi");
+    }
+    if (typeof data.estimatedDuration !== "number" || data.estimatedDuration <= 0) {
+        throw new HttpsError("invalid-argument", "Nieprawidłowy czas trwania");
+    }
+    const serviceLocation = parseServiceLocation(data.serviceLocation);
+
+    const db = admin.firestore();
+    const offer = await resolveOffer(hostId, clientId, data.listingId);
+
+    const bookingRef = db.collection("bookings").doc();
+    const chatRef = db.collection("chats").doc();
+    const now = admin.firestore.Timestamp.now();
+
+    const batch = db.batch();
+    const eventsHead = appendBookingEvents(batch, bookingRef, undefined, [
+        { type: "created", actor: clientId, status: "INQUIRY" }
+    ], now);
+    batch.set(bookingRef, {
+        clientId,
+        hostId,
+        listingId: data.listingId || "",
+
+        status: "INQUIRY",
+        statusHistory: [statusChange("INQUIRY", clientId, now)],
+
+        listingSnapshot: offer.listingSnapshot,
+        hostSnapshot: offer.hostSnapshot,
+        clientSnapshot: offer.clientSnapshot,
+
+        scheduledDate: admin.firestore.Timestamp.fromDate(scheduledDate),
+        estimatedDuration: data.estimatedDuration,
+        serviceLocation,
+        ...(data.notes ? { notes: data.notes } : {}),
+
+        pricing: {
+            baseAmount: offer.basePrice,
+            totalAmount: offer.basePrice,
+            currency: "PLN"
+        },
+        paymentStatus: "pending",
+
+        cancellationPolicy: "flexible",
+        bookingHash: generateBookingHash(),
+        chatId: chatRef.id,
+        eventsHead,
+
+        createdAt: now,
+        updatedAt: now
+    });
+    batch.set(chatRef, newChatDoc({
+        clientId,
+        clientName: offer.clientSnapshot.displayName,
+        professionalId: hostId,
+        professionalName: offer.hostSnapshot.displayName,
+        context: { bookingId: bookingRef.id },
+        status: "active",
+        now
+    }));
+    await batch.commit();
+
+    logger.info(`Booking ${bookingRef.id} created by ${clientId}`);
+    return { bookingId: bookingRef.id, newStatus: "INQUIRY" as BookingStatus };
+});
+
+// ===========================================
+// TRANSITIONS
+// ===========================================
+
+/**
+ * Request to Book - klient prosi o rezerwację.
+ * Opcjonalny paymentId = płatność autoryzowana z góry (BookingModal),
+ * sprawdzana w Stripe przed zapisem.
+ * Prośby oczekujące na akceptację wliczają się do limitu dziennego.
+ */
+export const bookingRequestToBook = onCall<{ bookingId: string; paymentId?: string }>(async (request) => {
+    const uid = requireAuth(request);
+    const bookingId = requireString(request.data?.bookingId, "bookingId");
+    const paymentId = request.data?.paymentId === undefined
+        ? undefined
+        : requireString(request.data.paymentId, "paymentId");
+
+    const current = await getBooking(bookingId);
+    assertClient(uid, current);
+    if (paymentId) await verifyBookingPayment(paymentId, bookingId, current);
+
+    return runTransition(bookingId, (booking, now) => {
+        assertClient(uid, booking);
+        assertTransition(booking, "PENDING_APPROVAL");
+
+        return {
+            history: [statusChange("PENDING_APPROVAL", uid, now)],
+            updates: paymentId ? { paymentId, paymentStatus: "authorized" } : {}
+        };
+    }, (transaction, booking) => assertDailyCapacity(transaction, bookingId, booking));
+});
+
+/**
+ * Instant Book - pomija akceptację fachowca.
+ * Wymaga zgody fachowca (grafik, oferta), spełnienia wymagań oferty
+ * wobec klienta, wolnego miejsca w limicie dziennym i wolnego terminu,
+ * który rezerwacja trzyma przez czas płatności (slotHold).
+ */
+export const bookingInstantBook = onCall<{ bookingId: string }>(async (request) => {
+    const uid = requireAuth(request);
+    const bookingId = requireString(request.data?.bookingId, "bookingId");
+
+    const current = await getBooking(bookingId);
+    assertClient(uid, current);
+    await assertInstantBookAllowed(current);
+    await assertSlotFree(bookingId, current);
+
+    return runTransition(bookingId, (booking, now) => {
+        assertClient(uid, booking);
+        assertTransition(booking, "PENDING_PAYMENT");
+
+        const slotHold = createSlotHold(now);
+        return {
+            history: [statusChange("PENDING_PAYMENT", uid, now)],
+            events: [{ type: "slot_held", actor: uid, data: { expiresAt: slotHold.expiresAt } }],
+            updates: { slotHold },
+            result: { holdExpiresAt: slotHold.expiresAt.toMillis() }
+        };
+    }, (transaction, booking) => assertDailyCapacity(transaction, bookingId, booking));
+});
+
+/**
+ * Fachowiec akceptuje Request to Book.
+ * Gdy klient zapłacił z góry, rezerwacja od razu przechodzi przez
+ * PENDING_PAYMENT do CONFIRMED. W przeciwnym razie termin jest trzymany
+ * dla klienta na czas płatności (ClientDashboard → BookingPaymentModal).
+ */
+export const bookingApprove = onCall<{ bookingId: string }>(async (request) => {
+    const uid = requireAuth(request);
+    const bookingId = requireString(request.data?.bookingId, "bookingId");
+
+    const current = await getBooking(bookingId);
+    assertCanPerform(uid, current, "approve");
+    await assertSlotFree(bookingId, current);
+
+    const result = await runTransition(bookingId, (booking, now) => {
+        assertCanPerform(uid, booking, "approve");
+        assertTransition(booking, "PENDING_PAYMENT");
+
+        // "authorized" = PaymentIntent already charged (automatic capture) and
+        // verified in bookingRequestToBook - nothing left to capture here
+        if (booking.paymentStatus === "authorized") {
+            return {
+                history: [
+                    statusChange("PENDING_PAYMENT", uid, now),
+                    statusChange("CONFIRMED", "system", now)
+                ]
+            };
+        }
+
+        const slotHold = createSlotHold(now);
+        return {
+            history: [statusChange("PENDING_PAYMENT", uid, now)],
+            events: [{ type: "slot_held", actor: "system", data: { expiresAt: slotHold.expiresAt } }],
+            updates: { slotHold }
+        };
+    });
+
+    // Akceptacja liczy się do acceptanceRate / responseRate, jak odrzucenie i wygaśnięcie
+    await recalculateRequestMetrics(uid);
+
+    return result;
+});
+
+// hostId of legacy bookings posted to the marketplace, claimed by the first pro
+const MARKETPLACE_HOST_ID = "MARKETPLACE";
+
+/**
+ * Fachowiec przyjmuje zlecenie z giełdy (starsze rezerwacje z hostId
+ * MARKETPLACE). Zostaje hostem rezerwacji, a termin jest trzymany dla
+ * klienta na czas płatności - jak po akceptacji Request to Book. Klient
+ * dostaje powiadomienie i płaci w ClientDashboard (BookingPaymentModal).
+ */
+export const bookingClaimMarketplace = onCall<{ bookingId: string }>(async (request) => {
+    const uid = requireAuth(request);
+    const bookingId = requireString(request.data?.bookingId, "bookingId");
+
+    const current = await getBooking(bookingId);
+    if (current.hostId !== MARKETPLACE_HOST_ID) {
+        throw new HttpsError("failed-precondition", "Zlecenie zostało już przyjęte");
+    }
+    if (current.clientId === uid) {
+        throw new HttpsError("invalid-argument", "Nie możesz przyjąć własnego zlecenia");
+    }
+
+    await assertSlotFree(bookingId, { ...current, hostId: uid });
+    const { hostSnapshot } = await resolveOffer(uid, current.clientId);
+
+    const result = await runTransition(bookingId, (booking, now) => {
+        if (booking.hostId !== MARKETPLACE_HOST_ID) {
+            throw new HttpsError("aborted", "Zlecenie przyjął już inny fachowiec");
+        }
+        assertTransition(booking, "PENDING_PAYMENT");
+
+        const slotHold = createSlotHold(now);
+        return {
+            history: [statusChange("PENDING_PAYMENT", uid, now)],
+            events: [{ type: "slot_held", actor: "system", data: { expiresAt: slotHold.expiresAt } }],
+            updates: { hostId: uid, hostSnapshot, slotHold }
+        };
+    }, (transaction, booking) => assertDailyCapacity(transaction, bookingId, { ...booking, hostId: uid }));
+
+    await notifyUser(current.clientId, {
+        title: "Fachowiec przyjął zlecenie",
+        body: `${hostSnapshot.displayName || "Fachowiec"} przyjął Twoje zlecenie. Opłać rezerwację, aby ją potwierdzić.`,
+        data: { bookingId, type: "BOOKING_AWAITING_PAYMENT" }
+    });
+
+    return result;
+});
+
+/**
+ * Potwierdzenie płatności (PENDING_PAYMENT → CONFIRMED).
+ * Po wygaśnięciu blokady terminu płatność przechodzi tylko, gdy termin
+ * jest nadal wolny. paymentId jest sprawdzany w Stripe (rezerwacja,
+ * status, kwota) przed zmianą statusu.
+ */
+export const bookingConfirmPayment = onCall<{ bookingId: string; paymentId: string }>(async (request) => {
+    const uid = requireAuth(request);
+    const bookingId = requireString(request.data?.bookingId, "bookingId");
+    const paymentId = requireString(request.data?.paymentId, "paymentId");
+
+    const current = await getBooking(bookingId);
+    assertClient(uid, current);
+    await verifyBookingPayment(paymentId, bookingId, current);
+    if (!isSlotHeld(current, admin.firestore.Timestamp.now())) {
+        await assertSlotFree(bookingId, current);
+    }
+
+    return runTransition(bookingId, (booking, now) => {
+        assertClient(uid, booking);
+        assertTransition(booking, "CONFIRMED");
+
+        return {
+            history: [statusChange("CONFIRMED", "system", now)],
+            updates: {
+                paymentId,
+                paymentStatus: "captured",
+                ...(booking.slotHold && { slotHold: releasedSlotHold(booking.slotHold, now, "paid") })
+            }
+        };
+    });
+});
+
+// ===========================================
+// SLOT HOLD (checkout)
+// ===========================================
+
+/**
+ * Ponowne zablokowanie terminu przed kolejną próbą płatności
+ * (po wygaśnięciu blokady lub nieudanej płatności).
+ */
+export const bookingHoldSlot = onCall<{ bookingId: string }>(async (request) => {
+    const uid = requireAuth(request);
+    const bookingId = requireString(request.data?.bookingId, "bookingId");
+
+    const current = await getBooking(bookingId);
+    assertClient(uid, current);
+    if (current.status !== "PENDING_PAYMENT") {
+        throw new HttpsError("failed-precondition", "Rezerwacja nie czeka na płatność");
+    }
+    if (!isSlotHeld(current, admin.firestore.Timestamp.now())) {
+        await assertSlotFree(bookingId, current);
+    }
+
+    return runTransition(bookingId, (booking, now) => {
+        assertClient(uid, booking);
+        if (booking.status !== "PENDING_PAYMENT") {
+            throw new HttpsError("failed-precondition", "Rezerwacja nie czeka na płatność");
+        }
+
+        // Still held - keep the running hold instead of extending it
+        if (isSlotHeld(booking, now) && booking.slotHold) {
+            return { history: [], result: { holdExpiresAt: booking.slotHold.expiresAt.toMillis() } };
+        }
+
+        const slotHold = createSlotHold(now);
+        return {
+            history: [],
+            events: [{ type: "slot_held", actor: uid, data: { expiresAt: slotHold.expiresAt } }],
+            updates: {
+                slotHold,
+                ...(booking.paymentStatus === "failed" && { paymentStatus: "pending" })
+            },
+            result: { holdExpiresAt: slotHold.expiresAt.toMillis() }
+        };
+    });
+});
+
+/**
+ * Nieudana płatność - zwalnia termin od razu, rezerwacja zostaje
+ * w PENDING_PAYMENT (można ponowić płatność albo anulować).
+ */
+export const bookingReportPaymentFailed = onCall<{ bookingId: string; reason?: string }>(async (request) => {
+    const uid = requireAuth(request);
+    const bookingId = requireString(request.data?.bookingId, "bookingId");
+    const reason = typeof request.data?.reason === "string" ? request.data.reason.slice(0, 200) : undefined;
+
+    return runTransition(bookingId, (booking, now) => {
+        assertClient(uid, booking);
+        if (booking.status !== "PENDING_PAYMENT") {
+            throw new HttpsError("failed-precondition", "Rezerwacja nie czeka na płatność");
+        }
+
+        return {
+            history: [],
+            events: [{ type: "slot_released", actor: uid, reason, data: { releaseReason: "payment_failed" } }],
+            updates: {
+                paymentStatus: "failed",
+                ...(booking.slotHold?.active && { slotHold: releasedSlotHold(booking.slotHold, now, "payment_failed") })
+            }
+        };
+    });
+});
+
+// ===========================================
+// CHECK-IN / CHECK-OUT (GPS)
+// ===========================================
+
+// Max distance from serviceLocation for a verified check-in/out
+const CHECK_IN_RADIUS_METERS = Number(process.env.CHECK_IN_RADIUS_METERS) || 300;
+
+// Check-in up to this many minutes after scheduledDate still counts as on time
+const ON_TIME_GRACE_MINUTES = 15;
+
+interface GeoPosition {
+    lat: number;
+    lng: number;
+    accuracy?: number;   // meters, from the browser Geolocation API
+}
+
+function parsePosition(value: unknown): GeoPosition | null {
+    const position = value as Partial<GeoPosition> | undefined;
+    if (!position || (position.lat === undefined && position.lng === undefined)) {
+        return null;
+    }
+    if (!isValidLatLng(position.lat, position.lng)) {
+        throw new HttpsError("invalid-argument", "Nieprawidłowa lokalizacja");
+    }
+    const accuracy = position.accuracy;
+    return {
+        lat: position.lat as number,
+        lng: position.lng as number,
+        ...(typeof accuracy === "number" && Number.isFinite(accuracy) && accuracy >= 0 && { accuracy })
+    };
+}
+
+/**
+ * Compares the host's position with serviceLocation. Check-ins outside the
+ * radius (or without GPS) are not blocked, only flagged on the booking.
+ */
+function verifyLocation(
+    booking: BookingDoc,
+    position: GeoPosition | null,
+    now: admin.firestore.Timestamp
+): LocationVerification {
+    if (!position) {
+        return { status: "no_location", radiusMeters: CHECK_IN_RADIUS_METERS, recordedAt: now };
+    }
+
+    const distanceMeters = Math.round(calculateDistance(
+        position.lat,
+        position.lng,
+        booking.serviceLocation.lat,
+        booking.serviceLocation.lng
+    ) * 1000);
+
+    return {
+        status: distanceMeters <= CHECK_IN_RADIUS_METERS ? "verified" : "outside_radius",
+        lat: position.lat,
+        lng: position.lng,
+        ...(typeof position.accuracy === "number" && { accuracyMeters: Math.round(position.accuracy) }),
+        distanceMeters,
+        radiusMeters: CHECK_IN_RADIUS_METERS,
+        recordedAt: now
+    };
+}
+
+/**
+ * Fachowiec rozpoczyna usługę (check-in) z pozycją GPS.
+ * Punktualność liczona względem scheduledDate zasila odznakę on_time_master.
+ */
+export const bookingCheckIn = onCall<{ bookingId: string; position?: GeoPosition }>(async (request) => {
+    const uid = requireAuth(request);
+    const bookingId = requireString(request.data?.bookingId, "bookingId");
+    const position = parsePosition(request.data?.position);
+
+    const result = await runTransition(bookingId, (booking, now) => {
+        assertCanPerform(uid, booking, "check_in");
+        assertTransition(booking, "ACTIVE");
+
+        const minutesLate = Math.round((now.toMillis() - booking.scheduledDate.toMillis()) / 60000);
+        const located = verifyLocation(booking, position, now);
+        const verification: LocationVerification = {
+            ...located,
+            minutesLate,
+            // Punktualność wymaga potwierdzonej obecności na miejscu
+            isOnTime: located.status === "verified" && minutesLate <= ON_TIME_GRACE_MINUTES
+        };
+
+        return {
+            history: [statusChange("ACTIVE", uid, now)],
+            events: [{ type: "check_in_verified", actor: uid, data: { ...verification } }],
+            updates: { checkIn: now, checkInVerification: verification },
+            result: { verification: { ...verification, recordedAt: now.toMillis() } }
+        };
+    });
+
+    const verification = result.verification as LocationVerification;
+    if (verification.status !== "verified") {
+        logger.warn(`Booking ${bookingId}: check-in flagged (${verification.status}, ${verification.distanceMeters ?? "?"} m)`);
+    }
+    await recalculatePunctuality(uid);
+
+    return result;
+});
+
+/**
+ * Fachowiec kończy usługę (check-out) - otwiera 14-dniowe okno recenzji
+ */
+export const bookingCheckOut = onCall<{ bookingId: string; position?: GeoPosition }>(async (request) => {
+    const uid = requireAuth(request);
+    const bookingId = requireString(request.data?.bookingId, "bookingId");
+    const position = parsePosition(request.data?.position);
+
+    return runTransition(bookingId, (booking, now) => {
+        assertCanPerform(uid, booking, "check_out");
+        assertTransition(booking, "COMPLETED");
+
+        const reviewWindowEnd = new Date(now.toMillis());
+        reviewWindowEnd.setDate(reviewWindowEnd.getDate() + 14);
+
+        // Dopłaty bez odpowiedzi klienta przepadają - kwota końcowa jest zamrożona
+        const charges = booking.pricing.additionalCharges || [];
+        const pendingCharges = charges.filter(c => c.status === "pending");
+        const hasPendingCharges = pendingCharges.length > 0;
+        const verification = verifyLocation(booking, position, now);
+
+        return {
+            history: [statusChange("COMPLETED", uid, now)],
+            events: [
+                { type: "check_out_verified", actor: uid, data: { ...verification } },
+                ...pendingCharges.map(c => ({
+                    type: "charge_answered" as const,
+                    actor: "system",
+                    data: { chargeId: c.id, status: "expired" }
+                }))
+            ],
+            updates: {
+                checkOut: now,
+                checkOutVerification: verification,
+                reviewWindowEndsAt: admin.firestore.Timestamp.fromDate(reviewWindowEnd),
+                ...(hasPendingCharges && {
+                    "pricing.additionalCharges": charges.map(c =>
+                        c.status === "pending" ? { ...c, status: "expired", respondedAt: now } : c
+                    )
+                })
+            }
+        };
+    });
+});
+
+// How long the host waits on site before reporting a client no-show
+const CLIENT_NO_SHOW_WAIT_MINUTES = 15;
+
+/**
+ * Fachowiec zgłasza nieobecność klienta (CONFIRMED → NO_SHOW_CLIENT).
+ * Wymaga odczekania CLIENT_NO_SHOW_WAIT_MINUTES od terminu; pozycja GPS
+ * jest zapisywana jako dowód obecności fachowca. Zwrot jak przy anulowaniu
+ * przez klienta po terminie (najniższy próg polityki).
+ */
+export const bookingReportNoShow = onCall<{ bookingId: string; position?: GeoPosition }>(async (request) => {
+    const uid = requireAuth(request);
+    const bookingId = requireString(request.data?.bookingId, "bookingId");
+    const position = parsePosition(request.data?.position);
+
+    let reported: BookingDoc | undefined;
+    const result = await runTransition(bookingId, (booking, now) => {
+        if (uid !== booking.hostId) {
+            throw new HttpsError("permission-denied", "Tylko fachowiec może zgłosić nieobecność klienta");
+        }
+        assertTransition(booking, "NO_SHOW_CLIENT");
+
+        const waitedMinutes = (now.toMillis() - booking.scheduledDate.toMillis()) / 60000;
+        if (waitedMinutes < CLIENT_NO_SHOW_WAIT_MINUTES) {
+            throw new HttpsError(
+                "failed-precondition",
+                `Nieobecność można zgłosić ${CLIENT_NO_SHOW_WAIT_MINUTES} min po terminie usługi`
+            );
+        }
+
+        const refund = calculateRefund(booking, "client", now);
+        reported = booking;
+
+        return {
+            history: [statusChange("NO_SHOW_CLIENT", uid, now, "Klient nieobecny w miejscu usługi")],
+            updates: {
+                noShowVerification: verifyLocation(booking, position, now),
+                refund,
+                paymentStatus: getPaymentStatusAfterRefund(booking, refund)
+            },
+            result: { refund: { ...refund, calculatedAt: now.toMillis() } }
+        };
+    });
+    if (!reported) {
+        throw new HttpsError("internal", "Nie udało się zgłosić nieobecności");
+    }
+
+    await postSystemMessage(
+        reported.chatId,
+        "🚫 Fachowiec zgłosił nieobecność klienta. Rezerwacja została zamknięta."
+    );
+    await notifyUser(reported.clientId, {
+        title: "Zgłoszono Twoją nieobecność",
+        body: "Fachowiec nie zastał Cię w miejscu usługi. Zwrot zgodnie z polityką anulowania.",
+        data: { bookingId, type: "BOOKING_NO_SHOW_CLIENT" }
+    });
+
+    return result;
+});
+
+/**
+ * Anulowanie rezerwacji - zwrot wg polityki anulowania
+ */
+export const bookingCancel = onCall<{ bookingId: string; reason?: string }>(async (request) => {
+    const uid = requireAuth(request);
+    const bookingId = requireString(request.data?.bookingId, "bookingId");
+    const reason = typeof request.data?.reason === "string" ? request.data.reason : undefined;
+
+    return runTransition(bookingId, (booking, now) => cancelOutcome(uid, booking, now, reason));
+});
+
+// ===========================================
+// RESCHEDULE
+// ===========================================
+
+// How long the other party has to answer a reschedule proposal
+const RESCHEDULE_RESPONSE_HOURS = 48;
+
+function participantName(uid: string, booking: BookingDoc): string {
+    return uid === booking.hostId
+        ? booking.hostSnapshot?.displayName || "Fachowiec"
+        : booking.clientSnapshot?.displayName || "Klient";
+}
+
+function isReschedulePending(booking: BookingDoc, now: admin.firestore.Timestamp): boolean {
+    return booking.reschedule?.status === "pending" &&
+        booking.reschedule.expiresAt.toMillis() > now.toMillis();
+}
+
+/**
+ * Propozycja zmiany terminu potwierdzonej rezerwacji.
+ * Druga strona może odpowiedzieć własną propozycją (kontrpropozycja),
+ * która zastępuje oczekującą.
+ */
+export const bookingRequestReschedule = onCall<{ bookingId: string; proposedDate: string }>(async (request) => {
+    const uid = requireAuth(request);
+    const bookingId = requireString(request.data?.bookingId, "bookingId");
+
+    const proposedDate = new Date(requireString(request.data?.proposedDate, "proposedDate"));
+    if (isNaN(proposedDate.getTime()) || proposedDate.getTime() < Date.now()) {
+        throw new HttpsError("invalid-argument", "Nieprawidłowa data usługi");
+    }
+
+    const current = await getBooking(bookingId);
+    assertParticipant(uid, current);
+    if (!await isHostAvailable(current.hostId, proposedDate, current.estimatedDuration, bookingId)) {
+        throw new HttpsError("failed-precondition", "Fachowiec nie jest dostępny w tym terminie");
+    }
+
+    const proposed = admin.firestore.Timestamp.fromDate(proposedDate);
+    const result = await runTransition(bookingId, (booking, now) => {
+        assertParticipant(uid, booking);
+        if (booking.status !== "CONFIRMED") {
+            throw new HttpsError("failed-precondition", "Termin można zmienić tylko w potwierdzonej rezerwacji");
+        }
+
+        const pending = isReschedulePending(booking, now);
+        if (pending && booking.reschedule?.proposedBy === uid) {
+            throw new HttpsError("failed-precondition", "Czekasz już na odpowiedź na propozycję zmiany terminu");
+        }
+        if (proposed.isEqual(booking.scheduledDate)) {
+            throw new HttpsError("invalid-argument", "Proponowany termin jest taki sam jak obecny");
+        }
+
+        // Propozycja musi zostać rozpatrzona przed obecnym terminem usługi
+        const expiresAt = admin.firestore.Timestamp.fromMillis(Math.min(
+            now.toMillis() + RESCHEDULE_RESPONSE_HOURS * 60 * 60 * 1000,
+            booking.scheduledDate.toMillis()
+        ));
+        if (expiresAt.toMillis() <= now.toMillis()) {
+            throw new HttpsError("failed-precondition", "Za późno na zmianę terminu");
+        }
+
+        const reschedule: RescheduleRequest = {
+            proposedDate: proposed,
+            previousDate: booking.scheduledDate,
+            proposedBy: uid,
+            isCounter: pending,
+            status: "pending",
+            expiresAt,
+            createdAt: now
+        };
+
+        return {
+            history: [],
+            events: [{
+                type: "reschedule_requested",
+                actor: uid,
+                data: { proposedDate: proposed, previousDate: booking.scheduledDate, isCounter: pending }
+            }],
+            updates: { reschedule },
+            result: { isCounter: pending }
+        };
+    });
+
+    const recipientId = uid === current.hostId ? current.clientId : current.hostId;
+    const name = participantName(uid, current);
+    const when = formatServiceDate(proposedDate);
+
+    await postSystemMessage(
+        current.chatId,
+        result.isCounter
+            ? `📅 ${name} proponuje inny termin: ${when}`
+            : `📅 ${name} prosi o zmianę terminu na ${when}`,
+        {
+            type: "action",
+            actionData: {
+                type: "reschedule_requested",
+                payload: { bookingId, proposedDate: proposed, proposedBy: uid }
+            }
+        }
+    );
+    await notifyUser(recipientId, {
+        title: "Prośba o zmianę terminu",
+        body: `${name} proponuje nowy termin: ${when}`,
+        data: { bookingId, type: "BOOKING_RESCHEDULE_REQUESTED" }
+    });
+
+    logger.info(`Reschedule of booking ${bookingId} requested by ${uid}`);
+    return result;
+});
+
+/**
+ * Odpowiedź na propozycję zmiany terminu (druga strona rezerwacji).
+ * Akceptacja przenosi rezerwację - status pozostaje CONFIRMED,
+ * a zmiana trafia do statusHistory.
+ */
+export const bookingRespondReschedule = onCall<{ bookingId: string; accept: boolean }>(async (request) => {
+    const uid = requireAuth(request);
+    const bookingId = requireString(request.data?.bookingId, "bookingId");
+    const accept = request.data?.accept === true;
+
+    const current = await getBooking(bookingId);
+    assertParticipant(uid, current);
+    const checkedDate = current.reschedule?.proposedDate;
+    if (!checkedDate) {
+        throw new HttpsError("failed-precondition", "Brak propozycji zmiany terminu");
+    }
+
+    // Kalendarz fachowca mógł się zmienić od złożenia propozycji
+    if (accept && !await isHostAvailable(current.hostId, checkedDate.toDate(), current.estimatedDuration, bookingId)) {
+        throw new HttpsError("failed-precondition", "Fachowiec nie jest już dostępny w tym terminie");
+    }
+
+    const result = await runTransition(bookingId, (booking, now) => {
+        const reschedule = booking.reschedule;
+        if (!reschedule || !isReschedulePending(booking, now)) {
+            throw new HttpsError("failed-precondition", "Propozycja zmiany terminu wygasła lub została rozpatrzona");
+        }
+        if (reschedule.proposedBy === uid) {
+            throw new HttpsError("permission-denied", "Nie możesz odpowiedzieć na własną propozycję");
+        }
+        if (booking.status !== "CONFIRMED") {
+            throw new HttpsError("failed-precondition", "Termin można zmienić tylko w potwierdzonej rezerwacji");
+        }
+        if (!reschedule.proposedDate.isEqual(checkedDate)) {
+            throw new HttpsError("aborted", "Propozycja została zmieniona - odśwież rezerwację");
+        }
+
+        const answered: RescheduleRequest = {
+            ...reschedule,
+            status: accept ? "accepted" : "declined",
+            respondedAt: now
+        };
+
+        const events: BookingEventInput[] = [{
+            type: "reschedule_answered",
+            actor: uid,
+            data: { proposedDate: reschedule.proposedDate, status: answered.status }
+        }];
+
+        if (!accept) {
+            return { history: [], events, updates: { reschedule: answered } };
+        }
+
+        return {
+            history: [statusChange(
+                "CONFIRMED",
+                uid,
+                now,
+                `Zmiana terminu: ${formatServiceDate(booking.scheduledDate.toDate())} → ${formatServiceDate(reschedule.proposedDate.toDate())}`
+            )],
+            events,
+            updates: {
+                reschedule: answered,
+                scheduledDate: reschedule.proposedDate
+            }
+        };
+    });
+
+    const proposerId = current.reschedule?.proposedBy || "";
+    const name = participantName(uid, current);
+    const when = formatServiceDate(checkedDate.toDate());
+
+    await postSystemMessage(
+        current.chatId,
+        accept
+            ? `✅ ${name} zaakceptował(a) nowy termin: ${when}`
+            : `❌ ${name} odrzucił(a) propozycję zmiany terminu`,
+        {
+            type: "action",
+            actionData: {
+                type: accept ? "reschedule_accepted" : "reschedule_declined",
+                payload: { bookingId, proposedDate: checkedDate }
+            }
+        }
+    );
+    if (proposerId) {
+        await notifyUser(proposerId, {
+            title: accept ? "Termin zmieniony" : "Zmiana terminu odrzucona",
+            body: accept
+                ? `Nowy termin usługi: ${when}`
+                : `${name} nie przyjął(ęła) proponowanego terminu`,
+            data: { bookingId, type: accept ? "BOOKING_RESCHEDULED" : "BOOKING_RESCHEDULE_DECLINED" }
+        });
+    }
+
+    logger.info(`Reschedule of booking ${bookingId} ${accept ? "accepted" : "declined"} by ${uid}`);
+    return result;
+});
+
+// ===========================================
+// ADDITIONAL CHARGES (change orders)
+// ===========================================
+
+const MAX_CHARGE_DESCRIPTION_LENGTH = 200;
+
+/**
+ * Fachowiec dolicza dodatkową pracę w trakcie usługi (ACTIVE).
+ * Pozycja czeka na akceptację klienta w czacie (wiadomość payment_request)
+ * i nie wpływa na totalAmount, dopóki nie zostanie zaakceptowana.
+ */
+export const bookingAddCharge = onCall<{ bookingId: string; description: string; amount: number }>(async (request) => {
+    const uid = requireAuth(request);
+    const bookingId = requireString(request.data?.bookingId, "bookingId");
+    const description = requireString(
+        typeof request.data?.description === "string" ? request.data.description.trim() : undefined,
+        "description"
+    );
+    const amount = request.data?.amount;
+
+    if (description.length > MAX_CHARGE_DESCRIPTION_LENGTH) {
+        throw new HttpsError("invalid-argument", "Opis dopłaty jest za długi");
+    }
+    if (typeof amount !== "number" || !isFinite(amount) || amount <= 0) {
+        throw new HttpsError("invalid-argument", "Nieprawidłowa kwota dopłaty");
+    }
+
+    const charge: AdditionalCharge = {
+        id: randomUUID(),
+        description,
+        amount: Math.round(amount * 100) / 100,
+        status: "pending",
+        requestedAt: admin.firestore.Timestamp.now()
+    };
+
+    let booking: BookingDoc | undefined;
+    await runTransition(bookingId, (current) => {
+        if (uid !== current.hostId) {
+            throw new HttpsError("permission-denied", "Tylko fachowiec może dodać dopłatę");
+        }
+        if (current.status !== "ACTIVE") {
+            throw new HttpsError("failed-precondition", "Usługa nie jest w trakcie realizacji");
+        }
+        booking = current;
+
+        return {
+            history: [],
+            events: [{
+                type: "charge_added",
+                actor: uid,
+                data: { chargeId: charge.id, description: charge.description, amount: charge.amount }
+            }],
+            updates: {
+                "pricing.additionalCharges": [...(current.pricing.additionalCharges || []), charge]
+            }
+        };
+    });
+    if (!booking) {
+        throw new HttpsError("internal", "Nie udało się dodać dopłaty");
+    }
+
+    await postSystemMessage(
+        booking.chatId,
+        `💳 Dopłata: ${charge.description} - ${charge.amount} zł. Czeka na akceptację klienta.`,
+        {
+            type: "payment_request",
+            actionData: {
+                type: "payment_request",
+                payload: {
+                    bookingId,
+                    chargeId: charge.id,
+                    clientId: booking.clientId,
+                    description: charge.description,
+                    amount: charge.amount,
+                    status: "pending"
+                }
+            }
+        }
+    );
+
+    await notifyUser(booking.clientId, {
+        title: "Prośba o dopłatę",
+        body: `${booking.hostSnapshot?.displayName || "Fachowiec"}: ${charge.description} - ${charge.amount} zł`,
+        data: { bookingId, type: "BOOKING_CHARGE_REQUESTED" }
+    });
+
+    logger.info(`Charge ${charge.id} (${charge.amount} PLN) added to booking ${bookingId}`);
+    return { bookingId, newStatus: booking.status, chargeId: charge.id };
+});
+
+/**
+ * Klient akceptuje lub odrzuca dopłatę - totalAmount liczony ponownie
+ * wyłącznie z zaakceptowanych pozycji (przed checkOut)
+ */
+export const bookingRespondCharge = onCall<{ bookingId: string; chargeId: string; approve: boolean }>(async (request) => {
+    const uid = requireAuth(request);
+    const bookingId = requireString(request.data?.bookingId, "bookingId");
+    const chargeId = requireString(request.data?.chargeId, "chargeId");
+    const approve = request.data?.approve === true;
+
+    let booking: BookingDoc | undefined;
+    let answered: AdditionalCharge | undefined;
+
+    const result = await runTransition(bookingId, (current, now) => {
+        assertClient(uid, current);
+        if (current.status !== "ACTIVE") {
+            throw new HttpsError("failed-precondition", "Usługa nie jest w trakcie realizacji");
+        }
+
+        const charges = current.pricing.additionalCharges || [];
+        const charge = charges.find(c => c.id === chargeId);
+        if (!charge) {
+            throw new HttpsError("not-found", "Dopłata nie istnieje");
+        }
+        if (charge.status !== "pending") {
+            throw new HttpsError("failed-precondition", "Dopłata została już rozpatrzona");
+        }
+
+        answered = { ...charge, status: approve ? "approved" : "rejected", respondedAt: now };
+        const updatedCharges = charges.map(c => c.id === chargeId ? answered as AdditionalCharge : c);
+        const totalAmount = calculateTotalAmount(current.pricing.baseAmount, updatedCharges);
+        booking = current;
+
+        return {
+            history: [],
+            events: [{
+                type: "charge_answered",
+                actor: uid,
+                data: { chargeId, status: answered.status, totalAmount }
+            }],
+            updates: {
+                "pricing.additionalCharges": updatedCharges,
+                "pricing.totalAmount": totalAmount
+            },
+            result: { totalAmount }
+        };
+    });
+    if (!booking || !answered) {
+        throw new HttpsError("internal", "Nie udało się zapisać odpowiedzi");
+    }
+
+    // Aktualizacja karty dopłaty w czacie
+    const chargeStatus = answered.status;
+    const requestMessages = await admin.firestore()
+        .collection("chats").doc(booking.chatId)
+        .collection("messages")
+        .where("actionData.payload.chargeId", "==", chargeId)
+        .get();
+    await Promise.all(requestMessages.docs.map(doc =>
+        doc.ref.update({ "actionData.payload.status": chargeStatus })
+    ));
+    await postSystemMessage(
+        booking.chatId,
+        approve
+            ? `✅ Klient zaakceptował dopłatę: ${answered.description} - ${answered.amount} zł`
+            : `❌ Klient odrzucił dopłatę: ${answered.description}`
+    );
+    await notifyUser(booking.hostId, {
+        title: approve ? "Dopłata zaakceptowana" : "Dopłata odrzucona",
+        body: `${answered.description} - ${answered.amount} zł`,
+        data: { bookingId, type: approve ? "BOOKING_CHARGE_APPROVED" : "BOOKING_CHARGE_REJECTED" }
+    });
+
+    return result;
+});
+
+// ===========================================
+// AUDIT LOG
+// ===========================================
+
+/**
+ * Weryfikacja łańcucha zdarzeń rezerwacji (spory, wsparcie).
+ * Dostępna dla obu stron - raport wskazuje każde zerwanie łańcucha.
+ */
+export const bookingVerifyEvents = onCall<{ bookingId: string }>(async (request) => {
+    const uid = requireAuth(request);
+    const bookingId = requireString(request.data?.bookingId, "bookingId");
+
+    assertParticipant(uid, await getBooking(bookingId));
+
+    const report = await verifyBookingEvents(bookingId);
+    if (!report.valid) {
+        logger.error(`Booking ${bookingId}: event chain broken`, report.breaks);
+    }
+    return report;
+});
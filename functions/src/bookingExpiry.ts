@@ -0,0 +1,194 @@
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { BookingDoc, StatusChange, calculateRefund, getPaymentStatusAfterRefund } from "./lib/bookingMachine";
+import { appendBookingEvents, statusEvents } from "./lib/bookingEvents";
+import { SLOT_HOLD_MINUTES, releasedSlotHold } from "./lib/bookingStore";
+import { postSystemMessage } from "./lib/chat";
+import { notifyUser } from "./lib/notifications";
+import { recalculateRequestMetrics } from "./lib/hostMetrics";
+
+// Initialize admin if not already initialized
+if (!admin.apps.length) {
+    admin.initializeApp();
+}
+
+/** How long a host has to answer a Request to Book */
+const PENDING_APPROVAL_TIMEOUT_HOURS = 24;
+
+/**
+ * Scheduled: expire PENDING_APPROVAL bookings the host never answered
+ *
+ * Runs hourly. For every request older than 24h:
+ * 1. PENDING_APPROVAL → EXPIRED with a 'system' statusHistory entry;
+ *    a prepaid request (paymentStatus "authorized") is refunded in full,
+ *    the same as a host cancellation
+ * 2. System message in the booking chat
+ * 3. Push notification to the client
+ * 4. Host's acceptanceRate / responseRate recalculated
+ */
+export const expirePendingBookings = onSchedule(
+    { schedule: "0 * * * *", timeZone: "Europe/Warsaw" },
+    async () => {
+        const db = admin.firestore();
+        const cutoff = admin.firestore.Timestamp.fromMillis(
+            Date.now() - PENDING_APPROVAL_TIMEOUT_HOURS * 60 * 60 * 1000
+        );
+
+        // updatedAt is set when the booking enters PENDING_APPROVAL and
+        // nothing else touches it while the request is pending
+        const pendingSnap = await db.collection("bookings")
+            .where("status", "==", "PENDING_APPROVAL")
+            .where("updatedAt", "<=", cutoff)
+            .get();
+
+        if (pendingSnap.empty) {
+            return;
+        }
+
+        const affectedHosts = new Set<string>();
+        let expiredCount = 0;
+
+        for (const bookingDoc of pendingSnap.docs) {
+            try {
+                const expired = await db.runTransaction(async (transaction) => {
+                    const snap = await transaction.get(bookingDoc.ref);
+                    const booking = snap.data() as BookingDoc | undefined;
+
+                    // Host may have answered since the query ran
+                    if (!booking || booking.status !== "PENDING_APPROVAL") {
+                        return null;
+                    }
+
+                    const now = admin.firestore.Timestamp.now();
+                    const change: StatusChange = {
+                        status: "EXPIRED",
+                        changedAt: now,
+                        changedBy: "system",
+                        reason: `Brak odpowiedzi fachowca w ciągu ${PENDING_APPROVAL_TIMEOUT_HOURS}h`
+                    };
+                    const refund = calculateRefund(booking, "host", now);
+
+                    transaction.update(bookingDoc.ref, {
+                        status: "EXPIRED",
+                        statusHistory: [...(booking.statusHistory || []), change],
+                        refund,
+                        paymentStatus: getPaymentStatusAfterRefund(booking, refund),
+                        eventsHead: appendBookingEvents(transaction, bookingDoc.ref, booking.eventsHead, statusEvents([change]), now),
+                        updatedAt: now
+                    });
+
+                    return { booking, refunded: refund.refundAmount > 0 };
+                });
+
+                if (!expired) continue;
+
+                expiredCount++;
+                affectedHosts.add(expired.booking.hostId);
+
+                const refundNote = expired.refunded ? " Płatność zwracamy w całości." : "";
+                await postSystemMessage(
+                    expired.booking.chatId,
+                    `⏰ Prośba o rezerwację wygasła - fachowiec nie odpowiedział w ciągu ${PENDING_APPROVAL_TIMEOUT_HOURS}h.${refundNote}`
+                );
+
+                await notifyUser(expired.booking.clientId, {
+                    title: "Rezerwacja wygasła",
+                    body: `${expired.booking.hostSnapshot?.displayName || "Fachowiec"} nie odpowiedział na Twoją prośbę.${refundNote} Wybierz innego fachowca.`,
+                    data: {
+                        bookingId: bookingDoc.id,
+                        type: "BOOKING_EXPIRED"
+                    }
+                });
+            } catch (error) {
+                logger.error(`Error expiring booking ${bookingDoc.id}:`, error);
+            }
+        }
+
+        for (const hostId of affectedHosts) {
+            try {
+                await recalculateRequestMetrics(hostId);
+            } catch (error) {
+                logger.error(`Error updating metrics for host ${hostId}:`, error);
+            }
+        }
+
+        logger.info(`Expired ${expiredCount} pending bookings`);
+    }
+);
+
+/**
+ * Scheduled: release slot holds of unpaid bookings
+ *
+ * Runs every 5 minutes. Availability checks already ignore expired holds;
+ * releasing them here refreshes the availability index and tells the
+ * client. The booking stays PENDING_PAYMENT - the client can hold the
+ * slot again and pay (if still free) or cancel.
+ */
+export const releaseExpiredSlotHolds = onSchedule(
+    { schedule: "*/5 * * * *", timeZone: "Europe/Warsaw" },
+    async () => {
+        const db = admin.firestore();
+
+        const heldSnap = await db.collection("bookings")
+            .where("status", "==", "PENDING_PAYMENT")
+            .where("slotHold.active", "==", true)
+            .where("slotHold.expiresAt", "<=", admin.firestore.Timestamp.now())
+            .get();
+
+        if (heldSnap.empty) {
+            return;
+        }
+
+        let releasedCount = 0;
+
+        for (const bookingDoc of heldSnap.docs) {
+            try {
+                const released = await db.runTransaction(async (transaction) => {
+                    const snap = await transaction.get(bookingDoc.ref);
+                    const booking = snap.data() as BookingDoc | undefined;
+                    const now = admin.firestore.Timestamp.now();
+
+                    // Paid, canceled or held again since the query ran
+                    if (!booking || booking.status !== "PENDING_PAYMENT" || !booking.slotHold?.active ||
+                        booking.slotHold.expiresAt.toMillis() > now.toMillis()) {
+                        return null;
+                    }
+
+                    transaction.update(bookingDoc.ref, {
+                        slotHold: releasedSlotHold(booking.slotHold, now, "expired"),
+                        eventsHead: appendBookingEvents(transaction, bookingDoc.ref, booking.eventsHead, [{
+                            type: "slot_released",
+                            actor: "system",
+                            data: { releaseReason: "expired" }
+                        }], now),
+                        updatedAt: now
+                    });
+
+                    return booking;
+                });
+
+                if (!released) continue;
+                releasedCount++;
+
+                await postSystemMessage(
+                    released.chatId,
+                    `⏰ Termin nie jest już zarezerwowany - płatność nie została dokończona w ciągu ${SLOT_HOLD_MINUTES} min.`
+                );
+
+                await notifyUser(released.clientId, {
+                    title: "Dokończ płatność",
+                    body: `Termin u ${released.hostSnapshot?.displayName || "fachowca"} nie jest już zarezerwowany. Zapłać, jeśli jest wolny, albo anuluj rezerwację.`,
+                    data: {
+                        bookingId: bookingDoc.id,
+                        type: "BOOKING_SLOT_RELEASED"
+                    }
+                });
+            } catch (error) {
+                logger.error(`Error releasing slot hold of booking ${bookingDoc.id}:`, error);
+            }
+        }
+
+        logger.info(`Released ${releasedCount} expired slot holds`);
+    }
+);
@@ -0,0 +1,35 @@
+import { onDocumentUpdated } from "firebase-functions/v2/firestore";
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { recalculateCancellationRate, recalculateRequestMetrics, recordClientNoShow } from "./lib/hostMetrics";
+
+// Initialize admin if not already initialized
+if (!admin.apps.length) {
+    admin.initializeApp();
+}
+
+/**
+ * Trigger: booking status changed to CANCELED_BY_HOST, NO_SHOW_HOST or NO_SHOW_CLIENT
+ * Action: refresh the host's cancellationRate (and acceptanceRate /
+ * responseRate when the host declined a pending Request to Book);
+ * a client no-show is counted on the client's profile instead.
+ */
+export const onBookingCanceledByHost = onDocumentUpdated("bookings/{bookingId}", async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (!before || !after || before.status === after.status) return;
+
+    try {
+        if (after.status === "CANCELED_BY_HOST" || after.status === "NO_SHOW_HOST") {
+            await recalculateCancellationRate(after.hostId);
+
+            if (before.status === "PENDING_APPROVAL") {
+                await recalculateRequestMetrics(after.hostId);
+            }
+        } else if (after.status === "NO_SHOW_CLIENT") {
+            await recordClientNoShow(after.clientId);
+        }
+    } catch (error) {
+        logger.error(`Error updating metrics for booking ${event.params.bookingId}:`, error);
+    }
+});
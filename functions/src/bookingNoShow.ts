@@ -0,0 +1,121 @@
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {
+    BookingDoc,
+    calculateRefund,
+    getPaymentStatusAfterRefund,
+    isValidTransition,
+    statusChange
+} from "./lib/bookingMachine";
+import { appendBookingEvents, statusEvents } from "./lib/bookingEvents";
+import { postSystemMessage } from "./lib/chat";
+import { notifyUser } from "./lib/notifications";
+
+// Initialize admin if not already initialized
+if (!admin.apps.length) {
+    admin.initializeApp();
+}
+
+// How long after scheduledDate the host has to check in
+const HOST_NO_SHOW_GRACE_MINUTES = 60;
+
+// Check-in in the host's booking list (DashboardView) is available for
+// services from this date on - earlier bookings are never marked
+const CHECK_IN_AVAILABLE_SINCE = admin.firestore.Timestamp.fromDate(new Date("2026-10-20T00:00:00+02:00"));
+
+/**
+ * The host could have checked in only if the booking was already
+ * CONFIRMED when the service started - a booking paid or rescheduled
+ * after its start time never gave the host that chance.
+ */
+function confirmedBeforeStart(booking: BookingDoc): boolean {
+    const confirmed = [...(booking.statusHistory || [])].reverse().find(h => h.status === "CONFIRMED");
+    return !!confirmed && confirmed.changedAt.toMillis() <= booking.scheduledDate.toMillis();
+}
+
+/**
+ * Scheduled: mark confirmed bookings the host never started as NO_SHOW_HOST
+ *
+ * Runs every 15 minutes. A CONFIRMED booking without checkIn more than
+ * HOST_NO_SHOW_GRACE_MINUTES after scheduledDate becomes NO_SHOW_HOST -
+ * the client gets a full refund (same as a host cancellation). The host's
+ * cancellationRate is recalculated by onBookingCanceledByHost.
+ * Only bookings the host could have checked in for are marked: scheduled
+ * after CHECK_IN_AVAILABLE_SINCE and confirmed before the service start.
+ */
+export const detectHostNoShows = onSchedule({
+    schedule: "*/15 * * * *",
+    timeZone: "Europe/Warsaw"
+}, async () => {
+    const db = admin.firestore();
+    const cutoff = admin.firestore.Timestamp.fromMillis(
+        Date.now() - HOST_NO_SHOW_GRACE_MINUTES * 60 * 1000
+    );
+
+    const snapshot = await db.collection("bookings")
+        .where("status", "==", "CONFIRMED")
+        .where("scheduledDate", ">=", CHECK_IN_AVAILABLE_SINCE)
+        .where("scheduledDate", "<=", cutoff)
+        .get();
+
+    if (snapshot.empty) {
+        logger.info("No host no-shows detected");
+        return;
+    }
+
+    let marked = 0;
+
+    for (const bookingDoc of snapshot.docs) {
+        try {
+            const noShow = await db.runTransaction(async (transaction) => {
+                const fresh = await transaction.get(bookingDoc.ref);
+                const booking = fresh.data() as (BookingDoc & { checkIn?: admin.firestore.Timestamp }) | undefined;
+
+                // Host may have checked in or canceled since the query ran
+                if (!booking || booking.checkIn || !isValidTransition(booking.status, "NO_SHOW_HOST") ||
+                    !confirmedBeforeStart(booking)) {
+                    return null;
+                }
+
+                const now = admin.firestore.Timestamp.now();
+                const refund = calculateRefund(booking, "host", now);
+                const change = statusChange("NO_SHOW_HOST", "system", now, `Brak rozpoczęcia usługi w ciągu ${HOST_NO_SHOW_GRACE_MINUTES} min`);
+
+                transaction.update(bookingDoc.ref, {
+                    status: "NO_SHOW_HOST",
+                    statusHistory: [...(booking.statusHistory || []), change],
+                    refund,
+                    paymentStatus: getPaymentStatusAfterRefund(booking, refund),
+                    eventsHead: appendBookingEvents(transaction, bookingDoc.ref, booking.eventsHead, statusEvents([change]), now),
+                    updatedAt: now
+                });
+
+                return booking;
+            });
+
+            if (!noShow) continue;
+
+            marked++;
+
+            await postSystemMessage(
+                noShow.chatId,
+                "🚫 Fachowiec nie rozpoczął usługi. Rezerwacja została zamknięta - płatność zwracamy w całości."
+            );
+            await notifyUser(noShow.clientId, {
+                title: "Fachowiec się nie pojawił",
+                body: "Płatność zwracamy w całości. Przepraszamy - wybierz innego fachowca.",
+                data: { bookingId: bookingDoc.id, type: "BOOKING_NO_SHOW_HOST" }
+            });
+            await notifyUser(noShow.hostId, {
+                title: "Niezrealizowana rezerwacja",
+                body: "Nie rozpocząłeś usługi na czas. Wpływa to na Twój wskaźnik anulowań.",
+                data: { bookingId: bookingDoc.id, type: "BOOKING_NO_SHOW_HOST" }
+            });
+        } catch (error) {
+            logger.error(`Error marking no-show for booking ${bookingDoc.id}:`, error);
+        }
+    }
+
+    logger.info(`Marked ${marked} bookings as NO_SHOW_HOST`);
+});
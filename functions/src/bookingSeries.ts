@@ -0,0 +1,480 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { BookingDoc, BookingStatus, CancellationPolicy, statusChange } from "./lib/bookingMachine";
+import {
+    BookingOffer,
+    ServiceLocation,
+    assertParticipant,
+    cancelOutcome,
+    formatServiceDate,
+    generateBookingHash,
+    parseServiceLocation,
+    requireAuth,
+    requireString,
+    resolveOffer,
+    runTransition
+} from "./lib/bookingStore";
+import { appendBookingEvents } from "./lib/bookingEvents";
+import { isHostAvailable } from "./lib/availability";
+import { addLocalDays, toLocalParts } from "./lib/time";
+import { newChatDoc, postSystemMessage } from "./lib/chat";
+import { notifyUser } from "./lib/notifications";
+
+// Initialize admin if not already initialized
+if (!admin.apps.length) {
+    admin.initializeApp();
+}
+
+/**
+ * Recurring booking series (booking_series/{seriesId})
+ *
+ * A series is approved by the host once; after that individual bookings are
+ * materialized ahead of time (one per occurrence) by the daily job below.
+ * The host's approval covers every visit, so occurrences are created
+ * CONFIRMED - there is no checkout per visit, the visit is not prepaid
+ * (paymentStatus "pending") and cancelling it refunds nothing.
+ * Each occurrence is checked against the host's schedule - conflicting
+ * dates are skipped and reported in the series chat.
+ * Occurrences are regular bookings, so cancelling one applies the
+ * cancellation policy to that occurrence only.
+ */
+
+// Service types that can be booked as a series
+const RECURRING_SERVICE_TYPES = ["sprzatanie", "ogrodnik"];
+
+const FREQUENCY_WEEKS: Record<SeriesFrequency, number> = {
+    weekly: 1,
+    biweekly: 2
+};
+
+// How far ahead occurrences are turned into bookings
+const MATERIALIZE_AHEAD_DAYS = 28;
+
+// Booking statuses an occurrence can still be cancelled from
+const OPEN_STATUSES: BookingStatus[] = ["INQUIRY", "PENDING_APPROVAL", "PENDING_PAYMENT", "CONFIRMED"];
+
+type SeriesFrequency = "weekly" | "biweekly";
+
+/** Mirrors BookingSeries in src/types/firestore-v2.ts */
+interface SeriesDoc extends BookingOffer {
+    clientId: string;
+    hostId: string;
+    listingId: string;
+    status: "pending_approval" | "active" | "declined" | "canceled" | "ended";
+    rule: { frequency: SeriesFrequency };
+    startDate: admin.firestore.Timestamp;
+    endDate: admin.firestore.Timestamp | null;
+    skipDates: string[];
+    conflictDates: string[];
+    nextOccurrence: number;
+    estimatedDuration: number;
+    serviceLocation: ServiceLocation;
+    notes?: string;
+    cancellationPolicy: CancellationPolicy;
+    chatId: string;
+}
+
+function occurrenceDate(series: SeriesDoc, index: number): Date {
+    return addLocalDays(series.startDate.toDate(), index * 7 * FREQUENCY_WEEKS[series.rule.frequency]);
+}
+
+async function getSeries(seriesId: string): Promise<SeriesDoc> {
+    const snap = await admin.firestore().collection("booking_series").doc(seriesId).get();
+    if (!snap.exists) {
+        throw new HttpsError("not-found", "Cykl rezerwacji nie istnieje");
+    }
+    return snap.data() as SeriesDoc;
+}
+
+// ===========================================
+// MATERIALIZATION
+// ===========================================
+
+/**
+ * Creates bookings for occurrences within the look-ahead window.
+ * Returns the local dates skipped because the host was not available.
+ */
+async function materializeSeries(seriesId: string): Promise<string[]> {
+    const db = admin.firestore();
+    const seriesRef = db.collection("booking_series").doc(seriesId);
+    const horizon = Date.now() + MATERIALIZE_AHEAD_DAYS * 24 * 60 * 60 * 1000;
+
+    return db.runTransaction(async (transaction) => {
+        const snap = await transaction.get(seriesRef);
+        const series = snap.data() as SeriesDoc | undefined;
+        if (!series || series.status !== "active") return [];
+
+        const now = admin.firestore.Timestamp.now();
+        const conflicts: string[] = [];
+        let index = series.nextOccurrence;
+        let ended = false;
+
+        for (;;) {
+            const date = occurrenceDate(series, index);
+            if (series.endDate && date.getTime() > series.endDate.toMillis()) {
+                ended = true;
+                break;
+            }
+            if (date.getTime() > horizon) break;
+
+            const { dateStr } = toLocalParts(date);
+            index++;
+
+            if (date.getTime() < now.toMillis() || series.skipDates.includes(dateStr)) continue;
+
+            if (!await isHostAvailable(series.hostId, date, series.estimatedDuration)) {
+                conflicts.push(dateStr);
+                continue;
+            }
+
+            const bookingRef = db.collection("bookings").doc();
+            const eventsHead = appendBookingEvents(transaction, bookingRef, undefined, [{
+                type: "created",
+                actor: "system",
+                status: "CONFIRMED",
+                data: { seriesId, occurrenceDate: dateStr }
+            }], now);
+
+            transaction.set(bookingRef, {
+                clientId: series.clientId,
+                hostId: series.hostId,
+                listingId: series.listingId,
+                seriesId,
+                occurrenceDate: dateStr,
+
+                status: "CONFIRMED",
+                statusHistory: [statusChange("CONFIRMED", "system", now, "Termin z zaakceptowanego cyklu rezerwacji")],
+
+                listingSnapshot: series.listingSnapshot,
+                hostSnapshot: series.hostSnapshot,
+                clientSnapshot: series.clientSnapshot,
+
+                scheduledDate: admin.firestore.Timestamp.fromDate(date),
+                estimatedDuration: series.estimatedDuration,
+                serviceLocation: series.serviceLocation,
+                ...(series.notes ? { notes: series.notes } : {}),
+
+                pricing: {
+                    baseAmount: series.basePrice,
+                    totalAmount: series.basePrice,
+                    currency: "PLN"
+                },
+                paymentStatus: "pending",
+
+                cancellationPolicy: series.cancellationPolicy,
+                bookingHash: generateBookingHash(),
+                chatId: series.chatId,
+                eventsHead,
+
+                createdAt: now,
+                updatedAt: now
+            });
+        }
+
+        transaction.update(seriesRef, {
+            nextOccurrence: index,
+            ...(conflicts.length > 0 && {
+                conflictDates: admin.firestore.FieldValue.arrayUnion(...conflicts)
+            }),
+            ...(ended && { status: "ended" }),
+            updatedAt: now
+        });
+
+        return conflicts;
+    });
+}
+
+async function reportConflicts(series: SeriesDoc, conflicts: string[]): Promise<void> {
+    if (conflicts.length === 0) return;
+
+    await postSystemMessage(
+        series.chatId,
+        `⚠️ Fachowiec jest niedostępny w dniach: ${conflicts.join(", ")}. Te wizyty zostały pominięte.`
+    );
+}
+
+/**
+ * Daily job - keeps every active series materialized MATERIALIZE_AHEAD_DAYS ahead
+ */
+export const materializeBookingSeries = onSchedule({
+    schedule: "0 3 * * *",
+    timeZone: "Europe/Warsaw"
+}, async () => {
+    const snapshot = await admin.firestore().collection("booking_series")
+        .where("status", "==", "active")
+        .get();
+
+    for (const seriesDoc of snapshot.docs) {
+        try {
+            const conflicts = await materializeSeries(seriesDoc.id);
+            await reportConflicts(seriesDoc.data() as SeriesDoc, conflicts);
+        } catch (error) {
+            logger.error(`Error materializing series ${seriesDoc.id}:`, error);
+        }
+    }
+
+    logger.info(`Materialized ${snapshot.size} booking series`);
+});
+
+// ===========================================
+// CALLABLES
+// ===========================================
+
+interface CreateSeriesData {
+    hostId: string;
+    listingId?: string;
+    frequency: SeriesFrequency;
+    startDate: string;          // ISO 8601 - first visit
+    endDate?: string;           // ISO 8601 - no end = until cancelled
+    estimatedDuration: number;  // minutes
+    serviceLocation: ServiceLocation;
+    notes?: string;
+}
+
+/**
+ * Klient zakłada cykl wizyt (co tydzień / co dwa tygodnie).
+ * Cykl czeka na akceptację fachowca - dopiero wtedy powstają rezerwacje.
+ */
+export const bookingCreateSeries = onCall<CreateSeriesData>(async (request) => {
+    const clientId = requireAuth(request);
+    const data = request.data || ({} as CreateSeriesData);
+
+    const hostId = requireString(data.hostId, "hostId");
+    if (hostId === clientId) {
+        throw new HttpsError("invalid-argument", "Nie możesz zarezerwować własnej usługi");
+    }
+    if (!Object.keys(FREQUENCY_WEEKS).includes(data.frequency)) {
+        throw new HttpsError("invalid-argument", "Nieprawidłowa częstotliwość");
+    }
+
+    const startDate = new Date(data.startDate);
+    if (isNaN(startDate.getTime()) || startDate.getTime() < Date.now()) {
+        throw new HttpsError("invalid-argument", "Nieprawidłowa data pierwszej wizyty");
+    }
+    const endDate = data.endDate ? new Date(data.endDate) : null;
+    if (endDate && (isNaN(endDate.getTime()) || endDate.getTime() <= startDate.getTime())) {
+        throw new HttpsError("invalid-argument", "Nieprawidłowa data zakończenia");
+    }
+    if (typeof data.estimatedDuration !== "number" || data.estimatedDuration <= 0) {
+        throw new HttpsError("invalid-argument", "Nieprawidłowy czas trwania");
+    }
+    const serviceLocation = parseServiceLocation(data.serviceLocation);
+
+    const offer = await resolveOffer(hostId, clientId, data.listingId);
+    if (!RECURRING_SERVICE_TYPES.includes(offer.listingSnapshot.serviceType)) {
+        throw new HttpsError("failed-precondition", "Cykliczne wizyty są dostępne tylko dla sprzątania i ogrodnictwa");
+    }
+    if (!await isHostAvailable(hostId, startDate, data.estimatedDuration)) {
+        throw new HttpsError("failed-precondition", "Fachowiec nie jest dostępny w terminie pierwszej wizyty");
+    }
+
+    const db = admin.firestore();
+    const seriesRef = db.collection("booking_series").doc();
+    const chatRef = db.collection("chats").doc();
+    const now = admin.firestore.Timestamp.now();
+
+    const batch = db.batch();
+    batch.set(seriesRef, {
+        clientId,
+        hostId,
+        listingId: data.listingId || "",
+        status: "pending_approval",
+
+        rule: { frequency: data.frequency },
+        startDate: admin.firestore.Timestamp.fromDate(startDate),
+        endDate: endDate ? admin.firestore.Timestamp.fromDate(endDate) : null,
+        skipDates: [],
+        conflictDates: [],
+        nextOccurrence: 0,
+
+        ...offer,
+        estimatedDuration: data.estimatedDuration,
+        serviceLocation,
+        ...(data.notes ? { notes: data.notes } : {}),
+        cancellationPolicy: "flexible",
+        chatId: chatRef.id,
+
+        createdAt: now,
+        updatedAt: now
+    });
+    batch.set(chatRef, newChatDoc({
+        clientId,
+        clientName: offer.clientSnapshot.displayName,
+        professionalId: hostId,
+        professionalName: offer.hostSnapshot.displayName,
+        context: { seriesId: seriesRef.id },
+        status: "active",
+        now
+    }));
+    await batch.commit();
+
+    const label = data.frequency === "weekly" ? "co tydzień" : "co dwa tygodnie";
+    await postSystemMessage(
+        chatRef.id,
+        `🔁 ${offer.clientSnapshot.displayName} prosi o cykliczne wizyty ${label}, od ${formatServiceDate(startDate)}`
+    );
+    await notifyUser(hostId, {
+        title: "Nowa prośba o cykliczne wizyty",
+        body: `${offer.clientSnapshot.displayName}: ${offer.listingSnapshot.title}, ${label}`,
+        data: { seriesId: seriesRef.id, type: "BOOKING_SERIES_REQUESTED" }
+    });
+
+    logger.info(`Booking series ${seriesRef.id} created by ${clientId}`);
+    return { seriesId: seriesRef.id, status: "pending_approval" };
+});
+
+/**
+ * Fachowiec akceptuje lub odrzuca cykl. Akceptacja od razu tworzy
+ * rezerwacje na najbliższe MATERIALIZE_AHEAD_DAYS dni.
+ */
+export const bookingRespondSeries = onCall<{ seriesId: string; accept: boolean }>(async (request) => {
+    const uid = requireAuth(request);
+    const seriesId = requireString(request.data?.seriesId, "seriesId");
+    const accept = request.data?.accept === true;
+
+    const db = admin.firestore();
+    const seriesRef = db.collection("booking_series").doc(seriesId);
+
+    await db.runTransaction(async (transaction) => {
+        const snap = await transaction.get(seriesRef);
+        const series = snap.data() as SeriesDoc | undefined;
+        if (!series) {
+            throw new HttpsError("not-found", "Cykl rezerwacji nie istnieje");
+        }
+        if (uid !== series.hostId) {
+            throw new HttpsError("permission-denied", "Tylko fachowiec może zaakceptować");
+        }
+        if (series.status !== "pending_approval") {
+            throw new HttpsError("failed-precondition", "Cykl nie czeka na akceptację");
+        }
+
+        transaction.update(seriesRef, {
+            status: accept ? "active" : "declined",
+            updatedAt: admin.firestore.Timestamp.now()
+        });
+    });
+
+    const series = await getSeries(seriesId);
+    const conflicts = accept ? await materializeSeries(seriesId) : [];
+
+    await postSystemMessage(
+        series.chatId,
+        accept
+            ? "✅ Fachowiec zaakceptował cykliczne wizyty"
+            : "❌ Fachowiec odrzucił prośbę o cykliczne wizyty"
+    );
+    await reportConflicts(series, conflicts);
+    await notifyUser(series.clientId, {
+        title: accept ? "Cykl wizyt zaakceptowany" : "Cykl wizyt odrzucony",
+        body: `${series.hostSnapshot.displayName}: ${series.listingSnapshot.title}`,
+        data: { seriesId, type: accept ? "BOOKING_SERIES_ACCEPTED" : "BOOKING_SERIES_DECLINED" }
+    });
+
+    return { seriesId, status: accept ? "active" : "declined", conflictDates: conflicts };
+});
+
+/**
+ * Odwołanie jednej wizyty z cyklu (klient lub fachowiec).
+ * Istniejąca rezerwacja jest anulowana wg polityki anulowania,
+ * a przyszły termin trafia do skipDates i nie zostanie utworzony.
+ */
+export const bookingCancelOccurrence = onCall<{ seriesId: string; occurrenceDate: string; reason?: string }>(async (request) => {
+    const uid = requireAuth(request);
+    const seriesId = requireString(request.data?.seriesId, "seriesId");
+    const dateStr = requireString(request.data?.occurrenceDate, "occurrenceDate");
+    const reason = typeof request.data?.reason === "string" ? request.data.reason : undefined;
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
+        throw new HttpsError("invalid-argument", "Nieprawidłowa data wizyty");
+    }
+
+    const series = await getSeries(seriesId);
+    assertParticipant(uid, series);
+    if (series.status !== "active" && series.status !== "pending_approval") {
+        throw new HttpsError("failed-precondition", "Cykl rezerwacji jest zakończony");
+    }
+
+    const db = admin.firestore();
+    const occurrenceSnap = await db.collection("bookings")
+        .where("seriesId", "==", seriesId)
+        .where("occurrenceDate", "==", dateStr)
+        .get();
+    const occurrence = occurrenceSnap.docs.find(doc =>
+        OPEN_STATUSES.includes((doc.data() as BookingDoc).status)
+    );
+
+    await db.collection("booking_series").doc(seriesId).update({
+        skipDates: admin.firestore.FieldValue.arrayUnion(dateStr),
+        updatedAt: admin.firestore.Timestamp.now()
+    });
+
+    let result: Record<string, unknown> = { seriesId, occurrenceDate: dateStr };
+    if (occurrence) {
+        result = {
+            ...result,
+            ...await runTransition(occurrence.id, (booking, now) => cancelOutcome(uid, booking, now, reason))
+        };
+    }
+
+    await postSystemMessage(series.chatId, `🗓️ Wizyta ${dateStr} została odwołana`);
+
+    return result;
+});
+
+/**
+ * Anulowanie całego cyklu - każda przyszła wizyta anulowana osobno,
+ * ze zwrotem wg polityki anulowania dla tej wizyty
+ */
+export const bookingCancelSeries = onCall<{ seriesId: string; reason?: string }>(async (request) => {
+    const uid = requireAuth(request);
+    const seriesId = requireString(request.data?.seriesId, "seriesId");
+    const reason = typeof request.data?.reason === "string" ? request.data.reason : undefined;
+
+    const series = await getSeries(seriesId);
+    assertParticipant(uid, series);
+    if (series.status !== "active" && series.status !== "pending_approval") {
+        throw new HttpsError("failed-precondition", "Cykl rezerwacji jest zakończony");
+    }
+
+    const db = admin.firestore();
+    // Status first, so the daily job does not materialize new occurrences meanwhile
+    await db.collection("booking_series").doc(seriesId).update({
+        status: "canceled",
+        canceledBy: uid,
+        canceledAt: admin.firestore.Timestamp.now(),
+        updatedAt: admin.firestore.Timestamp.now()
+    });
+
+    const occurrencesSnap = await db.collection("bookings")
+        .where("seriesId", "==", seriesId)
+        .get();
+
+    let canceledCount = 0;
+    let refundTotal = 0;
+
+    for (const doc of occurrencesSnap.docs) {
+        const booking = doc.data() as BookingDoc;
+        if (!OPEN_STATUSES.includes(booking.status)) continue;
+
+        const outcome = await runTransition(doc.id, (current, now) => cancelOutcome(uid, current, now, reason));
+        const refund = outcome.refund as { refundAmount: number } | undefined;
+        canceledCount++;
+        refundTotal += refund?.refundAmount || 0;
+    }
+
+    const canceledBy = uid === series.hostId ? "Fachowiec" : "Klient";
+    await postSystemMessage(
+        series.chatId,
+        `🛑 ${canceledBy} anulował(a) cykliczne wizyty (odwołane wizyty: ${canceledCount})`
+    );
+    await notifyUser(uid === series.hostId ? series.clientId : series.hostId, {
+        title: "Cykl wizyt anulowany",
+        body: `${series.listingSnapshot.title} - odwołane wizyty: ${canceledCount}`,
+        data: { seriesId, type: "BOOKING_SERIES_CANCELED" }
+    });
+
+    logger.info(`Booking series ${seriesId} canceled by ${uid} (${canceledCount} occurrences)`);
+    return { seriesId, status: "canceled", canceledCount, refundTotal };
+});
@@ -0,0 +1,116 @@
+import { onCall, onRequest } from "firebase-functions/v2/https";
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { randomBytes } from "crypto";
+import { requireAuth } from "./lib/bookingStore";
+import { buildCalendar, IcsEvent } from "./lib/ical";
+
+// Initialize admin if not already initialized
+if (!admin.apps.length) {
+    admin.initializeApp();
+}
+
+/**
+ * Private iCal feed of a provider's bookings
+ *
+ * The provider subscribes to a secret URL in Google / Apple / Outlook
+ * calendar. Tokens live in calendar_feeds/{token} (no client access) -
+ * never in provider_schedules, which anyone can read.
+ */
+
+// Bookings shown in the feed
+const FEED_STATUSES = ["CONFIRMED", "ACTIVE", "COMPLETED"];
+
+// How far back finished bookings stay in the feed
+const FEED_PAST_DAYS = 30;
+
+const FEED_MAX_EVENTS = 500;
+
+function feedUrl(token: string): string {
+    const baseUrl = process.env.CALENDAR_FEED_BASE_URL ||
+        `https://us-central1-${process.env.GCLOUD_PROJECT}.cloudfunctions.net/providerCalendarFeed`;
+    return `${baseUrl}?token=${token}`;
+}
+
+/**
+ * Returns the caller's feed URL, creating a token on first use.
+ * `rotate` replaces the token - the old URL stops working.
+ */
+export const calendarGetFeedUrl = onCall<{ rotate?: boolean }>(async (request) => {
+    const uid = requireAuth(request);
+    const db = admin.firestore();
+
+    const existing = await db.collection("calendar_feeds").where("hostId", "==", uid).get();
+    if (!existing.empty && !request.data?.rotate) {
+        return { url: feedUrl(existing.docs[0].id) };
+    }
+
+    const token = randomBytes(24).toString("hex");
+    const batch = db.batch();
+    existing.docs.forEach(doc => batch.delete(doc.ref));
+    batch.set(db.collection("calendar_feeds").doc(token), {
+        hostId: uid,
+        createdAt: admin.firestore.FieldValue.serverTimestamp()
+    });
+    await batch.commit();
+
+    logger.info(`Calendar feed ${existing.empty ? "created" : "rotated"} for host ${uid}`);
+    return { url: feedUrl(token) };
+});
+
+/**
+ * GET ?token= → text/calendar with the host's confirmed bookings
+ */
+export const providerCalendarFeed = onRequest(async (req, res) => {
+    const token = typeof req.query.token === "string" ? req.query.token : "";
+    if (!/^[0-9a-f]{48}$/.test(token)) {
+        res.status(404).send("Not found");
+        return;
+    }
+
+    try {
+        const db = admin.firestore();
+        const feedSnap = await db.collection("calendar_feeds").doc(token).get();
+        const hostId = feedSnap.data()?.hostId as string | undefined;
+        if (!hostId) {
+            res.status(404).send("Not found");
+            return;
+        }
+
+        const since = admin.firestore.Timestamp.fromMillis(Date.now() - FEED_PAST_DAYS * 24 * 60 * 60 * 1000);
+        const bookingsSnap = await db.collection("bookings")
+            .where("hostId", "==", hostId)
+            .where("status", "in", FEED_STATUSES)
+            .where("scheduledDate", ">=", since)
+            .orderBy("scheduledDate")
+            .limit(FEED_MAX_EVENTS)
+            .get();
+
+        const events: IcsEvent[] = bookingsSnap.docs.map(doc => {
+            const b = doc.data();
+            const start = (b.scheduledDate as admin.firestore.Timestamp).toDate();
+            const title = b.listingSnapshot?.title || "Rezerwacja";
+            const client = b.clientSnapshot?.displayName;
+
+            return {
+                uid: `${doc.id}@fachowcynow`,
+                start,
+                end: new Date(start.getTime() + (b.estimatedDuration || 60) * 60 * 1000),
+                summary: client ? `${title} - ${client}` : title,
+                location: b.serviceLocation?.address || undefined,
+                description: [
+                    b.bookingHash && `Kod rezerwacji: ${b.bookingHash}`,
+                    b.notes
+                ].filter(Boolean).join("\n") || undefined,
+                updatedAt: (b.updatedAt as admin.firestore.Timestamp | undefined)?.toDate()
+            };
+        });
+
+        res.set("Content-Type", "text/calendar; charset=utf-8");
+        res.set("Cache-Control", "private, max-age=900");
+        res.status(200).send(buildCalendar("FachowcyNow - rezerwacje", events));
+    } catch (error) {
+        logger.error("Error building calendar feed:", error);
+        res.status(500).send("Internal error");
+    }
+});
@@ -3,6 +3,7 @@ import { initializeApp, getApps } from "firebase-admin/app";
 import { getFirestore, FieldValue } from "firebase-admin/firestore";
 import { VertexAI } from "@google-cloud/vertexai";
 import * as logger from "firebase-functions/logger";
+import { normalizeMessage } from "./lib/chat";
 
 // Initialize admin only if not already initialized
 if (getApps().length === 0) {
@@ -72,8 +73,8 @@ export const mediatorAgent = onDocumentCreated(
 
             const history = historySnap.docs
                 .map(d => {
-                    const data = d.data();
-                    return `[${data.senderRole || data.senderId}]: ${data.content || data.text}`;
+                    const data = normalizeMessage(d.data());
+                    return `[${data.senderRole}]: ${data.content}`;
                 })
                 .reverse()
                 .join("\n");
@@ -92,7 +93,7 @@ Jesteś automatycznym Mediatorem w systemie P2P FachowcyNow.
 ${history || "(Brak historii)"}
 
 ## Nowa Wiadomość:
-"${newMessage.content || newMessage.text}"
+"${normalizeMessage(newMessage).content}"
 
 ## Twoje Zadania:
 1. Wykryj intencję wiadomości (negocjacja ceny, umawianie terminu, potwierdzenie, skarga, inne)
@@ -0,0 +1,70 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { requireAuth, requireString } from "./lib/bookingStore";
+import { normalizeChat } from "./lib/chat";
+
+// Initialize admin if not already initialized
+if (!admin.apps.length) {
+    admin.initializeApp();
+}
+
+/** Messages receipted per call (batch limit is 500 writes) */
+const MAX_RECEIPTS = 400;
+
+/**
+ * Uczestnik otwiera czat: przesuwa swój kursor odczytu (readCursors.{uid}),
+ * zeruje swój licznik nieprzeczytanych i oznacza wiadomości pozostałych
+ * uczestników od poprzedniego kursora jako przeczytane (isRead / readAt).
+ */
+export const chatMarkRead = onCall<{ chatId: string }>(async (request) => {
+    const uid = requireAuth(request);
+    const chatId = requireString(request.data?.chatId, "chatId");
+
+    const db = admin.firestore();
+    const chatRef = db.collection("chats").doc(chatId);
+    const chatSnap = await chatRef.get();
+    const data = chatSnap.data();
+
+    if (!data) {
+        throw new HttpsError("not-found", "Czat nie istnieje");
+    }
+    const chat = normalizeChat(data);
+    if (!chat.participantIds.includes(uid)) {
+        throw new HttpsError("permission-denied", "Nie jesteś uczestnikiem tego czatu");
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    const previous = chat.readCursors[uid];
+
+    let unreadQuery = chatRef.collection("messages").where("createdAt", "<=", now);
+    if (previous) {
+        unreadQuery = unreadQuery.where("createdAt", ">", previous);
+    }
+    const messagesSnap = await unreadQuery.orderBy("createdAt", "desc").limit(MAX_RECEIPTS).get();
+
+    const batch = db.batch();
+    let receipted = 0;
+    messagesSnap.docs.forEach(doc => {
+        const message = doc.data();
+        // Receipts only for the other participants' messages
+        if (message.senderId === uid || message.senderId === "system" || message.isRead) return;
+        batch.update(doc.ref, { isRead: true, readAt: now });
+        receipted++;
+    });
+
+    // Legacy role-keyed counter of this participant (not migrated yet)
+    const legacyKey = uid === chat.clientId ? "client" : "professional";
+    batch.update(chatRef, {
+        [`unreadCount.${uid}`]: 0,
+        [`readCursors.${uid}`]: now,
+        ...(data.unreadCount?.[legacyKey] !== undefined
+            ? { [`unreadCount.${legacyKey}`]: admin.firestore.FieldValue.delete() }
+            : {})
+    });
+
+    await batch.commit();
+
+    logger.info(`Chat ${chatId} read by ${uid}`, { receipted });
+    return { readAt: now.toMillis(), receipted };
+});
@@ -0,0 +1,183 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { requireAuth, requireString } from "./lib/bookingStore";
+import { ChatDoc, newChatDoc, normalizeChat } from "./lib/chat";
+import { maskContactDetails, ContactKind } from "./lib/contactFilter";
+import { contactSharingAllowed, recordContactAttempt } from "./lib/contactGuard";
+import { isValidLatLng } from "./lib/geo";
+
+// Initialize admin if not already initialized
+if (!admin.apps.length) {
+    admin.initializeApp();
+}
+
+const MAX_MESSAGE_LENGTH = 4000;
+const MAX_ATTACHMENTS = 10;
+
+type Attachment =
+    | { type: "image"; path: string; thumbnailPath: string; width: number; height: number; size: number }
+    | { type: "location"; lat: number; lng: number; address?: string; live?: boolean };
+
+/**
+ * Attachments as the client sends them (ChatAttachment) - images only from
+ * the sender's own folder of this chat (chat-attachments.ts)
+ */
+function parseAttachments(value: unknown, chatId: string, uid: string): Attachment[] {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value) || value.length > MAX_ATTACHMENTS) {
+        throw new HttpsError("invalid-argument", "Nieprawidłowe załączniki");
+    }
+
+    const folder = `chats/${chatId}/${uid}/`;
+    return value.map(item => {
+        if (item?.type === "image" &&
+            typeof item.path === "string" && item.path.startsWith(folder) &&
+            typeof item.thumbnailPath === "string" && item.thumbnailPath.startsWith(folder) &&
+            [item.width, item.height, item.size].every(n => typeof n === "number" && Number.isFinite(n))) {
+            return {
+                type: "image",
+                path: item.path,
+                thumbnailPath: item.thumbnailPath,
+                width: item.width,
+                height: item.height,
+                size: item.size
+            };
+        }
+        if (item?.type === "location" && isValidLatLng(item.lat, item.lng)) {
+            return {
+                type: "location",
+                lat: item.lat,
+                lng: item.lng,
+                ...(typeof item.address === "string" && { address: item.address.slice(0, 200) }),
+                ...(item.live === true && { live: true })
+            };
+        }
+        throw new HttpsError("invalid-argument", "Nieprawidłowy załącznik");
+    });
+}
+
+/**
+ * Direct client-pro chat (ChatWindow, id "{clientId}_{proId}") - created by
+ * the client's first message
+ */
+function directChatParties(chatId: string, uid: string): { proId: string } | null {
+    const prefix = `${uid}_`;
+    const proId = chatId.startsWith(prefix) ? chatId.slice(prefix.length) : "";
+    return proId && proId !== uid && !proId.includes("/") ? { proId } : null;
+}
+
+/**
+ * Wysłanie wiadomości w czacie. Dane kontaktowe są maskowane przed
+ * zapisem, dopóki rezerwacja nie jest potwierdzona - klienci nie mogą
+ * zapisywać wiadomości bezpośrednio, więc niezamaskowana treść nigdy nie
+ * trafia do Firestore. Każda próba trafia do contact_attempts.
+ * Liczniki nieprzeczytanych i powiadomienia - onNewMessage.
+ */
+export const chatSendMessage = onCall<{
+    chatId: string;
+    content?: string;
+    senderName?: string;
+    attachments?: unknown[];
+}>(async (request) => {
+    const uid = requireAuth(request);
+    const chatId = requireString(request.data?.chatId, "chatId");
+    const content = typeof request.data?.content === "string" ? request.data.content : "";
+    const attachments = parseAttachments(request.data?.attachments, chatId, uid);
+
+    if (!content.trim() && attachments.length === 0) {
+        throw new HttpsError("invalid-argument", "Wiadomość jest pusta");
+    }
+    if (content.length > MAX_MESSAGE_LENGTH) {
+        throw new HttpsError("invalid-argument", `Wiadomość może mieć maksymalnie ${MAX_MESSAGE_LENGTH} znaków`);
+    }
+
+    const db = admin.firestore();
+    const chatRef = db.collection("chats").doc(chatId);
+    const now = admin.firestore.Timestamp.now();
+    const senderName = typeof request.data?.senderName === "string" && request.data.senderName.trim()
+        ? request.data.senderName.trim().slice(0, 100)
+        : null;
+
+    const chatData = (await chatRef.get()).data();
+    let chat: ChatDoc;
+    if (chatData) {
+        chat = normalizeChat(chatData);
+    } else {
+        const direct = directChatParties(chatId, uid);
+        if (!direct) {
+            throw new HttpsError("not-found", "Czat nie istnieje");
+        }
+        chat = newChatDoc({
+            clientId: uid,
+            clientName: senderName || "Klient",
+            professionalId: direct.proId,
+            context: {},
+            status: "active",
+            now
+        });
+        await chatRef.create(chat).catch(error => {
+            // Two first messages at once - the other call created the chat
+            if (error?.code !== 6) throw error;
+        });
+    }
+
+    if (!chat.participantIds.includes(uid)) {
+        throw new HttpsError("permission-denied", "Nie jesteś uczestnikiem tego czatu");
+    }
+
+    // Contact details (text and location labels) stay hidden until the booking is confirmed
+    let text = content;
+    const maskedContacts = new Set<ContactKind>();
+    const textFiltered = maskContactDetails(content);
+    const addressFiltered = attachments.map(attachment =>
+        attachment.type === "location" && attachment.address ? maskContactDetails(attachment.address) : null
+    );
+    const hasContacts = textFiltered.kinds.length > 0 || addressFiltered.some(result => result && result.kinds.length > 0);
+
+    if (hasContacts && !(await contactSharingAllowed(chat))) {
+        text = textFiltered.content;
+        textFiltered.kinds.forEach(kind => maskedContacts.add(kind));
+        attachments.forEach((attachment, i) => {
+            const filtered = addressFiltered[i];
+            if (attachment.type !== "location" || !filtered) return;
+            attachment.address = filtered.content;
+            filtered.kinds.forEach(kind => maskedContacts.add(kind));
+        });
+    }
+
+    const type = attachments[0]?.type || "text";
+    const preview = text || (type === "location" ? "📍 Lokalizacja" : "📷 Zdjęcie");
+    const messageRef = chatRef.collection("messages").doc();
+
+    const batch = db.batch();
+    batch.set(messageRef, {
+        id: messageRef.id,
+        content: text,
+        senderId: uid,
+        senderName: senderName || (uid === chat.clientId ? chat.clientName : chat.professionalName) || "Użytkownik",
+        senderRole: uid === chat.clientId ? "client" : "professional",
+        type,
+        ...(attachments.length > 0 && { attachments }),
+        ...(maskedContacts.size > 0 && { maskedContacts: Array.from(maskedContacts) }),
+        createdAt: now
+    });
+    batch.update(chatRef, {
+        lastMessage: preview.substring(0, 100),
+        lastMessageAt: now,
+        updatedAt: now
+    });
+    await batch.commit();
+
+    if (maskedContacts.size > 0) {
+        await recordContactAttempt({
+            userId: uid,
+            chatId,
+            messageId: messageRef.id,
+            kinds: Array.from(maskedContacts)
+        });
+    }
+
+    logger.info(`Message ${messageRef.id} sent in chat ${chatId}`, { masked: maskedContacts.size > 0 });
+    return { messageId: messageRef.id, maskedContacts: Array.from(maskedContacts) };
+});
@@ -1,11 +1,62 @@
 
-import { onDocumentCreated } from "firebase-functions/v2/firestore";
+import { onDocumentCreated, onDocumentUpdated } from "firebase-functions/v2/firestore";
 import * as admin from "firebase-admin";
 import * as logger from "firebase-functions/logger";
+import { recalculateGuestRating } from "./lib/hostMetrics";
 import { categorizeRequest } from "./lib/ai";
 export { mediatorAgent } from './chatAi'; // Export the Vertex AI Mediator
-
-admin.initializeApp();
+export { expirePendingBookings, releaseExpiredSlotHolds } from './bookingExpiry';
+export { onBookingCanceledByHost } from './bookingMetrics';
+export {
+    bookingCreateInquiry,
+    bookingRequestToBook,
+    bookingInstantBook,
+    bookingApprove,
+    bookingClaimMarketplace,
+    bookingConfirmPayment,
+    bookingHoldSlot,
+    bookingReportPaymentFailed,
+    bookingCheckIn,
+    bookingCheckOut,
+    bookingCancel,
+    bookingRequestReschedule,
+    bookingRespondReschedule,
+    bookingAddCharge,
+    bookingRespondCharge,
+    bookingReportNoShow,
+    bookingVerifyEvents
+} from './bookingActions';
+export { detectHostNoShows } from './bookingNoShow';
+export {
+    bookingCreateSeries,
+    bookingRespondSeries,
+    bookingCancelOccurrence,
+    bookingCancelSeries,
+    materializeBookingSeries
+} from './bookingSeries';
+export { bookingAcceptProposal, onJobBookingStatusChanged } from './jobBookings';
+export {
+    proposalSubmit,
+    proposalEdit,
+    proposalWithdraw,
+    proposalReject,
+    expireJobProposals
+} from './jobProposals';
+export { expireOpenJobs, jobRepost } from './jobExpiry';
+export { onJobCreated, onJobAccepted } from './jobChat';
+export { onNewMessage } from './onNewMessage';
+export { chatMarkRead } from './chatRead';
+export { chatSendMessage } from './chatSend';
+export {
+    onScheduleWrittenIndexAvailability,
+    onBookingWrittenIndexAvailability,
+    rollAvailabilityIndex
+} from './availabilityIndex';
+export { calendarGetFeedUrl, providerCalendarFeed } from './calendarFeed';
+
+if (!admin.apps.length) {
+    admin.initializeApp();
+}
 
 export const onBookingCreated = onDocumentCreated("bookings/{bookingId}", async (event) => {
     const snap = event.data;
@@ -57,6 +108,8 @@ export const onBookingCreated = onDocumentCreated("bookings/{bookingId}", async
  * 2. Query all reviews for this host
  * 3. Calculate average rating and count
  * 4. Update the providers/{hostId} document
+ * 5. Flag the reviewed booking (hasReview)
+ * Reviews of clients written by hosts only refresh the client's guestRating.
  */
 export const onReviewCreated = onDocumentCreated("reviews/{reviewId}", async (event) => {
     const snap = event.data;
@@ -65,6 +118,16 @@ export const onReviewCreated = onDocumentCreated("reviews/{reviewId}", async (ev
     }
 
     const reviewData = snap.data();
+
+    if (reviewData.authorRole === "host" && reviewData.targetId) {
+        try {
+            await recalculateGuestRating(reviewData.targetId);
+        } catch (error) {
+            logger.error("Error updating guest rating:", error);
+        }
+        return;
+    }
+
     const hostId = reviewData.hostId;
 
     if (!hostId) {
@@ -101,6 +164,14 @@ export const onReviewCreated = onDocumentCreated("reviews/{reviewId}", async (ev
 
         const averageRating = reviewCount > 0 ? totalRating / reviewCount : 0;
 
+        // Flag the booking as reviewed (bookings are read-only for clients)
+        if (reviewData.bookingId) {
+            await db.collection("bookings").doc(reviewData.bookingId).update({
+                hasReview: true,
+                updatedAt: admin.firestore.FieldValue.serverTimestamp()
+            });
+        }
+
         // Update provider document
         await db.collection("providers").doc(hostId).update({
             rating: Math.round(averageRating * 10) / 10, // Round to 1 decimal
@@ -124,3 +195,24 @@ export const onReviewCreated = onDocumentCreated("reviews/{reviewId}", async (ev
         logger.error("Error updating provider rating:", error);
     }
 });
+
+/**
+ * onReviewPublished - Refreshes the client's guestRating once a host review
+ * leaves the blind phase (published: false -> true)
+ */
+export const onReviewPublished = onDocumentUpdated("reviews/{reviewId}", async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (!before || !after || before.published || !after.published) {
+        return;
+    }
+    if (after.authorRole !== "host" || !after.targetId) {
+        return;
+    }
+
+    try {
+        await recalculateGuestRating(after.targetId);
+    } catch (error) {
+        logger.error("Error updating guest rating:", error);
+    }
+});
@@ -0,0 +1,301 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onDocumentUpdated } from "firebase-functions/v2/firestore";
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { BookingStatus, statusChange } from "./lib/bookingMachine";
+import {
+    assertDailyCapacity,
+    assertSlotFree,
+    createSlotHold,
+    generateBookingHash,
+    requireAuth,
+    requireString
+} from "./lib/bookingStore";
+import { appendBookingEvents } from "./lib/bookingEvents";
+import { notifyUser } from "./lib/notifications";
+
+// Initialize admin if not already initialized
+if (!admin.apps.length) {
+    admin.initializeApp();
+}
+
+/**
+ * Marketplace jobs (jobs/{jobId}) → bookings
+ *
+ * Accepting a proposal creates a regular Booking, so marketplace work goes
+ * through the same state machine, dashboards, earnings and reviews as map
+ * bookings. From then on the job status is derived from its booking.
+ */
+
+// Jobs have no duration - same default as the availability check
+const DEFAULT_JOB_DURATION_MINUTES = 60;
+
+/** Job statuses in which the client can still accept a proposal */
+const ACCEPTING_JOB_STATUSES = ["open", "in_negotiation"];
+
+/** rejectionReason of the proposals that lost when another one was accepted */
+const OTHER_ACCEPTED_REASON = "Klient wybrał inną ofertę";
+
+/**
+ * The proposal's availability becomes the booking's scheduledDate - a
+ * booking without a real time would be flagged as a host no-show an hour
+ * after acceptance (detectHostNoShows).
+ */
+function proposalSlot(proposal: admin.firestore.DocumentData | undefined): admin.firestore.Timestamp {
+    const availability = proposal?.availability;
+    if (!(availability instanceof admin.firestore.Timestamp) || availability.toMillis() <= Date.now()) {
+        throw new HttpsError("failed-precondition", "Oferta nie ma aktualnego terminu - poproś fachowca o podanie terminu");
+    }
+    return availability;
+}
+
+/**
+ * Klient akceptuje ofertę fachowca. Termin z oferty musi być wolny
+ * i mieścić się w dziennym limicie fachowca. W jednej transakcji:
+ * rezerwacja PENDING_PAYMENT z ceną oferty, job.bookingId,
+ * status oferty, odrzucenie pozostałych oczekujących ofert
+ * i dołączenie fachowca do czatu zlecenia. Klient płaci od razu po
+ * akceptacji albo później z ClientDashboard (BookingPaymentModal).
+ */
+export const bookingAcceptProposal = onCall<{ jobId: string; proposalId: string }>(async (request) => {
+    const uid = requireAuth(request);
+    const jobId = requireString(request.data?.jobId, "jobId");
+    const proposalId = requireString(request.data?.proposalId, "proposalId");
+
+    const db = admin.firestore();
+    const jobRef = db.collection("jobs").doc(jobId);
+    const proposalRef = jobRef.collection("proposals").doc(proposalId);
+    const bookingRef = db.collection("bookings").doc();
+
+    // Same host rules as the other booking paths (slot re-checked below, capacity counted in the transaction)
+    const currentProposal = (await proposalRef.get()).data();
+    if (!currentProposal) {
+        throw new HttpsError("not-found", "Zlecenie lub oferta nie istnieje");
+    }
+    const proposedSlot = {
+        hostId: currentProposal.proId as string,
+        scheduledDate: proposalSlot(currentProposal),
+        estimatedDuration: DEFAULT_JOB_DURATION_MINUTES
+    };
+    await assertSlotFree(bookingRef.id, proposedSlot);
+
+    const accepted = await db.runTransaction(async (transaction) => {
+        const [jobSnap, proposalSnap, pendingSnap] = await Promise.all([
+            transaction.get(jobRef),
+            transaction.get(proposalRef),
+            transaction.get(jobRef.collection("proposals").where("status", "==", "pending"))
+        ]);
+        const job = jobSnap.data();
+        const proposal = proposalSnap.data();
+        const otherProposals = pendingSnap.docs.filter(doc => doc.id !== proposalId);
+
+        if (!job || !proposal) {
+            throw new HttpsError("not-found", "Zlecenie lub oferta nie istnieje");
+        }
+        if (job.clientId !== uid) {
+            throw new HttpsError("permission-denied", "Tylko zleceniodawca może zaakceptować ofertę");
+        }
+        if (!ACCEPTING_JOB_STATUSES.includes(job.status)) {
+            throw new HttpsError("failed-precondition", "Zlecenie nie przyjmuje już ofert");
+        }
+        if (proposal.status !== "pending") {
+            throw new HttpsError("failed-precondition", "Oferta nie jest już aktualna");
+        }
+        if (typeof proposal.price !== "number" || proposal.price <= 0) {
+            throw new HttpsError("failed-precondition", "Oferta nie ma prawidłowej ceny");
+        }
+        if (!job.location || typeof job.location.lat !== "number" || typeof job.location.lng !== "number") {
+            throw new HttpsError("failed-precondition", "Zlecenie nie ma lokalizacji");
+        }
+
+        const hostId: string = proposal.proId;
+        const hostName: string = proposal.proName || "Fachowiec";
+        const now = admin.firestore.Timestamp.now();
+        const scheduledDate = proposalSlot(proposal);
+        if (hostId !== proposedSlot.hostId || !scheduledDate.isEqual(proposedSlot.scheduledDate)) {
+            throw new HttpsError("aborted", "Oferta zmieniła się w międzyczasie - odśwież i spróbuj ponownie");
+        }
+        await assertDailyCapacity(transaction, bookingRef.id, proposedSlot);
+
+        const slotHold = createSlotHold(now);
+        const eventsHead = appendBookingEvents(transaction, bookingRef, undefined, [{
+            type: "created",
+            actor: uid,
+            status: "PENDING_PAYMENT",
+            data: { jobId, proposalId }
+        }, {
+            type: "slot_held",
+            actor: uid,
+            data: { expiresAt: slotHold.expiresAt }
+        }], now);
+
+        transaction.set(bookingRef, {
+            clientId: uid,
+            hostId,
+            listingId: "",
+            jobId,
+            proposalId,
+
+            status: "PENDING_PAYMENT",
+            statusHistory: [statusChange("PENDING_PAYMENT", uid, now, "Akceptacja oferty ze zlecenia")],
+
+            listingSnapshot: {
+                title: job.title,
+                serviceType: job.category || "other",
+                priceAtBooking: proposal.price,
+                priceUnit: "project"
+            },
+            hostSnapshot: {
+                displayName: hostName,
+                avatarUrl: proposal.proAvatarUrl || null,
+                ratingAtBooking: proposal.proRating || 0
+            },
+            clientSnapshot: {
+                displayName: job.clientName || "Klient",
+                avatarUrl: job.clientImageUrl || null
+            },
+
+            scheduledDate,
+            estimatedDuration: DEFAULT_JOB_DURATION_MINUTES,
+            serviceLocation: {
+                lat: job.location.lat,
+                lng: job.location.lng,
+                address: job.location.address || ""
+            },
+            ...(job.description ? { notes: job.description } : {}),
+
+            pricing: {
+                baseAmount: proposal.price,
+                totalAmount: proposal.price,
+                currency: "PLN"
+            },
+            paymentStatus: "pending",
+            slotHold,
+
+            cancellationPolicy: "flexible",
+            bookingHash: generateBookingHash(),
+            chatId: job.chatId || "",
+            eventsHead,
+
+            createdAt: now,
+            updatedAt: now
+        });
+
+        // Only the accepted proposal stays in play
+        transaction.update(jobRef, {
+            status: "accepted",
+            assignedProId: hostId,
+            assignedProName: hostName,
+            bookingId: bookingRef.id,
+            proposalIds: [proposalId],
+            proposalCount: 1,
+            acceptedAt: now,
+            updatedAt: now
+        });
+        transaction.update(proposalRef, {
+            status: "accepted",
+            acceptedAt: now,
+            updatedAt: now
+        });
+        otherProposals.forEach(doc => transaction.update(doc.ref, {
+            status: "rejected",
+            rejectedAt: now,
+            rejectionReason: OTHER_ACCEPTED_REASON,
+            updatedAt: now
+        }));
+
+        if (job.chatId) {
+            const chatRef = db.collection("chats").doc(job.chatId);
+            const content = otherProposals.length > 0
+                ? `🤝 Oferta fachowca ${hostName} została zaakceptowana. Pozostałe oferty (${otherProposals.length}) zostały odrzucone.`
+                : `🤝 Oferta fachowca ${hostName} została zaakceptowana.`;
+
+            transaction.update(chatRef, {
+                bookingId: bookingRef.id,
+                professionalId: hostId,
+                professionalName: hostName,
+                participantIds: admin.firestore.FieldValue.arrayUnion(hostId),
+                status: "active",
+                lastMessage: content,
+                lastMessageAt: now,
+                updatedAt: now
+            });
+            transaction.set(chatRef.collection("messages").doc(), {
+                content,
+                senderId: "system",
+                senderName: "System",
+                senderRole: "system",
+                type: "system",
+                createdAt: now
+            });
+        }
+
+        return {
+            hostId,
+            title: job.title as string,
+            rejected: otherProposals.map(doc => ({ proposalId: doc.id, proId: doc.data().proId as string }))
+        };
+    });
+
+    await notifyUser(accepted.hostId, {
+        title: "Oferta zaakceptowana",
+        body: `Klient przyjął Twoją ofertę: ${accepted.title}`,
+        data: { bookingId: bookingRef.id, jobId, type: "JOB_PROPOSAL_ACCEPTED" }
+    });
+
+    for (const { proposalId: rejectedId, proId } of accepted.rejected) {
+        await notifyUser(proId, {
+            title: "Zlecenie zajęte",
+            body: `Klient wybrał inną ofertę: ${accepted.title}`,
+            data: { jobId, proposalId: rejectedId, type: "JOB_PROPOSAL_REJECTED" }
+        });
+    }
+
+    logger.info(`Proposal ${proposalId} accepted - job ${jobId} booked as ${bookingRef.id}, ${accepted.rejected.length} other proposals rejected`);
+    return { bookingId: bookingRef.id, newStatus: "PENDING_PAYMENT" as BookingStatus };
+});
+
+/**
+ * Job status derived from the booking (null = leave the job as is)
+ */
+function jobStatusForBooking(status: BookingStatus): string | null {
+    switch (status) {
+        case "PENDING_PAYMENT":
+        case "CONFIRMED":
+            return "accepted";
+        case "ACTIVE":
+            return "in_progress";
+        case "COMPLETED":
+            return "completed";
+        case "CANCELED_BY_GUEST":
+        case "CANCELED_BY_HOST":
+        case "NO_SHOW_HOST":
+        case "NO_SHOW_CLIENT":
+        case "EXPIRED":
+            return "canceled";
+        default:
+            return null;
+    }
+}
+
+/**
+ * Trigger: status change of a booking created from a job
+ * Action: mirror it onto jobs/{jobId}.status
+ */
+export const onJobBookingStatusChanged = onDocumentUpdated("bookings/{bookingId}", async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (!before || !after || !after.jobId || before.status === after.status) return;
+
+    const jobStatus = jobStatusForBooking(after.status);
+    if (!jobStatus) return;
+
+    try {
+        await admin.firestore().collection("jobs").doc(after.jobId).update({
+            status: jobStatus,
+            updatedAt: admin.firestore.FieldValue.serverTimestamp()
+        });
+    } catch (error) {
+        logger.error(`Error syncing job ${after.jobId} with booking ${event.params.bookingId}:`, error);
+    }
+});
@@ -0,0 +1,53 @@
+import { onDocumentCreated, onDocumentUpdated } from "firebase-functions/v2/firestore";
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { postSystemMessage } from "./lib/chat";
+
+// Initialize admin if not already initialized
+if (!admin.apps.length) {
+    admin.initializeApp();
+}
+
+/**
+ * System messages in job chats
+ *
+ * Clients cannot write chat messages at all (firestore.rules), so the
+ * messages of JobService.createJobWithChat and JobService.acceptJob are
+ * posted here. jobRepost and bookingAcceptProposal post their own in the
+ * same transaction and are skipped.
+ */
+
+/**
+ * Trigger: job created by the client (JobService.createJobWithChat)
+ * Action: announce it in the job chat
+ */
+export const onJobCreated = onDocumentCreated("jobs/{jobId}", async (event) => {
+    const job = event.data?.data();
+    if (!job?.chatId || job.repostOf) return;
+
+    try {
+        await postSystemMessage(job.chatId, "📋 Zlecenie zostało utworzone i jest widoczne dla fachowców.");
+    } catch (error) {
+        logger.error(`Error posting creation message of job ${event.params.jobId}:`, error);
+    }
+});
+
+/**
+ * Trigger: a pro took an open job directly (JobService.acceptJob)
+ * Action: tell the client in the job chat
+ */
+export const onJobAccepted = onDocumentUpdated("jobs/{jobId}", async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (!before || !after || !after.chatId) return;
+    if (before.status !== "open" || after.status !== "accepted" || after.bookingId) return;
+
+    try {
+        await postSystemMessage(
+            after.chatId,
+            `✅ ${after.assignedProName || "Fachowiec"} zaakceptował zlecenie! Możecie teraz rozmawiać.`
+        );
+    } catch (error) {
+        logger.error(`Error posting acceptance message of job ${event.params.jobId}:`, error);
+    }
+});
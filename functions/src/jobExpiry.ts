@@ -0,0 +1,243 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { requireAuth, requireString } from "./lib/bookingStore";
+import { notifyUser } from "./lib/notifications";
+import { newChatDoc } from "./lib/chat";
+
+// Initialize admin if not already initialized
+if (!admin.apps.length) {
+    admin.initializeApp();
+}
+
+/**
+ * Marketplace job lifetime
+ *
+ * Jobs nobody was hired for expire at jobs.expiresAt. The client can repost
+ * an expired job in one tap - a fresh job + chat with the same description,
+ * photos and location, optionally with a wider radius or a higher budget.
+ */
+
+/** Job statuses that still wait for a pro */
+const OPEN_JOB_STATUSES = ["open", "in_negotiation"];
+
+/** Same lifetime as JobService.createJobWithChat */
+const JOB_LIFETIME_DAYS = 7;
+
+// Search radius - keep in sync with src/lib/job-service.ts
+const DEFAULT_JOB_RADIUS_KM = 15;
+const MAX_JOB_RADIUS_KM = 50;
+const RADIUS_WIDEN_FACTOR = 1.5;
+const BUDGET_RAISE_FACTOR = 1.2;
+
+/** Fields carried over to the reposted job */
+const REPOST_FIELDS = [
+    "title", "description", "category", "location", "geoHash",
+    "photoUrls", "urgency", "source", "clientImageUrl"
+];
+
+/**
+ * Scheduled: expire open jobs without an accepted proposal
+ *
+ * Runs hourly. For every open job past expiresAt:
+ * 1. job → expired, its pending proposals → expired (detached from the job)
+ * 2. System message in the job chat
+ * 3. Push to the client (with repost) and to the pros whose offers expired
+ */
+export const expireOpenJobs = onSchedule(
+    { schedule: "30 * * * *", timeZone: "Europe/Warsaw" },
+    async () => {
+        const db = admin.firestore();
+
+        const dueSnap = await db.collection("jobs")
+            .where("status", "in", OPEN_JOB_STATUSES)
+            .where("expiresAt", "<=", admin.firestore.Timestamp.now())
+            .get();
+
+        let expiredCount = 0;
+
+        for (const jobDoc of dueSnap.docs) {
+            try {
+                const expired = await db.runTransaction(async (transaction) => {
+                    const [jobSnap, pendingSnap] = await Promise.all([
+                        transaction.get(jobDoc.ref),
+                        transaction.get(jobDoc.ref.collection("proposals").where("status", "==", "pending"))
+                    ]);
+                    const job = jobSnap.data();
+                    const now = admin.firestore.Timestamp.now();
+
+                    // Booked or extended since the query ran
+                    if (!job || !OPEN_JOB_STATUSES.includes(job.status) || job.bookingId ||
+                        (job.expiresAt && job.expiresAt.toMillis() > now.toMillis())) {
+                        return null;
+                    }
+
+                    transaction.update(jobDoc.ref, {
+                        status: "expired",
+                        expiredAt: now,
+                        proposalIds: [],
+                        proposalCount: 0,
+                        updatedAt: now
+                    });
+                    pendingSnap.docs.forEach(doc => transaction.update(doc.ref, {
+                        status: "expired",
+                        expiredAt: now,
+                        updatedAt: now
+                    }));
+
+                    if (job.chatId) {
+                        const chatRef = db.collection("chats").doc(job.chatId);
+                        const content = "⏰ Zlecenie wygasło bez wybranej oferty. Możesz je opublikować ponownie jednym kliknięciem.";
+                        transaction.set(chatRef.collection("messages").doc(), {
+                            content,
+                            senderId: "system",
+                            senderName: "System",
+                            senderRole: "system",
+                            type: "system",
+                            jobId: jobDoc.id,
+                            createdAt: now
+                        });
+                        transaction.update(chatRef, {
+                            lastMessage: content.substring(0, 100),
+                            lastMessageAt: now,
+                            updatedAt: now
+                        });
+                    }
+
+                    return {
+                        clientId: job.clientId as string,
+                        title: job.title as string,
+                        proIds: pendingSnap.docs.map(doc => doc.data().proId as string)
+                    };
+                });
+
+                if (!expired) continue;
+
+                expiredCount++;
+
+                await notifyUser(expired.clientId, {
+                    title: "Zlecenie wygasło",
+                    body: `${expired.title} - opublikuj ponownie jednym kliknięciem`,
+                    data: { jobId: jobDoc.id, type: "JOB_EXPIRED", action: "repost" }
+                });
+                for (const proId of expired.proIds) {
+                    await notifyUser(proId, {
+                        title: "Oferta wygasła",
+                        body: `Zlecenie wygasło bez wyboru oferty: ${expired.title}`,
+                        data: { jobId: jobDoc.id, type: "JOB_PROPOSAL_EXPIRED" }
+                    });
+                }
+            } catch (error) {
+                logger.error(`Error expiring job ${jobDoc.id}:`, error);
+            }
+        }
+
+        logger.info(`Expired ${expiredCount} jobs`);
+    }
+);
+
+/** Budget raised by 20%, rounded up to 10 zł */
+function raiseBudget(range: { min: number; max: number }): { min: number; max: number } {
+    const raise = (value: number) => Math.ceil(value * BUDGET_RAISE_FACTOR / 10) * 10;
+    return { min: raise(range.min), max: raise(range.max) };
+}
+
+/**
+ * Klient publikuje ponownie wygasłe (lub anulowane przed wyborem oferty)
+ * zlecenie. Nowe zlecenie i czat powstają w jednej transakcji, jak w
+ * JobService.createJobWithChat; stare zlecenie wskazuje na nowe (repostedAs).
+ */
+export const jobRepost = onCall<{ jobId: string; widenRadius?: boolean; raiseBudget?: boolean }>(async (request) => {
+    const uid = requireAuth(request);
+    const jobId = requireString(request.data?.jobId, "jobId");
+    const widenRadius = request.data?.widenRadius === true;
+    const raise = request.data?.raiseBudget === true;
+
+    const db = admin.firestore();
+    const oldJobRef = db.collection("jobs").doc(jobId);
+    const newJobRef = db.collection("jobs").doc();
+    const chatRef = db.collection("chats").doc();
+
+    const reposted = await db.runTransaction(async (transaction) => {
+        const oldSnap = await transaction.get(oldJobRef);
+        const oldJob = oldSnap.data();
+
+        if (!oldJob) {
+            throw new HttpsError("not-found", "Zlecenie nie istnieje");
+        }
+        if (oldJob.clientId !== uid) {
+            throw new HttpsError("permission-denied", "Tylko zleceniodawca może ponownie opublikować zlecenie");
+        }
+        if (oldJob.repostedAs) {
+            throw new HttpsError("already-exists", "Zlecenie zostało już opublikowane ponownie");
+        }
+        const cancelledUnbooked = (oldJob.status === "cancelled" || oldJob.status === "canceled") && !oldJob.bookingId;
+        if (oldJob.status !== "expired" && !cancelledUnbooked) {
+            throw new HttpsError("failed-precondition", "Ponownie można opublikować tylko wygasłe zlecenie");
+        }
+
+        const now = admin.firestore.Timestamp.now();
+        const expiresAt = admin.firestore.Timestamp.fromMillis(now.toMillis() + JOB_LIFETIME_DAYS * 24 * 60 * 60 * 1000);
+
+        const radius: number = oldJob.searchRadiusKm || DEFAULT_JOB_RADIUS_KM;
+        const searchRadiusKm = widenRadius
+            ? Math.min(Math.round(radius * RADIUS_WIDEN_FACTOR), MAX_JOB_RADIUS_KM)
+            : radius;
+        const priceEstimate = raise && oldJob.priceEstimate
+            ? raiseBudget(oldJob.priceEstimate)
+            : oldJob.priceEstimate;
+
+        const carried: Record<string, unknown> = {};
+        REPOST_FIELDS.forEach(field => {
+            if (oldJob[field] !== undefined) carried[field] = oldJob[field];
+        });
+        // A preferred date in the past means nothing anymore
+        if (oldJob.preferredDate && oldJob.preferredDate.toMillis() > now.toMillis()) {
+            carried.preferredDate = oldJob.preferredDate;
+        }
+
+        // Same shape as JobService.createJobWithChat
+        transaction.set(newJobRef, {
+            ...carried,
+            ...(priceEstimate ? { priceEstimate } : {}),
+            searchRadiusKm,
+            status: "open",
+            proposalIds: [],
+            proposalCount: 0,
+            chatId: chatRef.id,
+            clientId: uid,
+            clientName: oldJob.clientName || "Klient",
+            repostOf: jobId,
+            repostCount: (oldJob.repostCount || 0) + 1,
+            createdAt: now,
+            updatedAt: now,
+            expiresAt,
+            _lock: null
+        });
+        transaction.set(chatRef, newChatDoc({
+            clientId: uid,
+            clientName: oldJob.clientName || "Klient",
+            context: { jobId: newJobRef.id, jobTitle: oldJob.title },
+            status: "open",
+            lastMessage: "Zlecenie opublikowane ponownie. Oczekiwanie na oferty.",
+            now
+        }));
+        transaction.set(chatRef.collection("messages").doc(), {
+            content: "🔁 Zlecenie zostało opublikowane ponownie i jest widoczne dla fachowców.",
+            senderId: "system",
+            senderRole: "system",
+            type: "system",
+            createdAt: now
+        });
+        transaction.update(oldJobRef, {
+            repostedAs: newJobRef.id,
+            updatedAt: now
+        });
+
+        return { searchRadiusKm, priceEstimate };
+    });
+
+    logger.info(`Job ${jobId} reposted as ${newJobRef.id}`, { widenRadius, raiseBudget: raise });
+    return { jobId: newJobRef.id, chatId: chatRef.id, ...reposted };
+});
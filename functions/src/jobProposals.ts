@@ -0,0 +1,471 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { requireAuth, requireString } from "./lib/bookingStore";
+import { notifyUser } from "./lib/notifications";
+
+// Initialize admin if not already initialized
+if (!admin.apps.length) {
+    admin.initializeApp();
+}
+
+/**
+ * Marketplace proposals (jobs/{jobId}/proposals/{proposalId})
+ *
+ * All proposal writes go through these callables so that
+ * jobs.proposalIds and jobs.proposalCount always describe the proposals
+ * still in play (pending or accepted). Withdrawn, rejected and expired
+ * proposals are detached from the job but the documents are kept.
+ */
+
+/** Job statuses in which proposals can be submitted or changed */
+const OPEN_JOB_STATUSES = ["open", "in_negotiation"];
+
+const MAX_PRICE = 1_000_000;
+const MAX_MESSAGE_LENGTH = 2000;
+
+/** Older revisions are dropped beyond this */
+const MAX_REVISIONS = 20;
+
+interface ProposalInput {
+    price: number;
+    message: string;
+    availability: admin.firestore.Timestamp | null;
+}
+
+function parseProposalInput(data: Record<string, unknown> | undefined): ProposalInput {
+    const price = data?.price;
+    if (typeof price !== "number" || !Number.isFinite(price) || price <= 0 || price > MAX_PRICE) {
+        throw new HttpsError("invalid-argument", "Nieprawidłowa cena oferty");
+    }
+
+    const message = typeof data?.message === "string" ? data.message.trim() : "";
+    if (!message) {
+        throw new HttpsError("invalid-argument", "Napisz wiadomość do klienta");
+    }
+    if (message.length > MAX_MESSAGE_LENGTH) {
+        throw new HttpsError("invalid-argument", `Wiadomość może mieć maksymalnie ${MAX_MESSAGE_LENGTH} znaków`);
+    }
+
+    // Milliseconds; missing = "do ustalenia"
+    let availability: admin.firestore.Timestamp | null = null;
+    if (data?.availability !== undefined && data.availability !== null) {
+        if (typeof data.availability !== "number" || !Number.isFinite(data.availability)) {
+            throw new HttpsError("invalid-argument", "Nieprawidłowy termin");
+        }
+        availability = admin.firestore.Timestamp.fromMillis(data.availability);
+    }
+
+    return { price: Math.round(price * 100) / 100, message, availability };
+}
+
+function assertJobAcceptsProposals(job: admin.firestore.DocumentData, now: admin.firestore.Timestamp): void {
+    if (!OPEN_JOB_STATUSES.includes(job.status)) {
+        throw new HttpsError("failed-precondition", "Zlecenie nie przyjmuje już ofert");
+    }
+    if (job.expiresAt && job.expiresAt.toMillis() <= now.toMillis()) {
+        throw new HttpsError("failed-precondition", "Zlecenie wygasło");
+    }
+}
+
+async function getOwnPendingProposal(
+    transaction: admin.firestore.Transaction,
+    uid: string,
+    jobId: string,
+    proposalId: string
+) {
+    const jobRef = admin.firestore().collection("jobs").doc(jobId);
+    const proposalRef = jobRef.collection("proposals").doc(proposalId);
+
+    const [jobSnap, proposalSnap] = await Promise.all([
+        transaction.get(jobRef),
+        transaction.get(proposalRef)
+    ]);
+    const job = jobSnap.data();
+    const proposal = proposalSnap.data();
+
+    if (!job || !proposal) {
+        throw new HttpsError("not-found", "Zlecenie lub oferta nie istnieje");
+    }
+    if (proposal.proId !== uid) {
+        throw new HttpsError("permission-denied", "To nie jest Twoja oferta");
+    }
+    if (proposal.status !== "pending") {
+        throw new HttpsError("failed-precondition", "Oferta nie jest już aktualna");
+    }
+
+    return { jobRef, job, proposalRef, proposal };
+}
+
+/**
+ * Removes a proposal from jobs.proposalIds / proposalCount.
+ * Proposals submitted before the callables existed were never attached.
+ */
+function detachProposal(
+    transaction: admin.firestore.Transaction,
+    jobRef: admin.firestore.DocumentReference,
+    job: admin.firestore.DocumentData,
+    proposalId: string,
+    now: admin.firestore.Timestamp
+): void {
+    if (!(job.proposalIds || []).includes(proposalId)) return;
+
+    transaction.update(jobRef, {
+        proposalIds: admin.firestore.FieldValue.arrayRemove(proposalId),
+        proposalCount: admin.firestore.FieldValue.increment(-1),
+        updatedAt: now
+    });
+}
+
+/**
+ * Adds a message to the job chat (client side of the conversation)
+ */
+function postJobChatMessage(
+    transaction: admin.firestore.Transaction,
+    chatId: string | undefined,
+    content: string,
+    preview: string,
+    now: admin.firestore.Timestamp,
+    extra: Record<string, unknown> = {}
+): void {
+    if (!chatId) return;
+
+    const chatRef = admin.firestore().collection("chats").doc(chatId);
+    transaction.set(chatRef.collection("messages").doc(), {
+        content,
+        senderId: "system",
+        senderRole: "system",
+        type: "proposal_notification",
+        ...extra,
+        createdAt: now
+    });
+    transaction.update(chatRef, {
+        lastMessage: preview,
+        lastMessageAt: now,
+        updatedAt: now
+    });
+}
+
+/**
+ * Fachowiec składa ofertę. Jedna aktywna oferta na fachowca i zlecenie;
+ * oferta wygasa razem ze zleceniem (expiresAt kopiowane ze zlecenia).
+ */
+export const proposalSubmit = onCall<{
+    jobId: string;
+    price: number;
+    message: string;
+    availability?: number | null;
+}>(async (request) => {
+    const uid = requireAuth(request);
+    const jobId = requireString(request.data?.jobId, "jobId");
+    const input = parseProposalInput(request.data);
+
+    const db = admin.firestore();
+    const jobRef = db.collection("jobs").doc(jobId);
+    const proposalRef = jobRef.collection("proposals").doc();
+
+    const [userSnap, providerSnap] = await Promise.all([
+        db.collection("users").doc(uid).get(),
+        db.collection("providers").doc(uid).get()
+    ]);
+    const proName: string = userSnap.data()?.displayName || "Fachowiec";
+    const proAvatarUrl: string = userSnap.data()?.avatarUrl || "";
+    const proRating: number = providerSnap.data()?.rating || 0;
+
+    const job = await db.runTransaction(async (transaction) => {
+        const [jobSnap, ownSnap] = await Promise.all([
+            transaction.get(jobRef),
+            transaction.get(jobRef.collection("proposals")
+                .where("proId", "==", uid)
+                .where("status", "==", "pending")
+                .limit(1))
+        ]);
+        const job = jobSnap.data();
+        const now = admin.firestore.Timestamp.now();
+
+        if (!job) {
+            throw new HttpsError("not-found", "Zlecenie nie istnieje");
+        }
+        if (job.clientId === uid) {
+            throw new HttpsError("permission-denied", "Nie możesz złożyć oferty do własnego zlecenia");
+        }
+        assertJobAcceptsProposals(job, now);
+        if (!ownSnap.empty) {
+            throw new HttpsError("already-exists", "Masz już aktywną ofertę - możesz ją edytować");
+        }
+
+        transaction.set(proposalRef, {
+            jobId,
+            proId: uid,
+            proName,
+            proAvatarUrl,
+            proRating,
+            price: input.price,
+            message: input.message,
+            availability: input.availability || job.preferredDate || null,
+            status: "pending",
+            revisions: [],
+            ...(job.expiresAt ? { expiresAt: job.expiresAt } : {}),
+            createdAt: now,
+            updatedAt: now
+        });
+        transaction.update(jobRef, {
+            proposalIds: admin.firestore.FieldValue.arrayUnion(proposalRef.id),
+            proposalCount: admin.firestore.FieldValue.increment(1),
+            updatedAt: now
+        });
+
+        postJobChatMessage(
+            transaction,
+            job.chatId,
+            `📨 **Nowa oferta od ${proName}**\n\n💰 Cena: **${input.price} zł**\n\n"${input.message}"`,
+            `📨 Nowa oferta: ${input.price} zł`,
+            now,
+            { proposalId: proposalRef.id, providerId: uid, providerName: proName }
+        );
+
+        return job;
+    });
+
+    await notifyUser(job.clientId, {
+        title: "Nowa oferta",
+        body: `${proName}: ${input.price} zł - ${job.title}`,
+        data: { jobId, proposalId: proposalRef.id, type: "JOB_PROPOSAL_RECEIVED" }
+    });
+
+    logger.info(`Proposal ${proposalRef.id} submitted to job ${jobId} by ${uid}`);
+    return { proposalId: proposalRef.id };
+});
+
+/**
+ * Fachowiec zmienia cenę / wiadomość / termin oczekującej oferty.
+ * Poprzednia wersja trafia do revisions[].
+ */
+export const proposalEdit = onCall<{
+    jobId: string;
+    proposalId: string;
+    price: number;
+    message: string;
+    availability?: number | null;
+}>(async (request) => {
+    const uid = requireAuth(request);
+    const jobId = requireString(request.data?.jobId, "jobId");
+    const proposalId = requireString(request.data?.proposalId, "proposalId");
+    const input = parseProposalInput(request.data);
+
+    const db = admin.firestore();
+
+    const edited = await db.runTransaction(async (transaction) => {
+        const { job, proposalRef, proposal } = await getOwnPendingProposal(transaction, uid, jobId, proposalId);
+        const now = admin.firestore.Timestamp.now();
+        assertJobAcceptsProposals(job, now);
+
+        // Omitted = keep the current date, null = clear it ("do ustalenia")
+        const availability = request.data?.availability === undefined
+            ? proposal.availability || null
+            : input.availability;
+        const unchanged = proposal.price === input.price &&
+            proposal.message === input.message &&
+            (proposal.availability?.toMillis() ?? null) === (availability?.toMillis() ?? null);
+        if (unchanged) {
+            return null;
+        }
+
+        const revision = {
+            price: proposal.price,
+            message: proposal.message,
+            availability: proposal.availability || null,
+            submittedAt: proposal.updatedAt || proposal.createdAt || now
+        };
+
+        transaction.update(proposalRef, {
+            price: input.price,
+            message: input.message,
+            availability,
+            revisions: [...(proposal.revisions || []), revision].slice(-MAX_REVISIONS),
+            editedAt: now,
+            updatedAt: now
+        });
+
+        const priceNote = proposal.price !== input.price ? ` (było ${proposal.price} zł)` : "";
+        postJobChatMessage(
+            transaction,
+            job.chatId,
+            `✏️ **Oferta ${proposal.proName || "fachowca"} została zaktualizowana**\n\n💰 Cena: **${input.price} zł**${priceNote}\n\n"${input.message}"`,
+            `✏️ Zmiana oferty: ${input.price} zł`,
+            now,
+            { proposalId, providerId: uid, providerName: proposal.proName || null }
+        );
+
+        return { clientId: job.clientId as string, proName: proposal.proName as string, title: job.title as string };
+    });
+
+    if (edited) {
+        await notifyUser(edited.clientId, {
+            title: "Oferta zaktualizowana",
+            body: `${edited.proName || "Fachowiec"}: ${input.price} zł - ${edited.title}`,
+            data: { jobId, proposalId, type: "JOB_PROPOSAL_UPDATED" }
+        });
+        logger.info(`Proposal ${proposalId} on job ${jobId} edited`);
+    }
+
+    return { proposalId, changed: Boolean(edited) };
+});
+
+/**
+ * Fachowiec wycofuje oczekującą ofertę
+ */
+export const proposalWithdraw = onCall<{ jobId: string; proposalId: string }>(async (request) => {
+    const uid = requireAuth(request);
+    const jobId = requireString(request.data?.jobId, "jobId");
+    const proposalId = requireString(request.data?.proposalId, "proposalId");
+
+    const db = admin.firestore();
+
+    await db.runTransaction(async (transaction) => {
+        const { jobRef, job, proposalRef, proposal } = await getOwnPendingProposal(transaction, uid, jobId, proposalId);
+        const now = admin.firestore.Timestamp.now();
+
+        transaction.update(proposalRef, {
+            status: "withdrawn",
+            withdrawnAt: now,
+            updatedAt: now
+        });
+        detachProposal(transaction, jobRef, job, proposalId, now);
+
+        postJobChatMessage(
+            transaction,
+            job.chatId,
+            `↩️ Oferta ${proposal.proName || "fachowca"} została wycofana.`,
+            "↩️ Oferta wycofana",
+            now,
+            { proposalId, providerId: uid }
+        );
+    });
+
+    logger.info(`Proposal ${proposalId} on job ${jobId} withdrawn`);
+    return { proposalId, status: "withdrawn" };
+});
+
+/**
+ * Klient odrzuca oczekującą ofertę
+ */
+export const proposalReject = onCall<{ jobId: string; proposalId: string }>(async (request) => {
+    const uid = requireAuth(request);
+    const jobId = requireString(request.data?.jobId, "jobId");
+    const proposalId = requireString(request.data?.proposalId, "proposalId");
+
+    const db = admin.firestore();
+    const jobRef = db.collection("jobs").doc(jobId);
+    const proposalRef = jobRef.collection("proposals").doc(proposalId);
+
+    const rejected = await db.runTransaction(async (transaction) => {
+        const [jobSnap, proposalSnap] = await Promise.all([
+            transaction.get(jobRef),
+            transaction.get(proposalRef)
+        ]);
+        const job = jobSnap.data();
+        const proposal = proposalSnap.data();
+
+        if (!job || !proposal) {
+            throw new HttpsError("not-found", "Zlecenie lub oferta nie istnieje");
+        }
+        if (job.clientId !== uid) {
+            throw new HttpsError("permission-denied", "Tylko zleceniodawca może odrzucić ofertę");
+        }
+        if (proposal.status !== "pending") {
+            throw new HttpsError("failed-precondition", "Oferta nie jest już aktualna");
+        }
+
+        const now = admin.firestore.Timestamp.now();
+        transaction.update(proposalRef, {
+            status: "rejected",
+            rejectedAt: now,
+            updatedAt: now
+        });
+        detachProposal(transaction, jobRef, job, proposalId, now);
+
+        return { proId: proposal.proId as string, title: job.title as string };
+    });
+
+    await notifyUser(rejected.proId, {
+        title: "Oferta odrzucona",
+        body: `Klient odrzucił Twoją ofertę: ${rejected.title}`,
+        data: { jobId, proposalId, type: "JOB_PROPOSAL_REJECTED" }
+    });
+
+    logger.info(`Proposal ${proposalId} on job ${jobId} rejected`);
+    return { proposalId, status: "rejected" };
+});
+
+/**
+ * Scheduled: expire pending proposals of expired jobs
+ *
+ * Runs hourly. Proposals carry a copy of the job's expiresAt; each one is
+ * re-checked against the job itself, since the job may have been extended.
+ */
+export const expireJobProposals = onSchedule(
+    { schedule: "15 * * * *", timeZone: "Europe/Warsaw" },
+    async () => {
+        const db = admin.firestore();
+
+        const dueSnap = await db.collectionGroup("proposals")
+            .where("status", "==", "pending")
+            .where("expiresAt", "<=", admin.firestore.Timestamp.now())
+            .get();
+
+        let expiredCount = 0;
+
+        for (const proposalDoc of dueSnap.docs) {
+            const jobRef = proposalDoc.ref.parent.parent;
+            if (!jobRef) continue;
+
+            try {
+                const expired = await db.runTransaction(async (transaction) => {
+                    const [jobSnap, proposalSnap] = await Promise.all([
+                        transaction.get(jobRef),
+                        transaction.get(proposalDoc.ref)
+                    ]);
+                    const job = jobSnap.data();
+                    const proposal = proposalSnap.data();
+                    const now = admin.firestore.Timestamp.now();
+
+                    if (!proposal || proposal.status !== "pending") {
+                        return null;
+                    }
+
+                    // Job extended - follow its new expiry
+                    if (job?.expiresAt && job.expiresAt.toMillis() > now.toMillis()) {
+                        transaction.update(proposalDoc.ref, { expiresAt: job.expiresAt });
+                        return null;
+                    }
+
+                    transaction.update(proposalDoc.ref, {
+                        status: "expired",
+                        expiredAt: now,
+                        updatedAt: now
+                    });
+                    if (job) {
+                        detachProposal(transaction, jobRef, job, proposalDoc.id, now);
+                    }
+
+                    return { proId: proposal.proId as string, title: (job?.title as string) || "Zlecenie" };
+                });
+
+                if (!expired) continue;
+
+                expiredCount++;
+                await notifyUser(expired.proId, {
+                    title: "Oferta wygasła",
+                    body: `Zlecenie wygasło bez wyboru oferty: ${expired.title}`,
+                    data: { jobId: jobRef.id, proposalId: proposalDoc.id, type: "JOB_PROPOSAL_EXPIRED" }
+                });
+            } catch (error) {
+                logger.error(`Error expiring proposal ${proposalDoc.id}:`, error);
+            }
+        }
+
+        logger.info(`Expired ${expiredCount} job proposals`);
+    }
+);
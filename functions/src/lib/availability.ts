@@ -0,0 +1,188 @@
+import * as admin from "firebase-admin";
+import { dayOfWeekOf, fromLocalTime, shiftDateStr, toLocalParts } from "./time";
+
+/**
+ * Server-side port of AvailabilityService.isAvailable
+ * (src/lib/availability-service.ts) - keep both in sync.
+ *
+ * Schedules are stored in local (Europe/Warsaw) time, so slots are
+ * converted to absolute times day by day before matching.
+ */
+
+// Booking statuses that block the host's calendar
+export const BLOCKING_STATUSES = ["CONFIRMED", "ACTIVE", "PENDING_PAYMENT"];
+
+// Gap kept free between two bookings when the host did not set one
+const DEFAULT_TRAVEL_BUFFER_MINUTES = 30;
+
+// Longest booking looked back for when checking overlap
+export const MAX_BOOKING_HOURS = 24;
+
+interface TimeSlot {
+    start: string;
+    end: string;
+}
+
+/** Mirrors ScheduleException in src/types/firestore-v2.ts */
+interface ScheduleException {
+    type: "blocked" | "override";
+    startDate: string;
+    endDate: string;
+    slots?: TimeSlot[];
+}
+
+export interface ScheduleData {
+    weeklySchedule?: { dayOfWeek: number; isActive: boolean; slots?: TimeSlot[] }[];
+    blockedDates?: string[];
+    exceptions?: ScheduleException[];
+    // Busy time imported from an external calendar or blocked by hand
+    blockedRanges?: { start: admin.firestore.Timestamp; end: admin.firestore.Timestamp }[];
+    travelBufferMinutes?: number;
+}
+
+/**
+ * Whether a booking blocks the host's calendar. Unpaid bookings block
+ * only while their slot hold lasts; PENDING_PAYMENT without a hold
+ * (series occurrences, older bookings) blocks until paid or canceled.
+ */
+export function blocksCalendar(booking: admin.firestore.DocumentData, nowMs: number): boolean {
+    if (!BLOCKING_STATUSES.includes(booking.status)) return false;
+    if (booking.status !== "PENDING_PAYMENT" || !booking.slotHold) return true;
+    return booking.slotHold.active === true &&
+        (booking.slotHold.expiresAt as admin.firestore.Timestamp).toMillis() > nowMs;
+}
+
+export function travelBufferMs(schedule: ScheduleData): number {
+    return (schedule.travelBufferMinutes ?? DEFAULT_TRAVEL_BUFFER_MINUTES) * 60 * 1000;
+}
+
+/** Blocked ranges as [start, end) intervals in millis */
+export function blockedIntervals(schedule: ScheduleData): [number, number][] {
+    return (schedule.blockedRanges || []).map(range => [range.start.toMillis(), range.end.toMillis()]);
+}
+
+/** Removes busy intervals from free ones */
+export function subtractIntervals(free: [number, number][], busy: [number, number][]): [number, number][] {
+    return busy.reduce((remaining, [busyStart, busyEnd]) =>
+        remaining.flatMap(([start, end]): [number, number][] => {
+            if (busyEnd <= start || busyStart >= end) return [[start, end]];
+            return [
+                ...(busyStart > start ? [[start, busyStart] as [number, number]] : []),
+                ...(busyEnd < end ? [[busyEnd, end] as [number, number]] : [])
+            ];
+        }), free);
+}
+
+function slotIntervals(day: string, slots: TimeSlot[]): [number, number][] {
+    return slots.map((slot): [number, number] => [fromLocalTime(day, slot.start).getTime(), fromLocalTime(day, slot.end).getTime()]);
+}
+
+/**
+ * Working time of one local day: the weekly template, replaced by an
+ * override exception and cut by blocked exceptions.
+ */
+function dayIntervals(schedule: ScheduleData, day: string): [number, number][] {
+    if (schedule.blockedDates?.includes(day)) return [];
+
+    const exceptions = (schedule.exceptions || []).filter(e => e.startDate <= day && day <= e.endDate);
+    const override = exceptions.filter(e => e.type === "override").pop();
+    const daySchedule = schedule.weeklySchedule?.find(d => d.dayOfWeek === dayOfWeekOf(day));
+
+    const slots = override
+        ? override.slots || []
+        : daySchedule?.isActive ? daySchedule.slots || [] : [];
+
+    let intervals = slotIntervals(day, slots);
+    for (const block of exceptions.filter(e => e.type === "blocked")) {
+        if (!block.slots?.length) return [];
+        intervals = subtractIntervals(intervals, slotIntervals(day, block.slots));
+    }
+    return intervals;
+}
+
+/**
+ * Working time between `startMs` and `endMs` as merged [start, end)
+ * intervals - adjacent slots (also across midnight) form one interval.
+ */
+export function workingIntervals(schedule: ScheduleData, startMs: number, endMs: number): [number, number][] {
+    const intervals: [number, number][] = [];
+    const lastDay = toLocalParts(new Date(endMs)).dateStr;
+
+    for (let day = toLocalParts(new Date(startMs)).dateStr; day <= lastDay; day = shiftDateStr(day, 1)) {
+        intervals.push(...dayIntervals(schedule, day));
+    }
+
+    intervals.sort((a, b) => a[0] - b[0]);
+    return intervals.reduce<[number, number][]>((merged, [start, end]) => {
+        const last = merged[merged.length - 1];
+        if (last && start <= last[1]) {
+            last[1] = Math.max(last[1], end);
+        } else {
+            merged.push([start, end]);
+        }
+        return merged;
+    }, []);
+}
+
+/**
+ * Checks whether the host can take a booking at `date`.
+ * The whole duration must fit in working time and keep the travel
+ * buffer to other bookings. `excludeBookingId` skips the booking
+ * being moved (reschedule).
+ */
+export async function isHostAvailable(
+    hostId: string,
+    date: Date,
+    durationMinutes: number,
+    excludeBookingId?: string
+): Promise<boolean> {
+    const db = admin.firestore();
+
+    const scheduleSnap = await db.collection("provider_schedules").doc(hostId).get();
+    const schedule = scheduleSnap.data() as ScheduleData | undefined;
+    if (!schedule) return false;
+
+    const reqStart = date.getTime();
+    const reqEnd = reqStart + durationMinutes * 60 * 1000;
+
+    // 1. Whole duration within working time (exceptions applied)
+    const fitsSchedule = workingIntervals(schedule, reqStart, reqEnd)
+        .some(([start, end]) => start <= reqStart && reqEnd <= end);
+    if (!fitsSchedule) return false;
+
+    // 2. Blocked ranges (external calendar) - no travel buffer, they
+    // already are the host's own time
+    if (blockedIntervals(schedule).some(([start, end]) => reqStart < end && reqEnd > start)) return false;
+
+    // 3. Overlap with existing bookings, including travel between them
+    return !await hasConflictingBooking(hostId, reqStart, reqEnd, travelBufferMs(schedule), excludeBookingId);
+}
+
+/**
+ * Another booking of the host overlapping [reqStart, reqEnd) or closer
+ * than the travel buffer. Expired slot holds do not count.
+ */
+export async function hasConflictingBooking(
+    hostId: string,
+    reqStart: number,
+    reqEnd: number,
+    bufferMs: number,
+    excludeBookingId?: string
+): Promise<boolean> {
+    const bookingsSnap = await admin.firestore().collection("bookings")
+        .where("hostId", "==", hostId)
+        .where("status", "in", BLOCKING_STATUSES)
+        .where("scheduledDate", ">=", admin.firestore.Timestamp.fromMillis(reqStart - MAX_BOOKING_HOURS * 60 * 60 * 1000 - bufferMs))
+        .where("scheduledDate", "<", admin.firestore.Timestamp.fromMillis(reqEnd + bufferMs))
+        .get();
+
+    const nowMs = Date.now();
+    return bookingsSnap.docs.some(doc => {
+        if (doc.id === excludeBookingId) return false;
+        const b = doc.data();
+        if (!blocksCalendar(b, nowMs)) return false;
+        const bStart = (b.scheduledDate as admin.firestore.Timestamp).toMillis();
+        const bEnd = bStart + (b.estimatedDuration || 60) * 60 * 1000;
+        return reqStart < bEnd + bufferMs && reqEnd + bufferMs > bStart;
+    });
+}
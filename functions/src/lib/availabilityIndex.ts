@@ -0,0 +1,147 @@
+import * as admin from "firebase-admin";
+import {
+    BLOCKING_STATUSES,
+    MAX_BOOKING_HOURS,
+    blockedIntervals,
+    blocksCalendar,
+    ScheduleData,
+    subtractIntervals,
+    travelBufferMs,
+    workingIntervals
+} from "./availability";
+import { fromLocalTime, shiftDateStr, toLocalParts } from "./time";
+
+/**
+ * Materialized free slots: availability/{hostId}_{date}
+ *
+ * One document per host and local day with the working time left after
+ * bookings (and travel buffers) and blocked ranges. Mirrors AvailabilityDay in
+ * src/types/firestore-v2.ts - the web app reads it instead of checking
+ * slot by slot, and search filters hosts by day part.
+ */
+
+// How many days ahead the index is kept
+export const AVAILABILITY_INDEX_DAYS = 30;
+
+// Shortest free window that counts as bookable in a day part
+const MIN_BOOKABLE_MINUTES = 60;
+
+type DayPart = "morning" | "afternoon" | "evening";
+
+/** Same boundaries as DAY_PARTS in src/types/firestore-v2.ts */
+const DAY_PARTS: Record<DayPart, { start: string; end: string }> = {
+    morning: { start: "06:00", end: "12:00" },
+    afternoon: { start: "12:00", end: "17:00" },
+    evening: { start: "17:00", end: "22:00" }
+};
+
+interface TimeSlot {
+    start: string;
+    end: string;
+}
+
+export function availabilityDocId(hostId: string, date: string): string {
+    return `${hostId}_${date}`;
+}
+
+/** Upcoming local days [today, today + days) */
+export function upcomingDates(days: number = AVAILABILITY_INDEX_DAYS): string[] {
+    const today = toLocalParts(new Date()).dateStr;
+    return Array.from({ length: days }, (_, i) => shiftDateStr(today, i));
+}
+
+function toMinutes(time: string): number {
+    const [hour, minute] = time.split(":").map(Number);
+    return hour * 60 + minute;
+}
+
+/** Local "HH:MM" of `ms` within `date` (end of day = "24:00") */
+function localTime(ms: number, date: string): string {
+    const parts = toLocalParts(new Date(ms));
+    return parts.dateStr === date ? parts.timeStr : "24:00";
+}
+
+function dayParts(slots: TimeSlot[]): Record<DayPart, boolean> {
+    const result = {} as Record<DayPart, boolean>;
+    for (const [part, range] of Object.entries(DAY_PARTS) as [DayPart, TimeSlot][]) {
+        result[part] = slots.some(slot =>
+            Math.min(toMinutes(slot.end), toMinutes(range.end)) -
+            Math.max(toMinutes(slot.start), toMinutes(range.start)) >= MIN_BOOKABLE_MINUTES
+        );
+    }
+    return result;
+}
+
+/**
+ * Recomputes the index documents of `hostId` for the given local dates.
+ * Without a schedule the host has no free time on any day.
+ */
+export async function rebuildAvailabilityDays(hostId: string, dates: string[]): Promise<void> {
+    if (dates.length === 0) return;
+
+    const db = admin.firestore();
+    const sorted = [...dates].sort();
+    const rangeStart = fromLocalTime(sorted[0], "00:00").getTime();
+    const rangeEnd = fromLocalTime(shiftDateStr(sorted[sorted.length - 1], 1), "00:00").getTime();
+
+    const scheduleSnap = await db.collection("provider_schedules").doc(hostId).get();
+    const schedule = (scheduleSnap.data() || {}) as ScheduleData;
+    const bufferMs = travelBufferMs(schedule);
+
+    const bookingsSnap = await db.collection("bookings")
+        .where("hostId", "==", hostId)
+        .where("status", "in", BLOCKING_STATUSES)
+        .where("scheduledDate", ">=", admin.firestore.Timestamp.fromMillis(rangeStart - MAX_BOOKING_HOURS * 60 * 60 * 1000 - bufferMs))
+        .where("scheduledDate", "<", admin.firestore.Timestamp.fromMillis(rangeEnd + bufferMs))
+        .get();
+
+    const nowMs = Date.now();
+    const busy = bookingsSnap.docs.filter(doc => blocksCalendar(doc.data(), nowMs)).map((doc): [number, number] => {
+        const b = doc.data();
+        const start = (b.scheduledDate as admin.firestore.Timestamp).toMillis();
+        return [start - bufferMs, start + (b.estimatedDuration || 60) * 60 * 1000 + bufferMs];
+    }).concat(blockedIntervals(schedule));
+
+    const now = admin.firestore.Timestamp.now();
+    const batch = db.batch();
+
+    for (const date of sorted) {
+        const dayStart = fromLocalTime(date, "00:00").getTime();
+        const dayEnd = fromLocalTime(shiftDateStr(date, 1), "00:00").getTime();
+
+        // Only this day's slots - a day document never spans midnight
+        const working = workingIntervals(schedule, dayStart, dayStart)
+            .map(([start, end]): [number, number] => [Math.max(start, dayStart), Math.min(end, dayEnd)])
+            .filter(([start, end]) => end > start);
+
+        const freeSlots: TimeSlot[] = subtractIntervals(working, busy)
+            .filter(([start, end]) => end - start >= MIN_BOOKABLE_MINUTES * 60 * 1000)
+            .map(([start, end]) => ({ start: localTime(start, date), end: localTime(end, date) }));
+
+        batch.set(db.collection("availability").doc(availabilityDocId(hostId, date)), {
+            hostId,
+            date,
+            freeSlots,
+            freeMinutes: freeSlots.reduce<number>((sum, slot) => sum + toMinutes(slot.end) - toMinutes(slot.start), 0),
+            parts: dayParts(freeSlots),
+            updatedAt: now
+        });
+    }
+
+    await batch.commit();
+}
+
+/** Local dates touched by a booking, buffers included */
+export function bookingDates(booking: admin.firestore.DocumentData | undefined, bufferMs: number): string[] {
+    if (!booking || !BLOCKING_STATUSES.includes(booking.status) || !booking.scheduledDate) return [];
+
+    const start = (booking.scheduledDate as admin.firestore.Timestamp).toMillis() - bufferMs;
+    const end = start + bufferMs + (booking.estimatedDuration || 60) * 60 * 1000 + bufferMs;
+    const lastDate = toLocalParts(new Date(end)).dateStr;
+
+    const dates: string[] = [];
+    for (let date = toLocalParts(new Date(start)).dateStr; date <= lastDate; date = shiftDateStr(date, 1)) {
+        dates.push(date);
+    }
+    return dates;
+}
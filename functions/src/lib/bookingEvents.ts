@@ -0,0 +1,182 @@
+import * as admin from "firebase-admin";
+import { createHash } from "crypto";
+import { BookingStatus, StatusChange } from "./bookingMachine";
+
+/**
+ * Append-only booking audit log (bookings/{id}/events/{seq})
+ *
+ * Every backend write to a booking appends events in the same transaction.
+ * Each event stores the hash of the previous one, and the booking keeps the
+ * head of the chain (eventsHead), so rewriting or deleting any event breaks
+ * the chain - verifyBookingEvents() recomputes it for disputes and support.
+ * Events are written with create(), never updated; the rules deny client writes.
+ */
+
+export type BookingEventType =
+    | "created"
+    | "status_changed"
+    | "reschedule_requested"
+    | "reschedule_answered"
+    | "charge_added"
+    | "charge_answered"
+    | "check_in_verified"
+    | "check_out_verified"
+    | "slot_held"
+    | "slot_released";
+
+export interface BookingEventInput {
+    type: BookingEventType;
+    actor: string;                     // uid or "system"
+    status?: BookingStatus;
+    reason?: string;
+    data?: Record<string, unknown>;    // JSON values only (Timestamps as millis)
+}
+
+export interface BookingEvent extends BookingEventInput {
+    seq: number;
+    createdAt: number;                 // millis - hashed as-is
+    prevHash: string;
+    hash: string;
+}
+
+export interface EventsHead {
+    seq: number;
+    hash: string;
+}
+
+export const GENESIS_HASH = "0".repeat(64);
+
+/** JSON with sorted keys, so the hash does not depend on key order */
+function canonicalize(value: unknown): string {
+    if (value instanceof admin.firestore.Timestamp) {
+        return JSON.stringify(value.toMillis());
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalize).join(",")}]`;
+    }
+    if (value && typeof value === "object") {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, v]) => v !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalize(v)}`).join(",")}}`;
+    }
+    return JSON.stringify(value);
+}
+
+export function hashEvent(event: Omit<BookingEvent, "hash">): string {
+    return createHash("sha256").update(canonicalize(event)).digest("hex");
+}
+
+/** One status_changed event per statusHistory entry */
+export function statusEvents(history: StatusChange[]): BookingEventInput[] {
+    return history.map(change => ({
+        type: "status_changed" as const,
+        actor: change.changedBy,
+        status: change.status,
+        ...(change.reason && { reason: change.reason })
+    }));
+}
+
+function eventId(seq: number): string {
+    // Zero-padded so document ids sort in chain order
+    return String(seq).padStart(8, "0");
+}
+
+/**
+ * Appends events after `head` inside a transaction or batch and returns
+ * the new head - the caller must write it to the booking as `eventsHead`.
+ */
+export function appendBookingEvents(
+    writer: admin.firestore.Transaction | admin.firestore.WriteBatch,
+    bookingRef: admin.firestore.DocumentReference,
+    head: EventsHead | undefined,
+    events: BookingEventInput[],
+    now: admin.firestore.Timestamp
+): EventsHead {
+    let seq = head ? head.seq : -1;
+    let prevHash = head ? head.hash : GENESIS_HASH;
+
+    for (const input of events) {
+        seq++;
+        const unhashed: Omit<BookingEvent, "hash"> = JSON.parse(canonicalize({
+            ...input,
+            seq,
+            createdAt: now.toMillis(),
+            prevHash
+        }));
+        const hash = hashEvent(unhashed);
+
+        // create() fails if the id exists - two writers cannot fork the chain
+        writer.create(
+            bookingRef.collection("events").doc(eventId(seq)),
+            { ...unhashed, hash }
+        );
+        prevHash = hash;
+    }
+
+    return { seq, hash: prevHash };
+}
+
+export interface ChainBreak {
+    seq: number;
+    reason: string;
+}
+
+export interface VerificationReport {
+    bookingId: string;
+    valid: boolean;
+    eventCount: number;
+    breaks: ChainBreak[];
+}
+
+/**
+ * Recomputes the chain of a booking and reports every break:
+ * altered events, gaps or reordering, and a head that does not match
+ * the last event (deleted tail).
+ */
+export async function verifyBookingEvents(bookingId: string): Promise<VerificationReport> {
+    const bookingRef = admin.firestore().collection("bookings").doc(bookingId);
+    const [bookingSnap, eventsSnap] = await Promise.all([
+        bookingRef.get(),
+        bookingRef.collection("events").orderBy("seq").get()
+    ]);
+
+    const breaks: ChainBreak[] = [];
+    let prevHash = GENESIS_HASH;
+    let expectedSeq = 0;
+
+    for (const doc of eventsSnap.docs) {
+        const { hash, ...event } = doc.data() as BookingEvent;
+
+        if (doc.id !== eventId(event.seq)) {
+            breaks.push({ seq: event.seq, reason: `Identyfikator ${doc.id} nie pasuje do numeru zdarzenia` });
+        }
+        if (event.seq !== expectedSeq) {
+            breaks.push({ seq: event.seq, reason: `Oczekiwano zdarzenia nr ${expectedSeq}` });
+        }
+        if (event.prevHash !== prevHash) {
+            breaks.push({ seq: event.seq, reason: "prevHash nie odpowiada poprzedniemu zdarzeniu" });
+        }
+        if (hashEvent(event) !== hash) {
+            breaks.push({ seq: event.seq, reason: "Treść zdarzenia została zmieniona" });
+        }
+
+        prevHash = hash;
+        expectedSeq = event.seq + 1;
+    }
+
+    const head = bookingSnap.data()?.eventsHead as EventsHead | undefined;
+    if (head && (head.seq !== expectedSeq - 1 || head.hash !== prevHash)) {
+        breaks.push({ seq: head.seq, reason: "Ostatnie zdarzenia zostały usunięte (eventsHead nie pasuje)" });
+    }
+    if (!head && eventsSnap.size > 0) {
+        breaks.push({ seq: -1, reason: "Brak eventsHead na rezerwacji" });
+    }
+
+    return {
+        bookingId,
+        valid: breaks.length === 0,
+        eventCount: eventsSnap.size,
+        breaks
+    };
+}
@@ -0,0 +1,286 @@
+import * as admin from "firebase-admin";
+import { HttpsError } from "firebase-functions/v2/https";
+
+/**
+ * Server-side booking state machine.
+ *
+ * Mirrors VALID_STATUS_TRANSITIONS / canUserPerformAction from
+ * src/types/firestore-v2.ts and src/lib/booking-machine.ts. The functions
+ * package cannot import from the web app, so keep both sides in sync.
+ * Refunds are calculated only here (CANCELLATION_POLICY_TIERS).
+ */
+
+export type BookingStatus =
+    | "INQUIRY"
+    | "PENDING_APPROVAL"
+    | "PENDING_PAYMENT"
+    | "CONFIRMED"
+    | "ACTIVE"
+    | "COMPLETED"
+    | "CANCELED_BY_GUEST"
+    | "CANCELED_BY_HOST"
+    | "EXPIRED"
+    | "NO_SHOW_HOST"
+    | "NO_SHOW_CLIENT";
+
+export type CancellationPolicy = "flexible" | "moderate" | "strict";
+
+export type BookingAction = "approve" | "cancel" | "check_in" | "check_out";
+
+export interface StatusChange {
+    status: BookingStatus;
+    changedAt: admin.firestore.Timestamp;
+    changedBy: string;
+    reason?: string;
+}
+
+/** Fields of bookings/{id} the backend relies on */
+export interface BookingDoc {
+    clientId: string;
+    hostId: string;
+    listingId?: string;
+    status: BookingStatus;
+    statusHistory: StatusChange[];
+    scheduledDate: admin.firestore.Timestamp;
+    estimatedDuration: number;
+    serviceLocation: {
+        lat: number;
+        lng: number;
+        address: string;
+    };
+    pricing: {
+        baseAmount: number;
+        additionalCharges?: AdditionalCharge[];
+        totalAmount: number;
+        currency: "PLN";
+    };
+    paymentStatus: "pending" | "authorized" | "captured" | "refunded" | "partially_refunded" | "failed";
+    cancellationPolicy: CancellationPolicy;
+    chatId: string;
+    hostSnapshot?: { displayName: string };
+    clientSnapshot?: { displayName: string };
+    reschedule?: RescheduleRequest;
+    seriesId?: string;
+    slotHold?: SlotHold;
+    eventsHead?: { seq: number; hash: string };
+}
+
+/** Mirrors SlotHold in src/types/firestore-v2.ts */
+export interface SlotHold {
+    active: boolean;
+    expiresAt: admin.firestore.Timestamp;
+    createdAt: admin.firestore.Timestamp;
+    releasedAt?: admin.firestore.Timestamp;
+    releaseReason?: "expired" | "payment_failed" | "paid";
+}
+
+/** Mirrors LocationVerification in src/types/firestore-v2.ts */
+export interface LocationVerification {
+    status: "verified" | "outside_radius" | "no_location";
+    lat?: number;
+    lng?: number;
+    accuracyMeters?: number;
+    distanceMeters?: number;
+    radiusMeters: number;
+    recordedAt: admin.firestore.Timestamp;
+    minutesLate?: number;
+    isOnTime?: boolean;
+}
+
+/** Mirrors AdditionalCharge in src/types/firestore-v2.ts */
+export interface AdditionalCharge {
+    id: string;
+    description: string;
+    amount: number;
+    status: "pending" | "approved" | "rejected" | "expired";
+    requestedAt: admin.firestore.Timestamp;
+    respondedAt?: admin.firestore.Timestamp;
+}
+
+/** Mirrors BookingReschedule in src/types/firestore-v2.ts */
+export interface RescheduleRequest {
+    proposedDate: admin.firestore.Timestamp;
+    previousDate: admin.firestore.Timestamp;
+    proposedBy: string;
+    isCounter: boolean;
+    status: "pending" | "accepted" | "declined";
+    expiresAt: admin.firestore.Timestamp;
+    createdAt: admin.firestore.Timestamp;
+    respondedAt?: admin.firestore.Timestamp;
+}
+
+export const VALID_STATUS_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+    INQUIRY: ["PENDING_APPROVAL", "PENDING_PAYMENT", "CANCELED_BY_GUEST"],
+    PENDING_APPROVAL: ["PENDING_PAYMENT", "EXPIRED", "CANCELED_BY_HOST", "CANCELED_BY_GUEST"],
+    PENDING_PAYMENT: ["CONFIRMED", "CANCELED_BY_GUEST", "CANCELED_BY_HOST"],
+    CONFIRMED: ["ACTIVE", "CANCELED_BY_GUEST", "CANCELED_BY_HOST", "NO_SHOW_HOST", "NO_SHOW_CLIENT"],
+    ACTIVE: ["COMPLETED"],
+    COMPLETED: [],
+    CANCELED_BY_GUEST: [],
+    CANCELED_BY_HOST: [],
+    EXPIRED: [],
+    NO_SHOW_HOST: [],
+    NO_SHOW_CLIENT: []
+};
+
+// Platform fee, same as PLATFORM_FEE_PERCENT in src/lib/stripe-connect.ts
+export const PLATFORM_FEE_PERCENT = 10;
+
+export function isValidTransition(currentStatus: BookingStatus, newStatus: BookingStatus): boolean {
+    return VALID_STATUS_TRANSITIONS[currentStatus]?.includes(newStatus) ?? false;
+}
+
+/**
+ * Role check for an action - throws HttpsError so callables can surface
+ * the reason to the client as-is.
+ */
+export function assertCanPerform(userId: string, booking: BookingDoc, action: BookingAction): void {
+    const isClient = userId === booking.clientId;
+    const isHost = userId === booking.hostId;
+
+    if (!isClient && !isHost) {
+        throw new HttpsError("permission-denied", "Nie jesteś uczestnikiem tej rezerwacji");
+    }
+
+    switch (action) {
+        case "approve":
+            if (!isHost) {
+                throw new HttpsError("permission-denied", "Tylko fachowiec może zaakceptować");
+            }
+            if (booking.status !== "PENDING_APPROVAL") {
+                throw new HttpsError("failed-precondition", "Rezerwacja nie czeka na akceptację");
+            }
+            return;
+
+        case "cancel":
+            if (booking.status === "COMPLETED" ||
+                booking.status === "CANCELED_BY_GUEST" ||
+                booking.status === "CANCELED_BY_HOST") {
+                throw new HttpsError("failed-precondition", "Nie można anulować zakończonej rezerwacji");
+            }
+            return;
+
+        case "check_in":
+            if (!isHost) {
+                throw new HttpsError("permission-denied", "Tylko fachowiec może rozpocząć usługę");
+            }
+            if (booking.status !== "CONFIRMED") {
+                throw new HttpsError("failed-precondition", "Rezerwacja nie jest potwierdzona");
+            }
+            return;
+
+        case "check_out":
+            if (!isHost) {
+                throw new HttpsError("permission-denied", "Tylko fachowiec może zakończyć usługę");
+            }
+            if (booking.status !== "ACTIVE") {
+                throw new HttpsError("failed-precondition", "Usługa nie jest w trakcie realizacji");
+            }
+            return;
+    }
+}
+
+export function assertTransition(booking: BookingDoc, newStatus: BookingStatus): void {
+    if (!isValidTransition(booking.status, newStatus)) {
+        throw new HttpsError("failed-precondition", `Nieprawidłowe przejście: ${booking.status} → ${newStatus}`);
+    }
+}
+
+/** Builds a statusHistory entry without undefined fields (Firestore rejects them) */
+export function statusChange(
+    status: BookingStatus,
+    changedBy: string,
+    now: admin.firestore.Timestamp,
+    reason?: string
+): StatusChange {
+    return reason
+        ? { status, changedAt: now, changedBy, reason }
+        : { status, changedAt: now, changedBy };
+}
+
+/** Base price plus approved change orders - pending/rejected items are not billed */
+export function calculateTotalAmount(baseAmount: number, charges: AdditionalCharge[] = []): number {
+    const approved = charges
+        .filter(c => c.status === "approved")
+        .reduce((sum, c) => sum + c.amount, 0);
+    return Math.round((baseAmount + approved) * 100) / 100;
+}
+
+// ===========================================
+// REFUNDS (CANCELLATION_POLICY_TIERS)
+// ===========================================
+
+const CANCELLATION_POLICY_TIERS: Record<CancellationPolicy, { minHoursBefore: number; refundPercent: number }[]> = {
+    flexible: [
+        { minHoursBefore: 24, refundPercent: 100 },
+        { minHoursBefore: 0, refundPercent: 50 }
+    ],
+    moderate: [
+        { minHoursBefore: 5 * 24, refundPercent: 100 },
+        { minHoursBefore: 24, refundPercent: 50 },
+        { minHoursBefore: 0, refundPercent: 0 }
+    ],
+    strict: [
+        { minHoursBefore: 0, refundPercent: 0 }
+    ]
+};
+
+export interface BookingRefund {
+    policy: CancellationPolicy;
+    canceledBy: "client" | "host";
+    hoursBeforeService: number;
+    refundPercent: number;
+    refundAmount: number;
+    platformFeeRetained: number;
+    hostPayout: number;
+    currency: "PLN";
+    calculatedAt: admin.firestore.Timestamp;
+}
+
+export function calculateRefund(
+    booking: BookingDoc,
+    canceledBy: "client" | "host",
+    now: admin.firestore.Timestamp
+): BookingRefund {
+    const total = booking.pricing.totalAmount;
+    const hoursBeforeService = (booking.scheduledDate.toMillis() - now.toMillis()) / (1000 * 60 * 60);
+    const isPaid = booking.paymentStatus === "authorized" || booking.paymentStatus === "captured";
+
+    const tiers = CANCELLATION_POLICY_TIERS[booking.cancellationPolicy] || CANCELLATION_POLICY_TIERS.flexible;
+    const tier = tiers.find(t => hoursBeforeService >= t.minHoursBefore) || tiers[tiers.length - 1];
+    const refundPercent = canceledBy === "host" ? 100 : tier.refundPercent;
+
+    let refundAmount = 0;
+    let platformFeeRetained = 0;
+
+    if (isPaid) {
+        if (refundPercent === 100) {
+            refundAmount = total;
+        } else {
+            platformFeeRetained = Math.round(total * (PLATFORM_FEE_PERCENT / 100));
+            refundAmount = Math.round((total - platformFeeRetained) * (refundPercent / 100));
+        }
+    }
+
+    return {
+        policy: booking.cancellationPolicy,
+        canceledBy,
+        hoursBeforeService: Math.round(hoursBeforeService * 10) / 10,
+        refundPercent,
+        refundAmount,
+        platformFeeRetained,
+        hostPayout: isPaid ? total - refundAmount - platformFeeRetained : 0,
+        currency: booking.pricing.currency,
+        calculatedAt: now
+    };
+}
+
+export function getPaymentStatusAfterRefund(
+    booking: BookingDoc,
+    refund: BookingRefund
+): BookingDoc["paymentStatus"] {
+    if (refund.refundAmount <= 0) {
+        return booking.paymentStatus;
+    }
+    return refund.refundAmount >= booking.pricing.totalAmount ? "refunded" : "partially_refunded";
+}
@@ -0,0 +1,403 @@
+import * as admin from "firebase-admin";
+import { HttpsError, CallableRequest } from "firebase-functions/v2/https";
+import {
+    BookingDoc,
+    BookingStatus,
+    SlotHold,
+    StatusChange,
+    assertCanPerform,
+    assertTransition,
+    calculateRefund,
+    getPaymentStatusAfterRefund,
+    statusChange
+} from "./bookingMachine";
+import { BookingEventInput, appendBookingEvents, statusEvents } from "./bookingEvents";
+import { hasConflictingBooking, ScheduleData, travelBufferMs } from "./availability";
+import { fromLocalTime, shiftDateStr, toLocalParts } from "./time";
+import { isValidLatLng } from "./geo";
+
+/**
+ * Shared plumbing for the booking callables (bookingActions.ts,
+ * bookingSeries.ts): input validation, transactional transitions and
+ * booking snapshots.
+ */
+
+// ===========================================
+// INPUT
+// ===========================================
+
+export function requireAuth(request: CallableRequest<unknown>): string {
+    const uid = request.auth?.uid;
+    if (!uid) {
+        throw new HttpsError("unauthenticated", "Musisz być zalogowany");
+    }
+    return uid;
+}
+
+export function requireString(value: unknown, field: string): string {
+    if (typeof value !== "string" || value.length === 0) {
+        throw new HttpsError("invalid-argument", `Brak pola ${field}`);
+    }
+    return value;
+}
+
+export interface ServiceLocation {
+    lat: number;
+    lng: number;
+    address: string;
+}
+
+export function parseServiceLocation(value: unknown): ServiceLocation {
+    const location = value as Partial<ServiceLocation> | undefined;
+    if (!location || !isValidLatLng(location.lat, location.lng)) {
+        throw new HttpsError("invalid-argument", "Nieprawidłowa lokalizacja usługi");
+    }
+    return {
+        lat: location.lat as number,
+        lng: location.lng as number,
+        address: typeof location.address === "string" ? location.address : ""
+    };
+}
+
+export function assertClient(uid: string, booking: BookingDoc): void {
+    if (uid !== booking.clientId) {
+        throw new HttpsError("permission-denied", "Tylko klient może wykonać tę akcję");
+    }
+}
+
+export function assertParticipant(uid: string, booking: Pick<BookingDoc, "clientId" | "hostId">): void {
+    if (uid !== booking.clientId && uid !== booking.hostId) {
+        throw new HttpsError("permission-denied", "Nie jesteś uczestnikiem tej rezerwacji");
+    }
+}
+
+// ===========================================
+// TRANSITIONS
+// ===========================================
+
+export interface TransitionOutcome {
+    history: StatusChange[];
+    events?: BookingEventInput[];      // audit events beyond the status changes
+    updates?: Record<string, unknown>;
+    result?: Record<string, unknown>;
+}
+
+export async function getBooking(bookingId: string): Promise<BookingDoc> {
+    const snap = await admin.firestore().collection("bookings").doc(bookingId).get();
+    if (!snap.exists) {
+        throw new HttpsError("not-found", "Rezerwacja nie istnieje");
+    }
+    return snap.data() as BookingDoc;
+}
+
+/**
+ * Runs a transition inside a transaction. `apply` validates the booking and
+ * returns the new statusHistory entries (the last one is the new status)
+ * plus any extra fields to write. No entries = status unchanged.
+ * Every history entry and outcome event is appended to the audit log.
+ */
+export async function runTransition(
+    bookingId: string,
+    apply: (booking: BookingDoc, now: admin.firestore.Timestamp) => TransitionOutcome,
+    guard?: (transaction: admin.firestore.Transaction, booking: BookingDoc) => Promise<void>
+): Promise<{ bookingId: string; newStatus: BookingStatus } & Record<string, unknown>> {
+    const db = admin.firestore();
+    const bookingRef = db.collection("bookings").doc(bookingId);
+
+    return db.runTransaction(async (transaction) => {
+        const snap = await transaction.get(bookingRef);
+        if (!snap.exists) {
+            throw new HttpsError("not-found", "Rezerwacja nie istnieje");
+        }
+
+        const booking = snap.data() as BookingDoc;
+        // Reads that must stay consistent with the write (e.g. daily capacity)
+        if (guard) await guard(transaction, booking);
+
+        const now = admin.firestore.Timestamp.now();
+        const outcome = apply(booking, now);
+        const newStatus = outcome.history.length > 0
+            ? outcome.history[outcome.history.length - 1].status
+            : booking.status;
+
+        const events = [...statusEvents(outcome.history), ...(outcome.events || [])];
+        const eventsHead = events.length > 0
+            ? appendBookingEvents(transaction, bookingRef, booking.eventsHead, events, now)
+            : undefined;
+
+        transaction.update(bookingRef, {
+            ...outcome.updates,
+            ...(eventsHead && { eventsHead }),
+            ...(outcome.history.length > 0 && {
+                status: newStatus,
+                statusHistory: [...(booking.statusHistory || []), ...outcome.history]
+            }),
+            updatedAt: now
+        });
+
+        return { bookingId, newStatus, ...outcome.result };
+    });
+}
+
+/**
+ * Cancellation by either side - refund per the booking's cancellation policy
+ */
+export function cancelOutcome(
+    uid: string,
+    booking: BookingDoc,
+    now: admin.firestore.Timestamp,
+    reason?: string
+): TransitionOutcome {
+    assertCanPerform(uid, booking, "cancel");
+
+    const isClient = uid === booking.clientId;
+    const newStatus: BookingStatus = isClient ? "CANCELED_BY_GUEST" : "CANCELED_BY_HOST";
+    assertTransition(booking, newStatus);
+
+    const refund = calculateRefund(booking, isClient ? "client" : "host", now);
+
+    return {
+        history: [statusChange(newStatus, uid, now, reason)],
+        updates: {
+            refund,
+            paymentStatus: getPaymentStatusAfterRefund(booking, refund)
+        },
+        // Timestamps do not survive callable serialization
+        result: { refund: { ...refund, calculatedAt: now.toMillis() } }
+    };
+}
+
+// ===========================================
+// HOST RULES (provider_schedules, listings)
+// ===========================================
+
+// Bookings that use up one of the host's daily places
+const DAILY_CAP_STATUSES: BookingStatus[] = ["PENDING_APPROVAL", "PENDING_PAYMENT", "CONFIRMED", "ACTIVE", "COMPLETED"];
+
+// Badges that count as a verified identity for instantBookRequirements
+const VERIFIED_IDENTITY_BADGES = ["id_verified", "business_verified"];
+
+/**
+ * provider_schedules.maxBookingsPerDay - counted per local day of the
+ * booking. No schedule or no cap = unlimited.
+ * Call it inside the transaction that takes the place (runTransition
+ * guard) - counted outside, two concurrent bookings both see a free place.
+ */
+export async function assertDailyCapacity(
+    transaction: admin.firestore.Transaction,
+    bookingId: string,
+    booking: Pick<BookingDoc, "hostId" | "scheduledDate">
+): Promise<void> {
+    const db = admin.firestore();
+
+    const scheduleSnap = await transaction.get(db.collection("provider_schedules").doc(booking.hostId));
+    const cap = scheduleSnap.data()?.maxBookingsPerDay;
+    if (typeof cap !== "number" || cap <= 0) return;
+
+    const { dateStr } = toLocalParts(booking.scheduledDate.toDate());
+    const daySnap = await transaction.get(db.collection("bookings")
+        .where("hostId", "==", booking.hostId)
+        .where("status", "in", DAILY_CAP_STATUSES)
+        .where("scheduledDate", ">=", admin.firestore.Timestamp.fromDate(fromLocalTime(dateStr, "00:00")))
+        .where("scheduledDate", "<", admin.firestore.Timestamp.fromDate(fromLocalTime(shiftDateStr(dateStr, 1), "00:00"))));
+
+    const taken = daySnap.docs.filter(doc => doc.id !== bookingId).length;
+    if (taken >= cap) {
+        throw new HttpsError("resource-exhausted", "Fachowiec nie przyjmuje już rezerwacji na ten dzień");
+    }
+}
+
+/**
+ * Instant Book skips host approval, so it needs the host's consent
+ * (schedule.instantBooking, listing.instantBookEnabled) and a client
+ * meeting listing.instantBookRequirements. Otherwise: Request to Book.
+ */
+export async function assertInstantBookAllowed(booking: BookingDoc): Promise<void> {
+    const db = admin.firestore();
+
+    const [scheduleSnap, listingSnap, clientSnap] = await Promise.all([
+        db.collection("provider_schedules").doc(booking.hostId).get(),
+        booking.listingId ? db.collection("listings").doc(booking.listingId).get() : null,
+        db.collection("users").doc(booking.clientId).get()
+    ]);
+    const listing = listingSnap?.data();
+    const client = clientSnap.data();
+
+    if (scheduleSnap.data()?.instantBooking === false || listing?.instantBookEnabled === false) {
+        throw new HttpsError("failed-precondition", "Fachowiec nie przyjmuje rezerwacji natychmiastowych - wyślij prośbę o rezerwację");
+    }
+
+    const requirements = listing?.instantBookRequirements as
+        { minRating?: number; verifiedIdentityRequired?: boolean } | undefined;
+    if (!requirements) return;
+
+    if (requirements.verifiedIdentityRequired && !VERIFIED_IDENTITY_BADGES.includes(client?.verificationBadge)) {
+        throw new HttpsError("failed-precondition", "Rezerwacja natychmiastowa wymaga zweryfikowanej tożsamości - wyślij prośbę o rezerwację");
+    }
+    if (requirements.minRating && (client?.guestRating?.average ?? 0) < requirements.minRating) {
+        throw new HttpsError("failed-precondition", `Rezerwacja natychmiastowa wymaga oceny klienta min. ${requirements.minRating} - wyślij prośbę o rezerwację`);
+    }
+}
+
+// ===========================================
+// SLOT HOLD (PENDING_PAYMENT)
+// ===========================================
+
+// How long an unpaid booking keeps its time for the client
+export const SLOT_HOLD_MINUTES = 10;
+
+export function createSlotHold(now: admin.firestore.Timestamp): SlotHold {
+    return {
+        active: true,
+        expiresAt: admin.firestore.Timestamp.fromMillis(now.toMillis() + SLOT_HOLD_MINUTES * 60 * 1000),
+        createdAt: now
+    };
+}
+
+export function releasedSlotHold(
+    hold: SlotHold,
+    now: admin.firestore.Timestamp,
+    reason: NonNullable<SlotHold["releaseReason"]>
+): SlotHold {
+    return { ...hold, active: false, releasedAt: now, releaseReason: reason };
+}
+
+export function isSlotHeld(booking: BookingDoc, now: admin.firestore.Timestamp): boolean {
+    return booking.slotHold?.active === true && booking.slotHold.expiresAt.toMillis() > now.toMillis();
+}
+
+/**
+ * Throws when another booking (paid or holding its slot) already takes
+ * the booking's time. Checked before a hold is created or renewed and
+ * before paying for a booking whose hold has lapsed.
+ */
+export async function assertSlotFree(
+    bookingId: string,
+    booking: Pick<BookingDoc, "hostId" | "scheduledDate" | "estimatedDuration">
+): Promise<void> {
+    const scheduleSnap = await admin.firestore().collection("provider_schedules").doc(booking.hostId).get();
+    const start = booking.scheduledDate.toMillis();
+    const end = start + booking.estimatedDuration * 60 * 1000;
+
+    const taken = await hasConflictingBooking(
+        booking.hostId,
+        start,
+        end,
+        travelBufferMs((scheduleSnap.data() || {}) as ScheduleData),
+        bookingId
+    );
+    if (taken) {
+        // "aborted" (not failed-precondition) so clients can offer another time
+        throw new HttpsError("aborted", "Ten termin został już zarezerwowany - wybierz inny");
+    }
+}
+
+// ===========================================
+// SNAPSHOTS
+// ===========================================
+
+/** Denormalized data copied onto every booking (immutable snapshots) */
+export interface BookingOffer {
+    listingSnapshot: {
+        title: string;
+        serviceType: string;
+        priceAtBooking: number;
+        priceUnit: string;
+    };
+    hostSnapshot: {
+        displayName: string;
+        avatarUrl: string | null;
+        ratingAtBooking: number;
+    };
+    clientSnapshot: {
+        displayName: string;
+        avatarUrl: string | null;
+    };
+    basePrice: number;
+}
+
+/**
+ * Snapshot oferty pochodzi z listings/{listingId}, a gdy jej brak
+ * (rezerwacja z mapy) - z profilu providers/{hostId}.
+ */
+export async function resolveOffer(hostId: string, clientId: string, listingId?: string): Promise<BookingOffer> {
+    const db = admin.firestore();
+
+    const [hostSnap, clientSnap] = await Promise.all([
+        db.collection("users").doc(hostId).get(),
+        db.collection("users").doc(clientId).get()
+    ]);
+    const host = hostSnap.data();
+    const client = clientSnap.data();
+
+    let listingSnapshot: BookingOffer["listingSnapshot"];
+    let basePrice: number;
+    let rating: number;
+
+    if (listingId) {
+        const listingSnap = await db.collection("listings").doc(listingId).get();
+        const listing = listingSnap.data();
+        if (!listing || listing.hostId !== hostId || listing.isActive === false) {
+            throw new HttpsError("not-found", "Oferta nie istnieje");
+        }
+        basePrice = listing.basePrice;
+        rating = listing.ratingAverage || 0;
+        listingSnapshot = {
+            title: listing.title,
+            serviceType: listing.serviceType,
+            priceAtBooking: listing.basePrice,
+            priceUnit: listing.priceUnit
+        };
+    } else {
+        const providerSnap = await db.collection("providers").doc(hostId).get();
+        const provider = providerSnap.data();
+        if (!provider) {
+            throw new HttpsError("not-found", "Fachowiec nie istnieje");
+        }
+        basePrice = provider.basePrice || provider.price || 0;
+        rating = provider.rating || 0;
+        listingSnapshot = {
+            title: provider.title || provider.profession || "Usługa",
+            serviceType: provider.serviceType || "other",
+            priceAtBooking: basePrice,
+            priceUnit: "visit"
+        };
+    }
+
+    return {
+        listingSnapshot,
+        hostSnapshot: {
+            displayName: host?.displayName || "Fachowiec",
+            avatarUrl: host?.avatarUrl || null,
+            ratingAtBooking: rating
+        },
+        clientSnapshot: {
+            displayName: client?.displayName || "Klient",
+            avatarUrl: client?.avatarUrl || null
+        },
+        basePrice
+    };
+}
+
+/** Same format as generateBookingHash() in src/types/firestore-v2.ts */
+export function generateBookingHash(): string {
+    const year = new Date().getFullYear();
+    const chars = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+    let code = "";
+    for (let i = 0; i < 8; i++) {
+        code += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return `FN-${year}-${code}`;
+}
+
+/** Date as shown in chat messages and notifications (Polish, Warsaw time) */
+export function formatServiceDate(date: Date): string {
+    return date.toLocaleString("pl-PL", {
+        timeZone: "Europe/Warsaw",
+        weekday: "short",
+        day: "numeric",
+        month: "long",
+        hour: "2-digit",
+        minute: "2-digit"
+    });
+}
@@ -0,0 +1,203 @@
+import * as admin from "firebase-admin";
+
+/**
+ * Canonical chat model - mirror of Chat / ChatMessage in
+ * src/types/firestore-v2.ts (keep in sync)
+ *
+ * chats/{chatId}: clientId / professionalId name the two sides, every
+ * participant is in participantIds, unreadCount and readCursors are keyed
+ * by uid. Messages carry their text in `content`.
+ *
+ * unreadCount is maintained by onNewMessage (increment) and chatMarkRead
+ * (reset) only - clients cannot write it.
+ *
+ * Older documents used `text`, a { text, senderId, sentAt } lastMessage,
+ * role-keyed unreadCount ({ client, professional }) and booking chats had
+ * no clientId / professionalId - normalizeChat / normalizeMessage read
+ * both shapes (scripts/migrate-chat-schema.ts rewrites them).
+ */
+
+export const CHAT_SCHEMA_VERSION = 2;
+
+export type ChatRole = "client" | "professional" | "system";
+
+export interface ChatDoc {
+    bookingId?: string;
+    jobId?: string;
+    seriesId?: string;
+    jobTitle?: string;
+
+    participantIds: string[];
+    clientId: string;
+    clientName: string;
+    professionalId: string | null;
+    professionalName: string | null;
+
+    lastMessage: string;
+    lastMessageAt: admin.firestore.Timestamp | null;
+    unreadCount: Record<string, number>;
+    /** Time up to which each participant has read the chat */
+    readCursors: Record<string, admin.firestore.Timestamp>;
+
+    status: string;
+    isActive: boolean;
+    schemaVersion: number;
+
+    createdAt: admin.firestore.Timestamp;
+    updatedAt: admin.firestore.Timestamp;
+}
+
+export interface MessageDoc {
+    senderId: string;
+    senderName?: string;
+    senderRole: ChatRole;
+    type: string;
+    content: string;
+    attachments?: { type: string }[];
+    createdAt: admin.firestore.Timestamp | null;
+}
+
+/**
+ * Canonical document of a new chat between a client and a professional
+ * (professional = null for a job chat nobody was hired for yet)
+ */
+export function newChatDoc(params: {
+    clientId: string;
+    clientName: string;
+    professionalId?: string | null;
+    professionalName?: string | null;
+    context: { bookingId?: string; jobId?: string; seriesId?: string; jobTitle?: string };
+    status: string;
+    lastMessage?: string;
+    now: admin.firestore.Timestamp;
+}): ChatDoc {
+    const professionalId = params.professionalId || null;
+    const participantIds = professionalId ? [params.clientId, professionalId] : [params.clientId];
+
+    return {
+        ...params.context,
+        participantIds,
+        clientId: params.clientId,
+        clientName: params.clientName,
+        professionalId,
+        professionalName: professionalId ? params.professionalName || "Fachowiec" : null,
+        lastMessage: params.lastMessage || "",
+        lastMessageAt: params.now,
+        unreadCount: Object.fromEntries(participantIds.map(uid => [uid, 0])),
+        readCursors: {},
+        status: params.status,
+        isActive: true,
+        schemaVersion: CHAT_SCHEMA_VERSION,
+        createdAt: params.now,
+        updatedAt: params.now
+    };
+}
+
+/**
+ * Reads a chat document in either shape
+ */
+export function normalizeChat(data: admin.firestore.DocumentData): ChatDoc {
+    const participantIds: string[] = Array.isArray(data.participantIds) ? data.participantIds : [];
+    // Booking chats: participantIds = [clientId, hostId]
+    const clientId: string = data.clientId || participantIds[0] || "";
+    const professionalId: string | null = data.professionalId ||
+        participantIds.find(uid => uid !== clientId) || null;
+
+    const legacyLast = data.lastMessage && typeof data.lastMessage === "object" ? data.lastMessage : null;
+
+    const unreadCount: Record<string, number> = {};
+    Object.entries(data.unreadCount || {}).forEach(([key, value]) => {
+        if (typeof value !== "number") return;
+        const uid = key === "client" ? clientId : key === "professional" ? professionalId : key;
+        if (uid) unreadCount[uid] = (unreadCount[uid] || 0) + value;
+    });
+
+    return {
+        ...(data.bookingId ? { bookingId: data.bookingId } : {}),
+        ...(data.jobId ? { jobId: data.jobId } : {}),
+        ...(data.seriesId ? { seriesId: data.seriesId } : {}),
+        ...(data.jobTitle ? { jobTitle: data.jobTitle } : {}),
+        participantIds: Array.from(new Set([...participantIds, clientId, ...(professionalId ? [professionalId] : [])]))
+            .filter(Boolean),
+        clientId,
+        clientName: data.clientName || "Klient",
+        professionalId,
+        professionalName: professionalId ? data.professionalName || "Fachowiec" : null,
+        lastMessage: legacyLast ? legacyLast.text || "" : data.lastMessage || "",
+        lastMessageAt: data.lastMessageAt || legacyLast?.sentAt || data.updatedAt || null,
+        unreadCount,
+        readCursors: data.readCursors || {},
+        status: data.status || (data.isActive === false ? "closed" : "active"),
+        isActive: data.isActive !== false,
+        schemaVersion: CHAT_SCHEMA_VERSION,
+        createdAt: data.createdAt,
+        updatedAt: data.updatedAt || data.createdAt
+    };
+}
+
+/**
+ * Reads a message document in either shape
+ */
+export function normalizeMessage(data: admin.firestore.DocumentData, chat?: Pick<ChatDoc, "clientId">): MessageDoc {
+    const senderId: string = data.senderId || "system";
+    const isSystem = senderId === "system" || senderId === "mediator" ||
+        data.senderRole === "system" || data.type === "system" || data.isSystemMessage === true;
+
+    let senderRole: ChatRole = data.senderRole || "client";
+    if (isSystem) {
+        senderRole = "system";
+    } else if (!data.senderRole && chat) {
+        senderRole = senderId === chat.clientId ? "client" : "professional";
+    }
+
+    return {
+        senderId,
+        ...(data.senderName ? { senderName: data.senderName } : {}),
+        senderRole,
+        type: data.type || (isSystem ? "system" : "text"),
+        content: data.content ?? data.text ?? "",
+        ...(Array.isArray(data.attachments) ? { attachments: data.attachments } : {}),
+        createdAt: data.createdAt || data.timestamp || null
+    };
+}
+
+/**
+ * Users who should hear about a message - every participant except the sender
+ */
+export function chatRecipients(chat: ChatDoc, senderId: string): string[] {
+    return chat.participantIds.filter(uid => uid !== senderId);
+}
+
+/**
+ * Posts a system message into a chat and bumps the chat preview.
+ * Message shape matches the system messages written by JobService.
+ */
+export async function postSystemMessage(
+    chatId: string,
+    content: string,
+    extra: Record<string, unknown> = {}
+): Promise<void> {
+    if (!chatId) return;
+
+    const db = admin.firestore();
+    const chatRef = db.collection("chats").doc(chatId);
+    const now = admin.firestore.FieldValue.serverTimestamp();
+
+    const batch = db.batch();
+    batch.set(chatRef.collection("messages").doc(), {
+        content,
+        senderId: "system",
+        senderName: "System",
+        senderRole: "system",
+        type: "system",
+        ...extra,
+        createdAt: now
+    });
+    batch.update(chatRef, {
+        lastMessage: content.substring(0, 100),
+        lastMessageAt: now,
+        updatedAt: now
+    });
+
+    await batch.commit();
+}
@@ -0,0 +1,89 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { ChatDoc } from "./chat";
+import { ContactKind } from "./contactFilter";
+
+/**
+ * Contact-leak policy
+ *
+ * Until the booking behind a chat is CONFIRMED, contact details are masked
+ * by chatSendMessage before the message is written (clients cannot write
+ * messages directly). Every attempt lands in contact_attempts;
+ * CONTACT_ESCALATION_THRESHOLD attempts within CONTACT_ATTEMPT_WINDOW_DAYS
+ * put the user into moderation_queue.
+ */
+
+/** Booking statuses from which the parties may exchange contact details */
+const CONTACT_SHARING_STATUSES = ["CONFIRMED", "ACTIVE", "COMPLETED"];
+
+const CONTACT_ATTEMPT_WINDOW_DAYS = 30;
+const CONTACT_ESCALATION_THRESHOLD = 3;
+
+/**
+ * Whether the booking behind a chat is already confirmed
+ * (booking chat, series chat or a job chat with an accepted proposal)
+ */
+export async function contactSharingAllowed(chat: ChatDoc): Promise<boolean> {
+    const db = admin.firestore();
+
+    if (chat.seriesId) {
+        const seriesSnap = await db.collection("booking_series").doc(chat.seriesId).get();
+        return seriesSnap.data()?.status === "active";
+    }
+
+    let bookingId = chat.bookingId;
+    if (!bookingId && chat.jobId) {
+        const jobSnap = await db.collection("jobs").doc(chat.jobId).get();
+        bookingId = jobSnap.data()?.bookingId;
+    }
+    if (!bookingId) return false;
+
+    const bookingSnap = await db.collection("bookings").doc(bookingId).get();
+    return CONTACT_SHARING_STATUSES.includes(bookingSnap.data()?.status);
+}
+
+/**
+ * Records a masked attempt and escalates repeat offenders to moderation.
+ * Never throws - a failed record must not block the chat.
+ */
+export async function recordContactAttempt(params: {
+    userId: string;
+    chatId: string;
+    messageId: string;
+    kinds: ContactKind[];
+}): Promise<void> {
+    const db = admin.firestore();
+    const now = admin.firestore.Timestamp.now();
+
+    try {
+        await db.collection("contact_attempts").add({ ...params, createdAt: now });
+
+        const since = admin.firestore.Timestamp.fromMillis(
+            now.toMillis() - CONTACT_ATTEMPT_WINDOW_DAYS * 24 * 60 * 60 * 1000
+        );
+        const countSnap = await db.collection("contact_attempts")
+            .where("userId", "==", params.userId)
+            .where("createdAt", ">=", since)
+            .count()
+            .get();
+        const attemptCount = countSnap.data().count;
+
+        if (attemptCount < CONTACT_ESCALATION_THRESHOLD) return;
+
+        // One open case per user - new attempts update it (and reopen a resolved one)
+        await db.collection("moderation_queue").doc(`contact_leak_${params.userId}`).set({
+            type: "contact_leak",
+            userId: params.userId,
+            status: "pending",
+            attemptCount,
+            kinds: admin.firestore.FieldValue.arrayUnion(...params.kinds),
+            chatIds: admin.firestore.FieldValue.arrayUnion(params.chatId),
+            lastAttemptAt: now,
+            updatedAt: now
+        }, { merge: true });
+
+        logger.warn(`User ${params.userId} escalated to moderation: ${attemptCount} contact attempts`);
+    } catch (error) {
+        logger.error(`Error recording contact attempt of ${params.userId}:`, error);
+    }
+}
@@ -0,0 +1,36 @@
+/**
+ * Geo helpers - port of src/lib/geospatial.ts (keep in sync)
+ */
+
+const EARTH_RADIUS_KM = 6371;
+
+/** Finite coordinates within ±90 / ±180 (rejects NaN and Infinity) */
+export function isValidLatLng(lat: unknown, lng: unknown): boolean {
+    return typeof lat === "number" && typeof lng === "number" &&
+        Number.isFinite(lat) && Number.isFinite(lng) &&
+        Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
+
+/** Haversine distance between two points, in km */
+export function calculateDistance(
+    lat1: number,
+    lng1: number,
+    lat2: number,
+    lng2: number
+): number {
+    const dLat = toRadians(lat2 - lat1);
+    const dLng = toRadians(lng2 - lng1);
+
+    const a =
+        Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+        Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
+        Math.sin(dLng / 2) * Math.sin(dLng / 2);
+
+    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+    return EARTH_RADIUS_KM * c;
+}
+
+function toRadians(degrees: number): number {
+    return degrees * (Math.PI / 180);
+}
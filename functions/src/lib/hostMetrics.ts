@@ -0,0 +1,160 @@
+import * as admin from "firebase-admin";
+
+// Rolling window, same as the Super-Fachowiec evaluation (365 days)
+const METRICS_WINDOW_DAYS = 365;
+
+interface StatusChange {
+    status: string;
+}
+
+/**
+ * Recalculates a host's acceptanceRate and responseRate from bookings
+ * that went through PENDING_APPROVAL (Request to Book).
+ *
+ * - accepted: PENDING_APPROVAL → PENDING_PAYMENT
+ * - declined: PENDING_APPROVAL → CANCELED_BY_HOST
+ * - expired:  PENDING_APPROVAL → EXPIRED (no answer within 24h)
+ * Requests withdrawn by the client or still pending are not counted.
+ * Same definition as calculateRequestRates in src/lib/super-fachowiec.ts
+ * (keep in sync) - the quarterly evaluation overwrites these fields.
+ */
+export async function recalculateRequestMetrics(hostId: string): Promise<void> {
+    const db = admin.firestore();
+    const since = Date.now() - METRICS_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+
+    const snapshot = await db.collection("bookings")
+        .where("hostId", "==", hostId)
+        .get();
+
+    let accepted = 0;
+    let declined = 0;
+    let expired = 0;
+
+    snapshot.forEach(doc => {
+        const booking = doc.data();
+        if (booking.createdAt?.toMillis?.() < since) return;
+
+        const history: StatusChange[] = booking.statusHistory || [];
+        const requestIdx = history.findIndex(h => h.status === "PENDING_APPROVAL");
+        if (requestIdx === -1) return;
+
+        const outcome = history[requestIdx + 1]?.status;
+        if (outcome === "PENDING_PAYMENT") accepted++;
+        else if (outcome === "CANCELED_BY_HOST") declined++;
+        else if (outcome === "EXPIRED") expired++;
+    });
+
+    const total = accepted + declined + expired;
+
+    await db.collection("metrics").doc(hostId).set({
+        hostId,
+        acceptanceRate: total > 0 ? accepted / total : 1,
+        responseRate: total > 0 ? (accepted + declined) / total : 1
+    }, { merge: true });
+}
+
+/**
+ * Recalculates a host's cancellationRate: share of bookings that reached
+ * CONFIRMED and were later canceled by the host or ended as a host no-show.
+ * A declined request (PENDING_APPROVAL → CANCELED_BY_HOST) never reached
+ * CONFIRMED, so it does not count here.
+ * Same definition as calculateCancellationRate in src/lib/super-fachowiec.ts
+ * (keep in sync) - the quarterly evaluation overwrites this field.
+ */
+export async function recalculateCancellationRate(hostId: string): Promise<void> {
+    const db = admin.firestore();
+    const since = Date.now() - METRICS_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+
+    const snapshot = await db.collection("bookings")
+        .where("hostId", "==", hostId)
+        .get();
+
+    let confirmed = 0;
+    let canceledByHost = 0;
+
+    snapshot.forEach(doc => {
+        const booking = doc.data();
+        if (booking.createdAt?.toMillis?.() < since) return;
+
+        const history: StatusChange[] = booking.statusHistory || [];
+        if (!history.some(h => h.status === "CONFIRMED")) return;
+
+        confirmed++;
+        if (booking.status === "CANCELED_BY_HOST" || booking.status === "NO_SHOW_HOST") canceledByHost++;
+    });
+
+    await db.collection("metrics").doc(hostId).set({
+        hostId,
+        cancellationRate: confirmed > 0 ? canceledByHost / confirmed : 0
+    }, { merge: true });
+}
+
+/**
+ * Recalculates a host's punctuality for the on_time_master badge.
+ * A check-in counts as on time only when it was GPS-verified at the service
+ * location and happened within the grace period after scheduledDate.
+ */
+export async function recalculatePunctuality(hostId: string): Promise<void> {
+    const db = admin.firestore();
+    const since = Date.now() - METRICS_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+
+    const snapshot = await db.collection("bookings")
+        .where("hostId", "==", hostId)
+        .get();
+
+    let checkIns = 0;
+    let onTime = 0;
+
+    snapshot.forEach(doc => {
+        const verification = doc.data().checkInVerification;
+        if (!verification || verification.recordedAt?.toMillis?.() < since) return;
+
+        checkIns++;
+        if (verification.isOnTime) onTime++;
+    });
+
+    await db.collection("metrics").doc(hostId).set({
+        hostId,
+        verifiedCheckIns: checkIns,
+        onTimePercentage: checkIns > 0 ? Math.round((onTime / checkIns) * 1000) / 10 : 0
+    }, { merge: true });
+}
+
+/**
+ * Counts a client no-show on users/{clientId} - shown to hosts before
+ * they accept a Request to Book.
+ */
+export async function recordClientNoShow(clientId: string): Promise<void> {
+    await admin.firestore().collection("users").doc(clientId).set({
+        noShowCount: admin.firestore.FieldValue.increment(1)
+    }, { merge: true });
+}
+
+/**
+ * Client's rating from published host reviews (authorRole "host"), checked
+ * against listing.instantBookRequirements.minRating before an instant
+ * booking. Blind reviews stay out until the pair is published.
+ */
+export async function recalculateGuestRating(clientId: string): Promise<void> {
+    const db = admin.firestore();
+
+    const snapshot = await db.collection("reviews")
+        .where("targetId", "==", clientId)
+        .where("authorRole", "==", "host")
+        .where("published", "==", true)
+        .get();
+
+    const ratings = snapshot.docs
+        .map(doc => doc.data().rating)
+        .filter((rating): rating is number => typeof rating === "number");
+    const average = ratings.length > 0
+        ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length
+        : 0;
+
+    await db.collection("users").doc(clientId).set({
+        guestRating: {
+            average: Math.round(average * 10) / 10,
+            count: ratings.length
+        }
+    }, { merge: true });
+}
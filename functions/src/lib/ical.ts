@@ -0,0 +1,86 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer for the provider booking feed.
+ *
+ * Times are written in UTC ("...Z"), so the feed needs no VTIMEZONE -
+ * calendar apps show them in the subscriber's own zone.
+ */
+
+export interface IcsEvent {
+    uid: string;
+    start: Date;
+    end: Date;
+    summary: string;
+    location?: string;
+    description?: string;
+    status?: "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+    updatedAt?: Date;
+}
+
+/** 20240115T083000Z */
+function formatUtc(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** Escapes TEXT values (backslash, semicolon, comma, newline) */
+function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, "\\\\")
+        .replace(/;/g, "\\;")
+        .replace(/,/g, "\\,")
+        .replace(/\r?\n/g, "\\n");
+}
+
+/** Folds a content line to 75 octets, continuation lines start with a space */
+function foldLine(line: string): string {
+    if (Buffer.byteLength(line) <= 75) return line;
+
+    const parts: string[] = [];
+    let current = "";
+    let currentBytes = 0;
+
+    for (const char of line) {
+        const bytes = Buffer.byteLength(char);
+        const limit = parts.length === 0 ? 75 : 74;
+        if (currentBytes + bytes > limit) {
+            parts.push(current);
+            current = "";
+            currentBytes = 0;
+        }
+        current += char;
+        currentBytes += bytes;
+    }
+    parts.push(current);
+
+    return parts.join("\r\n ");
+}
+
+export function buildCalendar(name: string, events: IcsEvent[], now: Date = new Date()): string {
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        "PRODID:-//FachowcyNow//Provider bookings//PL",
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        `X-WR-CALNAME:${escapeText(name)}`,
+        "X-WR-TIMEZONE:Europe/Warsaw"
+    ];
+
+    for (const event of events) {
+        lines.push(
+            "BEGIN:VEVENT",
+            `UID:${event.uid}`,
+            `DTSTAMP:${formatUtc(now)}`,
+            `DTSTART:${formatUtc(event.start)}`,
+            `DTEND:${formatUtc(event.end)}`,
+            `SUMMARY:${escapeText(event.summary)}`,
+            ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+            ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+            `STATUS:${event.status || "CONFIRMED"}`,
+            ...(event.updatedAt ? [`LAST-MODIFIED:${formatUtc(event.updatedAt)}`] : []),
+            "END:VEVENT"
+        );
+    }
+
+    lines.push("END:VCALENDAR");
+    return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,59 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+
+export interface PushPayload {
+    title: string;
+    body: string;
+    data?: Record<string, string>;
+}
+
+/**
+ * Sends an FCM push notification to every registered device of a user.
+ * Reads fcm_tokens/{userId} (both the `tokens` array and the single `token`
+ * written by usePushNotifications) and prunes tokens FCM rejects.
+ * Never throws - a failed notification must not fail the calling function.
+ */
+export async function notifyUser(userId: string, payload: PushPayload): Promise<number> {
+    try {
+        const tokensRef = admin.firestore().collection("fcm_tokens").doc(userId);
+        const tokensDoc = await tokensRef.get();
+
+        if (!tokensDoc.exists) {
+            logger.info(`No FCM tokens found for user ${userId}`);
+            return 0;
+        }
+
+        const data = tokensDoc.data() || {};
+        const tokens: string[] = Array.from(new Set([
+            ...(Array.isArray(data.tokens) ? data.tokens : []),
+            ...(typeof data.token === "string" ? [data.token] : [])
+        ]));
+
+        if (tokens.length === 0) return 0;
+
+        const response = await admin.messaging().sendEachForMulticast({
+            tokens,
+            notification: {
+                title: payload.title,
+                body: payload.body
+            },
+            data: payload.data
+        });
+
+        // Cleanup invalid tokens
+        if (response.failureCount > 0) {
+            const invalidTokens = tokens.filter((_, idx) => !response.responses[idx].success);
+            await tokensRef.update({
+                tokens: admin.firestore.FieldValue.arrayRemove(...invalidTokens),
+                ...(typeof data.token === "string" && invalidTokens.includes(data.token)
+                    ? { token: admin.firestore.FieldValue.delete() }
+                    : {})
+            });
+        }
+
+        return response.successCount;
+    } catch (error) {
+        logger.error(`Error sending notification to ${userId}:`, error);
+        return 0;
+    }
+}
@@ -0,0 +1,71 @@
+import { HttpsError } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import { BookingDoc } from "./bookingMachine";
+
+const STRIPE_API_URL = "https://api.stripe.com/v1";
+
+/**
+ * PaymentIntent statuses that count as paid: "succeeded" for automatic
+ * capture (BookingModal), "requires_capture" for a manually captured
+ * authorization (Request to Book).
+ */
+const PAID_INTENT_STATUSES = ["succeeded", "requires_capture"];
+
+interface StripePaymentIntent {
+    id: string;
+    status: string;
+    amount: number;
+    currency: string;
+    metadata?: Record<string, string>;
+}
+
+/**
+ * Checks a client-reported paymentId against Stripe before a booking is
+ * marked authorized/captured. The PaymentIntent must belong to this
+ * booking (metadata.bookingId, set by create-payment-intent), be paid and
+ * cover the booking's totalAmount.
+ */
+export async function verifyBookingPayment(
+    paymentId: string,
+    bookingId: string,
+    booking: BookingDoc
+): Promise<void> {
+    const secretKey = process.env.STRIPE_SECRET_KEY;
+    if (!secretKey) {
+        logger.error("STRIPE_SECRET_KEY is not set - payments cannot be verified");
+        throw new HttpsError("failed-precondition", "Płatności są chwilowo niedostępne");
+    }
+    if (!/^pi_[A-Za-z0-9_]+$/.test(paymentId)) {
+        throw new HttpsError("invalid-argument", "Nieprawidłowy identyfikator płatności");
+    }
+
+    let intent: StripePaymentIntent;
+    try {
+        const response = await fetch(`${STRIPE_API_URL}/payment_intents/${paymentId}`, {
+            headers: { Authorization: `Bearer ${secretKey}` }
+        });
+        if (response.status === 404) {
+            throw new HttpsError("not-found", "Płatność nie istnieje");
+        }
+        if (!response.ok) {
+            throw new Error(`Stripe responded with ${response.status}`);
+        }
+        intent = await response.json() as StripePaymentIntent;
+    } catch (error) {
+        if (error instanceof HttpsError) throw error;
+        logger.error(`Error verifying payment ${paymentId}:`, error);
+        throw new HttpsError("unavailable", "Nie udało się zweryfikować płatności");
+    }
+
+    if (intent.metadata?.bookingId !== bookingId) {
+        throw new HttpsError("permission-denied", "Płatność dotyczy innej rezerwacji");
+    }
+    if (!PAID_INTENT_STATUSES.includes(intent.status)) {
+        throw new HttpsError("failed-precondition", "Płatność nie została zrealizowana");
+    }
+
+    const expectedAmount = Math.round(booking.pricing.totalAmount * 100);
+    if (intent.currency !== booking.pricing.currency.toLowerCase() || intent.amount < expectedAmount) {
+        throw new HttpsError("failed-precondition", "Kwota płatności nie zgadza się z rezerwacją");
+    }
+}
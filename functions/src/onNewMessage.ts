@@ -1,84 +1,76 @@
-
 import { onDocumentCreated } from "firebase-functions/v2/firestore";
 import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { chatRecipients, normalizeChat, normalizeMessage, MessageDoc } from "./lib/chat";
+import { notifyUser } from "./lib/notifications";
 
 // Initialize admin if not already initialized
 if (!admin.apps.length) {
     admin.initializeApp();
 }
 
+/** Push body of a message without text */
+function attachmentPreview(message: MessageDoc): string {
+    const type = message.attachments?.[0]?.type || message.type;
+    return type === "location" ? "📍 Udostępniono lokalizację" : "📷 Wysłano zdjęcie";
+}
+
 /**
  * Trigger: When a new message is created in a chat
- * Action: Send FCM notification to the recipient
+ * Action: Bump unreadCount of the other participants and send them an
+ * FCM notification
+ *
+ * unreadCount is only written here and in chatMarkRead. System messages
+ * count as unread but get no push - the functions that post them send
+ * their own, more specific notifications.
+ *
+ * Contact details are masked before the message is written (chatSendMessage).
  */
 export const onNewMessage = onDocumentCreated("chats/{chatId}/messages/{messageId}", async (event) => {
     const snapshot = event.data;
     if (!snapshot) return;
 
-    const messageData = snapshot.data();
     const chatId = event.params.chatId;
 
     try {
-        // 1. Get chat metadata to identify recipient
+        // 1. Get chat metadata to identify recipients
         const chatDoc = await admin.firestore().collection("chats").doc(chatId).get();
-        if (!chatDoc.exists) return;
-
         const chatData = chatDoc.data();
         if (!chatData) return;
 
-        // Determine sender and recipient
-        const senderId = messageData.senderId;
-        const recipientId = senderId === chatData.clientId ? chatData.professionalId : chatData.clientId;
-        const senderName = senderId === chatData.clientId ? chatData.clientName : chatData.professionalName;
-
-        // 2. Get recipient's FCM tokens
-        const tokensDoc = await admin.firestore().collection("fcm_tokens").doc(recipientId).get();
+        const chat = normalizeChat(chatData);
+        const message = normalizeMessage(snapshot.data(), chat);
+        const recipients = chatRecipients(chat, message.senderId);
 
-        if (!tokensDoc.exists) {
-            console.log(`No FCM tokens found for user ${recipientId}`);
-            return;
+        // 2. Unread counters
+        if (recipients.length > 0) {
+            const unreadUpdates: Record<string, admin.firestore.FieldValue> = {};
+            recipients.forEach(uid => {
+                unreadUpdates[`unreadCount.${uid}`] = admin.firestore.FieldValue.increment(1);
+            });
+            await chatDoc.ref.update(unreadUpdates);
         }
 
-        const tokens = tokensDoc.data()?.tokens || [];
-        if (tokens.length === 0) return;
-
-        // 3. Send Notification
-        const payload = {
-            notification: {
-                title: senderName || "Nowa wiadomość",
-                body: messageData.content || messageData.text || "Wysłano zdjęcie",
-            },
-            data: {
-                chatId: chatId,
-                type: "NEW_MESSAGE"
-            }
-        };
+        if (message.senderRole === "system") return;
 
-        const response = await admin.messaging().sendEachForMulticast({
-            tokens: tokens,
-            notification: payload.notification,
-            data: payload.data
-        });
+        const senderName = message.senderName ||
+            (message.senderId === chat.clientId ? chat.clientName : chat.professionalName) ||
+            "Nowa wiadomość";
 
-        console.log(`Sent ${response.successCount} notifications to ${recipientId}`);
-
-        // Cleanup invalid tokens
-        if (response.failureCount > 0) {
-            const invalidTokens: string[] = [];
-            response.responses.forEach((resp, idx) => {
-                if (!resp.success) {
-                    invalidTokens.push(tokens[idx]);
+        // 3. Notify every other participant
+        for (const recipientId of recipients) {
+            await notifyUser(recipientId, {
+                title: senderName,
+                body: message.content || attachmentPreview(message),
+                data: {
+                    chatId,
+                    type: "NEW_MESSAGE"
                 }
             });
-
-            if (invalidTokens.length > 0) {
-                await tokensDoc.ref.update({
-                    tokens: admin.firestore.FieldValue.arrayRemove(...invalidTokens)
-                });
-            }
         }
 
+        logger.info(`Message ${event.params.messageId} in chat ${chatId} - notified ${recipients.length} participants`);
     } catch (error) {
-        console.error("Error sending notification:", error);
+        logger.error("Error sending notification:", error);
     }
 });
@@ -0,0 +1,110 @@
+/**
+ * One-off migration of chats to the canonical chat schema (schemaVersion 2)
+ * Run with: npx tsx scripts/migrate-chat-schema.ts [--dry-run]
+ *
+ * Rewrites every chats/{chatId} document older than CHAT_SCHEMA_VERSION and
+ * its messages using the same normalizeChat / normalizeMessage the Cloud
+ * Functions read them with:
+ * - lastMessage { text, senderId, sentAt } → lastMessage string + lastMessageAt
+ * - unreadCount { client, professional } → keyed by uid
+ * - booking chats get clientId / professionalId from participantIds
+ * - messages: text → content, timestamp → createdAt, senderRole filled in
+ *
+ * Uses Application Default Credentials (ADC)
+ * Make sure to run: gcloud auth application-default login
+ */
+
+import { initializeApp, applicationDefault } from 'firebase-admin/app';
+import { getFirestore, FieldValue, DocumentData } from 'firebase-admin/firestore';
+import { CHAT_SCHEMA_VERSION, normalizeChat, normalizeMessage } from '../functions/src/lib/chat';
+
+// Initialize with Application Default Credentials
+try {
+    initializeApp({
+        credential: applicationDefault(),
+        projectId: 'aplikacja-fachowcy'
+    });
+} catch (e) {
+    // App already initialized
+}
+
+const db = getFirestore();
+const DRY_RUN = process.argv.includes('--dry-run');
+
+/** Firestore batch limit is 500 writes */
+const BATCH_SIZE = 400;
+
+/** Legacy fields replaced by their canonical counterparts */
+const LEGACY_CHAT_FIELDS = ['id'];
+const LEGACY_MESSAGE_FIELDS = ['text', 'timestamp', 'isSystemMessage', 'chatId'];
+
+/** Firestore rejects undefined values */
+function withoutUndefined(data: DocumentData): DocumentData {
+    return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+}
+
+function deletes(data: DocumentData, fields: string[]): DocumentData {
+    return Object.fromEntries(fields.filter(field => field in data).map(field => [field, FieldValue.delete()]));
+}
+
+async function migrate() {
+    console.log(`🚀 Migrating chats to schema v${CHAT_SCHEMA_VERSION}${DRY_RUN ? ' (dry run)' : ''}...`);
+
+    const chatsSnap = await db.collection('chats').get();
+    let chatCount = 0;
+    let messageCount = 0;
+
+    let batch = db.batch();
+    let pending = 0;
+    const flush = async () => {
+        if (pending === 0) return;
+        if (!DRY_RUN) await batch.commit();
+        batch = db.batch();
+        pending = 0;
+    };
+
+    for (const chatDoc of chatsSnap.docs) {
+        const data = chatDoc.data();
+        if (data.schemaVersion >= CHAT_SCHEMA_VERSION) continue;
+
+        const chat = normalizeChat(data);
+        if (!chat.clientId) {
+            console.warn(`⚠️  Skipped chat ${chatDoc.id}: no participants`);
+            continue;
+        }
+
+        // unreadCount is replaced as a whole - drops the role keys
+        batch.set(chatDoc.ref, {
+            ...withoutUndefined(chat),
+            ...deletes(data, LEGACY_CHAT_FIELDS)
+        }, { merge: true });
+        batch.update(chatDoc.ref, { unreadCount: chat.unreadCount });
+        pending += 2;
+
+        const messagesSnap = await chatDoc.ref.collection('messages').get();
+        for (const messageDoc of messagesSnap.docs) {
+            const messageData = messageDoc.data();
+            batch.set(messageDoc.ref, {
+                ...withoutUndefined(normalizeMessage(messageData, chat)),
+                ...deletes(messageData, LEGACY_MESSAGE_FIELDS)
+            }, { merge: true });
+            pending++;
+            messageCount++;
+
+            if (pending >= BATCH_SIZE) await flush();
+        }
+
+        chatCount++;
+        console.log(`✅ ${chatDoc.id}: ${messagesSnap.size} messages`);
+        if (pending >= BATCH_SIZE) await flush();
+    }
+
+    await flush();
+    console.log(`\n🎉 ${DRY_RUN ? 'Would migrate' : 'Migrated'} ${chatCount} chats and ${messageCount} messages`);
+    process.exit(0);
+}
+
+migrate().catch(error => {
+    console.error("❌ Migration failed:", error);
+    process.exit(1);
+});
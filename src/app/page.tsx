@@ -7,7 +7,8 @@ import { Loader2, LayoutDashboard, Map as MapIcon, LogOut, User as UserIcon, Ref
 import { MapProvider } from "@/components/features/MapProvider";
 import dynamic from "next/dynamic";
 import { RoutePolyline } from "@/components/map/RoutePolyline";
-import { SearchOverlay, CategoryType, PlaceLocation } from "@/components/features/SearchOverlay";
+import { SearchOverlay, CategoryType, PlaceLocation, AvailabilityFilter } from "@/components/features/SearchOverlay";
+import { SearchOptions } from "@/hooks/useLiveSearch";
 import { ProCard } from "@/components/ui/ProCard";
 import { ChatWindow } from "@/components/features/ChatWindow";
 import { DashboardView } from "@/components/features/DashboardView";
@@ -48,6 +49,7 @@ const MapOverview = dynamic(() => import("@/components/features/MapOverview").th
 });
 
 import { usePushNotifications } from "@/hooks/usePushNotifications";
+import { useUnreadMessages } from "@/hooks/useUnreadMessages";
 
 export default function Home() {
   const { user, loading, userRole,
@@ -61,6 +63,7 @@ export default function Home() {
   } = useAuth();
 
   usePushNotifications(); // Init Push Notifications
+  const unreadMessages = useUnreadMessages();
 
   const router = useRouter();
   const [selectedPro, setSelectedPro] = useState<Professional | null>(null);
@@ -68,6 +71,7 @@ export default function Home() {
   const [bookingModalPro, setBookingModalPro] = useState<Professional | null>(null);
   const [activeTab, setActiveTab] = useState<TabType>("map");
   const [activeCategory, setActiveCategory] = useState<CategoryType>("Wszyscy");
+  const [availability, setAvailability] = useState<{ filter: AvailabilityFilter; availableOn?: SearchOptions['availableOn'] }>({ filter: 'any' });
   const [mapCenter, setMapCenter] = useState<PlaceLocation | null>(null);
   const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
   const [isAIAssistantOpen, setIsAIAssistantOpen] = useState(false);
@@ -309,6 +313,7 @@ export default function Home() {
               <MapOverview
                 onSelectPro={(pro) => setSelectedPro(pro)}
                 categoryFilter={activeCategory}
+                availableOn={availability.availableOn}
                 centerLocation={mapCenter}
                 userRole={userRole as 'client' | 'professional' | null}
                 fitBoundsLocations={fitBoundsLocations}
@@ -329,6 +334,8 @@ export default function Home() {
                 onCategoryChange={setActiveCategory}
                 onPlaceSelect={setMapCenter}
                 isOnline={isOnline}
+                availabilityFilter={availability.filter}
+                onAvailabilityChange={(filter, availableOn) => setAvailability({ filter, availableOn })}
               />
 
               {/* Top Right User Menu - Positioned below search area */}
@@ -580,6 +587,7 @@ export default function Home() {
           }
         }}
         userRole={userRole as 'client' | 'professional' | null}
+        unreadMessages={unreadMessages}
       />
 
       {/* FAB Button - Add Job (Only for Clients) */}
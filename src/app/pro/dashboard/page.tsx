@@ -21,7 +21,6 @@ import {
     ChevronRight,
     Zap,
     Plus,
-    MessageCircle,
     Calendar
 } from "lucide-react";
 import {
@@ -30,17 +29,15 @@ import {
     where,
     onSnapshot,
     orderBy,
-    limit,
-    doc,
-    updateDoc,
-    Timestamp
+    limit
 } from "firebase/firestore";
 import { db } from "@/lib/firebase";
+import { approveBooking, cancelBooking } from "@/lib/booking-machine";
 
-import { Booking, BookingStatus, bookingConverter } from "@/types/firestore-v2";
+import { Booking, bookingConverter } from "@/types/firestore-v2";
 import { JobRequestCard } from "@/components/pro/ProDashboardComponents";
 import { PerformanceDashboard } from "@/components/features/PerformanceDashboard";
-import { ChatPanel } from "@/components/features/ChatPanel";
+import { ChatPanel, ChatTrigger } from "@/components/features/ChatPanel";
 import { CreateListingModal } from "@/components/pro/CreateListingModal";
 import { useEarnings } from "@/hooks/useEarnings";
 
@@ -113,33 +110,23 @@ export default function ProDashboardPage() {
     }, [user, isOnline]);
 
     const handleAcceptJob = async (jobId: string) => {
-        if (!db) return;
-        try {
-            const bookingRef = doc(db, "bookings", jobId);
-            await updateDoc(bookingRef, {
-                status: "CONFIRMED" as BookingStatus,
-                updatedAt: Timestamp.now(),
-            });
-            setHasNewJob(false);
-            setCurrentJob(null);
-        } catch (e) {
-            console.error("Error accepting job:", e);
+        const result = await approveBooking(jobId);
+        if (!result.success) {
+            console.error("Error accepting job:", result.error);
+            return;
         }
+        setHasNewJob(false);
+        setCurrentJob(null);
     };
 
     const handleDeclineJob = async (jobId: string) => {
-        if (!db) return;
-        try {
-            const bookingRef = doc(db, "bookings", jobId);
-            await updateDoc(bookingRef, {
-                status: "CANCELED_BY_HOST" as BookingStatus,
-                updatedAt: Timestamp.now()
-            });
-            setHasNewJob(false);
-            setCurrentJob(null);
-        } catch (e) {
-            console.error("Error declining job:", e);
+        const result = await cancelBooking(jobId, 'Odrzucone przez fachowca');
+        if (!result.success) {
+            console.error("Error declining job:", result.error);
+            return;
         }
+        setHasNewJob(false);
+        setCurrentJob(null);
     };
 
     return (
@@ -157,12 +144,7 @@ export default function ProDashboardPage() {
                     <h1 className="text-lg font-bold">Kokpit</h1>
 
                     <div className="flex items-center gap-2">
-                        <button
-                            onClick={() => setIsChatOpen(true)}
-                            className="w-10 h-10 flex items-center justify-center rounded-full hover:bg-white/5 relative"
-                        >
-                            <MessageCircle className="w-5 h-5" />
-                        </button>
+                        <ChatTrigger onClick={() => setIsChatOpen(true)} />
                     </div>
                 </div>
             </header>
@@ -3,13 +3,14 @@
 import { useState, useEffect } from "react";
 import { format, addDays, startOfWeek, isSameDay } from "date-fns";
 import { pl } from "date-fns/locale";
-import { ChevronLeft, ChevronRight, Clock, Ban, Check } from "lucide-react";
+import { ChevronLeft, ChevronRight, Clock, Ban, Check, CalendarDays, Upload } from "lucide-react";
 import { AvailabilityService } from "@/lib/availability-service";
-import { ProviderSchedule, DaySchedule } from "@/types/firestore-v2";
+import { ProviderSchedule, DaySchedule, AvailabilityDay, ScheduleException } from "@/types/firestore-v2";
 import { useAuth } from "@/context/AuthContext";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import { ScheduleExceptionsEditor } from "@/components/pro/ScheduleExceptionsEditor";
 
 /**
  * Calendar for Providers to manage their availability
@@ -21,6 +22,12 @@ export function AvailabilityCalendar() {
     const [loading, setLoading] = useState(true);
     const [selectedDay, setSelectedDay] = useState<number | null>(null); // 0-6
     const [saving, setSaving] = useState(false);
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const [freeDays, setFreeDays] = useState<AvailabilityDay[]>([]);
+    const [feedUrl, setFeedUrl] = useState<string | null>(null);
+    const [icsText, setIcsText] = useState("");
+    const [importing, setImporting] = useState(false);
+    const [importMessage, setImportMessage] = useState<string | null>(null);
 
     useEffect(() => {
         if (!user) return;
@@ -30,9 +37,26 @@ export function AvailabilityCalendar() {
     const loadSchedule = async () => {
         if (!user) return;
         try {
-            const data = await AvailabilityService.getSchedule(user.uid);
+            const [data, days] = await Promise.all([
+                AvailabilityService.getSchedule(user.uid),
+                AvailabilityService.getFreeDays(user.uid, 7)
+            ]);
+            setFreeDays(days);
             if (data) {
-                setSchedule(data);
+                // Whole blocked days (older format) become exceptions on the next save
+                setSchedule({
+                    ...data,
+                    exceptions: [
+                        ...(data.exceptions || []),
+                        ...(data.blockedDates || []).map((date): ScheduleException => ({
+                            id: `day-${date}`,
+                            type: 'blocked',
+                            startDate: date,
+                            endDate: date
+                        }))
+                    ],
+                    blockedDates: []
+                });
             } else {
                 // Initialize default schedule
                 const defaultSchedule: ProviderSchedule = {
@@ -43,6 +67,7 @@ export function AvailabilityCalendar() {
                         slots: [{ start: "09:00", end: "17:00" }]
                     })),
                     blockedDates: [],
+                    exceptions: [],
                     instantBooking: false,
                     maxBookingsPerDay: 5,
                     updatedAt: null as any // Will be set on save
@@ -59,16 +84,43 @@ export function AvailabilityCalendar() {
     const handleSave = async () => {
         if (!user || !schedule) return;
         setSaving(true);
+        setSaveError(null);
         try {
             await AvailabilityService.saveSchedule(user.uid, schedule);
             // Show toast success
         } catch (error) {
             console.error("Failed to save", error);
+            setSaveError(error instanceof Error ? error.message : "Nie udało się zapisać grafiku");
         } finally {
             setSaving(false);
         }
     };
 
+    const handleFeedUrl = async (rotate: boolean) => {
+        try {
+            setFeedUrl(await AvailabilityService.getCalendarFeedUrl(rotate));
+        } catch (error) {
+            console.error("Failed to get calendar feed", error);
+        }
+    };
+
+    const handleImport = async (text: string) => {
+        if (!user || !text.trim()) return;
+        setImporting(true);
+        setImportMessage(null);
+        try {
+            const count = await AvailabilityService.importCalendar(user.uid, text);
+            setImportMessage(`Zaimportowano ${count} zajętych terminów z 90 najbliższych dni`);
+            setIcsText("");
+            await loadSchedule();
+        } catch (error) {
+            console.error("Failed to import calendar", error);
+            setImportMessage(error instanceof Error ? error.message : "Nie udało się zaimportować kalendarza");
+        } finally {
+            setImporting(false);
+        }
+    };
+
     const toggleDayActive = (dayIndex: number) => {
         if (!schedule) return;
         const newWeekly = [...schedule.weeklySchedule];
@@ -174,8 +226,141 @@ export function AvailabilityCalendar() {
                 ))}
             </div>
 
+            {/* Booking rules - enforced by bookingInstantBook / bookingRequestToBook */}
+            <div className="flex flex-col md:flex-row md:items-center gap-4 p-4 rounded-xl border bg-slate-800/50 border-slate-700">
+                <label className="flex items-center gap-3 flex-1 cursor-pointer">
+                    <button
+                        onClick={() => setSchedule({ ...schedule, instantBooking: schedule.instantBooking === false })}
+                        className={cn(
+                            "w-5 h-5 rounded-md border flex items-center justify-center transition-colors",
+                            schedule.instantBooking !== false
+                                ? "bg-blue-500 border-blue-500"
+                                : "border-slate-600 hover:border-slate-500"
+                        )}
+                    >
+                        {schedule.instantBooking !== false && <Check className="w-3.5 h-3.5 text-white" />}
+                    </button>
+                    <span className="text-sm text-white">Rezerwacja natychmiastowa (bez mojej akceptacji)</span>
+                </label>
+                <label className="flex items-center gap-3 text-sm text-slate-300">
+                    Maks. rezerwacji dziennie
+                    <input
+                        type="number"
+                        min={0}
+                        value={schedule.maxBookingsPerDay ?? 0}
+                        onChange={(e) => setSchedule({ ...schedule, maxBookingsPerDay: Math.max(0, Number(e.target.value) || 0) })}
+                        className="w-16 bg-slate-950 text-white outline-none px-2 py-1 rounded-lg border border-slate-700"
+                    />
+                </label>
+            </div>
+
+            {/* Free slots from the availability index (after bookings) */}
+            {freeDays.length > 0 && (
+                <div className="space-y-2">
+                    <h3 className="text-sm font-semibold text-slate-300">Wolne terminy w najbliższym tygodniu</h3>
+                    {freeDays.map(day => (
+                        <div key={day.date} className="flex items-center gap-3 text-sm">
+                            <span className="min-w-[110px] text-slate-400">
+                                {format(new Date(`${day.date}T12:00:00`), 'EEE, d MMM', { locale: pl })}
+                            </span>
+                            {day.freeSlots.length > 0 ? (
+                                <div className="flex flex-wrap gap-2">
+                                    {day.freeSlots.map(slot => (
+                                        <span key={slot.start} className="px-2 py-0.5 rounded-md bg-emerald-500/10 text-emerald-300 border border-emerald-500/20">
+                                            {slot.start}–{slot.end}
+                                        </span>
+                                    ))}
+                                </div>
+                            ) : (
+                                <span className="text-slate-600 italic">Brak wolnych terminów</span>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* External calendars - ICS feed out, ICS import in (blockedRanges) */}
+            <div className="space-y-3 p-4 rounded-xl border bg-slate-800/50 border-slate-700">
+                <h3 className="text-sm font-semibold text-slate-300 flex items-center gap-2">
+                    <CalendarDays className="w-4 h-4 text-blue-400" />
+                    Kalendarz zewnętrzny
+                </h3>
+
+                <div className="flex flex-col md:flex-row md:items-center gap-2">
+                    {feedUrl ? (
+                        <>
+                            <input
+                                readOnly
+                                value={feedUrl}
+                                onFocus={(e) => e.target.select()}
+                                className="flex-1 bg-slate-950 text-slate-300 text-xs outline-none px-2 py-1.5 rounded-lg border border-slate-700"
+                            />
+                            <Button variant="ghost" size="sm" onClick={() => navigator.clipboard.writeText(feedUrl)} className="text-xs text-blue-400 hover:text-blue-300">
+                                Kopiuj
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => handleFeedUrl(true)} className="text-xs text-slate-400 hover:text-slate-300">
+                                Nowy link
+                            </Button>
+                        </>
+                    ) : (
+                        <Button variant="ghost" size="sm" onClick={() => handleFeedUrl(false)} className="text-xs text-blue-400 hover:text-blue-300">
+                            Pokaż link do subskrypcji rezerwacji (iCal)
+                        </Button>
+                    )}
+                </div>
+
+                <textarea
+                    value={icsText}
+                    onChange={(e) => setIcsText(e.target.value)}
+                    placeholder="Wklej zawartość pliku .ics z Google, Apple lub Outlook..."
+                    rows={3}
+                    className="w-full bg-slate-950 text-white text-xs outline-none px-2 py-1.5 rounded-lg border border-slate-700"
+                />
+                <div className="flex flex-wrap items-center gap-3">
+                    <Button
+                        size="sm"
+                        disabled={importing || !icsText.trim()}
+                        onClick={() => handleImport(icsText)}
+                        className="bg-blue-600 hover:bg-blue-700 text-white"
+                    >
+                        {importing ? "Importowanie..." : "Importuj zajęte terminy"}
+                    </Button>
+                    <label className="flex items-center gap-2 text-xs text-blue-400 hover:text-blue-300 cursor-pointer">
+                        <Upload className="w-3.5 h-3.5" />
+                        Wybierz plik .ics
+                        <input
+                            type="file"
+                            accept=".ics,text/calendar"
+                            className="hidden"
+                            onChange={async (e) => {
+                                const file = e.target.files?.[0];
+                                e.target.value = "";
+                                if (file) await handleImport(await file.text());
+                            }}
+                        />
+                    </label>
+                    {(schedule.blockedRanges?.length ?? 0) > 0 && (
+                        <span className="text-xs text-slate-500">
+                            Zablokowane przedziały: {schedule.blockedRanges?.length}
+                        </span>
+                    )}
+                </div>
+                {importMessage && <p className="text-xs text-slate-400">{importMessage}</p>}
+            </div>
+
+            {/* Holidays, blocked hours and date-specific hours */}
+            <div className="space-y-2">
+                <h3 className="text-sm font-semibold text-slate-300">Wyjątki i Urlopy</h3>
+                <ScheduleExceptionsEditor
+                    exceptions={schedule.exceptions || []}
+                    onChange={(exceptions) => setSchedule({ ...schedule, exceptions })}
+                />
+            </div>
+
+            {saveError && <p className="text-sm text-red-400">{saveError}</p>}
+
             <div className="p-4 bg-amber-500/10 border border-amber-500/20 rounded-xl text-sm text-amber-200">
-                <p>💡 Wskazówka: Zablokowane daty i urlopy możesz ustawić w sekcji "Wyjątki i Urlopy".</p>
+                <p>💡 Wskazówka: Wyjątki zaczną obowiązywać po kliknięciu "Zapisz Zmiany".</p>
             </div>
         </Card>
     );
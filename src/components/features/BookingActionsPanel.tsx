@@ -0,0 +1,311 @@
+"use client";
+
+import { useState } from "react";
+import { CalendarClock, CreditCard, Loader2, MapPin } from "lucide-react";
+import { Booking, LocationVerification } from "@/types/firestore-v2";
+import {
+    addAdditionalCharge,
+    checkIn,
+    checkOut,
+    getCurrentPosition,
+    isReschedulePending,
+    requestReschedule,
+    respondToAdditionalCharge,
+    respondToReschedule
+} from "@/lib/booking-machine";
+import { fromLocalTime } from "@/lib/local-time";
+
+const CHARGE_STATUS_LABELS: Record<'pending' | 'approved' | 'rejected' | 'expired', string> = {
+    pending: 'Czeka na akceptację',
+    approved: 'Zaakceptowana',
+    rejected: 'Odrzucona',
+    expired: 'Wygasła'
+};
+
+const formatDateTime = (date: Date) => date.toLocaleString("pl-PL", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit"
+});
+
+/** Wynik weryfikacji GPS przy check-in / check-out */
+function describeVerification(verification: LocationVerification): string {
+    switch (verification.status) {
+        case 'verified':
+            return `Lokalizacja potwierdzona (${verification.distanceMeters} m od adresu usługi)`;
+        case 'outside_radius':
+            return `Poza adresem usługi: ${verification.distanceMeters} m (dozwolone ${verification.radiusMeters} m) - oznaczone do weryfikacji`;
+        case 'no_location':
+            return 'Brak lokalizacji GPS - oznaczone do weryfikacji';
+    }
+}
+
+function VerificationNote({ label, verification }: { label: string; verification: LocationVerification }) {
+    const verified = verification.status === 'verified';
+    return (
+        <p className={`flex items-center gap-2 text-xs ${verified ? 'text-emerald-400' : 'text-amber-400'}`}>
+            <MapPin className="w-4 h-4 shrink-0" />
+            {label}: {describeVerification(verification)}
+            {typeof verification.minutesLate === 'number' && verification.minutesLate > 0 && `, spóźnienie ${verification.minutesLate} min`}
+        </p>
+    );
+}
+
+interface BookingActionsPanelProps {
+    booking: Booking;
+    userId: string;
+    isHost: boolean;
+}
+
+/**
+ * Akcje rezerwacji po potwierdzeniu, dla obu stron:
+ * - CONFIRMED: propozycja zmiany terminu i odpowiedź na propozycję drugiej strony;
+ *   fachowiec rozpoczyna usługę (check-in z pozycją GPS)
+ * - ACTIVE: fachowiec dolicza dopłatę, klient ją akceptuje lub odrzuca;
+ *   fachowiec kończy usługę (check-out)
+ * Wynik weryfikacji GPS (odległość lub oznaczenie) widzi fachowiec.
+ */
+export function BookingActionsPanel({ booking, userId, isHost }: BookingActionsPanelProps) {
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [showReschedule, setShowReschedule] = useState(false);
+    const [rescheduleDate, setRescheduleDate] = useState("");
+    const [rescheduleTime, setRescheduleTime] = useState("");
+    const [chargeDescription, setChargeDescription] = useState("");
+    const [chargeAmount, setChargeAmount] = useState("");
+
+    const run = async (action: () => Promise<{ success: boolean; error?: string }>, fallback: string) => {
+        setIsBusy(true);
+        setError(null);
+        const result = await action();
+        if (!result.success) {
+            setError(result.error || fallback);
+        }
+        setIsBusy(false);
+        return result.success;
+    };
+
+    const handleRequestReschedule = async () => {
+        if (!rescheduleDate || !rescheduleTime) return;
+        const ok = await run(
+            () => requestReschedule(booking.id, fromLocalTime(rescheduleDate, rescheduleTime)),
+            'Nie udało się zaproponować terminu'
+        );
+        if (ok) {
+            setShowReschedule(false);
+            setRescheduleDate("");
+            setRescheduleTime("");
+        }
+    };
+
+    const handleAddCharge = async () => {
+        const amount = Number(chargeAmount.replace(',', '.'));
+        if (!chargeDescription.trim() || !(amount > 0)) return;
+        const ok = await run(
+            () => addAdditionalCharge(booking.id, chargeDescription.trim(), amount),
+            'Nie udało się dodać dopłaty'
+        );
+        if (ok) {
+            setChargeDescription("");
+            setChargeAmount("");
+        }
+    };
+
+    const handleCheckIn = () => run(
+        async () => checkIn(booking.id, await getCurrentPosition()),
+        'Nie udało się rozpocząć usługi'
+    );
+
+    const handleCheckOut = () => run(
+        async () => checkOut(booking.id, await getCurrentPosition()),
+        'Nie udało się zakończyć usługi'
+    );
+
+    const reschedule = booking.reschedule;
+    const pendingReschedule = reschedule && isReschedulePending(booking) ? reschedule : null;
+    const ownProposal = pendingReschedule?.proposedBy === userId;
+    const charges = booking.pricing?.additionalCharges || [];
+
+    if (booking.status === 'CONFIRMED') {
+        return (
+            <div className="border-t border-white/5 pt-4 mt-4 space-y-3 text-sm">
+                {isHost && (
+                    <button
+                        onClick={handleCheckIn}
+                        disabled={isBusy}
+                        className="px-3 py-2 text-xs font-bold text-white bg-emerald-600 hover:bg-emerald-500 rounded-lg disabled:opacity-50 flex items-center gap-2 transition-colors"
+                    >
+                        {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <MapPin className="w-4 h-4" />}
+                        Rozpocznij usługę
+                    </button>
+                )}
+
+                {pendingReschedule && (
+                    <div className="p-3 bg-violet-500/10 border border-violet-500/20 rounded-xl">
+                        <div className="flex items-center gap-2 text-violet-300 text-xs font-medium mb-1">
+                            <CalendarClock className="w-4 h-4" />
+                            {ownProposal ? 'Twoja propozycja zmiany terminu' : 'Propozycja zmiany terminu'}
+                        </div>
+                        <p className="text-white">{formatDateTime(pendingReschedule.proposedDate.toDate())}</p>
+                        {ownProposal ? (
+                            <p className="text-xs text-slate-400 mt-1">Czekamy na odpowiedź drugiej strony</p>
+                        ) : (
+                            <div className="flex gap-2 mt-2">
+                                <button
+                                    onClick={() => run(() => respondToReschedule(booking.id, false), 'Nie udało się odrzucić terminu')}
+                                    disabled={isBusy}
+                                    className="px-3 py-1 text-xs font-bold text-red-400 bg-red-400/10 hover:bg-red-400/20 rounded border border-red-400/20 disabled:opacity-50 transition-colors"
+                                >
+                                    Odrzuć
+                                </button>
+                                <button
+                                    onClick={() => run(() => respondToReschedule(booking.id, true), 'Nie udało się przyjąć terminu')}
+                                    disabled={isBusy}
+                                    className="px-3 py-1 text-xs font-bold text-emerald-400 bg-emerald-400/10 hover:bg-emerald-400/20 rounded border border-emerald-400/20 disabled:opacity-50 transition-colors"
+                                >
+                                    Akceptuj
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {!ownProposal && (showReschedule ? (
+                    <div className="flex flex-wrap items-center gap-2">
+                        <input
+                            type="date"
+                            value={rescheduleDate}
+                            onChange={(e) => setRescheduleDate(e.target.value)}
+                            className="bg-slate-800 border border-white/10 rounded-lg px-3 py-1.5 text-white"
+                        />
+                        <input
+                            type="time"
+                            value={rescheduleTime}
+                            onChange={(e) => setRescheduleTime(e.target.value)}
+                            className="bg-slate-800 border border-white/10 rounded-lg px-3 py-1.5 text-white"
+                        />
+                        <button
+                            onClick={handleRequestReschedule}
+                            disabled={isBusy || !rescheduleDate || !rescheduleTime}
+                            className="px-3 py-1.5 text-xs font-bold text-white bg-violet-600 hover:bg-violet-500 rounded-lg disabled:opacity-50 transition-colors"
+                        >
+                            {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Zaproponuj'}
+                        </button>
+                        <button
+                            onClick={() => setShowReschedule(false)}
+                            className="px-3 py-1.5 text-xs text-slate-400 hover:text-white transition-colors"
+                        >
+                            Anuluj
+                        </button>
+                    </div>
+                ) : (
+                    <button
+                        onClick={() => setShowReschedule(true)}
+                        className="flex items-center gap-2 text-violet-400 hover:text-violet-300 text-xs font-medium transition-colors"
+                    >
+                        <CalendarClock className="w-4 h-4" />
+                        {pendingReschedule ? 'Zaproponuj inny termin' : 'Zmień termin'}
+                    </button>
+                ))}
+
+                {error && <p className="text-xs text-red-400">{error}</p>}
+            </div>
+        );
+    }
+
+    if (booking.status === 'ACTIVE' && (isHost || charges.length > 0)) {
+        return (
+            <div className="border-t border-white/5 pt-4 mt-4 space-y-3 text-sm">
+                {isHost && booking.checkInVerification && (
+                    <VerificationNote label="Check-in" verification={booking.checkInVerification} />
+                )}
+
+                {charges.map(charge => (
+                    <div key={charge.id} className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-xl">
+                        <div className="flex items-center gap-2 text-xs mb-1">
+                            <CreditCard className="w-4 h-4 text-amber-400" />
+                            <span className="font-medium text-amber-400">Dopłata</span>
+                            <span className="ml-auto text-slate-400">{CHARGE_STATUS_LABELS[charge.status]}</span>
+                        </div>
+                        <p className="text-white">{charge.description} - <span className="font-mono font-bold">{charge.amount} zł</span></p>
+                        {!isHost && charge.status === 'pending' && (
+                            <div className="flex gap-2 mt-2">
+                                <button
+                                    onClick={() => run(() => respondToAdditionalCharge(booking.id, charge.id, false), 'Nie udało się zapisać odpowiedzi')}
+                                    disabled={isBusy}
+                                    className="px-3 py-1 text-xs font-bold text-red-400 bg-red-400/10 hover:bg-red-400/20 rounded border border-red-400/20 disabled:opacity-50 transition-colors"
+                                >
+                                    Odrzuć
+                                </button>
+                                <button
+                                    onClick={() => run(() => respondToAdditionalCharge(booking.id, charge.id, true), 'Nie udało się zapisać odpowiedzi')}
+                                    disabled={isBusy}
+                                    className="px-3 py-1 text-xs font-bold text-emerald-400 bg-emerald-400/10 hover:bg-emerald-400/20 rounded border border-emerald-400/20 disabled:opacity-50 transition-colors"
+                                >
+                                    Akceptuj
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                ))}
+
+                {isHost && (
+                    <div className="flex flex-wrap items-center gap-2">
+                        <input
+                            type="text"
+                            value={chargeDescription}
+                            onChange={(e) => setChargeDescription(e.target.value)}
+                            placeholder="Dodatkowa praca"
+                            maxLength={200}
+                            className="flex-1 min-w-[160px] bg-slate-800 border border-white/10 rounded-lg px-3 py-1.5 text-white placeholder:text-slate-500"
+                        />
+                        <input
+                            type="number"
+                            min="1"
+                            step="0.01"
+                            value={chargeAmount}
+                            onChange={(e) => setChargeAmount(e.target.value)}
+                            placeholder="zł"
+                            className="w-24 bg-slate-800 border border-white/10 rounded-lg px-3 py-1.5 text-white placeholder:text-slate-500"
+                        />
+                        <button
+                            onClick={handleAddCharge}
+                            disabled={isBusy || !chargeDescription.trim() || !chargeAmount}
+                            className="px-3 py-1.5 text-xs font-bold text-white bg-amber-600 hover:bg-amber-500 rounded-lg disabled:opacity-50 transition-colors"
+                        >
+                            {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Dolicz dopłatę'}
+                        </button>
+                    </div>
+                )}
+
+                {isHost && (
+                    <button
+                        onClick={handleCheckOut}
+                        disabled={isBusy}
+                        className="px-3 py-2 text-xs font-bold text-white bg-blue-600 hover:bg-blue-500 rounded-lg disabled:opacity-50 flex items-center gap-2 transition-colors"
+                    >
+                        {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <MapPin className="w-4 h-4" />}
+                        Zakończ usługę
+                    </button>
+                )}
+
+                {error && <p className="text-xs text-red-400">{error}</p>}
+            </div>
+        );
+    }
+
+    if (booking.status === 'COMPLETED' && isHost && booking.checkOutVerification) {
+        return (
+            <div className="border-t border-white/5 pt-4 mt-4 space-y-2 text-sm">
+                {booking.checkInVerification && (
+                    <VerificationNote label="Check-in" verification={booking.checkInVerification} />
+                )}
+                <VerificationNote label="Check-out" verification={booking.checkOutVerification} />
+            </div>
+        );
+    }
+
+    return null;
+}
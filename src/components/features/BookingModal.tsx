@@ -1,20 +1,49 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import {
     X, Calendar, Clock, MapPin, CreditCard, Check, Loader2,
-    ChevronLeft, ChevronRight, Shield
+    ChevronLeft, ChevronRight, Shield, Timer, Repeat
 } from "lucide-react";
 import { NearbyPro } from "@/lib/ai-assistant";
-import { collection, addDoc, serverTimestamp, Timestamp } from "firebase/firestore";
-import { db } from "@/lib/firebase";
+import {
+    cancelBooking,
+    confirmPayment,
+    createBookingSeries,
+    createInquiry,
+    holdSlot,
+    instantBook,
+    reportPaymentFailed,
+    requestToBook
+} from "@/lib/booking-machine";
 import { useAuth } from "@/context/AuthContext";
-import { Elements, CardElement, useStripe, useElements } from "@stripe/react-stripe-js";
-import { stripePromise, createPaymentIntent } from "@/lib/stripe";
+import { Elements } from "@stripe/react-stripe-js";
+import { stripePromise } from "@/lib/stripe";
+import { PaymentForm } from "./PaymentForm";
+import { RECURRING_SERVICE_TYPES } from "@/types/firestore-v2";
+import { toServiceCategory } from "@/types/listings";
 
 type BookingStep = 'datetime' | 'summary' | 'payment' | 'success';
 
+/**
+ * instant: booking already in PENDING_PAYMENT, the slot is held during payment
+ * request: host accepts bookings manually - payment is authorized first
+ */
+type CheckoutMode = 'instant' | 'request';
+
+/** once = single booking; otherwise a series request the host approves (no checkout) */
+type Frequency = 'once' | 'weekly' | 'biweekly';
+
+const FREQUENCY_OPTIONS: { value: Frequency; label: string }[] = [
+    { value: 'once', label: 'Jednorazowo' },
+    { value: 'weekly', label: 'Co tydzień' },
+    { value: 'biweekly', label: 'Co 2 tygodnie' }
+];
+
+// Callable error when another client already took the slot
+const SLOT_TAKEN_CODE = 'functions/aborted';
+
 interface BookingModalProps {
     isOpen: boolean;
     onClose: () => void;
@@ -25,79 +54,6 @@ interface BookingModalProps {
     onSuccess?: (bookingId: string) => void;
 }
 
-// Inner component to use Stripe hooks
-function PaymentForm({ amount, onSuccess, onError, isProcessing }: {
-    amount: number;
-    onSuccess: (paymentId: string) => void;
-    onError: (msg: string) => void;
-    isProcessing: boolean;
-}) {
-    const stripe = useStripe();
-    const elements = useElements();
-
-    const handleSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
-        if (!stripe || !elements) return;
-
-        const cardElement = elements.getElement(CardElement);
-        if (!cardElement) return;
-
-        try {
-            // 1. Create Payment Intent
-            const { clientSecret } = await createPaymentIntent(amount, "temp_booking_id");
-
-            // 2. Confirm Card Payment
-            const { error, paymentIntent } = await stripe.confirmCardPayment(clientSecret, {
-                payment_method: {
-                    card: cardElement,
-                }
-            });
-
-            if (error) {
-                onError(error.message || "Błąd płatności");
-            } else if (paymentIntent && paymentIntent.status === "succeeded") {
-                onSuccess(paymentIntent.id);
-            }
-        } catch (err: any) {
-            onError(err.message || "Błąd serwera płatności");
-        }
-    };
-
-    return (
-        <form onSubmit={handleSubmit} className="space-y-6">
-            <div className="bg-slate-800/50 p-4 rounded-xl border border-white/10">
-                <CardElement
-                    options={{
-                        style: {
-                            base: {
-                                fontSize: '16px',
-                                color: '#ffffff',
-                                '::placeholder': { color: '#94a3b8' },
-                            },
-                            invalid: { color: '#ef4444' },
-                        },
-                    }}
-                />
-            </div>
-            <button
-                type="submit"
-                disabled={!stripe || isProcessing}
-                className="w-full py-3 bg-emerald-600 hover:bg-emerald-700 disabled:bg-slate-700 disabled:cursor-not-allowed text-white font-semibold rounded-xl transition flex items-center justify-center gap-2"
-            >
-                {isProcessing ? (
-                    <>
-                        <Loader2 className="w-5 h-5 animate-spin" /> Przetwarzanie...
-                    </>
-                ) : (
-                    <>
-                        <Shield className="w-5 h-5" /> Zapłać {amount} zł
-                    </>
-                )}
-            </button>
-        </form>
-    );
-}
-
 export function BookingModal({
     isOpen,
     onClose,
@@ -114,6 +70,26 @@ export function BookingModal({
     const [isProcessing, setIsProcessing] = useState(false);
     const [bookingId, setBookingId] = useState<string | null>(null);
     const [cardError, setCardError] = useState<string | null>(null);
+    const [checkoutMode, setCheckoutMode] = useState<CheckoutMode>('request');
+    // checkoutMode is settled for bookingId - back from payment reuses it
+    const [checkoutStarted, setCheckoutStarted] = useState(false);
+    const [holdExpiresAt, setHoldExpiresAt] = useState<Date | null>(null);
+    const [now, setNow] = useState(() => Date.now());
+    const [frequency, setFrequency] = useState<Frequency>('once');
+    const [seriesRequested, setSeriesRequested] = useState(false);
+
+    // Cleaning and gardening can be booked as weekly / biweekly visits
+    const serviceCategory = toServiceCategory(category);
+    const canRepeat = RECURRING_SERVICE_TYPES.some(type => type === serviceCategory);
+
+    // Countdown of the slot hold
+    useEffect(() => {
+        if (!holdExpiresAt) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [holdExpiresAt]);
+
+    const holdSecondsLeft = holdExpiresAt ? Math.max(0, Math.floor((holdExpiresAt.getTime() - now) / 1000)) : 0;
 
     // Generate next 7 days
     const dates = Array.from({ length: 7 }, (_, i) => {
@@ -137,48 +113,168 @@ export function BookingModal({
         };
     };
 
+    const getScheduledDate = (): Date | null => {
+        if (!selectedDate || !selectedTime) return null;
+        const [hours, minutes] = selectedTime.split(':').map(Number);
+        const scheduledDate = new Date(selectedDate);
+        scheduledDate.setHours(hours, minutes, 0, 0);
+        return scheduledDate;
+    };
+
+    /**
+     * Creates the booking before payment and tries Instant Book, which
+     * holds the slot while the client pays. Hosts accepting bookings
+     * manually fall back to Request to Book after payment.
+     * Runs once per booking - instantBook on a booking that already waits
+     * for payment would fail and wrongly switch it to Request to Book.
+     */
+    const startCheckout = async () => {
+        const scheduledDate = getScheduledDate();
+        if (!user || !scheduledDate) return;
+        if (bookingId && checkoutStarted) {
+            setCardError(null);
+            setStep('payment');
+            return;
+        }
+        setIsProcessing(true);
+        setCardError(null);
+
+        try {
+            let id = bookingId;
+            if (!id) {
+                // Rezerwację tworzy backend (bookings są tylko do odczytu dla klienta)
+                const inquiry = await createInquiry({
+                    hostId: professional.id,
+                    scheduledDate,
+                    estimatedDuration: 60,
+                    serviceLocation: location,
+                    notes: [category, jobDescription].filter(Boolean).join(': ')
+                });
+                if (!inquiry.success || !inquiry.bookingId) {
+                    throw new Error(inquiry.error);
+                }
+                id = inquiry.bookingId;
+                setBookingId(id);
+            }
+
+            const instant = await instantBook(id);
+            if (instant.success) {
+                setCheckoutMode('instant');
+                setHoldExpiresAt(instant.holdExpiresAt || null);
+            } else if (instant.errorCode === SLOT_TAKEN_CODE) {
+                await cancelBooking(id, 'Termin zajęty przed płatnością');
+                setBookingId(null);
+                setCardError(instant.error || 'Ten termin został już zarezerwowany');
+                setStep('datetime');
+                return;
+            } else {
+                setCheckoutMode('request');
+            }
+
+            setCheckoutStarted(true);
+            setStep('payment');
+        } catch (error) {
+            console.error("Error starting checkout:", error);
+            setCardError(error instanceof Error ? error.message : 'Nie udało się rozpocząć płatności');
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    /**
+     * Recurring visits - sends the series request instead of a checkout;
+     * visits are created once the host accepts the series
+     */
+    const requestSeries = async () => {
+        const startDate = getScheduledDate();
+        if (!user || !startDate || frequency === 'once') return;
+        setIsProcessing(true);
+        setCardError(null);
+
+        const result = await createBookingSeries({
+            hostId: professional.id,
+            frequency,
+            startDate,
+            estimatedDuration: 60,
+            serviceLocation: location,
+            notes: [category, jobDescription].filter(Boolean).join(': ')
+        });
+        setIsProcessing(false);
+
+        if (!result.success || !result.seriesId) {
+            setCardError(result.error || 'Nie udało się wysłać prośby o cykliczne wizyty');
+            return;
+        }
+
+        const seriesId = result.seriesId;
+        setSeriesRequested(true);
+        setStep('success');
+        setTimeout(() => {
+            onSuccess?.(seriesId);
+        }, 3000);
+    };
+
+    /** Back to date selection - the booking was made for the old time */
+    const resetCheckout = async () => {
+        if (bookingId) {
+            await cancelBooking(bookingId, 'Zmiana terminu przed płatnością');
+        }
+        setBookingId(null);
+        setCheckoutStarted(false);
+        setHoldExpiresAt(null);
+        setStep('datetime');
+    };
+
+    const ensureSlotHeld = async (): Promise<boolean> => {
+        if (checkoutMode !== 'instant' || !bookingId || holdSecondsLeft > 0) return true;
+
+        const hold = await holdSlot(bookingId);
+        if (!hold.success) {
+            setCardError(hold.error || 'Ten termin nie jest już dostępny');
+            return false;
+        }
+        setHoldExpiresAt(hold.holdExpiresAt || null);
+        return true;
+    };
+
+    const handlePaymentError = async (message: string) => {
+        setCardError(message);
+        setIsProcessing(false);
+
+        // Release the slot right away instead of waiting for the hold to expire
+        if (checkoutMode === 'instant' && bookingId) {
+            await reportPaymentFailed(bookingId, message);
+            setHoldExpiresAt(null);
+        }
+    };
+
     const handleNextStep = () => {
         if (step === 'datetime' && selectedDate && selectedTime) {
             setStep('summary');
         } else if (step === 'summary') {
-            setStep('payment');
+            if (frequency === 'once') {
+                startCheckout();
+            } else {
+                requestSeries();
+            }
         }
     };
 
     const handlePaymentSuccess = async (paymentId: string) => {
-        if (!db || !user) return;
+        if (!user || !bookingId) return;
 
         try {
-            const [hours, minutes] = selectedTime!.split(':').map(Number);
-            const scheduledDate = new Date(selectedDate!);
-            scheduledDate.setHours(hours, minutes, 0, 0);
-
-            await addDoc(collection(db, "bookings"), {
-                clientId: user.uid,
-                hostId: professional.id,
-                hostSnapshot: {
-                    displayName: professional.name,
-                    avatarUrl: professional.imageUrl,
-                    profession: professional.profession,
-                    rating: professional.rating
-                },
-                serviceLocation: location,
-                scheduledDate: Timestamp.fromDate(scheduledDate),
-                status: 'PENDING_APPROVAL',
-                pricing: {
-                    totalAmount: professional.price,
-                    currency: 'PLN'
-                },
-                paymentId: paymentId,
-                createdAt: serverTimestamp(),
-                jobDescription: jobDescription,
-                category: category
-            });
-
-            setBookingId(paymentId);
+            const result = checkoutMode === 'instant'
+                ? await confirmPayment(bookingId, paymentId)
+                : await requestToBook(bookingId, paymentId);
+            if (!result.success) {
+                throw new Error(result.error);
+            }
+
+            setHoldExpiresAt(null);
             setStep('success');
             setTimeout(() => {
-                onSuccess?.(paymentId);
+                onSuccess?.(bookingId);
             }, 3000);
         } catch (error) {
             console.error("Error saving booking:", error);
@@ -211,7 +307,7 @@ export function BookingModal({
                             <div className="flex items-center gap-3">
                                 {step !== 'datetime' && (
                                     <button
-                                        onClick={() => setStep(step === 'payment' ? 'summary' : 'datetime')}
+                                        onClick={() => step === 'payment' ? setStep('summary') : resetCheckout()}
                                         className="p-1 hover:bg-white/10 rounded-lg transition"
                                     >
                                         <ChevronLeft className="w-5 h-5 text-slate-400" />
@@ -234,6 +330,12 @@ export function BookingModal({
                         {/* Step 1: Date/Time */}
                         {step === 'datetime' && (
                             <div className="space-y-5">
+                                {cardError && (
+                                    <div className="p-3 bg-red-900/30 border border-red-500/30 rounded-lg text-red-400 text-sm">
+                                        {cardError}
+                                    </div>
+                                )}
+
                                 <div className="flex items-center gap-3 p-3 bg-slate-800/50 rounded-xl border border-white/5">
                                     <img src={professional.imageUrl} alt={professional.name} className="w-12 h-12 rounded-full object-cover" />
                                     <div className="flex-1">
@@ -332,10 +434,43 @@ export function BookingModal({
                                     </div>
                                 </div>
 
+                                {canRepeat && (
+                                    <div>
+                                        <h3 className="text-sm font-medium text-slate-400 mb-2 flex items-center gap-2">
+                                            <Repeat className="w-4 h-4" /> Powtarzanie wizyt
+                                        </h3>
+                                        <div className="grid grid-cols-3 gap-2">
+                                            {FREQUENCY_OPTIONS.map(option => (
+                                                <button
+                                                    key={option.value}
+                                                    onClick={() => setFrequency(option.value)}
+                                                    className={`py-2 px-3 rounded-lg text-sm font-medium transition ${frequency === option.value
+                                                        ? 'bg-violet-600 text-white'
+                                                        : 'bg-slate-800/50 hover:bg-slate-700/50 text-slate-300 border border-white/5'
+                                                        }`}
+                                                >
+                                                    {option.label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        {frequency !== 'once' && (
+                                            <p className="text-xs text-slate-400 mt-2">
+                                                Fachowiec akceptuje cały cykl - wizyty są potwierdzane bez płatności z góry.
+                                            </p>
+                                        )}
+                                    </div>
+                                )}
+
                                 <div className="flex items-center justify-between p-4 bg-emerald-900/30 rounded-xl border border-emerald-500/20">
-                                    <span className="text-slate-300">Do zapłaty</span>
+                                    <span className="text-slate-300">{frequency === 'once' ? 'Do zapłaty' : 'Za wizytę'}</span>
                                     <span className="text-2xl font-bold text-emerald-400">{professional.price} zł</span>
                                 </div>
+
+                                {cardError && (
+                                    <div className="p-3 bg-red-900/30 border border-red-500/30 rounded-lg text-red-400 text-sm">
+                                        {cardError}
+                                    </div>
+                                )}
                             </div>
                         )}
 
@@ -348,6 +483,15 @@ export function BookingModal({
                                         <span>Bezpieczna płatność przez Stripe</span>
                                     </div>
 
+                                    {checkoutMode === 'instant' && (
+                                        <div className="mb-4 p-3 bg-violet-900/30 border border-violet-500/30 rounded-lg text-violet-200 text-sm flex items-center gap-2">
+                                            <Timer className="w-4 h-4 shrink-0" />
+                                            {holdSecondsLeft > 0
+                                                ? `Termin zarezerwowany dla Ciebie jeszcze przez ${Math.floor(holdSecondsLeft / 60)}:${String(holdSecondsLeft % 60).padStart(2, '0')}`
+                                                : 'Rezerwacja terminu wygasła - przy płatności sprawdzimy, czy jest nadal wolny'}
+                                        </div>
+                                    )}
+
                                     {cardError && (
                                         <div className="mb-4 p-3 bg-red-900/30 border border-red-500/30 rounded-lg text-red-400 text-sm">
                                             {cardError}
@@ -356,11 +500,10 @@ export function BookingModal({
 
                                     <PaymentForm
                                         amount={professional.price}
+                                        bookingId={bookingId}
+                                        beforePay={ensureSlotHeld}
                                         onSuccess={(pid) => handlePaymentSuccess(pid)}
-                                        onError={(msg) => {
-                                            setCardError(msg);
-                                            setIsProcessing(false);
-                                        }}
+                                        onError={handlePaymentError}
                                         isProcessing={isProcessing}
                                     />
                                 </div>
@@ -373,8 +516,18 @@ export function BookingModal({
                                 <motion.div initial={{ scale: 0 }} animate={{ scale: 1 }} className="w-20 h-20 bg-emerald-500 rounded-full flex items-center justify-center mx-auto mb-6">
                                     <Check className="w-10 h-10 text-white" />
                                 </motion.div>
-                                <h2 className="text-2xl font-bold text-white mb-2">Rezerwacja potwierdzona!</h2>
-                                <p className="text-slate-400 mb-6">{professional.name} potwierdzi wizytę wkrótce</p>
+                                <h2 className="text-2xl font-bold text-white mb-2">
+                                    {seriesRequested
+                                        ? 'Prośba o cykliczne wizyty wysłana!'
+                                        : checkoutMode === 'instant' ? 'Rezerwacja potwierdzona!' : 'Prośba o rezerwację wysłana!'}
+                                </h2>
+                                <p className="text-slate-400 mb-6">
+                                    {seriesRequested
+                                        ? `${professional.name} potwierdzi cykl wizyt wkrótce`
+                                        : checkoutMode === 'instant'
+                                            ? `${professional.name} czeka na Ciebie w wybranym terminie`
+                                            : `${professional.name} potwierdzi wizytę wkrótce`}
+                                </p>
                                 <p className="text-xs text-slate-500 mt-6">Przekierowanie do Moich Zleceń...</p>
                             </div>
                         )}
@@ -394,9 +547,13 @@ export function BookingModal({
                             ) : (
                                 <button
                                     onClick={handleNextStep}
-                                    className="w-full py-3 bg-violet-600 hover:bg-violet-700 text-white font-semibold rounded-xl transition flex items-center justify-center gap-2"
+                                    disabled={isProcessing}
+                                    className="w-full py-3 bg-violet-600 hover:bg-violet-700 disabled:bg-slate-700 disabled:cursor-not-allowed text-white font-semibold rounded-xl transition flex items-center justify-center gap-2"
                                 >
-                                    <CreditCard className="w-5 h-5" /> Przejdź do płatności
+                                    {isProcessing
+                                        ? <Loader2 className="w-5 h-5 animate-spin" />
+                                        : frequency === 'once' ? <CreditCard className="w-5 h-5" /> : <Repeat className="w-5 h-5" />}
+                                    {frequency === 'once' ? ' Przejdź do płatności' : ' Wyślij prośbę o cykl'}
                                 </button>
                             )}
                         </div>
@@ -0,0 +1,168 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, Calendar, Check, Shield, Timer } from "lucide-react";
+import { Elements } from "@stripe/react-stripe-js";
+import { stripePromise } from "@/lib/stripe";
+import { confirmPayment, holdSlot, reportPaymentFailed } from "@/lib/booking-machine";
+import { PaymentForm } from "./PaymentForm";
+
+interface BookingPaymentModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    bookingId: string;
+    hostName: string;
+    amount: number;
+    scheduledDate: Date;
+    onSuccess?: () => void;
+}
+
+/**
+ * Payment for a booking that already waits in PENDING_PAYMENT - approved
+ * Request to Book, claimed marketplace job, accepted job proposal.
+ * The slot is held again right before each payment attempt (the hold from
+ * the approval may have lapsed) and released when the payment fails.
+ */
+export function BookingPaymentModal({
+    isOpen,
+    onClose,
+    bookingId,
+    hostName,
+    amount,
+    scheduledDate,
+    onSuccess
+}: BookingPaymentModalProps) {
+    const [isProcessing, setIsProcessing] = useState(false);
+    const [paid, setPaid] = useState(false);
+    const [cardError, setCardError] = useState<string | null>(null);
+    const [holdExpiresAt, setHoldExpiresAt] = useState<Date | null>(null);
+    const [now, setNow] = useState(() => Date.now());
+
+    // Countdown of the slot hold
+    useEffect(() => {
+        if (!holdExpiresAt) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [holdExpiresAt]);
+
+    const holdSecondsLeft = holdExpiresAt ? Math.max(0, Math.floor((holdExpiresAt.getTime() - now) / 1000)) : 0;
+
+    const holdBeforePay = async (): Promise<boolean> => {
+        setIsProcessing(true);
+        setCardError(null);
+
+        const hold = await holdSlot(bookingId);
+        if (!hold.success) {
+            setCardError(hold.error || 'Ten termin nie jest już dostępny');
+            setIsProcessing(false);
+            return false;
+        }
+        setHoldExpiresAt(hold.holdExpiresAt || null);
+        return true;
+    };
+
+    const handlePaymentError = async (message: string) => {
+        setCardError(message);
+        setIsProcessing(false);
+
+        // Release the slot right away instead of waiting for the hold to expire
+        await reportPaymentFailed(bookingId, message);
+        setHoldExpiresAt(null);
+    };
+
+    const handlePaymentSuccess = async (paymentId: string) => {
+        const result = await confirmPayment(bookingId, paymentId);
+        setIsProcessing(false);
+
+        if (!result.success) {
+            console.error("Error confirming payment:", result.error);
+            setCardError("Płatność udana, ale wystąpił błąd zapisu. Skontaktuj się z obsługą.");
+            return;
+        }
+
+        setHoldExpiresAt(null);
+        setPaid(true);
+        onSuccess?.();
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <AnimatePresence>
+            <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+                onClick={onClose}
+            >
+                <motion.div
+                    initial={{ scale: 0.9, opacity: 0 }}
+                    animate={{ scale: 1, opacity: 1 }}
+                    exit={{ scale: 0.9, opacity: 0 }}
+                    onClick={(e) => e.stopPropagation()}
+                    className="bg-slate-900 rounded-2xl w-full max-w-md max-h-[90vh] overflow-hidden border border-white/10 shadow-2xl"
+                >
+                    <div className="px-5 py-4 border-b border-white/10 flex items-center justify-between">
+                        <h2 className="text-lg font-semibold text-white">Płatność</h2>
+                        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-lg">
+                            <X className="w-5 h-5 text-slate-400" />
+                        </button>
+                    </div>
+
+                    <div className="p-5 overflow-y-auto max-h-[calc(90vh-80px)]">
+                        {paid ? (
+                            <div className="text-center py-8">
+                                <motion.div initial={{ scale: 0 }} animate={{ scale: 1 }} className="w-20 h-20 bg-emerald-500 rounded-full flex items-center justify-center mx-auto mb-6">
+                                    <Check className="w-10 h-10 text-white" />
+                                </motion.div>
+                                <h2 className="text-2xl font-bold text-white mb-2">Rezerwacja potwierdzona!</h2>
+                                <p className="text-slate-400">{hostName} czeka na Ciebie w wybranym terminie</p>
+                            </div>
+                        ) : (
+                            <Elements stripe={stripePromise}>
+                                <div className="flex items-start gap-3 p-3 mb-4 bg-slate-800/30 rounded-lg">
+                                    <Calendar className="w-5 h-5 text-violet-400 mt-0.5" />
+                                    <div>
+                                        <div className="text-white font-medium">{hostName}</div>
+                                        <div className="text-slate-400 text-sm">
+                                            {scheduledDate.toLocaleString('pl-PL', { weekday: 'long', day: 'numeric', month: 'long', hour: '2-digit', minute: '2-digit' })}
+                                        </div>
+                                    </div>
+                                </div>
+
+                                <div className="flex items-center gap-2 text-sm text-slate-400 mb-4">
+                                    <Shield className="w-4 h-4 text-emerald-400" />
+                                    <span>Bezpieczna płatność przez Stripe</span>
+                                </div>
+
+                                {holdSecondsLeft > 0 && (
+                                    <div className="mb-4 p-3 bg-violet-900/30 border border-violet-500/30 rounded-lg text-violet-200 text-sm flex items-center gap-2">
+                                        <Timer className="w-4 h-4 shrink-0" />
+                                        {`Termin zarezerwowany dla Ciebie jeszcze przez ${Math.floor(holdSecondsLeft / 60)}:${String(holdSecondsLeft % 60).padStart(2, '0')}`}
+                                    </div>
+                                )}
+
+                                {cardError && (
+                                    <div className="mb-4 p-3 bg-red-900/30 border border-red-500/30 rounded-lg text-red-400 text-sm">
+                                        {cardError}
+                                    </div>
+                                )}
+
+                                <PaymentForm
+                                    amount={amount}
+                                    bookingId={bookingId}
+                                    beforePay={holdBeforePay}
+                                    onSuccess={handlePaymentSuccess}
+                                    onError={handlePaymentError}
+                                    isProcessing={isProcessing}
+                                />
+                            </Elements>
+                        )}
+                    </div>
+                </motion.div>
+            </motion.div>
+        </AnimatePresence>
+    );
+}
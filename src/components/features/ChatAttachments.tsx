@@ -0,0 +1,236 @@
+"use client";
+
+/**
+ * ChatAttachments - photos and locations in chat messages
+ * - ChatAttachmentView: renders an attachment (thumbnail → full photo, location card / live ETA)
+ * - ChatAttachmentPicker: photo upload, pinned location and live location buttons
+ */
+
+import { useState, useEffect, useRef } from "react";
+import { getStorage, ref, getDownloadURL } from "firebase/storage";
+import { ImagePlus, MapPin, Navigation, Loader2, X } from "lucide-react";
+import { app } from "@/lib/firebase";
+import { useAuth } from "@/context/AuthContext";
+import { useImageUpload } from "@/hooks/useImageUpload";
+import { useLiveLocation } from "@/hooks/useLiveLocation";
+import { LatLng } from "@/hooks/useDirections";
+import { mapsUrl } from "@/lib/chat-attachments";
+import { ChatAttachment, LiveLocation } from "@/types/firestore-v2";
+import { cn } from "@/lib/utils";
+
+/**
+ * Download URL of a chat photo - storage.rules only lets participants resolve it
+ */
+function useStorageUrl(path: string | null) {
+    const [resolved, setResolved] = useState<{ path: string; url: string | null } | null>(null);
+
+    useEffect(() => {
+        if (!path || !app) return;
+
+        let cancelled = false;
+        getDownloadURL(ref(getStorage(app), path))
+            .then(url => { if (!cancelled) setResolved({ path, url }); })
+            .catch(error => {
+                console.error("Error loading chat photo:", error);
+                if (!cancelled) setResolved({ path, url: null });
+            });
+
+        return () => { cancelled = true; };
+    }, [path]);
+
+    return {
+        url: resolved?.path === path ? resolved.url : null,
+        loading: !!path && resolved?.path !== path
+    };
+}
+
+function ChatImage({ attachment }: { attachment: Extract<ChatAttachment, { type: 'image' }> }) {
+    const [expanded, setExpanded] = useState(false);
+    const thumbnail = useStorageUrl(attachment.thumbnailPath);
+    const full = useStorageUrl(expanded ? attachment.path : null);
+
+    return (
+        <>
+            <button
+                onClick={() => setExpanded(true)}
+                className="block rounded-xl overflow-hidden bg-slate-900/50"
+                style={{ aspectRatio: `${attachment.width} / ${attachment.height}`, width: 200, maxWidth: '100%' }}
+            >
+                {thumbnail.url ? (
+                    <img src={thumbnail.url} alt="Zdjęcie" className="w-full h-full object-cover" />
+                ) : (
+                    <div className="w-full h-full flex items-center justify-center">
+                        {thumbnail.loading
+                            ? <Loader2 className="w-5 h-5 text-slate-500 animate-spin" />
+                            : <ImagePlus className="w-5 h-5 text-slate-600" />}
+                    </div>
+                )}
+            </button>
+
+            {expanded && (
+                <div
+                    className="fixed inset-0 z-[200] bg-black/90 flex items-center justify-center p-4"
+                    onClick={() => setExpanded(false)}
+                >
+                    <button className="absolute top-4 right-4 p-2 text-white/70 hover:text-white">
+                        <X className="w-6 h-6" />
+                    </button>
+                    {full.url || thumbnail.url ? (
+                        <img
+                            src={full.url || thumbnail.url || undefined}
+                            alt="Zdjęcie"
+                            className="max-w-full max-h-full object-contain rounded-lg"
+                        />
+                    ) : (
+                        <Loader2 className="w-8 h-8 text-white animate-spin" />
+                    )}
+                </div>
+            )}
+        </>
+    );
+}
+
+function LocationCard({
+    attachment,
+    liveLocation
+}: {
+    attachment: Extract<ChatAttachment, { type: 'location' }>;
+    liveLocation?: LiveLocation;
+}) {
+    // Live position while the sender keeps sharing, the sent one afterwards
+    const [now] = useState(() => Date.now());
+    const expiresAt = (liveLocation?.expiresAt || attachment.expiresAt)?.toMillis?.() || 0;
+    const isLive = !!attachment.live && !!liveLocation && expiresAt > now;
+    const position = isLive && liveLocation ? liveLocation : attachment;
+    const etaMinutes = isLive ? liveLocation?.etaMinutes : attachment.etaMinutes;
+
+    return (
+        <a
+            href={mapsUrl(position.lat, position.lng)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-3 p-3 rounded-xl bg-slate-900/40 hover:bg-slate-900/60 transition-colors min-w-[200px]"
+        >
+            <div className={cn(
+                "w-10 h-10 rounded-full flex items-center justify-center shrink-0",
+                isLive ? "bg-emerald-500/20 text-emerald-400" : "bg-violet-500/20 text-violet-300"
+            )}>
+                {attachment.live ? <Navigation className="w-5 h-5" /> : <MapPin className="w-5 h-5" />}
+            </div>
+            <div className="min-w-0">
+                <p className="text-sm font-medium">
+                    {attachment.live ? (isLive ? 'Lokalizacja na żywo' : 'Udostępnianie zakończone') : 'Lokalizacja'}
+                </p>
+                <p className="text-xs opacity-70 truncate">
+                    {etaMinutes !== undefined
+                        ? `Dojazd ok. ${etaMinutes} min`
+                        : attachment.address || 'Otwórz w Mapach Google'}
+                </p>
+            </div>
+        </a>
+    );
+}
+
+export function ChatAttachmentView({
+    attachment,
+    liveLocation
+}: {
+    attachment: ChatAttachment;
+    liveLocation?: LiveLocation;
+}) {
+    if (attachment.type === 'image') {
+        return <ChatImage attachment={attachment} />;
+    }
+    return <LocationCard attachment={attachment} liveLocation={liveLocation} />;
+}
+
+interface ChatAttachmentPickerProps {
+    chatId: string;
+    /** Service address - enables live location with ETA */
+    destination?: LatLng | null;
+    onSend: (attachment: ChatAttachment) => Promise<void>;
+}
+
+export function ChatAttachmentPicker({ chatId, destination = null, onSend }: ChatAttachmentPickerProps) {
+    const { user } = useAuth();
+    const inputRef = useRef<HTMLInputElement>(null);
+    const { uploadChatImage, uploading, error: uploadError } = useImageUpload();
+    const { pinLocation, startLive, stopLive, isLive, error: locationError } = useLiveLocation(chatId, destination);
+    const [locating, setLocating] = useState(false);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file || !user) return;
+
+        const attachment = await uploadChatImage(chatId, user.uid, file);
+        if (attachment) await onSend(attachment);
+    };
+
+    const handlePin = async () => {
+        setLocating(true);
+        const position = await pinLocation();
+        if (position) await onSend({ type: 'location', ...position });
+        setLocating(false);
+    };
+
+    const handleLive = async () => {
+        if (isLive) {
+            stopLive();
+            return;
+        }
+        setLocating(true);
+        const shared = await startLive();
+        if (shared) await onSend({ type: 'location', live: true, ...shared });
+        setLocating(false);
+    };
+
+    const error = uploadError || locationError;
+
+    return (
+        <div className="flex flex-col gap-1">
+            <div className="flex items-center gap-1">
+                <button
+                    type="button"
+                    onClick={() => inputRef.current?.click()}
+                    disabled={uploading}
+                    title="Wyślij zdjęcie"
+                    className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-white/5 disabled:opacity-50 transition-colors"
+                >
+                    {uploading ? <Loader2 className="w-5 h-5 animate-spin" /> : <ImagePlus className="w-5 h-5" />}
+                </button>
+                <button
+                    type="button"
+                    onClick={handlePin}
+                    disabled={locating}
+                    title="Wyślij lokalizację"
+                    className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-white/5 disabled:opacity-50 transition-colors"
+                >
+                    <MapPin className="w-5 h-5" />
+                </button>
+                {destination && (
+                    <button
+                        type="button"
+                        onClick={handleLive}
+                        disabled={locating}
+                        title={isLive ? "Zakończ udostępnianie" : "Udostępnij dojazd na żywo"}
+                        className={cn(
+                            "p-2 rounded-full transition-colors disabled:opacity-50",
+                            isLive ? "text-emerald-400 bg-emerald-500/10" : "text-slate-400 hover:text-white hover:bg-white/5"
+                        )}
+                    >
+                        <Navigation className="w-5 h-5" />
+                    </button>
+                )}
+            </div>
+            {error && <p className="text-[11px] text-red-400 px-2">{error}</p>}
+            <input
+                ref={inputRef}
+                type="file"
+                accept="image/*"
+                onChange={handleFile}
+                className="hidden"
+            />
+        </div>
+    );
+}
@@ -80,9 +80,7 @@ export function ChatList({ onSelectChat, selectedChatId }: ChatListProps) {
                 const initial = otherName?.[0]?.toUpperCase() || '?';
 
                 // Get unread count for current user
-                const unreadCount = userRole === 'client'
-                    ? chat.unreadCount?.client
-                    : chat.unreadCount?.professional;
+                const unreadCount = chat.unreadCount?.[user?.uid || ''] || 0;
 
                 return (
                     <button
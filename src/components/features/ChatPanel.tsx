@@ -19,44 +19,18 @@ import {
     User,
     Check,
     CheckCheck,
-    Loader2
+    Loader2,
+    ShieldAlert
 } from "lucide-react";
-import {
-    collection,
-    query,
-    where,
-    orderBy,
-    limit,
-    onSnapshot,
-    addDoc,
-    updateDoc,
-    doc,
-    serverTimestamp,
-    Timestamp
-} from "firebase/firestore";
-import { db } from "@/lib/firebase";
+import { Timestamp } from "firebase/firestore";
+import { ChatService, Chat, ChatMessage } from "@/lib/chat-service";
 import { useAuth } from "@/context/AuthContext";
-
-// ===========================================
-// TYPES
-// ===========================================
-
-interface ChatMessage {
-    id: string;
-    senderId: string;
-    content: string;
-    createdAt: Timestamp;
-    isRead: boolean;
-}
-
-interface ChatConversation {
-    id: string;
-    participantIds: string[];
-    participantNames: Record<string, string>;
-    lastMessage: string;
-    lastMessageAt: Timestamp;
-    unreadCount: number;
-}
+import { useUnreadMessages } from "@/hooks/useUnreadMessages";
+import { useContactSharing } from "@/hooks/useContactSharing";
+import { usePresence } from "@/hooks/usePresence";
+import { useTypingIndicator } from "@/hooks/useTypingIndicator";
+import { TypingIndicator } from "@/components/features/ChatPresence";
+import { maskContactDetails } from "@/lib/contact-filter";
 
 // ===========================================
 // CHAT PANEL
@@ -69,7 +43,7 @@ interface ChatPanelProps {
 
 export function ChatPanel({ isOpen, onClose }: ChatPanelProps) {
     const { user } = useAuth();
-    const [conversations, setConversations] = useState<ChatConversation[]>([]);
+    const [conversations, setConversations] = useState<Chat[]>([]);
     const [selectedChatId, setSelectedChatId] = useState<string | null>(null);
     const [messages, setMessages] = useState<ChatMessage[]>([]);
     const [newMessage, setNewMessage] = useState("");
@@ -79,45 +53,27 @@ export function ChatPanel({ isOpen, onClose }: ChatPanelProps) {
 
     // Fetch conversations
     useEffect(() => {
-        if (!user || !db || !isOpen) return;
+        if (!user || !isOpen) return;
 
-        const q = query(
-            collection(db, "chats"),
-            where("participantIds", "array-contains", user.uid),
-            orderBy("lastMessageAt", "desc"),
-            limit(20)
-        );
-
-        const unsubscribe = onSnapshot(q, (snapshot) => {
-            const convos: ChatConversation[] = [];
-            snapshot.forEach((doc) => {
-                convos.push({ id: doc.id, ...doc.data() } as ChatConversation);
-            });
-            setConversations(convos);
-            setIsLoading(false);
-        }, (error) => {
-            console.error("Error fetching chats:", error);
+        const unsubscribe = ChatService.subscribeToUserChats(user.uid, (chats) => {
+            setConversations(chats);
             setIsLoading(false);
         });
 
         return () => unsubscribe();
     }, [user, isOpen]);
 
+    const scrollToBottom = () => {
+        setTimeout(() => {
+            messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+        }, 100);
+    };
+
     // Fetch messages for selected chat
     useEffect(() => {
-        if (!selectedChatId || !db) return;
+        if (!selectedChatId) return;
 
-        const q = query(
-            collection(db, "chats", selectedChatId, "messages"),
-            orderBy("createdAt", "asc"),
-            limit(100)
-        );
-
-        const unsubscribe = onSnapshot(q, (snapshot) => {
-            const msgs: ChatMessage[] = [];
-            snapshot.forEach((doc) => {
-                msgs.push({ id: doc.id, ...doc.data() } as ChatMessage);
-            });
+        const unsubscribe = ChatService.subscribeToMessages(selectedChatId, (msgs) => {
             setMessages(msgs);
             scrollToBottom();
         });
@@ -125,45 +81,48 @@ export function ChatPanel({ isOpen, onClose }: ChatPanelProps) {
         return () => unsubscribe();
     }, [selectedChatId]);
 
-    const scrollToBottom = () => {
-        setTimeout(() => {
-            messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-        }, 100);
-    };
+    const selectedChat = conversations.find(c => c.id === selectedChatId) || null;
+    const contactSharingAllowed = useContactSharing(selectedChat);
+    const [contactNotice, setContactNotice] = useState(false);
+    const { typingUserIds, notifyTyping, stopTyping } = useTypingIndicator(selectedChatId);
+    const otherIsTyping = typingUserIds.length > 0;
+    const presence = usePresence(
+        selectedChat && user
+            ? (selectedChat.clientId === user.uid ? selectedChat.professionalId : selectedChat.clientId)
+            : null
+    );
+
+    // Mark the open chat as read (also when new messages arrive)
+    const selectedUnread = selectedChat?.unreadCount[user?.uid || ""] || 0;
+    useEffect(() => {
+        if (selectedChatId && selectedUnread > 0) {
+            ChatService.markAsRead(selectedChatId);
+        }
+    }, [selectedChatId, selectedUnread]);
 
     const handleSendMessage = async () => {
-        if (!newMessage.trim() || !selectedChatId || !user || !db || isSending) return;
+        if (!newMessage.trim() || !selectedChatId || !user || isSending) return;
 
         setIsSending(true);
         const messageContent = newMessage.trim();
         setNewMessage("");
+        stopTyping();
+        setContactNotice(!contactSharingAllowed && maskContactDetails(messageContent).kinds.length > 0);
 
-        try {
-            // Add message to subcollection
-            await addDoc(collection(db, "chats", selectedChatId, "messages"), {
-                senderId: user.uid,
-                content: messageContent,
-                createdAt: serverTimestamp(),
-                isRead: false
-            });
-
-            // Update last message in chat
-            await updateDoc(doc(db, "chats", selectedChatId), {
-                lastMessage: messageContent,
-                lastMessageAt: serverTimestamp()
-            });
-        } catch (error) {
-            console.error("Error sending message:", error);
+        const messageId = await ChatService.sendMessage(selectedChatId, {
+            content: messageContent,
+            senderName: user.displayName || 'Użytkownik'
+        });
+        if (!messageId) {
             setNewMessage(messageContent); // Restore message on error
-        } finally {
-            setIsSending(false);
         }
+        setIsSending(false);
     };
 
-    const getOtherParticipantName = (convo: ChatConversation): string => {
+    const getOtherParticipantName = (convo: Chat): string => {
         if (!user) return "Użytkownik";
-        const otherId = convo.participantIds.find(id => id !== user.uid);
-        return convo.participantNames?.[otherId || ""] || "Użytkownik";
+        const otherName = convo.clientId === user.uid ? convo.professionalName : convo.clientName;
+        return otherName || "Użytkownik";
     };
 
     const formatTime = (timestamp: Timestamp | null): string => {
@@ -204,7 +163,23 @@ export function ChatPanel({ isOpen, onClose }: ChatPanelProps) {
                                     className="flex items-center gap-2 text-slate-400 hover:text-white transition-colors"
                                 >
                                     <ChevronLeft className="w-5 h-5" />
-                                    <span>Wróć</span>
+                                    {selectedChat ? (
+                                        <span className="text-left min-w-0">
+                                            <span className="block text-white font-medium truncate">
+                                                {getOtherParticipantName(selectedChat)}
+                                            </span>
+                                            {(otherIsTyping || presence.label) && (
+                                                <span className={`block text-xs truncate ${otherIsTyping
+                                                        ? 'text-indigo-400'
+                                                        : presence.online ? 'text-emerald-400' : 'text-slate-500'
+                                                    }`}>
+                                                    {otherIsTyping ? 'pisze...' : presence.label}
+                                                </span>
+                                            )}
+                                        </span>
+                                    ) : (
+                                        <span>Wróć</span>
+                                    )}
                                 </button>
                             ) : (
                                 <h2 className="text-lg font-bold text-white flex items-center gap-2">
@@ -259,9 +234,9 @@ export function ChatPanel({ isOpen, onClose }: ChatPanelProps) {
                                                     <p className="text-xs text-slate-600">
                                                         {formatTime(convo.lastMessageAt)}
                                                     </p>
-                                                    {convo.unreadCount > 0 && (
+                                                    {(convo.unreadCount[user?.uid || ""] || 0) > 0 && (
                                                         <span className="inline-flex items-center justify-center w-5 h-5 rounded-full bg-indigo-500 text-[10px] font-bold text-white mt-1">
-                                                            {convo.unreadCount}
+                                                            {convo.unreadCount[user?.uid || ""]}
                                                         </span>
                                                     )}
                                                 </div>
@@ -301,16 +276,29 @@ export function ChatPanel({ isOpen, onClose }: ChatPanelProps) {
                                                 </div>
                                             );
                                         })}
+                                        {otherIsTyping && selectedChat && (
+                                            <TypingIndicator name={getOtherParticipantName(selectedChat)} />
+                                        )}
                                         <div ref={messagesEndRef} />
                                     </div>
 
                                     {/* Input */}
                                     <div className="p-4 border-t border-white/10">
+                                        {contactNotice && (
+                                            <p className="mb-2 text-xs text-amber-300 flex items-center gap-1.5">
+                                                <ShieldAlert className="w-3.5 h-3.5 shrink-0" />
+                                                Ukryliśmy dane kontaktowe - wymienicie je po potwierdzeniu rezerwacji.
+                                            </p>
+                                        )}
                                         <div className="flex items-center gap-2">
                                             <input
                                                 type="text"
                                                 value={newMessage}
-                                                onChange={(e) => setNewMessage(e.target.value)}
+                                                onChange={(e) => {
+                                                    setNewMessage(e.target.value);
+                                                    if (e.target.value) notifyTyping();
+                                                    else stopTyping();
+                                                }}
                                                 onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
                                                 placeholder="Napisz wiadomość..."
                                                 className="flex-1 bg-slate-800/50 border border-white/10 rounded-full px-4 py-3 text-white text-sm placeholder-slate-500 focus:outline-none focus:border-indigo-500/50"
@@ -344,19 +332,22 @@ export function ChatPanel({ isOpen, onClose }: ChatPanelProps) {
 
 interface ChatTriggerProps {
     onClick: () => void;
-    unreadCount?: number;
+    unreadCount?: number;          // Domyślnie suma ze wszystkich czatów użytkownika
 }
 
-export function ChatTrigger({ onClick, unreadCount = 0 }: ChatTriggerProps) {
+export function ChatTrigger({ onClick, unreadCount }: ChatTriggerProps) {
+    const totalUnread = useUnreadMessages();
+    const count = unreadCount ?? totalUnread;
+
     return (
         <button
             onClick={onClick}
             className="relative w-12 h-12 rounded-full bg-gradient-to-br from-indigo-500 to-violet-500 flex items-center justify-center text-white shadow-lg shadow-indigo-500/30 hover:scale-105 transition-transform"
         >
             <MessageCircle className="w-5 h-5" />
-            {unreadCount > 0 && (
+            {count > 0 && (
                 <span className="absolute -top-1 -right-1 w-5 h-5 rounded-full bg-red-500 text-[10px] font-bold flex items-center justify-center">
-                    {unreadCount > 9 ? '9+' : unreadCount}
+                    {count > 9 ? '9+' : count}
                 </span>
             )}
         </button>
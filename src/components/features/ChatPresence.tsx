@@ -0,0 +1,45 @@
+"use client";
+
+/**
+ * ChatPresence - presence and typing indicators for chat views
+ * - PresenceDot: green dot on the avatar of an online user
+ * - TypingIndicator: "pisze..." bubble under the last message
+ */
+
+import { motion } from "framer-motion";
+import { cn } from "@/lib/utils";
+
+export function PresenceDot({ online, className }: { online: boolean; className?: string }) {
+    if (!online) return null;
+    return (
+        <span
+            title="Online"
+            className={cn(
+                "absolute bottom-0 right-0 w-3 h-3 rounded-full bg-emerald-400 border-2 border-slate-900",
+                className
+            )}
+        />
+    );
+}
+
+export function TypingIndicator({ name }: { name: string }) {
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: 6 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="flex items-center gap-2 text-xs text-slate-400"
+        >
+            <div className="flex gap-1 px-3 py-2.5 bg-slate-800 rounded-2xl rounded-bl-md">
+                {[0, 1, 2].map(i => (
+                    <motion.span
+                        key={i}
+                        className="w-1.5 h-1.5 rounded-full bg-slate-400"
+                        animate={{ opacity: [0.3, 1, 0.3] }}
+                        transition={{ duration: 1, repeat: Infinity, delay: i * 0.2 }}
+                    />
+                ))}
+            </div>
+            {name} pisze...
+        </motion.div>
+    );
+}
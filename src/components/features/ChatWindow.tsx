@@ -3,7 +3,9 @@
 import { useState, useEffect, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Send, X, MapPin, CheckCircle, Play, Flag, Clock, Sparkles, Shield, AlertTriangle } from "lucide-react";
-import { ChatService, Message } from "@/lib/chat-service";
+import { ChatService, Chat, ChatAttachment, ChatMessage } from "@/lib/chat-service";
+import { ChatAttachmentView, ChatAttachmentPicker } from "@/components/features/ChatAttachments";
+import { useLiveLocation } from "@/hooks/useLiveLocation";
 import { useAuth } from "@/context/AuthContext";
 import { TrustScoreRing } from "@/components/ui/TrustScoreRing";
 import { cn } from "@/lib/utils";
@@ -148,7 +150,8 @@ function SecurityWarning({ text }: { text: string }) {
 
 export function ChatWindow({ proId, proName, proImage, proTrustScore = 85, onClose }: ChatWindowProps) {
     const { user, userRole } = useAuth();
-    const [messages, setMessages] = useState<Message[]>([]);
+    const [messages, setMessages] = useState<ChatMessage[]>([]);
+    const [chat, setChat] = useState<Chat | null>(null);
     const [inputText, setInputText] = useState("");
     const [securityWarning, setSecurityWarning] = useState<string | null>(null);
     const scrollRef = useRef<HTMLDivElement>(null);
@@ -162,11 +165,10 @@ export function ChatWindow({ proId, proName, proImage, proTrustScore = 85, onClo
 
         const unsubscribe = ChatService.subscribeToMessages(chatId, (msgs) => {
             setMessages(msgs);
-            // Simulate AI checking for sensitive info (phone numbers)
+            // Contact details are masked until the booking is confirmed
             const lastMsg = msgs[msgs.length - 1];
-            const msgContent = lastMsg?.content || "";
-            if (msgContent && /\d{9}|\d{3}[-\s]\d{3}[-\s]\d{3}/.test(msgContent)) {
-                setSecurityWarning("Wykryto numer telefonu. Dla bezpieczeństwa zalecamy płatność przez aplikację (Gwarancja Satysfakcji).");
+            if (lastMsg?.maskedContacts?.length) {
+                setSecurityWarning("Ukryliśmy dane kontaktowe - wymienicie je po potwierdzeniu rezerwacji. Płatność przez aplikację chroni obie strony (Gwarancja Satysfakcji).");
             } else {
                 setSecurityWarning(null);
             }
@@ -174,6 +176,23 @@ export function ChatWindow({ proId, proName, proImage, proTrustScore = 85, onClo
         return () => unsubscribe();
     }, [chatId]);
 
+    // Chat metadata (live locations)
+    useEffect(() => {
+        if (!chatId || chatId === 'demo') return;
+        return ChatService.getChatById(chatId, setChat);
+    }, [chatId]);
+
+    const { pinLocation } = useLiveLocation(chatId);
+
+    const handleSendAttachment = async (attachment: ChatAttachment) => {
+        if (!user) return;
+        await ChatService.sendMessage(chatId, {
+            content: '',
+            senderName: user.displayName || 'Użytkownik',
+            attachments: [attachment]
+        });
+    };
+
     // Auto-scroll on new message
     useEffect(() => {
         if (scrollRef.current) {
@@ -192,12 +211,9 @@ export function ChatWindow({ proId, proName, proImage, proTrustScore = 85, onClo
 
         setInputText(""); // Optimistic clear
         if (user) {
-            const role = (userRole || 'client') as 'client' | 'professional';
             await ChatService.sendMessage(chatId, {
                 content: textToUse,
-                senderId: user.uid,
-                senderName: user.displayName || 'Użytkownik',
-                senderRole: role
+                senderName: user.displayName || 'Użytkownik'
             });
         }
     };
@@ -208,15 +224,18 @@ export function ChatWindow({ proId, proName, proImage, proTrustScore = 85, onClo
             return;
         }
 
+        if (actionId === 'share_location') {
+            const position = await pinLocation();
+            if (position) await handleSendAttachment({ type: 'location', ...position });
+            return;
+        }
+
         // Send as system action message
         const systemMessage = label.replace(/[📍✅▶️⚠️💰📅]/g, '').trim().toUpperCase();
         if (user) {
-            const role = (userRole || 'client') as 'client' | 'professional';
             await ChatService.sendMessage(chatId, {
                 content: `--- ${systemMessage} ---`,
-                senderId: user.uid,
-                senderName: user.displayName || 'Użytkownik',
-                senderRole: role
+                senderName: user.displayName || 'Użytkownik'
             });
 
             // Simulate status update based on action
@@ -294,6 +313,14 @@ export function ChatWindow({ proId, proName, proImage, proTrustScore = 85, onClo
                                     : "bg-slate-700 text-slate-100 rounded-bl-none"
                                 }`}
                             >
+                                {msg.attachments?.map((attachment, index) => (
+                                    <div key={index} className={displayContent ? "mb-2" : ""}>
+                                        <ChatAttachmentView
+                                            attachment={attachment}
+                                            liveLocation={chat?.liveLocations?.[msg.senderId]}
+                                        />
+                                    </div>
+                                ))}
                                 {displayContent}
                             </div>
                         </motion.div>
@@ -320,8 +347,9 @@ export function ChatWindow({ proId, proName, proImage, proTrustScore = 85, onClo
             </div>
 
             {/* Input Area */}
-            <form onSubmit={(e) => handleSend(e)} className="p-3 border-t border-white/10 bg-slate-800/30">
-                <div className="flex items-center gap-2 bg-slate-950/50 rounded-full px-4 py-2.5 border border-white/5 focus-within:border-blue-500/50 transition-colors">
+            <form onSubmit={(e) => handleSend(e)} className="p-3 border-t border-white/10 bg-slate-800/30 flex items-center gap-2">
+                {user && <ChatAttachmentPicker chatId={chatId} onSend={handleSendAttachment} />}
+                <div className="flex-1 flex items-center gap-2 bg-slate-950/50 rounded-full px-4 py-2.5 border border-white/5 focus-within:border-blue-500/50 transition-colors">
                     <input
                         type="text"
                         value={inputText}
@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from "react";
 import { motion } from "framer-motion";
-import { Clock, MapPin, MessageCircle, Star, Loader2 } from "lucide-react";
+import { Clock, MapPin, MessageCircle, Star, Loader2, CreditCard } from "lucide-react";
 import { collection, query, where, onSnapshot, orderBy, limit } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { useAuth } from "@/context/AuthContext";
@@ -11,6 +11,8 @@ import { Booking, BookingStatus } from "@/types/firestore-v2";
 import { bookingConverter } from "@/types/firestore-v2";
 import { ReviewModal } from "./ReviewModal";
 import { ProposalsListModal } from "./ProposalsListModal";
+import { JobRepostActions } from "./JobRepostActions";
+import { BookingPaymentModal } from "./BookingPaymentModal";
 
 // Display Interface (simplified for UI)
 interface ActiveBookingDisplay {
@@ -23,6 +25,7 @@ interface ActiveBookingDisplay {
     status: BookingStatus;
     eta: string;
     price: number;
+    scheduledDate: Date;
     unreadMessages: number; // Placeholder for now
     location: { lat: number; lng: number };
 }
@@ -38,6 +41,8 @@ const STATUS_LABELS: Partial<Record<BookingStatus, string>> = {
     'CANCELED_BY_GUEST': "Anulowane (Ty)",
     'CANCELED_BY_HOST': "Anulowane (Fachowiec)",
     'EXPIRED': "Wygasło",
+    'NO_SHOW_HOST': "Fachowiec nie przyjechał",
+    'NO_SHOW_CLIENT': "Nieobecność (Ty)",
 };
 
 const STATUS_COLORS: Partial<Record<BookingStatus, string>> = {
@@ -50,6 +55,8 @@ const STATUS_COLORS: Partial<Record<BookingStatus, string>> = {
     'CANCELED_BY_GUEST': "bg-red-500",
     'CANCELED_BY_HOST': "bg-red-600",
     'EXPIRED': "bg-slate-700",
+    'NO_SHOW_HOST': "bg-red-600",
+    'NO_SHOW_CLIENT': "bg-red-500",
 };
 
 interface BookingData {
@@ -64,14 +71,17 @@ interface ActiveBookingCardProps {
     onChatClick?: (data: BookingData) => void;
     onLocationClick?: () => void;
     onReviewClick?: (data: { bookingId: string; hostId: string; hostName: string }) => void;
+    onPayClick?: () => void;
     className?: string;
 }
 
-function ActiveBookingCard({ booking, onChatClick, onLocationClick, onReviewClick, className }: ActiveBookingCardProps) {
+function ActiveBookingCard({ booking, onChatClick, onLocationClick, onReviewClick, onPayClick, className }: ActiveBookingCardProps) {
     // Determine active pulse
     const isActive = ['PENDING_APPROVAL', 'CONFIRMED', 'ACTIVE'].includes(booking.status);
     const isCompleted = booking.status === 'COMPLETED';
     const isMarketplace = booking.hostId === 'MARKETPLACE';
+    // Approved request, claimed marketplace job or accepted proposal - the client pays now
+    const awaitsPayment = booking.status === 'PENDING_PAYMENT' && !isMarketplace;
 
     return (
         <motion.div
@@ -176,6 +186,15 @@ function ActiveBookingCard({ booking, onChatClick, onLocationClick, onReviewClic
                             Czekam...
                         </button>
                     )}
+                    {awaitsPayment && (
+                        <button
+                            onClick={onPayClick}
+                            className="flex-1 bg-gradient-to-r from-orange-500 to-amber-500 hover:from-orange-400 hover:to-amber-400 text-white text-xs font-bold py-2.5 rounded-xl flex items-center justify-center gap-2 transition-all shadow-lg shadow-orange-900/20"
+                        >
+                            <CreditCard className="w-3.5 h-3.5" />
+                            Zapłać
+                        </button>
+                    )}
                     {/* Review button for completed bookings */}
                     {isCompleted && (
                         <button
@@ -211,6 +230,9 @@ export function ClientDashboard({ onLocationSelect, onChatOpen }: {
         hostName: string;
     } | null>(null);
 
+    // State for Payment Modal (bookings waiting in PENDING_PAYMENT)
+    const [payTarget, setPayTarget] = useState<ActiveBookingDisplay | null>(null);
+
     // State for Proposals Modal
     const [selectedJobForProposals, setSelectedJobForProposals] = useState<any | null>(null);
 
@@ -254,6 +276,7 @@ export function ClientDashboard({ onLocationSelect, onChatOpen }: {
                     status: booking.status,
                     eta: "15 min", // Mock ETA for now
                     price: booking.pricing.totalAmount,
+                    scheduledDate: booking.scheduledDate.toDate(),
                     unreadMessages: 0,
                     location: booking.serviceLocation
                 });
@@ -318,6 +341,7 @@ export function ClientDashboard({ onLocationSelect, onChatOpen }: {
                                     onChatClick={onChatOpen}
                                     onLocationClick={() => onLocationSelect?.(booking.location)}
                                     onReviewClick={(data) => setReviewTarget(data)}
+                                    onPayClick={() => setPayTarget(booking)}
                                 />
                             ))}
                         </div>
@@ -355,9 +379,15 @@ export function ClientDashboard({ onLocationSelect, onChatOpen }: {
 
                                     <div className="flex items-center gap-2 text-xs text-slate-400 mb-3">
                                         <Clock className="w-3.5 h-3.5" />
-                                        <span>Status: {job.status === 'open' ? 'Szukam fachowców' : job.status}</span>
+                                        <span>Status: {job.status === 'open' ? 'Szukam fachowców' : job.status === 'expired' ? 'Wygasło bez oferty' : job.status}</span>
                                     </div>
 
+                                    {job.status === 'expired' && !job.repostedAs && (
+                                        <div className="mb-3">
+                                            <JobRepostActions job={job} />
+                                        </div>
+                                    )}
+
                                     <div className="flex gap-2">
                                         {(job.proposalCount || 0) > 0 && (
                                             <button
@@ -406,6 +436,18 @@ export function ClientDashboard({ onLocationSelect, onChatOpen }: {
                 />
             )}
 
+            {/* Payment Modal */}
+            {payTarget && (
+                <BookingPaymentModal
+                    isOpen={!!payTarget}
+                    onClose={() => setPayTarget(null)}
+                    bookingId={payTarget.id}
+                    hostName={payTarget.hostName}
+                    amount={payTarget.price}
+                    scheduledDate={payTarget.scheduledDate}
+                />
+            )}
+
             {/* Proposals List Modal */}
             {selectedJobForProposals && (
                 <ProposalsListModal
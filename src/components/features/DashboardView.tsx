@@ -4,11 +4,14 @@ import { useState, useEffect } from "react";
 import { motion } from "framer-motion";
 import { Calendar, Clock, MapPin, User, Briefcase, MessageCircle, CheckCircle, XCircle, AlertCircle, Loader2 } from "lucide-react";
 import { useAuth } from "@/context/AuthContext";
-import { collection, query, where, orderBy, onSnapshot, Timestamp, doc, updateDoc } from "firebase/firestore";
+import { collection, query, where, orderBy, onSnapshot, Timestamp } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { Booking } from "@/types/firestore-v2";
+import { approveBooking, cancelBooking } from "@/lib/booking-machine";
 
 import { ReviewModal } from "./ReviewModal";
+import { BookingActionsPanel } from "./BookingActionsPanel";
+import { SeriesRequests } from "./SeriesRequests";
 
 interface DashboardViewProps {
     onChatOpen: (pro: any) => void;
@@ -22,26 +25,16 @@ export function DashboardView({ onChatOpen }: DashboardViewProps) {
 
     // Handlers for Professional Actions
     const handleAccept = async (jobId: string) => {
-        if (!db) return;
-        try {
-            await updateDoc(doc(db, "bookings", jobId), {
-                status: "CONFIRMED",
-                updatedAt: Timestamp.now()
-            });
-        } catch (e) {
-            console.error("Error accepting", e);
+        const result = await approveBooking(jobId);
+        if (!result.success) {
+            console.error("Error accepting", result.error);
         }
     };
 
     const handleReject = async (jobId: string) => {
-        if (!db) return;
-        try {
-            await updateDoc(doc(db, "bookings", jobId), {
-                status: "CANCELED_BY_HOST",
-                updatedAt: Timestamp.now()
-            });
-        } catch (e) {
-            console.error("Error rejecting", e);
+        const result = await cancelBooking(jobId, 'Odrzucone przez fachowca');
+        if (!result.success) {
+            console.error("Error rejecting", result.error);
         }
     };
 
@@ -148,7 +141,9 @@ export function DashboardView({ onChatOpen }: DashboardViewProps) {
             case 'ACTIVE': return 'text-emerald-400 bg-emerald-400/10 border-emerald-400/20';
             case 'COMPLETED': return 'text-slate-400 bg-slate-400/10 border-slate-400/20';
             case 'CANCELED_BY_HOST':
-            case 'CANCELED_BY_GUEST': return 'text-red-400 bg-red-400/10 border-red-400/20';
+            case 'CANCELED_BY_GUEST':
+            case 'NO_SHOW_HOST':
+            case 'NO_SHOW_CLIENT': return 'text-red-400 bg-red-400/10 border-red-400/20';
             default: return 'text-slate-400 bg-slate-400/10 border-slate-400/20';
         }
     };
@@ -161,6 +156,8 @@ export function DashboardView({ onChatOpen }: DashboardViewProps) {
             case 'COMPLETED': return 'Zakończone';
             case 'CANCELED_BY_HOST': return 'Anulowane przez wykonawcę';
             case 'CANCELED_BY_GUEST': return 'Anulowane przez Ciebie';
+            case 'NO_SHOW_HOST': return 'Wykonawca nie przyjechał';
+            case 'NO_SHOW_CLIENT': return 'Nieobecność klienta';
             default: return status;
         }
     };
@@ -182,6 +179,8 @@ export function DashboardView({ onChatOpen }: DashboardViewProps) {
                     {userRole === 'professional' ? 'Historia Zleceń' : 'Moje Zlecenia'}
                 </h2>
 
+                {userRole === 'professional' && user && <SeriesRequests hostId={user.uid} />}
+
                 {orders.length === 0 ? (
                     <div className="text-center py-20 bg-white/5 rounded-2xl border border-white/5">
                         <Briefcase className="w-16 h-16 text-slate-600 mx-auto mb-4" />
@@ -291,6 +290,14 @@ export function DashboardView({ onChatOpen }: DashboardViewProps) {
                                         </button>
                                     )}
                                 </div>
+
+                                {!booking._isJob && user && (
+                                    <BookingActionsPanel
+                                        booking={booking}
+                                        userId={user.uid}
+                                        isHost={booking.hostId === user.uid}
+                                    />
+                                )}
                             </motion.div>
                         ))}
                     </div>
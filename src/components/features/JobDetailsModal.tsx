@@ -1,15 +1,17 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import {
     X, MapPin, Clock, Star, MessageCircle, Send, Loader2,
     DollarSign, Calendar, CheckCircle, User
 } from "lucide-react";
-import { doc, collection, setDoc, updateDoc, addDoc, getDoc, serverTimestamp, increment } from "firebase/firestore";
-import { db } from "@/lib/firebase";
 import { useAuth } from "@/context/AuthContext";
 import { JobService } from "@/lib/job-service";
+import { fromLocalTime } from "@/lib/local-time";
+import { JobProposal } from "@/types/firestore-v2";
+import { ProposalCard } from "./ProposalCard";
+import { ProposalModal } from "./ProposalModal";
 
 interface Job {
     id: string;
@@ -36,58 +38,53 @@ export function JobDetailsModal({ job, isOpen, onClose, onStartChat }: JobDetail
     const { user } = useAuth();
     const [proposalPrice, setProposalPrice] = useState(job.priceEstimate?.max || 200);
     const [proposalMessage, setProposalMessage] = useState('');
+    const [proposalDate, setProposalDate] = useState('');
+    const [proposalTime, setProposalTime] = useState('');
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [isAccepting, setIsAccepting] = useState(false);
     const [submitted, setSubmitted] = useState(false);
+    const [ownProposal, setOwnProposal] = useState<JobProposal | null>(null);
+    const [isEditingProposal, setIsEditingProposal] = useState(false);
+
+    const uid = user?.uid;
+
+    // Pending proposal of this pro - shown as a card (edit / withdraw) instead of the form
+    const loadOwnProposal = useCallback(async () => {
+        if (!uid) return null;
+        return JobService.getOwnPendingProposal(job.id, uid);
+    }, [job.id, uid]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+
+        let cancelled = false;
+        loadOwnProposal().then(proposal => {
+            if (!cancelled) setOwnProposal(proposal);
+        });
+        return () => { cancelled = true; };
+    }, [isOpen, loadOwnProposal]);
 
     const handleSubmitProposal = async () => {
-        if (!user || !db || isSubmitting) return;
+        if (!user || isSubmitting || !proposalDate || !proposalTime) return;
+
+        // Date and time become the booking's scheduledDate when the client accepts
+        const availability = fromLocalTime(proposalDate, proposalTime);
+        if (availability.getTime() <= Date.now()) {
+            alert('Termin wykonania musi być w przyszłości.');
+            return;
+        }
         setIsSubmitting(true);
 
         try {
-            // 1. Add proposal to subcollection
-            const proposalRef = doc(collection(db, `jobs/${job.id}/proposals`));
-            await setDoc(proposalRef, {
-                id: proposalRef.id,
-                providerId: user.uid,
-                providerName: user.displayName || 'Fachowiec',
+            const result = await JobService.submitProposal(job.id, {
                 price: proposalPrice,
-                message: proposalMessage,
-                status: 'pending',
-                createdAt: serverTimestamp()
-            });
-
-            // 2. Increment proposal count
-            await updateDoc(doc(db, 'jobs', job.id), {
-                proposalCount: increment(1)
+                message: proposalMessage.trim(),
+                availability
             });
 
-            // 3. Get chatId from job (might not be in props)
-            let chatId = job.chatId;
-            if (!chatId) {
-                const jobDoc = await getDoc(doc(db, 'jobs', job.id));
-                chatId = jobDoc.data()?.chatId;
-            }
-
-            // 4. Send notification to job chat
-            if (chatId) {
-                await addDoc(collection(db, `chats/${chatId}/messages`), {
-                    content: `📨 **Nowa oferta od ${user.displayName || 'fachowca'}**\n\n💰 Cena: **${proposalPrice} zł**\n\n"${proposalMessage}"`,
-                    senderId: 'system',
-                    senderRole: 'system',
-                    type: 'proposal_notification',
-                    proposalId: proposalRef.id,
-                    providerId: user.uid,
-                    providerName: user.displayName,
-                    createdAt: serverTimestamp()
-                });
-
-                // Update chat last message + increment client unread count
-                await updateDoc(doc(db, 'chats', chatId), {
-                    lastMessage: `📨 Nowa oferta: ${proposalPrice} zł`,
-                    lastMessageAt: serverTimestamp(),
-                    'unreadCount.client': increment(1)
-                });
+            if (!result.success) {
+                alert(result.error || 'Błąd przy wysyłaniu oferty. Spróbuj ponownie.');
+                return;
             }
 
             setSubmitted(true);
@@ -103,6 +100,24 @@ export function JobDetailsModal({ job, isOpen, onClose, onStartChat }: JobDetail
         }
     };
 
+    const handleWithdrawProposal = async () => {
+        if (!ownProposal || isSubmitting) return;
+        if (!confirm('Wycofać ofertę? Klient nie będzie mógł jej już zaakceptować.')) return;
+        setIsSubmitting(true);
+
+        try {
+            const result = await JobService.withdrawProposal(job.id, ownProposal.id);
+            if (result.success) {
+                setOwnProposal(null);
+                onClose();
+            } else {
+                alert(result.error || 'Nie udało się wycofać oferty.');
+            }
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
     const handleStartChat = async () => {
         if (job.chatId) {
             onStartChat?.(job.chatId);
@@ -138,159 +153,220 @@ export function JobDetailsModal({ job, isOpen, onClose, onStartChat }: JobDetail
     if (!isOpen) return null;
 
     return (
-        <AnimatePresence>
-            <motion.div
-                initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
-                exit={{ opacity: 0 }}
-                className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm"
-                onClick={onClose}
-            >
+        <>
+            <AnimatePresence>
                 <motion.div
-                    initial={{ opacity: 0, y: 50, scale: 0.95 }}
-                    animate={{ opacity: 1, y: 0, scale: 1 }}
-                    exit={{ opacity: 0, y: 50, scale: 0.95 }}
-                    onClick={(e) => e.stopPropagation()}
-                    className="absolute inset-x-4 top-16 bottom-16 md:inset-x-auto md:left-1/2 md:-translate-x-1/2 md:w-[480px] bg-slate-900 rounded-2xl overflow-hidden border border-white/10 shadow-2xl flex flex-col"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm"
+                    onClick={onClose}
                 >
-                    {/* Header */}
-                    <div className="p-5 border-b border-white/10 bg-gradient-to-r from-violet-500/10 to-indigo-500/10">
-                        <div className="flex justify-between items-start">
-                            <div>
-                                <span className="inline-block px-2 py-1 text-xs font-bold text-violet-400 bg-violet-500/20 rounded-lg mb-2">
-                                    {job.category}
-                                </span>
-                                <h2 className="text-xl font-bold text-white">{job.title}</h2>
-                                <div className="flex items-center gap-2 mt-1 text-sm text-slate-400">
-                                    <User className="w-3.5 h-3.5" />
-                                    <span>{job.clientName}</span>
+                    <motion.div
+                        initial={{ opacity: 0, y: 50, scale: 0.95 }}
+                        animate={{ opacity: 1, y: 0, scale: 1 }}
+                        exit={{ opacity: 0, y: 50, scale: 0.95 }}
+                        onClick={(e) => e.stopPropagation()}
+                        className="absolute inset-x-4 top-16 bottom-16 md:inset-x-auto md:left-1/2 md:-translate-x-1/2 md:w-[480px] bg-slate-900 rounded-2xl overflow-hidden border border-white/10 shadow-2xl flex flex-col"
+                    >
+                        {/* Header */}
+                        <div className="p-5 border-b border-white/10 bg-gradient-to-r from-violet-500/10 to-indigo-500/10">
+                            <div className="flex justify-between items-start">
+                                <div>
+                                    <span className="inline-block px-2 py-1 text-xs font-bold text-violet-400 bg-violet-500/20 rounded-lg mb-2">
+                                        {job.category}
+                                    </span>
+                                    <h2 className="text-xl font-bold text-white">{job.title}</h2>
+                                    <div className="flex items-center gap-2 mt-1 text-sm text-slate-400">
+                                        <User className="w-3.5 h-3.5" />
+                                        <span>{job.clientName}</span>
+                                    </div>
                                 </div>
+                                <button
+                                    onClick={onClose}
+                                    className="w-10 h-10 rounded-xl bg-white/10 hover:bg-white/20 flex items-center justify-center transition-colors"
+                                >
+                                    <X className="w-5 h-5 text-white" />
+                                </button>
                             </div>
-                            <button
-                                onClick={onClose}
-                                className="w-10 h-10 rounded-xl bg-white/10 hover:bg-white/20 flex items-center justify-center transition-colors"
-                            >
-                                <X className="w-5 h-5 text-white" />
-                            </button>
-                        </div>
-                    </div>
-
-                    {/* Content */}
-                    <div className="flex-1 overflow-y-auto p-5 space-y-5">
-                        {/* Description */}
-                        <div>
-                            <h3 className="text-sm text-slate-400 mb-2 font-medium">Opis problemu</h3>
-                            <p className="text-white leading-relaxed">{job.description}</p>
                         </div>
 
-                        {/* Location */}
-                        {job.location && (
-                            <div className="flex items-center gap-3 p-3 bg-blue-500/10 rounded-xl border border-blue-500/20">
-                                <MapPin className="w-5 h-5 text-blue-400 flex-shrink-0" />
-                                <span className="text-blue-300 text-sm">{job.location.address}</span>
+                        {/* Content */}
+                        <div className="flex-1 overflow-y-auto p-5 space-y-5">
+                            {/* Description */}
+                            <div>
+                                <h3 className="text-sm text-slate-400 mb-2 font-medium">Opis problemu</h3>
+                                <p className="text-white leading-relaxed">{job.description}</p>
                             </div>
-                        )}
 
-                        {/* Client Budget */}
-                        <div className="p-4 bg-gradient-to-r from-emerald-500/10 to-green-500/10 rounded-xl border border-emerald-500/20">
-                            <span className="text-sm text-slate-400">Budżet klienta</span>
-                            <p className="text-3xl font-bold text-emerald-400 mt-1">
-                                {job.priceEstimate?.min}-{job.priceEstimate?.max} zł
-                            </p>
-                        </div>
+                            {/* Location */}
+                            {job.location && (
+                                <div className="flex items-center gap-3 p-3 bg-blue-500/10 rounded-xl border border-blue-500/20">
+                                    <MapPin className="w-5 h-5 text-blue-400 flex-shrink-0" />
+                                    <span className="text-blue-300 text-sm">{job.location.address}</span>
+                                </div>
+                            )}
 
-                        {/* Proposal Form */}
-                        {!submitted ? (
-                            <div className="space-y-4 pt-4 border-t border-white/10">
-                                <h3 className="font-bold text-white flex items-center gap-2">
-                                    <Send className="w-4 h-4 text-violet-400" />
-                                    Złóż ofertę
-                                </h3>
+                            {/* Client Budget */}
+                            <div className="p-4 bg-gradient-to-r from-emerald-500/10 to-green-500/10 rounded-xl border border-emerald-500/20">
+                                <span className="text-sm text-slate-400">Budżet klienta</span>
+                                <p className="text-3xl font-bold text-emerald-400 mt-1">
+                                    {job.priceEstimate?.min}-{job.priceEstimate?.max} zł
+                                </p>
+                            </div>
 
-                                <div>
-                                    <label className="text-sm text-slate-400 block mb-2">
-                                        Twoja cena (zł)
-                                    </label>
-                                    <div className="relative">
-                                        <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-500" />
-                                        <input
-                                            type="number"
-                                            value={proposalPrice}
-                                            onChange={(e) => setProposalPrice(Number(e.target.value))}
-                                            className="w-full pl-10 pr-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white text-lg font-bold focus:outline-none focus:border-violet-500/50"
+                            {/* Own pending proposal */}
+                            {!submitted && ownProposal && (
+                                <div className="space-y-3 pt-4 border-t border-white/10">
+                                    <h3 className="font-bold text-white flex items-center gap-2">
+                                        <Send className="w-4 h-4 text-violet-400" />
+                                        Twoja oferta
+                                    </h3>
+                                    <p className="text-xs text-slate-500">
+                                        Oferta oczekuje na decyzję klienta - możesz zmienić cenę, termin i wiadomość.
+                                        {(ownProposal.revisions?.length || 0) > 0 && ` Edytowana ${ownProposal.revisions!.length}×.`}
+                                    </p>
+                                    <ProposalCard
+                                        proposal={ownProposal}
+                                        onEdit={() => setIsEditingProposal(true)}
+                                        onWithdraw={handleWithdrawProposal}
+                                    />
+                                </div>
+                            )}
+
+                            {/* Proposal Form */}
+                            {!submitted ? (!ownProposal && (
+                                <div className="space-y-4 pt-4 border-t border-white/10">
+                                    <h3 className="font-bold text-white flex items-center gap-2">
+                                        <Send className="w-4 h-4 text-violet-400" />
+                                        Złóż ofertę
+                                    </h3>
+
+                                    <div>
+                                        <label className="text-sm text-slate-400 block mb-2">
+                                            Twoja cena (zł)
+                                        </label>
+                                        <div className="relative">
+                                            <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-500" />
+                                            <input
+                                                type="number"
+                                                value={proposalPrice}
+                                                onChange={(e) => setProposalPrice(Number(e.target.value))}
+                                                className="w-full pl-10 pr-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white text-lg font-bold focus:outline-none focus:border-violet-500/50"
+                                            />
+                                        </div>
+                                    </div>
+
+                                    <div>
+                                        <label className="text-sm text-slate-400 block mb-2">
+                                            Wiadomość do klienta
+                                        </label>
+                                        <textarea
+                                            value={proposalMessage}
+                                            onChange={(e) => setProposalMessage(e.target.value)}
+                                            placeholder="Dzień dobry, mam wieloletnie doświadczenie w..."
+                                            className="w-full p-4 bg-white/5 border border-white/10 rounded-xl text-white placeholder-slate-500 h-28 resize-none focus:outline-none focus:border-violet-500/50"
                                         />
                                     </div>
-                                </div>
 
-                                <div>
-                                    <label className="text-sm text-slate-400 block mb-2">
-                                        Wiadomość do klienta
-                                    </label>
-                                    <textarea
-                                        value={proposalMessage}
-                                        onChange={(e) => setProposalMessage(e.target.value)}
-                                        placeholder="Dzień dobry, mam wieloletnie doświadczenie w..."
-                                        className="w-full p-4 bg-white/5 border border-white/10 rounded-xl text-white placeholder-slate-500 h-28 resize-none focus:outline-none focus:border-violet-500/50"
-                                    />
+                                    <div>
+                                        <label className="text-sm text-slate-400 block mb-2">
+                                            Kiedy możesz wykonać?
+                                        </label>
+                                        <div className="grid grid-cols-2 gap-3">
+                                            <div className="relative">
+                                                <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-500" />
+                                                <input
+                                                    type="date"
+                                                    value={proposalDate}
+                                                    onChange={(e) => setProposalDate(e.target.value)}
+                                                    min={new Date().toISOString().split('T')[0]}
+                                                    className="w-full pl-10 pr-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:outline-none focus:border-violet-500/50"
+                                                />
+                                            </div>
+                                            <div className="relative">
+                                                <Clock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-500" />
+                                                <input
+                                                    type="time"
+                                                    value={proposalTime}
+                                                    onChange={(e) => setProposalTime(e.target.value)}
+                                                    className="w-full pl-10 pr-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:outline-none focus:border-violet-500/50"
+                                                />
+                                            </div>
+                                        </div>
+                                    </div>
                                 </div>
-                            </div>
-                        ) : (
-                            <motion.div
-                                initial={{ opacity: 0, scale: 0.9 }}
-                                animate={{ opacity: 1, scale: 1 }}
-                                className="p-6 bg-emerald-500/20 rounded-xl border border-emerald-500/30 text-center"
-                            >
-                                <CheckCircle className="w-12 h-12 text-emerald-400 mx-auto mb-3" />
-                                <h3 className="text-lg font-bold text-white">Oferta wysłana!</h3>
-                                <p className="text-sm text-slate-400 mt-1">Klient otrzymał powiadomienie</p>
-                            </motion.div>
-                        )}
-                    </div>
-
-                    {/* Actions */}
-                    {!submitted && (
-                        <div className="p-5 border-t border-white/10 bg-slate-900/50 space-y-3">
-                            {/* Accept Job - Primary Action */}
-                            <button
-                                onClick={handleAcceptJob}
-                                disabled={isAccepting || job.status !== 'open'}
-                                className="w-full py-4 bg-gradient-to-r from-violet-500 to-indigo-500 hover:from-violet-400 hover:to-indigo-400 disabled:from-slate-700 disabled:to-slate-700 disabled:opacity-50 text-white font-bold rounded-xl flex items-center justify-center gap-2 transition-all shadow-lg shadow-violet-500/20"
-                            >
-                                {isAccepting ? (
-                                    <Loader2 className="w-5 h-5 animate-spin" />
-                                ) : (
-                                    <CheckCircle className="w-5 h-5" />
-                                )}
-                                ✅ Akceptuj zlecenie
-                            </button>
-
-                            {/* Secondary Actions */}
-                            <div className="flex gap-3">
-                                <button
-                                    onClick={handleStartChat}
-                                    disabled={!job.chatId}
-                                    className="flex-1 py-3 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-white rounded-xl flex items-center justify-center gap-2 transition-colors font-medium text-sm"
+                            )) : (
+                                <motion.div
+                                    initial={{ opacity: 0, scale: 0.9 }}
+                                    animate={{ opacity: 1, scale: 1 }}
+                                    className="p-6 bg-emerald-500/20 rounded-xl border border-emerald-500/30 text-center"
                                 >
-                                    <MessageCircle className="w-4 h-4" />
-                                    Napisz
-                                </button>
+                                    <CheckCircle className="w-12 h-12 text-emerald-400 mx-auto mb-3" />
+                                    <h3 className="text-lg font-bold text-white">Oferta wysłana!</h3>
+                                    <p className="text-sm text-slate-400 mt-1">Klient otrzymał powiadomienie</p>
+                                </motion.div>
+                            )}
+                        </div>
+
+                        {/* Actions */}
+                        {!submitted && (
+                            <div className="p-5 border-t border-white/10 bg-slate-900/50 space-y-3">
+                                {/* Accept Job - Primary Action */}
                                 <button
-                                    onClick={handleSubmitProposal}
-                                    disabled={isSubmitting || !proposalMessage.trim()}
-                                    className="flex-1 py-3 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white font-medium rounded-xl flex items-center justify-center gap-2 transition-all text-sm"
+                                    onClick={handleAcceptJob}
+                                    disabled={isAccepting || job.status !== 'open'}
+                                    className="w-full py-4 bg-gradient-to-r from-violet-500 to-indigo-500 hover:from-violet-400 hover:to-indigo-400 disabled:from-slate-700 disabled:to-slate-700 disabled:opacity-50 text-white font-bold rounded-xl flex items-center justify-center gap-2 transition-all shadow-lg shadow-violet-500/20"
                                 >
-                                    {isSubmitting ? (
-                                        <Loader2 className="w-4 h-4 animate-spin" />
+                                    {isAccepting ? (
+                                        <Loader2 className="w-5 h-5 animate-spin" />
                                     ) : (
-                                        <Send className="w-4 h-4" />
+                                        <CheckCircle className="w-5 h-5" />
                                     )}
-                                    Wyślij ofertę
+                                    ✅ Akceptuj zlecenie
                                 </button>
+
+                                {/* Secondary Actions */}
+                                <div className="flex gap-3">
+                                    <button
+                                        onClick={handleStartChat}
+                                        disabled={!job.chatId}
+                                        className="flex-1 py-3 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-white rounded-xl flex items-center justify-center gap-2 transition-colors font-medium text-sm"
+                                    >
+                                        <MessageCircle className="w-4 h-4" />
+                                        Napisz
+                                    </button>
+                                    {!ownProposal && (
+                                        <button
+                                            onClick={handleSubmitProposal}
+                                            disabled={isSubmitting || !proposalMessage.trim() || !proposalDate || !proposalTime}
+                                            className="flex-1 py-3 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white font-medium rounded-xl flex items-center justify-center gap-2 transition-all text-sm"
+                                        >
+                                            {isSubmitting ? (
+                                                <Loader2 className="w-4 h-4 animate-spin" />
+                                            ) : (
+                                                <Send className="w-4 h-4" />
+                                            )}
+                                            Wyślij ofertę
+                                        </button>
+                                    )}
+                                </div>
                             </div>
-                        </div>
-                    )}
+                        )}
+                    </motion.div>
                 </motion.div>
-            </motion.div>
-        </AnimatePresence>
+            </AnimatePresence>
+
+            {/* Edit mode - mounted per edit so the form starts from the current proposal */}
+            {isEditingProposal && ownProposal && (
+                <ProposalModal
+                    isOpen
+                    onClose={() => setIsEditingProposal(false)}
+                    job={job}
+                    proposal={ownProposal}
+                    onSuccess={() => loadOwnProposal().then(setOwnProposal)}
+                />
+            )}
+        </>
     );
 }
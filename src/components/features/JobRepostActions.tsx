@@ -0,0 +1,77 @@
+"use client";
+
+/**
+ * JobRepostActions - one-tap repost of an expired job
+ * Optional: wider search radius / higher budget for the new job.
+ */
+
+import { useState } from "react";
+import { RotateCcw, Loader2, Maximize2, TrendingUp } from "lucide-react";
+import { Job } from "@/types/firestore-v2";
+import { JobService, RepostOptions, previewRepost } from "@/lib/job-service";
+
+interface JobRepostActionsProps {
+    job: Pick<Job, 'id' | 'searchRadiusKm' | 'priceEstimate'>;
+    onReposted?: (jobId: string, chatId: string) => void;
+}
+
+export function JobRepostActions({ job, onReposted }: JobRepostActionsProps) {
+    const [options, setOptions] = useState<RepostOptions>({});
+    const [isReposting, setIsReposting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const preview = previewRepost(job, options);
+
+    const handleRepost = async () => {
+        if (isReposting) return;
+        setIsReposting(true);
+        setError(null);
+
+        const result = await JobService.repostJob(job.id, options);
+        if (result.success && result.jobId && result.chatId) {
+            onReposted?.(result.jobId, result.chatId);
+        } else {
+            setError(result.error || "Nie udało się opublikować zlecenia");
+        }
+        setIsReposting(false);
+    };
+
+    const toggle = (key: keyof RepostOptions) =>
+        setOptions(prev => ({ ...prev, [key]: !prev[key] }));
+
+    return (
+        <div className="space-y-2">
+            <div className="flex gap-2">
+                <button
+                    onClick={() => toggle('widenRadius')}
+                    className={`flex-1 py-1.5 px-2 rounded-lg border text-[11px] flex items-center justify-center gap-1 transition-colors ${options.widenRadius ? 'bg-violet-500/20 border-violet-500/40 text-violet-200' : 'border-white/10 text-slate-400 hover:text-white'}`}
+                >
+                    <Maximize2 className="w-3 h-3" />
+                    Zasięg {preview.searchRadiusKm} km
+                </button>
+                {job.priceEstimate && (
+                    <button
+                        onClick={() => toggle('raiseBudget')}
+                        className={`flex-1 py-1.5 px-2 rounded-lg border text-[11px] flex items-center justify-center gap-1 transition-colors ${options.raiseBudget ? 'bg-emerald-500/20 border-emerald-500/40 text-emerald-200' : 'border-white/10 text-slate-400 hover:text-white'}`}
+                    >
+                        <TrendingUp className="w-3 h-3" />
+                        {preview.priceEstimate?.min}-{preview.priceEstimate?.max} zł
+                    </button>
+                )}
+            </div>
+
+            <button
+                onClick={handleRepost}
+                disabled={isReposting}
+                className="w-full py-2.5 bg-violet-600 hover:bg-violet-500 disabled:opacity-50 text-white text-xs font-bold rounded-xl transition-colors flex items-center justify-center gap-1"
+            >
+                {isReposting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RotateCcw className="w-3.5 h-3.5" />}
+                Opublikuj ponownie
+            </button>
+
+            {error && <p className="text-[11px] text-red-400 text-center">{error}</p>}
+        </div>
+    );
+}
+
+export default JobRepostActions;
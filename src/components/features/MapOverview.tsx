@@ -12,7 +12,7 @@ import { MOCK_PROFESSIONALS } from "@/lib/mock-data";
 import { CategoryType, PlaceLocation } from "./SearchOverlay";
 import { UserLocationMarker } from "@/components/map/UserLocationMarker";
 import { useAuth } from "@/context/AuthContext";
-import { useLiveProviders } from "@/hooks/useLiveSearch";
+import { useLiveProviders, SearchOptions } from "@/hooks/useLiveSearch";
 import { ServiceCategory } from "@/types/listings";
 
 // Types
@@ -81,9 +81,10 @@ function MockMap({ onSelectPro, categoryFilter }: { onSelectPro?: (pro: Professi
 }
 
 // Online Map Component (Architecture 2.0: Dual Collection)
-function OnlineMap({ onSelectPro, categoryFilter, centerLocation, userRole, fitBoundsLocations, userLocation }: {
+function OnlineMap({ onSelectPro, categoryFilter, availableOn, centerLocation, userRole, fitBoundsLocations, userLocation }: {
     onSelectPro?: (pro: Professional) => void;
     categoryFilter?: CategoryType;
+    availableOn?: SearchOptions['availableOn'];
     centerLocation?: PlaceLocation | null;
     userRole?: 'client' | 'professional' | null;
     fitBoundsLocations?: { user: { lat: number; lng: number }; pro: { lat: number; lng: number } } | null;
@@ -166,7 +167,8 @@ function OnlineMap({ onSelectPro, categoryFilter, centerLocation, userRole, fitB
     const { providers: liveProviders, isLoading: providersLoading } = useLiveProviders({
         center: searchOptions?.center || POZNAN_CENTER,
         radiusKm: searchOptions?.radiusKm || 5,
-        category: mapCategoryToBackend(categoryFilter)
+        category: mapCategoryToBackend(categoryFilter),
+        availableOn
     });
 
     // Debounce ref to prevent excessive queries
@@ -332,9 +334,10 @@ function OnlineMap({ onSelectPro, categoryFilter, centerLocation, userRole, fitB
     );
 }
 
-export function MapOverview({ onSelectPro, categoryFilter, centerLocation, userRole, fitBoundsLocations, userLocation }: {
+export function MapOverview({ onSelectPro, categoryFilter, availableOn, centerLocation, userRole, fitBoundsLocations, userLocation }: {
     onSelectPro?: (pro: Professional) => void;
     categoryFilter?: CategoryType;
+    availableOn?: SearchOptions['availableOn'];
     centerLocation?: PlaceLocation | null;
     userRole?: 'client' | 'professional' | null;
     fitBoundsLocations?: { user: { lat: number; lng: number }; pro: { lat: number; lng: number } } | null;
@@ -343,5 +346,5 @@ export function MapOverview({ onSelectPro, categoryFilter, centerLocation, userR
     if (!API_KEY) {
         return <div className="w-full h-full relative"><MockMap onSelectPro={onSelectPro} categoryFilter={categoryFilter} /></div>;
     }
-    return <OnlineMap onSelectPro={onSelectPro} categoryFilter={categoryFilter} centerLocation={centerLocation} userRole={userRole} fitBoundsLocations={fitBoundsLocations} userLocation={userLocation} />;
+    return <OnlineMap onSelectPro={onSelectPro} categoryFilter={categoryFilter} availableOn={availableOn} centerLocation={centerLocation} userRole={userRole} fitBoundsLocations={fitBoundsLocations} userLocation={userLocation} />;
 }
@@ -5,6 +5,8 @@ import { motion, AnimatePresence } from "framer-motion";
 import { MessageSquare, Loader2 } from "lucide-react";
 import { ChatService, Chat } from "@/lib/chat-service";
 import { SimpleChatWindow } from "./SimpleChatWindow";
+import { PresenceDot } from "./ChatPresence";
+import { usePresence } from "@/hooks/usePresence";
 import { useAuth } from "@/context/AuthContext";
 import { cn } from "@/lib/utils";
 
@@ -30,20 +32,21 @@ function ChatListItem({
     chat,
     isActive,
     onClick,
+    userId,
     userRole
 }: {
     chat: Chat;
     isActive: boolean;
     onClick: () => void;
+    userId: string;
     userRole: string;
 }) {
     const otherName = userRole === 'client'
         ? chat.professionalName || 'Fachowiec'
         : chat.clientName || 'Klient';
 
-    const unreadCount = userRole === 'client'
-        ? chat.unreadCount?.client || 0
-        : chat.unreadCount?.professional || 0;
+    const unreadCount = chat.unreadCount?.[userId] || 0;
+    const { online } = usePresence(chat.clientId === userId ? chat.professionalId : chat.clientId);
 
     const initial = otherName?.[0]?.toUpperCase() || '?';
 
@@ -61,12 +64,13 @@ function ChatListItem({
         >
             {/* Avatar */}
             <div className={cn(
-                "w-12 h-12 rounded-full flex items-center justify-center text-lg font-bold flex-shrink-0",
+                "relative w-12 h-12 rounded-full flex items-center justify-center text-lg font-bold flex-shrink-0",
                 isActive
                     ? "bg-gradient-to-br from-violet-500 to-indigo-500 text-white"
                     : "bg-slate-800 text-white/70"
             )}>
                 {initial}
+                <PresenceDot online={online} />
             </div>
 
             {/* Content */}
@@ -208,6 +212,7 @@ export function MessagesTab() {
                                 chat={chat}
                                 isActive={selectedChatId === chat.id}
                                 onClick={() => setSelectedChatId(chat.id)}
+                                userId={user?.uid || ''}
                                 userRole={userRole || 'client'}
                             />
                         ))
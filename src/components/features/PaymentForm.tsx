@@ -0,0 +1,87 @@
+"use client";
+
+import { Loader2, Shield } from "lucide-react";
+import { CardElement, useStripe, useElements } from "@stripe/react-stripe-js";
+import { createPaymentIntent } from "@/lib/stripe";
+
+/**
+ * Card form (Stripe Elements) - render inside <Elements>.
+ * beforePay runs right before the PaymentIntent is created, e.g. to hold
+ * the booking's slot again; returning false stops the payment.
+ */
+export function PaymentForm({ amount, bookingId, beforePay, onSuccess, onError, isProcessing }: {
+    amount: number;
+    bookingId: string | null;
+    beforePay?: () => Promise<boolean>;
+    onSuccess: (paymentId: string) => void;
+    onError: (msg: string) => void;
+    isProcessing: boolean;
+}) {
+    const stripe = useStripe();
+    const elements = useElements();
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!stripe || !elements) return;
+
+        const cardElement = elements.getElement(CardElement);
+        if (!cardElement) return;
+
+        // Slot hold lapsed or released after a failed attempt - hold it again
+        if (beforePay && !await beforePay()) return;
+
+        try {
+            // 1. Create Payment Intent
+            const { clientSecret } = await createPaymentIntent(amount, bookingId || "temp_booking_id");
+
+            // 2. Confirm Card Payment
+            const { error, paymentIntent } = await stripe.confirmCardPayment(clientSecret, {
+                payment_method: {
+                    card: cardElement,
+                }
+            });
+
+            if (error) {
+                onError(error.message || "Błąd płatności");
+            } else if (paymentIntent && paymentIntent.status === "succeeded") {
+                onSuccess(paymentIntent.id);
+            }
+        } catch (err) {
+            onError(err instanceof Error ? err.message : "Błąd serwera płatności");
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="bg-slate-800/50 p-4 rounded-xl border border-white/10">
+                <CardElement
+                    options={{
+                        style: {
+                            base: {
+                                fontSize: '16px',
+                                color: '#ffffff',
+                                '::placeholder': { color: '#94a3b8' },
+                            },
+                            invalid: { color: '#ef4444' },
+                        },
+                    }}
+                />
+            </div>
+            <button
+                type="submit"
+                disabled={!stripe || isProcessing}
+                className="w-full py-3 bg-emerald-600 hover:bg-emerald-700 disabled:bg-slate-700 disabled:cursor-not-allowed text-white font-semibold rounded-xl transition flex items-center justify-center gap-2"
+            >
+                {isProcessing ? (
+                    <>
+                        <Loader2 className="w-5 h-5 animate-spin" /> Przetwarzanie...
+                    </>
+                ) : (
+                    <>
+                        <Shield className="w-5 h-5" /> Zapłać {amount} zł
+                    </>
+                )}
+            </button>
+        </form>
+    );
+}
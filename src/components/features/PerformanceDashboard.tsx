@@ -41,6 +41,7 @@ interface PerformanceMetrics {
     averageRating: number;
     reviewCount: number;
     responseRate: number;
+    acceptanceRate: number;
     cancellationRate: number;
     completedBookings: number;
     totalHours: number;
@@ -64,6 +65,7 @@ const MOCK_METRICS: PerformanceMetrics = {
     averageRating: 4.92,
     reviewCount: 47,
     responseRate: 0.94,
+    acceptanceRate: 0.91,
     cancellationRate: 0.02,
     completedBookings: 42,
     totalHours: 186,
@@ -91,6 +93,7 @@ export function PerformanceDashboard({
         metrics: {
             averageRating: metrics.averageRating,
             responseRate: metrics.responseRate,
+            acceptanceRate: metrics.acceptanceRate,
             cancellationRate: metrics.cancellationRate,
             completedBookings: metrics.completedBookings,
             totalHours: metrics.totalHours
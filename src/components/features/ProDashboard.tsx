@@ -3,14 +3,18 @@
 import { useState, useEffect, useRef } from "react";
 import { motion, PanInfo, useMotionValue, useTransform, AnimatePresence } from "framer-motion";
 import { DollarSign, ChevronRight, TrendingUp, Loader2, Clock, Crown } from "lucide-react";
-import { collection, query, where, onSnapshot, orderBy, limit, doc, updateDoc, setDoc, Timestamp, Firestore } from "firebase/firestore";
+import { collection, query, where, onSnapshot, orderBy, limit, doc, setDoc, Timestamp, Firestore } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { useAuth } from "@/context/AuthContext";
 // V2 Imports
-import { Booking, BookingStatus, bookingConverter } from "@/types/firestore-v2";
+import { Booking, bookingConverter } from "@/types/firestore-v2";
+import { approveBooking, cancelBooking, claimMarketplaceBooking } from "@/lib/booking-machine";
 import { AvailabilityEditor } from "@/components/pro/AvailabilityEditor";
 import { SubscriptionPlans } from "@/components/features/SubscriptionPlans";
 import { JobDetailsModal } from "@/components/features/JobDetailsModal";
+import { useJobFeed } from "@/hooks/useJobFeed";
+import { JobFeedSort } from "@/lib/job-service";
+import { formatDistance } from "@/lib/geospatial";
 
 // Interface for job request display
 interface JobRequest {
@@ -356,21 +360,10 @@ export function ProDashboard() {
     const handleAccept = async () => {
         if (!incomingJob || !db || !user) return;
         try {
-            const updates: any = {
-                status: "CONFIRMED",
-                updatedAt: Timestamp.now()
-            };
-
-            if (incomingJob.isMarketplace) {
-                updates.hostId = user.uid;
-                updates.hostSnapshot = {
-                    displayName: user.displayName || 'Fachowiec',
-                    avatarUrl: user.photoURL,
-                    ratingAtBooking: 5.0
-                };
-            }
-
-            await updateDoc(doc(db, "bookings", incomingJob.id), updates);
+            const result = incomingJob.isMarketplace
+                ? await claimMarketplaceBooking(incomingJob.id)
+                : await approveBooking(incomingJob.id);
+            if (!result.success) throw new Error(result.error);
             setIncomingJob(null);
         } catch (e) {
             console.error("Error accepting", e);
@@ -383,10 +376,8 @@ export function ProDashboard() {
             if (incomingJob.isMarketplace) {
                 setIncomingJob(null);
             } else {
-                await updateDoc(doc(db, "bookings", incomingJob.id), {
-                    status: "CANCELED_BY_HOST" as BookingStatus,
-                    updatedAt: Timestamp.now()
-                });
+                const result = await cancelBooking(incomingJob.id, 'Odrzucone przez fachowca');
+                if (!result.success) throw new Error(result.error);
             }
         } catch (e) {
             console.error("Error rejecting", e);
@@ -499,25 +490,41 @@ export function ProDashboard() {
     );
 }
 
+const FEED_SORT_LABELS: Record<JobFeedSort, string> = {
+    distance: 'Najbliższe',
+    urgency: 'Najpilniejsze',
+    recent: 'Najnowsze'
+};
+
 function JobBoardList() {
-    const [jobs, setJobs] = useState<any[]>([]);
-    const [loading, setLoading] = useState(true);
+    const {
+        jobs, loading, loadingMore, hasMore, loadMore,
+        sort, setSort, allCategories, setAllCategories, radiusKm, categories, missingLocation
+    } = useJobFeed();
     const [selectedJob, setSelectedJob] = useState<any | null>(null);
 
-    useEffect(() => {
-        let unsubscribe: () => void;
-        
-        import("@/lib/job-service").then(({ JobService }) => {
-            unsubscribe = JobService.subscribeToOpenJobs((fetchedJobs) => {
-                setJobs(fetchedJobs);
-                setLoading(false);
-            });
-        });
-
-        return () => {
-            if (unsubscribe) unsubscribe();
-        };
-    }, []);
+    const filters = (
+        <div className="flex flex-wrap items-center gap-2 mb-4 text-xs">
+            {(Object.keys(FEED_SORT_LABELS) as JobFeedSort[]).map(option => (
+                <button
+                    key={option}
+                    onClick={() => setSort(option)}
+                    className={`px-3 py-1.5 rounded-lg font-medium transition-colors ${sort === option ? 'bg-violet-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                >
+                    {FEED_SORT_LABELS[option]}
+                </button>
+            ))}
+            {categories.length > 0 && (
+                <button
+                    onClick={() => setAllCategories(!allCategories)}
+                    className={`px-3 py-1.5 rounded-lg font-medium transition-colors ${allCategories ? 'bg-slate-800 text-slate-400 hover:text-white' : 'bg-emerald-600/20 text-emerald-300'}`}
+                >
+                    {allCategories ? 'Wszystkie branże' : `Tylko: ${categories.join(', ')}`}
+                </button>
+            )}
+            <span className="ml-auto text-slate-500">Promień {radiusKm} km</span>
+        </div>
+    );
 
     if (loading) return (
         <div className="flex justify-center py-20">
@@ -525,15 +532,26 @@ function JobBoardList() {
         </div>
     );
 
-    if (jobs.length === 0) return (
+    if (missingLocation) return (
         <div className="text-center py-20 text-slate-500">
-            <p className="text-lg font-medium">Brak dostępnych zleceń</p>
-            <p className="text-sm">Zajrzyj ponownie później</p>
+            <p className="text-lg font-medium">Brak lokalizacji</p>
+            <p className="text-sm">Uzupełnij adres w profilu lub zezwól na dostęp do lokalizacji</p>
         </div>
     );
 
+    if (jobs.length === 0) return (
+        <>
+            {filters}
+            <div className="text-center py-20 text-slate-500">
+                <p className="text-lg font-medium">Brak dostępnych zleceń</p>
+                <p className="text-sm">Zajrzyj ponownie później</p>
+            </div>
+        </>
+    );
+
     return (
         <>
+            {filters}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 {jobs.map(job => (
                     <div key={job.id} className="bg-slate-800/50 border border-white/5 rounded-2xl p-5 hover:border-violet-500/30 transition-all group">
@@ -548,7 +566,7 @@ function JobBoardList() {
                                 </div>
                             </div>
                             <span className="text-xs text-slate-500 font-mono bg-black/20 px-2 py-1 rounded">
-                                {job.location?.address?.split(',')[0]}
+                                {job.location?.address?.split(',')[0]} · {formatDistance(job.distance)}
                             </span>
                         </div>
 
@@ -572,6 +590,17 @@ function JobBoardList() {
                 ))}
             </div>
 
+            {hasMore && (
+                <button
+                    onClick={loadMore}
+                    disabled={loadingMore}
+                    className="mt-4 w-full py-3 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-white text-sm font-medium rounded-xl transition-colors flex items-center justify-center gap-2"
+                >
+                    {loadingMore && <Loader2 className="w-4 h-4 animate-spin" />}
+                    Pokaż więcej
+                </button>
+            )}
+
             {/* Job Details Modal */}
             {selectedJob && (
                 <JobDetailsModal
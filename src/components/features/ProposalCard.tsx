@@ -10,7 +10,7 @@
 
 import { useState } from "react";
 import { motion } from "framer-motion";
-import { Star, Clock, MessageCircle, CheckCircle, X, User } from "lucide-react";
+import { Star, Clock, MessageCircle, CheckCircle, X, User, Pencil, Undo2 } from "lucide-react";
 import { JobProposal } from "@/types/firestore-v2";
 import { Timestamp } from "firebase/firestore";
 
@@ -20,9 +20,11 @@ interface ProposalCardProps {
     onAccept?: () => void;
     onReject?: () => void;
     onMessage?: () => void;
+    onEdit?: () => void;     // Professional view: pending proposal only
+    onWithdraw?: () => void;
 }
 
-export function ProposalCard({ proposal, isClient, onAccept, onReject, onMessage }: ProposalCardProps) {
+export function ProposalCard({ proposal, isClient, onAccept, onReject, onMessage, onEdit, onWithdraw }: ProposalCardProps) {
     const [isExpanded, setIsExpanded] = useState(false);
 
     // Format date
@@ -40,14 +42,16 @@ export function ProposalCard({ proposal, isClient, onAccept, onReject, onMessage
         pending: "bg-amber-500/20 text-amber-400 border-amber-500/30",
         accepted: "bg-emerald-500/20 text-emerald-400 border-emerald-500/30",
         rejected: "bg-red-500/20 text-red-400 border-red-500/30",
-        withdrawn: "bg-slate-500/20 text-slate-400 border-slate-500/30"
+        withdrawn: "bg-slate-500/20 text-slate-400 border-slate-500/30",
+        expired: "bg-slate-500/20 text-slate-400 border-slate-500/30"
     };
 
     const statusLabels = {
         pending: "Oczekuje",
         accepted: "Zaakceptowana",
         rejected: "Odrzucona",
-        withdrawn: "Wycofana"
+        withdrawn: "Wycofana",
+        expired: "Wygasła"
     };
 
     return (
@@ -86,6 +90,14 @@ export function ProposalCard({ proposal, isClient, onAccept, onReject, onMessage
                             <span className={`text-[10px] px-2 py-0.5 rounded-full border ${statusColors[proposal.status]}`}>
                                 {statusLabels[proposal.status]}
                             </span>
+                            {(proposal.revisions?.length || 0) > 0 && (
+                                <span
+                                    className="text-[10px] text-slate-500"
+                                    title={proposal.revisions!.map(r => `${formatDate(r.submittedAt)}: ${r.price} zł`).join('\n')}
+                                >
+                                    edytowana
+                                </span>
+                            )}
                         </div>
                         <div className="flex items-center gap-2 mt-1">
                             <div className="flex items-center gap-1">
@@ -115,6 +127,10 @@ export function ProposalCard({ proposal, isClient, onAccept, onReject, onMessage
                         {proposal.message}
                     </div>
                 )}
+
+                {proposal.status === 'rejected' && proposal.rejectionReason && (
+                    <p className="mt-2 text-xs text-slate-500">{proposal.rejectionReason}</p>
+                )}
             </div>
 
             {/* Actions (Client View Only) */}
@@ -135,13 +151,39 @@ export function ProposalCard({ proposal, isClient, onAccept, onReject, onMessage
                     </button>
                     <button
                         onClick={onAccept}
-                        className="flex-1 flex items-center justify-center gap-2 py-2.5 bg-emerald-600 hover:bg-emerald-500 rounded-xl text-sm font-bold text-white transition-colors shadow-lg shadow-emerald-900/20"
+                        disabled={!proposal.availability}
+                        title={proposal.availability ? undefined : 'Fachowiec nie podał terminu - zapytaj o niego w wiadomości'}
+                        className="flex-1 flex items-center justify-center gap-2 py-2.5 bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed rounded-xl text-sm font-bold text-white transition-colors shadow-lg shadow-emerald-900/20"
                     >
                         <CheckCircle className="w-4 h-4" />
                         Akceptuj
                     </button>
                 </div>
             )}
+
+            {/* Actions (Professional View) */}
+            {!isClient && proposal.status === 'pending' && (onEdit || onWithdraw) && (
+                <div className="px-4 pb-4 pt-1 flex gap-2">
+                    {onWithdraw && (
+                        <button
+                            onClick={onWithdraw}
+                            className="flex-1 flex items-center justify-center gap-2 py-2.5 bg-red-500/10 hover:bg-red-500/20 rounded-xl text-sm font-medium text-red-400 transition-colors"
+                        >
+                            <Undo2 className="w-4 h-4" />
+                            Wycofaj
+                        </button>
+                    )}
+                    {onEdit && (
+                        <button
+                            onClick={onEdit}
+                            className="flex-1 flex items-center justify-center gap-2 py-2.5 bg-slate-700/50 hover:bg-slate-700 rounded-xl text-sm font-medium text-white transition-colors"
+                        >
+                            <Pencil className="w-4 h-4" />
+                            Edytuj
+                        </button>
+                    )}
+                </div>
+            )}
         </motion.div>
     );
 }
@@ -2,28 +2,35 @@
 
 /**
  * ProposalModal - Modal for professionals to submit job proposals
+ * With `proposal` set it edits that pending proposal instead.
  */
 
 import { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { X, Send, Calendar, DollarSign, MessageSquare, Loader2 } from "lucide-react";
-import { Job } from "@/types/firestore-v2";
+import { X, Send, Calendar, Clock, DollarSign, MessageSquare, Loader2 } from "lucide-react";
+import { Job, JobProposal } from "@/types/firestore-v2";
 import { JobService } from "@/lib/job-service";
 import { useAuth } from "@/context/AuthContext";
-import { Timestamp } from "firebase/firestore";
+import { toLocalParts, fromLocalTime } from "@/lib/local-time";
 
 interface ProposalModalProps {
     isOpen: boolean;
     onClose: () => void;
-    job: Job;
+    job: Pick<Job, 'id' | 'title'> & { priceEstimate?: Job['priceEstimate'] };
+    proposal?: JobProposal;
     onSuccess?: (proposalId: string) => void;
 }
 
-export function ProposalModal({ isOpen, onClose, job, onSuccess }: ProposalModalProps) {
+export function ProposalModal({ isOpen, onClose, job, proposal, onSuccess }: ProposalModalProps) {
     const { user } = useAuth();
-    const [price, setPrice] = useState(job.priceEstimate?.min || 100);
-    const [message, setMessage] = useState("");
-    const [availabilityDate, setAvailabilityDate] = useState("");
+    const [price, setPrice] = useState(proposal?.price || job.priceEstimate?.min || 100);
+    const [message, setMessage] = useState(proposal?.message || "");
+    const [availabilityDate, setAvailabilityDate] = useState(() =>
+        proposal?.availability ? toLocalParts(proposal.availability.toDate()).dateStr : ""
+    );
+    const [availabilityTime, setAvailabilityTime] = useState(() =>
+        proposal?.availability ? toLocalParts(proposal.availability.toDate()).timeStr : ""
+    );
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
@@ -38,28 +45,34 @@ export function ProposalModal({ isOpen, onClose, job, onSuccess }: ProposalModal
             return;
         }
 
+        if (!availabilityDate || !availabilityTime) {
+            setError("Podaj datę i godzinę wykonania");
+            return;
+        }
+        const availability = fromLocalTime(availabilityDate, availabilityTime);
+        if (availability.getTime() <= Date.now()) {
+            setError("Termin wykonania musi być w przyszłości");
+            return;
+        }
+
         setIsSubmitting(true);
         setError(null);
 
         try {
-            const proposalId = await JobService.submitProposal(job.id, {
-                jobId: job.id,
-                proId: user.uid,
-                proName: user.displayName || "Fachowiec",
-                proAvatarUrl: user.photoURL || "",
-                proRating: 5.0, // TODO: Fetch from provider profile
-                price: price,
+            const draft = {
+                price,
                 message: message.trim(),
-                availability: availabilityDate
-                    ? Timestamp.fromDate(new Date(availabilityDate))
-                    : Timestamp.now()
-            });
-
-            if (proposalId) {
-                onSuccess?.(proposalId);
+                availability
+            };
+            const result = proposal
+                ? { ...await JobService.editProposal(job.id, proposal.id, draft), proposalId: proposal.id }
+                : await JobService.submitProposal(job.id, draft);
+
+            if (result.success && result.proposalId) {
+                onSuccess?.(result.proposalId);
                 onClose();
             } else {
-                setError("Nie udało się wysłać oferty");
+                setError(result.error || "Nie udało się wysłać oferty");
             }
         } catch (err) {
             console.error("Proposal error:", err);
@@ -89,7 +102,7 @@ export function ProposalModal({ isOpen, onClose, job, onSuccess }: ProposalModal
                         {/* Header */}
                         <div className="p-6 border-b border-white/10 flex justify-between items-start">
                             <div>
-                                <h2 className="text-xl font-bold text-white">Złóż ofertę</h2>
+                                <h2 className="text-xl font-bold text-white">{proposal ? "Edytuj ofertę" : "Złóż ofertę"}</h2>
                                 <p className="text-sm text-slate-400 mt-1">{job.title}</p>
                             </div>
                             <button
@@ -129,13 +142,24 @@ export function ProposalModal({ isOpen, onClose, job, onSuccess }: ProposalModal
                                     <Calendar className="w-4 h-4 text-blue-400" />
                                     Kiedy możesz wykonać?
                                 </label>
-                                <input
-                                    type="date"
-                                    value={availabilityDate}
-                                    onChange={(e) => setAvailabilityDate(e.target.value)}
-                                    min={new Date().toISOString().split('T')[0]}
-                                    className="w-full px-4 py-3 bg-slate-800/50 border border-white/10 rounded-xl text-white focus:outline-none focus:border-blue-500/50"
-                                />
+                                <div className="grid grid-cols-2 gap-3">
+                                    <input
+                                        type="date"
+                                        value={availabilityDate}
+                                        onChange={(e) => setAvailabilityDate(e.target.value)}
+                                        min={new Date().toISOString().split('T')[0]}
+                                        className="w-full px-4 py-3 bg-slate-800/50 border border-white/10 rounded-xl text-white focus:outline-none focus:border-blue-500/50"
+                                    />
+                                    <div className="relative">
+                                        <Clock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
+                                        <input
+                                            type="time"
+                                            value={availabilityTime}
+                                            onChange={(e) => setAvailabilityTime(e.target.value)}
+                                            className="w-full pl-9 pr-4 py-3 bg-slate-800/50 border border-white/10 rounded-xl text-white focus:outline-none focus:border-blue-500/50"
+                                        />
+                                    </div>
+                                </div>
                             </div>
 
                             {/* Message */}
@@ -174,7 +198,7 @@ export function ProposalModal({ isOpen, onClose, job, onSuccess }: ProposalModal
                                 ) : (
                                     <>
                                         <Send className="w-5 h-5" />
-                                        Wyślij ofertę
+                                        {proposal ? "Zapisz zmiany" : "Wyślij ofertę"}
                                     </>
                                 )}
                             </button>
@@ -10,6 +10,7 @@ import { X, Loader2, MessageCircle, Inbox } from "lucide-react";
 import { Job, JobProposal } from "@/types/firestore-v2";
 import { JobService } from "@/lib/job-service";
 import { ProposalCard } from "./ProposalCard";
+import { BookingPaymentModal } from "./BookingPaymentModal";
 import { ChatService } from "@/lib/chat-service";
 import { useAuth } from "@/context/AuthContext";
 
@@ -24,6 +25,9 @@ export function ProposalsListModal({ isOpen, onClose, job, onChatOpen }: Proposa
     const { user } = useAuth();
     const [proposals, setProposals] = useState<JobProposal[]>([]);
     const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    // Accepted proposal - its booking waits for payment
+    const [payTarget, setPayTarget] = useState<{ bookingId: string; proposal: JobProposal } | null>(null);
 
     useEffect(() => {
         if (!isOpen || !job.id) return;
@@ -36,30 +40,28 @@ export function ProposalsListModal({ isOpen, onClose, job, onChatOpen }: Proposa
     }, [isOpen, job.id]);
 
     const handleAccept = async (proposal: JobProposal) => {
-        const result = await JobService.acceptProposalAtomic(
-            job.id,
-            proposal.id,
-            proposal.proId,
-            proposal.proName
-        );
+        setError(null);
+        const result = await JobService.acceptProposalAtomic(job.id, proposal.id);
 
-        if (result.success) {
+        if (result.success && result.bookingId) {
+            setPayTarget({ bookingId: result.bookingId, proposal });
             // Refresh proposals
             const updated = await JobService.getJobProposals(job.id);
             setProposals(updated);
         } else {
             console.error("Failed to accept proposal:", result.error);
+            setError(result.error || "Nie udało się zaakceptować oferty");
         }
     };
 
     const handleReject = async (proposal: JobProposal) => {
         if (!user) return;
 
-        const result = await JobService.rejectProposal(job.id, proposal.id, user.uid);
+        const result = await JobService.rejectProposal(job.id, proposal.id);
 
         if (result.success) {
-            // Optionally refresh proposals or show success message
-            console.log("Proposal rejected successfully");
+            const updated = await JobService.getJobProposals(job.id);
+            setProposals(updated);
         } else {
             console.error("Failed to reject proposal:", result.error);
         }
@@ -81,71 +83,90 @@ export function ProposalsListModal({ isOpen, onClose, job, onChatOpen }: Proposa
     };
 
     return (
-        <AnimatePresence>
-            {isOpen && (
-                <motion.div
-                    initial={{ opacity: 0 }}
-                    animate={{ opacity: 1 }}
-                    exit={{ opacity: 0 }}
-                    className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm overflow-y-auto"
-                    onClick={onClose}
-                >
+        <>
+            <AnimatePresence>
+                {isOpen && (
                     <motion.div
-                        initial={{ scale: 0.95, opacity: 0 }}
-                        animate={{ scale: 1, opacity: 1 }}
-                        exit={{ scale: 0.95, opacity: 0 }}
-                        onClick={(e) => e.stopPropagation()}
-                        className="w-full max-w-2xl max-h-[80vh] bg-slate-900 rounded-3xl border border-white/10 overflow-hidden shadow-2xl flex flex-col"
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm overflow-y-auto"
+                        onClick={onClose}
                     >
-                        {/* Header */}
-                        <div className="p-6 border-b border-white/10 flex justify-between items-start flex-shrink-0">
-                            <div>
-                                <h2 className="text-xl font-bold text-white">Oferty na: {job.title}</h2>
-                                <p className="text-sm text-slate-400 mt-1">
-                                    {proposals.length} {proposals.length === 1 ? 'propozycja' : 'propozycji'}
-                                </p>
-                            </div>
-                            <button
-                                onClick={onClose}
-                                className="p-2 hover:bg-white/5 rounded-xl transition-colors"
-                            >
-                                <X className="w-5 h-5 text-slate-400" />
-                            </button>
-                        </div>
-
-                        {/* Content */}
-                        <div className="flex-1 overflow-y-auto p-6">
-                            {loading ? (
-                                <div className="flex justify-center py-20">
-                                    <Loader2 className="w-8 h-8 text-violet-500 animate-spin" />
+                        <motion.div
+                            initial={{ scale: 0.95, opacity: 0 }}
+                            animate={{ scale: 1, opacity: 1 }}
+                            exit={{ scale: 0.95, opacity: 0 }}
+                            onClick={(e) => e.stopPropagation()}
+                            className="w-full max-w-2xl max-h-[80vh] bg-slate-900 rounded-3xl border border-white/10 overflow-hidden shadow-2xl flex flex-col"
+                        >
+                            {/* Header */}
+                            <div className="p-6 border-b border-white/10 flex justify-between items-start flex-shrink-0">
+                                <div>
+                                    <h2 className="text-xl font-bold text-white">Oferty na: {job.title}</h2>
+                                    <p className="text-sm text-slate-400 mt-1">
+                                        {proposals.length} {proposals.length === 1 ? 'propozycja' : 'propozycji'}
+                                    </p>
                                 </div>
-                            ) : proposals.length === 0 ? (
-                                <div className="text-center py-16">
-                                    <div className="w-16 h-16 rounded-full bg-slate-800 flex items-center justify-center mx-auto mb-4">
-                                        <Inbox className="w-8 h-8 text-slate-500" />
+                                <button
+                                    onClick={onClose}
+                                    className="p-2 hover:bg-white/5 rounded-xl transition-colors"
+                                >
+                                    <X className="w-5 h-5 text-slate-400" />
+                                </button>
+                            </div>
+
+                            {/* Content */}
+                            <div className="flex-1 overflow-y-auto p-6">
+                                {error && (
+                                    <div className="mb-4 p-3 bg-red-900/30 border border-red-500/30 rounded-lg text-red-400 text-sm">
+                                        {error}
                                     </div>
-                                    <p className="text-lg font-medium text-slate-400">Brak ofert</p>
-                                    <p className="text-sm text-slate-500 mt-1">Poczekaj na odpowiedzi od fachowców</p>
-                                </div>
-                            ) : (
-                                <div className="space-y-4">
-                                    {proposals.map(proposal => (
-                                        <ProposalCard
-                                            key={proposal.id}
-                                            proposal={proposal}
-                                            isClient={true}
-                                            onAccept={() => handleAccept(proposal)}
-                                            onReject={() => handleReject(proposal)}
-                                            onMessage={() => handleMessage(proposal)}
-                                        />
-                                    ))}
-                                </div>
-                            )}
-                        </div>
+                                )}
+                                {loading ? (
+                                    <div className="flex justify-center py-20">
+                                        <Loader2 className="w-8 h-8 text-violet-500 animate-spin" />
+                                    </div>
+                                ) : proposals.length === 0 ? (
+                                    <div className="text-center py-16">
+                                        <div className="w-16 h-16 rounded-full bg-slate-800 flex items-center justify-center mx-auto mb-4">
+                                            <Inbox className="w-8 h-8 text-slate-500" />
+                                        </div>
+                                        <p className="text-lg font-medium text-slate-400">Brak ofert</p>
+                                        <p className="text-sm text-slate-500 mt-1">Poczekaj na odpowiedzi od fachowców</p>
+                                    </div>
+                                ) : (
+                                    <div className="space-y-4">
+                                        {proposals.map(proposal => (
+                                            <ProposalCard
+                                                key={proposal.id}
+                                                proposal={proposal}
+                                                isClient={true}
+                                                onAccept={() => handleAccept(proposal)}
+                                                onReject={() => handleReject(proposal)}
+                                                onMessage={() => handleMessage(proposal)}
+                                            />
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        </motion.div>
                     </motion.div>
-                </motion.div>
+                )}
+            </AnimatePresence>
+
+            {/* Payment for the accepted proposal */}
+            {payTarget && (
+                <BookingPaymentModal
+                    isOpen={!!payTarget}
+                    onClose={() => setPayTarget(null)}
+                    bookingId={payTarget.bookingId}
+                    hostName={payTarget.proposal.proName}
+                    amount={payTarget.proposal.price}
+                    scheduledDate={payTarget.proposal.availability.toDate()}
+                />
             )}
-        </AnimatePresence>
+        </>
     );
 }
 
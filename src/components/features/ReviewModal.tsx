@@ -3,7 +3,7 @@
 import { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { X, Star, Send, Loader2 } from "lucide-react";
-import { addDoc, collection, Timestamp, updateDoc, doc } from "firebase/firestore";
+import { addDoc, collection, Timestamp } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { useAuth } from "@/context/AuthContext";
 
@@ -38,12 +38,7 @@ export function ReviewModal({ isOpen, onClose, bookingId, hostId, hostName, onSu
                 createdAt: Timestamp.now()
             });
 
-            // Update booking status
-            await updateDoc(doc(db, "bookings", bookingId), {
-                status: "COMPLETED",
-                hasReview: true,
-                updatedAt: Timestamp.now()
-            });
+            // booking.hasReview is set by the onReviewCreated Cloud Function
 
             // Update host's average rating (simplified - should be Cloud Function)
             // TODO: Move to Cloud Function for accuracy
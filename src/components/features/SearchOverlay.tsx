@@ -2,10 +2,31 @@
 
 import { SlidersHorizontal } from "lucide-react";
 import { PlacesAutocomplete } from "./PlacesAutocomplete";
+import { SearchOptions } from "@/hooks/useLiveSearch";
+import { shiftDateStr, toLocalParts } from "@/lib/local-time";
 
 export const CATEGORIES = ["Wszyscy", "Hydraulik", "Elektryk", "Sprzątanie", "Złota Rączka"] as const;
 export type CategoryType = typeof CATEGORIES[number];
 
+/** "Dostępny..." filter - resolved to a local date when picked */
+export const AVAILABILITY_FILTERS = [
+    { id: 'any', label: 'Kiedykolwiek' },
+    { id: 'today', label: 'Dziś' },
+    { id: 'tomorrow_morning', label: 'Jutro rano' },
+    { id: 'tomorrow', label: 'Jutro' }
+] as const;
+export type AvailabilityFilter = typeof AVAILABILITY_FILTERS[number]['id'];
+
+export function resolveAvailabilityFilter(filter: AvailabilityFilter): SearchOptions['availableOn'] {
+    const today = toLocalParts(new Date()).dateStr;
+    switch (filter) {
+        case 'today': return { date: today };
+        case 'tomorrow_morning': return { date: shiftDateStr(today, 1), part: 'morning' };
+        case 'tomorrow': return { date: shiftDateStr(today, 1) };
+        default: return undefined;
+    }
+}
+
 export interface PlaceLocation {
     lat: number;
     lng: number;
@@ -17,9 +38,18 @@ interface SearchOverlayProps {
     onCategoryChange: (category: CategoryType) => void;
     onPlaceSelect?: (location: PlaceLocation) => void;
     isOnline?: boolean; // Only show autocomplete in online mode
+    availabilityFilter?: AvailabilityFilter;
+    onAvailabilityChange?: (filter: AvailabilityFilter, availableOn: SearchOptions['availableOn']) => void;
 }
 
-export function SearchOverlay({ activeCategory, onCategoryChange, onPlaceSelect, isOnline = false }: SearchOverlayProps) {
+export function SearchOverlay({
+    activeCategory,
+    onCategoryChange,
+    onPlaceSelect,
+    isOnline = false,
+    availabilityFilter = 'any',
+    onAvailabilityChange
+}: SearchOverlayProps) {
     return (
         <div className="absolute top-0 left-0 right-0 z-10 p-4 flex flex-col items-center gap-3 bg-gradient-to-b from-slate-900/80 to-transparent pb-12 pointer-events-none">
             {/* Search Input - Autocomplete only works online */}
@@ -51,6 +81,25 @@ export function SearchOverlay({ activeCategory, onCategoryChange, onPlaceSelect,
                     </button>
                 ))}
             </div>
+
+            {/* Availability Pills (availability index) */}
+            {isOnline && onAvailabilityChange && (
+                <div className="flex gap-2 pointer-events-auto overflow-x-auto max-w-full -mt-2 pb-2">
+                    {AVAILABILITY_FILTERS.map(({ id, label }) => (
+                        <button
+                            key={id}
+                            onClick={() => onAvailabilityChange(id, resolveAvailabilityFilter(id))}
+                            className={`px-3 py-1 rounded-full text-[11px] font-medium backdrop-blur-md transition-all border
+                    ${availabilityFilter === id
+                                    ? 'bg-emerald-500/20 border-emerald-400/50 text-emerald-100'
+                                    : 'bg-slate-800/40 border-white/5 text-slate-400 hover:bg-white/10 hover:text-slate-200'
+                                }`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            )}
         </div>
     );
 }
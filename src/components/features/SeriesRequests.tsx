@@ -0,0 +1,101 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Repeat, Loader2 } from "lucide-react";
+import { collection, query, where, onSnapshot } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { BookingSeries, bookingSeriesConverter } from "@/types/firestore-v2";
+import { respondToBookingSeries } from "@/lib/booking-machine";
+
+const FREQUENCY_LABELS: Record<BookingSeries['rule']['frequency'], string> = {
+    weekly: 'Co tydzień',
+    biweekly: 'Co dwa tygodnie'
+};
+
+/**
+ * Prośby o cykliczne wizyty czekające na fachowca. Akceptacja tworzy
+ * potwierdzone wizyty na najbliższe 4 tygodnie (bookingRespondSeries).
+ */
+export function SeriesRequests({ hostId }: { hostId: string }) {
+    const [requests, setRequests] = useState<BookingSeries[]>([]);
+    const [respondingId, setRespondingId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!db) return;
+
+        const q = query(
+            collection(db, "booking_series").withConverter(bookingSeriesConverter),
+            where("hostId", "==", hostId),
+            where("status", "==", "pending_approval")
+        );
+
+        const unsubscribe = onSnapshot(q, (snapshot) => {
+            setRequests(snapshot.docs.map(doc => doc.data()));
+        }, (err) => {
+            console.error("Error fetching series requests:", err);
+        });
+
+        return () => unsubscribe();
+    }, [hostId]);
+
+    const handleRespond = async (seriesId: string, accept: boolean) => {
+        setRespondingId(seriesId);
+        setError(null);
+        const result = await respondToBookingSeries(seriesId, accept);
+        if (!result.success) {
+            setError(result.error || 'Nie udało się zapisać odpowiedzi');
+        }
+        setRespondingId(null);
+    };
+
+    if (requests.length === 0) return null;
+
+    return (
+        <div className="space-y-3">
+            <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+                <Repeat className="w-5 h-5 text-violet-400" />
+                Prośby o cykliczne wizyty
+            </h3>
+
+            {requests.map(series => (
+                <div key={series.id} className="bg-violet-500/10 border border-violet-500/20 rounded-2xl p-4 flex flex-col md:flex-row md:items-center gap-3">
+                    <div className="flex-1 text-sm">
+                        <p className="text-white font-semibold">
+                            {series.clientSnapshot?.displayName || 'Klient'} · {series.listingSnapshot?.title || 'Usługa'}
+                        </p>
+                        <p className="text-slate-400">
+                            {FREQUENCY_LABELS[series.rule.frequency]}, od {series.startDate.toDate().toLocaleString("pl-PL", {
+                                weekday: "long",
+                                day: "numeric",
+                                month: "short",
+                                hour: "2-digit",
+                                minute: "2-digit"
+                            })}
+                            {series.endDate && ` do ${series.endDate.toDate().toLocaleDateString("pl-PL")}`}
+                        </p>
+                        <p className="text-slate-400">{series.basePrice} PLN za wizytę · {series.serviceLocation?.address}</p>
+                    </div>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => handleRespond(series.id, false)}
+                            disabled={respondingId === series.id}
+                            className="px-3 py-1.5 text-xs font-bold text-red-400 bg-red-400/10 hover:bg-red-400/20 rounded border border-red-400/20 disabled:opacity-50 transition-colors"
+                        >
+                            Odrzuć
+                        </button>
+                        <button
+                            onClick={() => handleRespond(series.id, true)}
+                            disabled={respondingId === series.id}
+                            className="px-3 py-1.5 text-xs font-bold text-emerald-400 bg-emerald-400/10 hover:bg-emerald-400/20 rounded border border-emerald-400/20 disabled:opacity-50 transition-colors"
+                        >
+                            {respondingId === series.id ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Akceptuj'}
+                        </button>
+                    </div>
+                </div>
+            ))}
+
+            {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+    );
+}
@@ -2,8 +2,17 @@
 
 import { useState, useEffect, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Send, X, ArrowLeft, Loader2 } from "lucide-react";
-import { ChatService, Chat, Message } from "@/lib/chat-service";
+import { Send, X, ArrowLeft, Loader2, CreditCard, Check, CheckCheck, ShieldAlert } from "lucide-react";
+import { ChatService, Chat, ChatAttachment, ChatMessage } from "@/lib/chat-service";
+import { ChatAttachmentView, ChatAttachmentPicker } from "@/components/features/ChatAttachments";
+import { TypingIndicator } from "@/components/features/ChatPresence";
+import { LatLng } from "@/hooks/useDirections";
+import { LiveLocation } from "@/types/firestore-v2";
+import { useContactSharing } from "@/hooks/useContactSharing";
+import { usePresence } from "@/hooks/usePresence";
+import { useTypingIndicator } from "@/hooks/useTypingIndicator";
+import { maskContactDetails } from "@/lib/contact-filter";
+import { respondToAdditionalCharge } from "@/lib/booking-machine";
 import { useAuth } from "@/context/AuthContext";
 import { cn } from "@/lib/utils";
 
@@ -12,10 +21,98 @@ interface SimpleChatWindowProps {
     onClose: () => void;
 }
 
+interface PaymentRequestPayload {
+    bookingId: string;
+    chargeId: string;
+    clientId: string;
+    description: string;
+    amount: number;
+    status: 'pending' | 'approved' | 'rejected' | 'expired';
+}
+
+const CHARGE_STATUS_LABELS: Record<PaymentRequestPayload['status'], string> = {
+    pending: 'Czeka na akceptację',
+    approved: 'Zaakceptowana',
+    rejected: 'Odrzucona',
+    expired: 'Wygasła'
+};
+
+// Payment Request Card - dopłata do rezerwacji (akceptuje klient)
+function PaymentRequestCard({ payload, userId }: { payload: PaymentRequestPayload; userId?: string }) {
+    const [isResponding, setIsResponding] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const canRespond = payload.status === 'pending' && userId === payload.clientId;
+
+    const handleRespond = async (approve: boolean) => {
+        setIsResponding(true);
+        setError(null);
+        const result = await respondToAdditionalCharge(payload.bookingId, payload.chargeId, approve);
+        if (!result.success) {
+            setError(result.error || 'Nie udało się zapisać odpowiedzi');
+        }
+        setIsResponding(false);
+    };
+
+    return (
+        <div className="flex justify-center my-4">
+            <div className="w-full max-w-[85%] p-4 bg-slate-800/70 border border-amber-500/30 rounded-2xl">
+                <div className="flex items-center gap-2 mb-2">
+                    <CreditCard className="w-4 h-4 text-amber-400" />
+                    <span className="text-xs font-medium text-amber-400">Dopłata</span>
+                    <span className="ml-auto text-[10px] text-slate-400">
+                        {CHARGE_STATUS_LABELS[payload.status]}
+                    </span>
+                </div>
+                <p className="text-sm text-white">{payload.description}</p>
+                <p className="text-lg font-bold text-white font-mono mt-1">{payload.amount} zł</p>
+
+                {canRespond && (
+                    <div className="flex gap-2 mt-3">
+                        <button
+                            onClick={() => handleRespond(false)}
+                            disabled={isResponding}
+                            className="flex-1 py-2 rounded-xl bg-white/10 hover:bg-white/20 text-sm text-white disabled:opacity-50 transition-colors"
+                        >
+                            Odrzuć
+                        </button>
+                        <button
+                            onClick={() => handleRespond(true)}
+                            disabled={isResponding}
+                            className="flex-1 py-2 rounded-xl bg-emerald-600 hover:bg-emerald-500 text-sm font-medium text-white disabled:opacity-50 transition-colors"
+                        >
+                            {isResponding ? <Loader2 className="w-4 h-4 mx-auto animate-spin" /> : 'Akceptuj'}
+                        </button>
+                    </div>
+                )}
+                {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+            </div>
+        </div>
+    );
+}
+
 // Message Bubble Component
-function MessageBubble({ message, isOwn }: { message: Message; isOwn: boolean }) {
+function MessageBubble({
+    message,
+    isOwn,
+    userId,
+    liveLocation
+}: {
+    message: ChatMessage;
+    isOwn: boolean;
+    userId?: string;
+    liveLocation?: LiveLocation;
+}) {
     const isSystem = message.senderRole === 'system';
 
+    if (message.type === 'payment_request' && message.actionData) {
+        return (
+            <PaymentRequestCard
+                payload={message.actionData.payload as unknown as PaymentRequestPayload}
+                userId={userId}
+            />
+        );
+    }
+
     if (isSystem) {
         return (
             <div className="flex justify-center my-4">
@@ -45,17 +142,36 @@ function MessageBubble({ message, isOwn }: { message: Message; isOwn: boolean })
                         {message.senderName || 'Użytkownik'}
                     </p>
                 )}
-                <p className="text-sm leading-relaxed whitespace-pre-wrap">
-                    {message.content}
-                </p>
+                {message.attachments?.map((attachment, index) => (
+                    <div key={index} className={message.content ? "mb-2" : ""}>
+                        <ChatAttachmentView attachment={attachment} liveLocation={liveLocation} />
+                    </div>
+                ))}
+                {message.content && (
+                    <p className="text-sm leading-relaxed whitespace-pre-wrap">
+                        {message.content}
+                    </p>
+                )}
+                {message.maskedContacts && message.maskedContacts.length > 0 && (
+                    <p className="text-[10px] mt-1 opacity-70 flex items-center gap-1">
+                        <ShieldAlert className="w-3 h-3" />
+                        Dane kontaktowe widoczne po potwierdzeniu rezerwacji
+                    </p>
+                )}
                 <p className={cn(
-                    "text-[10px] mt-1",
-                    isOwn ? "text-white/60" : "text-slate-500"
+                    "text-[10px] mt-1 flex items-center gap-1",
+                    isOwn ? "text-white/60 justify-end" : "text-slate-500"
                 )}>
                     {message.createdAt?.toDate?.()?.toLocaleTimeString('pl-PL', {
                         hour: '2-digit',
                         minute: '2-digit'
                     }) || ''}
+                    {/* Read receipt */}
+                    {isOwn && (
+                        message.isRead
+                            ? <CheckCheck className="w-3 h-3" />
+                            : <Check className="w-3 h-3" />
+                    )}
                 </p>
             </div>
         </motion.div>
@@ -64,28 +180,32 @@ function MessageBubble({ message, isOwn }: { message: Message; isOwn: boolean })
 
 export function SimpleChatWindow({ chatId, onClose }: SimpleChatWindowProps) {
     const { user, userRole } = useAuth();
-    const [messages, setMessages] = useState<Message[]>([]);
+    const [messages, setMessages] = useState<ChatMessage[]>([]);
     const [chat, setChat] = useState<Chat | null>(null);
     const [input, setInput] = useState('');
     const [isSending, setIsSending] = useState(false);
+    const [contactNotice, setContactNotice] = useState(false);
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    const contactSharingAllowed = useContactSharing(chat);
+    const { typingUserIds, notifyTyping, stopTyping } = useTypingIndicator(chatId);
+    const otherIsTyping = typingUserIds.length > 0;
 
     // Scroll to bottom on new messages
     useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-    }, [messages]);
+    }, [messages, otherIsTyping]);
 
     // Subscribe to chat metadata
     useEffect(() => {
         const unsubscribe = ChatService.getChatById(chatId, (chatData) => {
             setChat(chatData);
-            // Mark as read when opening
-            if (chatData && userRole) {
-                ChatService.markAsRead(chatId, userRole as 'client' | 'professional');
+            // Mark as read when opening and when new messages arrive
+            if (chatData && user && chatData.unreadCount[user.uid]) {
+                ChatService.markAsRead(chatId);
             }
         });
         return unsubscribe;
-    }, [chatId, userRole]);
+    }, [chatId, user]);
 
     // Subscribe to messages
     useEffect(() => {
@@ -93,19 +213,36 @@ export function SimpleChatWindow({ chatId, onClose }: SimpleChatWindowProps) {
         return unsubscribe;
     }, [chatId]);
 
+    // Service address of a booking chat - the pro can share a live ETA to it
+    const bookingId = userRole === 'professional' ? chat?.bookingId : undefined;
+    const [destination, setDestination] = useState<{ bookingId: string; location: LatLng | null } | null>(null);
+    useEffect(() => {
+        if (!bookingId) return;
+        ChatService.getServiceLocation(bookingId).then(location => setDestination({ bookingId, location }));
+    }, [bookingId]);
+
+    const handleSendAttachment = async (attachment: ChatAttachment) => {
+        if (!user) return;
+        await ChatService.sendMessage(chatId, {
+            content: '',
+            senderName: user.displayName || 'Użytkownik',
+            attachments: [attachment]
+        });
+    };
+
     const handleSend = async () => {
         if (!input.trim() || !user || isSending) return;
 
         const messageContent = input.trim();
         setInput('');
+        stopTyping();
         setIsSending(true);
+        setContactNotice(!contactSharingAllowed && maskContactDetails(messageContent).kinds.length > 0);
 
         try {
             await ChatService.sendMessage(chatId, {
                 content: messageContent,
-                senderId: user.uid,
-                senderName: user.displayName || 'Użytkownik',
-                senderRole: userRole === 'professional' ? 'professional' : 'client'
+                senderName: user.displayName || 'Użytkownik'
             });
         } catch (error) {
             console.error('Failed to send message:', error);
@@ -126,6 +263,10 @@ export function SimpleChatWindow({ chatId, onClose }: SimpleChatWindowProps) {
     const otherPartyName = userRole === 'client'
         ? chat?.professionalName || 'Fachowiec'
         : chat?.clientName || 'Klient';
+    const otherPartyId = chat && user
+        ? (chat.clientId === user.uid ? chat.professionalId : chat.clientId)
+        : null;
+    const presence = usePresence(otherPartyId);
 
     return (
         <div className="flex flex-col h-full bg-slate-950">
@@ -142,6 +283,14 @@ export function SimpleChatWindow({ chatId, onClose }: SimpleChatWindowProps) {
                     <h3 className="font-bold text-white truncate">
                         {otherPartyName}
                     </h3>
+                    {(otherIsTyping || presence.label) && (
+                        <p className={cn(
+                            "text-xs truncate",
+                            otherIsTyping ? "text-violet-400" : presence.online ? "text-emerald-400" : "text-slate-500"
+                        )}>
+                            {otherIsTyping ? 'pisze...' : presence.label}
+                        </p>
+                    )}
                     {chat?.jobTitle && (
                         <p className="text-xs text-slate-400 truncate">
                             {chat.jobTitle}
@@ -170,19 +319,37 @@ export function SimpleChatWindow({ chatId, onClose }: SimpleChatWindowProps) {
                             key={msg.id}
                             message={msg}
                             isOwn={msg.senderId === user?.uid}
+                            userId={user?.uid}
+                            liveLocation={chat?.liveLocations?.[msg.senderId]}
                         />
                     ))
                 )}
+                {otherIsTyping && <TypingIndicator name={otherPartyName} />}
                 <div ref={messagesEndRef} />
             </div>
 
             {/* Input */}
             <div className="p-4 border-t border-white/10 bg-slate-900/30">
+                {contactNotice && (
+                    <p className="mb-2 text-xs text-amber-300 flex items-center gap-1.5">
+                        <ShieldAlert className="w-3.5 h-3.5 shrink-0" />
+                        Ukryliśmy dane kontaktowe - wymienicie je po potwierdzeniu rezerwacji. Płatność w aplikacji chroni obie strony.
+                    </p>
+                )}
                 <div className="flex items-center gap-3">
+                    <ChatAttachmentPicker
+                        chatId={chatId}
+                        destination={destination?.bookingId === bookingId ? destination?.location : null}
+                        onSend={handleSendAttachment}
+                    />
                     <input
                         type="text"
                         value={input}
-                        onChange={(e) => setInput(e.target.value)}
+                        onChange={(e) => {
+                            setInput(e.target.value);
+                            if (e.target.value) notifyTyping();
+                            else stopTyping();
+                        }}
                         onKeyDown={handleKeyDown}
                         placeholder="Napisz wiadomość..."
                         disabled={isSending}
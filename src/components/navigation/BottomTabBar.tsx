@@ -9,6 +9,7 @@ interface BottomTabBarProps {
     activeTab: TabType;
     onTabChange: (tab: TabType) => void;
     userRole?: "client" | "professional" | null;
+    unreadMessages?: number;   // Suma nieprzeczytanych ze wszystkich czatów
 }
 
 const TABS = [
@@ -19,7 +20,7 @@ const TABS = [
     { id: "profile" as TabType, label: "Profil", icon: User },
 ];
 
-export function BottomTabBar({ activeTab, onTabChange, userRole }: BottomTabBarProps) {
+export function BottomTabBar({ activeTab, onTabChange, userRole, unreadMessages = 0 }: BottomTabBarProps) {
     return (
         <div className="fixed bottom-0 left-0 right-0 z-50 pb-safe">
             {/* Gradient fade at top */}
@@ -61,6 +62,13 @@ export function BottomTabBar({ activeTab, onTabChange, userRole }: BottomTabBarP
                                     {tab.label}
                                 </span>
 
+                                {/* Unread messages badge */}
+                                {tab.id === "messages" && unreadMessages > 0 && (
+                                    <span className="absolute top-0.5 right-2 min-w-[18px] h-[18px] px-1 bg-red-500 rounded-full text-[10px] font-bold text-white flex items-center justify-center z-10">
+                                        {unreadMessages > 9 ? '9+' : unreadMessages}
+                                    </span>
+                                )}
+
                                 {/* Notification badge for orders (example) */}
                                 {tab.id === "orders" && (
                                     <span className="absolute top-1 right-2 w-2 h-2 bg-emerald-500 rounded-full animate-pulse" />
@@ -1,46 +1,66 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Clock, Save, Loader2 } from "lucide-react";
-import { doc, setDoc, getDoc, serverTimestamp, Firestore } from "firebase/firestore";
-import { db } from "@/lib/firebase";
+import { Clock, Save, Loader2, CalendarX } from "lucide-react";
+import { AvailabilityService } from "@/lib/availability-service";
+import { DaySchedule, ScheduleException } from "@/types/firestore-v2";
 import { useAuth } from "@/context/AuthContext";
+import { ScheduleExceptionsEditor } from "@/components/pro/ScheduleExceptionsEditor";
 
-interface Availability {
+/** Older editor versions stored whole hours instead of slots */
+interface LegacyDaySchedule {
     dayOfWeek: number;
-    startHour: number;
-    endHour: number;
+    startHour?: number;
+    endHour?: number;
+    slots?: DaySchedule['slots'];
     isActive: boolean;
 }
 
 const DAYS = ["Niedziela", "Poniedziałek", "Wtorek", "Środa", "Czwartek", "Piątek", "Sobota"];
 
+const hour = (h: number) => `${String(h).padStart(2, "0")}:00`;
+
+function normalizeDay(day: LegacyDaySchedule): DaySchedule {
+    return {
+        dayOfWeek: day.dayOfWeek,
+        isActive: day.isActive,
+        slots: day.slots || [{ start: hour(day.startHour ?? 8), end: hour(day.endHour ?? 18) }]
+    };
+}
+
 export function AvailabilityEditor() {
     const { user } = useAuth();
-    const [schedule, setSchedule] = useState<Availability[]>(
+    const [schedule, setSchedule] = useState<DaySchedule[]>(
         DAYS.map((_, i) => ({
             dayOfWeek: i,
-            startHour: 8,
-            endHour: 18,
+            slots: [{ start: "08:00", end: "18:00" }],
             isActive: i > 0 && i < 6 // Mon-Fri default
         }))
     );
+    const [exceptions, setExceptions] = useState<ScheduleException[]>([]);
     const [loading, setLoading] = useState(true);
     const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
 
     useEffect(() => {
-        if (!user || !db) return;
+        if (!user) return;
 
         const loadSchedule = async () => {
             try {
-                const docRef = doc(db as Firestore, "provider_schedules", user.uid);
-                const snap = await getDoc(docRef);
-                if (snap.exists()) {
-                    const data = snap.data();
-                    if (data.weeklySchedule) {
-                        setSchedule(data.weeklySchedule);
-                    }
+                const data = await AvailabilityService.getSchedule(user.uid);
+                if (data?.weeklySchedule) {
+                    setSchedule((data.weeklySchedule as LegacyDaySchedule[]).map(normalizeDay));
                 }
+                // Whole blocked days (older format) become exceptions on the next save
+                setExceptions([
+                    ...(data?.exceptions || []),
+                    ...(data?.blockedDates || []).map((date): ScheduleException => ({
+                        id: `day-${date}`,
+                        type: 'blocked',
+                        startDate: date,
+                        endDate: date
+                    }))
+                ]);
             } catch (e) {
                 console.error("Error loading schedule:", e);
             }
@@ -51,20 +71,29 @@ export function AvailabilityEditor() {
     }, [user]);
 
     const handleSave = async () => {
-        if (!user || !db) return;
+        if (!user) return;
         setSaving(true);
+        setError(null);
         try {
-            await setDoc(doc(db as Firestore, "provider_schedules", user.uid), {
-                userId: user.uid,
+            await AvailabilityService.saveSchedule(user.uid, {
                 weeklySchedule: schedule,
-                updatedAt: serverTimestamp()
-            }, { merge: true });
+                exceptions,
+                blockedDates: []
+            });
         } catch (e) {
             console.error("Error saving schedule:", e);
+            setError(e instanceof Error ? e.message : "Nie udało się zapisać grafiku");
         }
         setSaving(false);
     };
 
+    const updateSlot = (idx: number, field: 'start' | 'end', value: string) => {
+        const updated = [...schedule];
+        const [slot, ...rest] = updated[idx].slots;
+        updated[idx] = { ...updated[idx], slots: [{ ...slot, [field]: value }, ...rest] };
+        setSchedule(updated);
+    };
+
     if (loading) return <div className="p-8 text-center text-slate-500">Ładowanie grafiku...</div>;
 
     return (
@@ -83,7 +112,7 @@ export function AvailabilityEditor() {
                                 checked={day.isActive}
                                 onChange={(e) => {
                                     const updated = [...schedule];
-                                    updated[idx].isActive = e.target.checked;
+                                    updated[idx] = { ...updated[idx], isActive: e.target.checked };
                                     setSchedule(updated);
                                 }}
                                 className="w-5 h-5 rounded border-slate-600 bg-slate-700 text-blue-500 focus:ring-blue-500/50 focus:ring-offset-0"
@@ -93,35 +122,24 @@ export function AvailabilityEditor() {
                             </span>
                         </label>
 
-                        {day.isActive ? (
+                        {day.isActive && day.slots.length > 0 ? (
                             <div className="flex items-center gap-2">
-                                <select
-                                    value={day.startHour}
-                                    onChange={(e) => {
-                                        const updated = [...schedule];
-                                        updated[idx].startHour = parseInt(e.target.value);
-                                        setSchedule(updated);
-                                    }}
+                                <input
+                                    type="time"
+                                    value={day.slots[0].start}
+                                    onChange={(e) => updateSlot(idx, 'start', e.target.value)}
                                     className="bg-slate-800 text-white rounded px-3 py-1.5 text-sm border border-white/10 focus:border-blue-500 outline-none"
-                                >
-                                    {Array.from({ length: 24 }, (_, h) => (
-                                        <option key={h} value={h}>{h}:00</option>
-                                    ))}
-                                </select>
+                                />
                                 <span className="text-slate-400">-</span>
-                                <select
-                                    value={day.endHour}
-                                    onChange={(e) => {
-                                        const updated = [...schedule];
-                                        updated[idx].endHour = parseInt(e.target.value);
-                                        setSchedule(updated);
-                                    }}
+                                <input
+                                    type="time"
+                                    value={day.slots[0].end}
+                                    onChange={(e) => updateSlot(idx, 'end', e.target.value)}
                                     className="bg-slate-800 text-white rounded px-3 py-1.5 text-sm border border-white/10 focus:border-blue-500 outline-none"
-                                >
-                                    {Array.from({ length: 24 }, (_, h) => (
-                                        <option key={h} value={h}>{h}:00</option>
-                                    ))}
-                                </select>
+                                />
+                                {day.slots.length > 1 && (
+                                    <span className="text-xs text-slate-500">+{day.slots.length - 1}</span>
+                                )}
                             </div>
                         ) : (
                             <span className="text-slate-600 text-sm italic">Niedostępne</span>
@@ -130,6 +148,14 @@ export function AvailabilityEditor() {
                 ))}
             </div>
 
+            <h3 className="text-lg font-bold text-white mt-6 mb-4 flex items-center gap-2">
+                <CalendarX className="w-5 h-5 text-blue-400" />
+                Wyjątki i Urlopy
+            </h3>
+            <ScheduleExceptionsEditor exceptions={exceptions} onChange={setExceptions} />
+
+            {error && <p className="mt-4 text-sm text-red-400">{error}</p>}
+
             <div className="mt-6 flex justify-end">
                 <button
                     onClick={handleSave}
@@ -0,0 +1,184 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { pl } from "date-fns/locale";
+import { Ban, CalendarClock, Plus, Trash2 } from "lucide-react";
+import { ScheduleException } from "@/types/firestore-v2";
+import { validateScheduleExceptions } from "@/lib/availability-service";
+import { toLocalParts } from "@/lib/local-time";
+
+interface ScheduleExceptionsEditorProps {
+    exceptions: ScheduleException[];
+    onChange: (exceptions: ScheduleException[]) => void;
+}
+
+function formatDate(date: string): string {
+    return format(new Date(`${date}T12:00:00`), 'd MMM yyyy', { locale: pl });
+}
+
+/**
+ * Exceptions to the weekly schedule: holidays, blocked hours and days
+ * with different working hours. Changes are saved with the schedule.
+ */
+export function ScheduleExceptionsEditor({ exceptions, onChange }: ScheduleExceptionsEditorProps) {
+    const today = toLocalParts(new Date()).dateStr;
+    const [type, setType] = useState<ScheduleException['type']>('blocked');
+    const [startDate, setStartDate] = useState(today);
+    const [endDate, setEndDate] = useState(today);
+    const [allDay, setAllDay] = useState(true);
+    const [start, setStart] = useState("12:00");
+    const [end, setEnd] = useState("15:00");
+    const [reason, setReason] = useState("");
+    const [error, setError] = useState<string | null>(null);
+
+    const handleAdd = () => {
+        const exception: ScheduleException = {
+            id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6),
+            type,
+            startDate,
+            endDate: endDate || startDate,
+            ...(type === 'override' || !allDay ? { slots: [{ start, end }] } : {}),
+            ...(reason.trim() ? { reason: reason.trim() } : {})
+        };
+
+        const next = [...exceptions, exception];
+        const validationError = validateScheduleExceptions(next);
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
+
+        setError(null);
+        setReason("");
+        onChange(next);
+    };
+
+    // Past exceptions are kept (they no longer matter) but listed last
+    const sorted = [...exceptions].sort((a, b) =>
+        Number(a.endDate < today) - Number(b.endDate < today) || a.startDate.localeCompare(b.startDate)
+    );
+
+    return (
+        <div className="space-y-3">
+            {sorted.length > 0 ? (
+                <div className="space-y-2">
+                    {sorted.map(exception => (
+                        <div
+                            key={exception.id}
+                            className={`flex items-center gap-3 p-2.5 rounded-lg border text-sm ${exception.endDate < today ? 'opacity-50' : ''} ${exception.type === 'blocked' ? 'bg-red-500/5 border-red-500/20' : 'bg-blue-500/5 border-blue-500/20'}`}
+                        >
+                            {exception.type === 'blocked'
+                                ? <Ban className="w-4 h-4 text-red-400 shrink-0" />
+                                : <CalendarClock className="w-4 h-4 text-blue-400 shrink-0" />}
+                            <div className="flex-1 min-w-0">
+                                <div className="text-white">
+                                    {formatDate(exception.startDate)}
+                                    {exception.endDate !== exception.startDate && ` – ${formatDate(exception.endDate)}`}
+                                </div>
+                                <div className="text-xs text-slate-400 truncate">
+                                    {exception.type === 'blocked'
+                                        ? exception.slots?.length
+                                            ? `Zablokowane ${exception.slots.map(slot => `${slot.start}–${slot.end}`).join(', ')}`
+                                            : 'Cały dzień wolny'
+                                        : exception.slots?.length
+                                            ? `Godziny pracy ${exception.slots.map(slot => `${slot.start}–${slot.end}`).join(', ')}`
+                                            : 'Dzień wolny'}
+                                    {exception.reason && ` · ${exception.reason}`}
+                                </div>
+                            </div>
+                            <button
+                                onClick={() => onChange(exceptions.filter(e => e.id !== exception.id))}
+                                className="p-1.5 text-slate-500 hover:text-red-400 transition-colors"
+                                aria-label="Usuń wyjątek"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <p className="text-sm text-slate-500 italic">Brak wyjątków - obowiązuje grafik tygodniowy</p>
+            )}
+
+            <div className="p-3 rounded-lg border border-white/10 bg-slate-800/30 space-y-3">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <select
+                        value={type}
+                        onChange={(e) => setType(e.target.value as ScheduleException['type'])}
+                        className="bg-slate-800 text-white rounded px-2 py-1.5 border border-white/10 outline-none"
+                    >
+                        <option value="blocked">Blokada / urlop</option>
+                        <option value="override">Inne godziny pracy</option>
+                    </select>
+                    <input
+                        type="date"
+                        value={startDate}
+                        min={today}
+                        onChange={(e) => {
+                            setStartDate(e.target.value);
+                            if (endDate < e.target.value) setEndDate(e.target.value);
+                        }}
+                        className="bg-slate-800 text-white rounded px-2 py-1.5 border border-white/10 outline-none"
+                    />
+                    <span className="text-slate-500">–</span>
+                    <input
+                        type="date"
+                        value={endDate}
+                        min={startDate}
+                        onChange={(e) => setEndDate(e.target.value)}
+                        className="bg-slate-800 text-white rounded px-2 py-1.5 border border-white/10 outline-none"
+                    />
+                </div>
+
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                    {type === 'blocked' && (
+                        <label className="flex items-center gap-2 text-slate-300 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={allDay}
+                                onChange={(e) => setAllDay(e.target.checked)}
+                                className="w-4 h-4 rounded border-slate-600 bg-slate-700 text-blue-500"
+                            />
+                            Cały dzień
+                        </label>
+                    )}
+                    {(type === 'override' || !allDay) && (
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="time"
+                                value={start}
+                                onChange={(e) => setStart(e.target.value)}
+                                className="bg-slate-800 text-white rounded px-2 py-1 border border-white/10 outline-none"
+                            />
+                            <span className="text-slate-500">-</span>
+                            <input
+                                type="time"
+                                value={end}
+                                onChange={(e) => setEnd(e.target.value)}
+                                className="bg-slate-800 text-white rounded px-2 py-1 border border-white/10 outline-none"
+                            />
+                        </div>
+                    )}
+                    <input
+                        type="text"
+                        value={reason}
+                        maxLength={100}
+                        placeholder="Powód (np. urlop)"
+                        onChange={(e) => setReason(e.target.value)}
+                        className="flex-1 min-w-[140px] bg-slate-800 text-white rounded px-2 py-1.5 border border-white/10 outline-none"
+                    />
+                    <button
+                        onClick={handleAdd}
+                        className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 rounded-lg text-white flex items-center gap-1.5 transition-colors"
+                    >
+                        <Plus className="w-4 h-4" />
+                        Dodaj
+                    </button>
+                </div>
+
+                {error && <p className="text-xs text-red-400">{error}</p>}
+            </div>
+        </div>
+    );
+}
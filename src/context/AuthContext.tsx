@@ -13,6 +13,8 @@ import {
 } from "firebase/auth";
 import { auth, db } from "@/lib/firebase";
 import { doc, setDoc, getDoc } from "firebase/firestore";
+import { PresenceService } from "@/lib/presence-service";
+import { usePresenceHeartbeat } from "@/hooks/usePresence";
 
 export type UserRole = 'client' | 'professional';
 
@@ -97,6 +99,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         }
     }, []);
 
+    // Online / last seen while the app is open
+    usePresenceHeartbeat(user?.uid);
+
     const loginAsDemoSponsor = async () => {
         if (!isDemoConfigured || !auth || !db) {
             setTimeout(() => setUser(MOCK_USER), 500);
@@ -157,6 +162,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             setUser(null);
             return;
         }
+        // Still authenticated - the heartbeat cleanup after sign-out would be rejected
+        if (user) await PresenceService.setPresence(user.uid, 'offline');
         await firebaseSignOut(auth);
     };
 
@@ -0,0 +1,31 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { ChatService, Chat } from "@/lib/chat-service";
+
+/**
+ * Hook: czy uczestnicy czatu mogą już wymieniać dane kontaktowe
+ * (rezerwacja potwierdzona). Do czasu sprawdzenia - false (dane są maskowane).
+ */
+export function useContactSharing(chat: Chat | null): boolean {
+    const [allowed, setAllowed] = useState<{ key: string; value: boolean } | null>(null);
+
+    const bookingId = chat?.bookingId;
+    const seriesId = chat?.seriesId;
+    const jobId = chat?.jobId;
+
+    // Re-check when the chat gets a booking or changes status
+    const key = chat ? [chat.id, bookingId, seriesId, jobId, chat.status].join('|') : null;
+
+    useEffect(() => {
+        if (!key) return;
+
+        let cancelled = false;
+        ChatService.isContactSharingAllowed({ bookingId, seriesId, jobId }).then(value => {
+            if (!cancelled) setAllowed({ key, value });
+        });
+        return () => { cancelled = true; };
+    }, [key, bookingId, seriesId, jobId]);
+
+    return allowed?.key === key ? allowed.value : false;
+}
@@ -3,13 +3,22 @@
 import { useState } from "react";
 import { getStorage, ref, uploadBytes, getDownloadURL } from "firebase/storage";
 import { app } from "@/lib/firebase";
+import { ChatAttachment } from "@/types/firestore-v2";
+import {
+    validateChatImage,
+    resizeImage,
+    chatImagePath,
+    MAX_CHAT_IMAGE_DIMENSION,
+    CHAT_THUMBNAIL_DIMENSION,
+    MAX_CHAT_UPLOAD_BYTES
+} from "@/lib/chat-attachments";
 
 export function useImageUpload() {
     const [uploading, setUploading] = useState(false);
     const [progress, setProgress] = useState(0);
     const [error, setError] = useState<string | null>(null);
 
-    const uploadImage = async (file: File, path: string): Promise<string | null> => {
+    const uploadImage = async (file: Blob, path: string): Promise<string | null> => {
         if (!app) {
             setError("Firebase not initialized");
             return null;
@@ -36,5 +45,63 @@ export function useImageUpload() {
         }
     };
 
-    return { uploadImage, uploading, progress, error };
+    /**
+     * Uploads a photo into a chat: resized copy + thumbnail under
+     * chats/{chatId}/{uid}/. Returns the attachment to put into the message
+     * (Storage paths only - URLs are resolved by participants when shown).
+     */
+    const uploadChatImage = async (chatId: string, uid: string, file: File): Promise<ChatAttachment | null> => {
+        if (!app) {
+            setError("Firebase not initialized");
+            return null;
+        }
+
+        const invalid = validateChatImage(file);
+        if (invalid) {
+            setError(invalid);
+            return null;
+        }
+
+        setUploading(true);
+        setProgress(0);
+        setError(null);
+
+        try {
+            const [image, thumbnail] = await Promise.all([
+                resizeImage(file, MAX_CHAT_IMAGE_DIMENSION),
+                resizeImage(file, CHAT_THUMBNAIL_DIMENSION)
+            ]);
+            if (image.blob.size > MAX_CHAT_UPLOAD_BYTES) {
+                throw new Error("Zdjęcie jest za duże nawet po kompresji");
+            }
+
+            const storage = getStorage(app);
+            const id = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+            const path = chatImagePath(chatId, uid, id);
+            const thumbnailPath = chatImagePath(chatId, uid, id, true);
+            const metadata = { contentType: 'image/jpeg' };
+
+            await uploadBytes(ref(storage, thumbnailPath), thumbnail.blob, metadata);
+            setProgress(30);
+            await uploadBytes(ref(storage, path), image.blob, metadata);
+            setProgress(100);
+
+            setUploading(false);
+            return {
+                type: 'image',
+                path,
+                thumbnailPath,
+                width: image.width,
+                height: image.height,
+                size: image.blob.size
+            };
+        } catch (e) {
+            console.error("Chat image upload error:", e);
+            setError(e instanceof Error ? e.message : "Nie udało się wysłać zdjęcia");
+            setUploading(false);
+            return null;
+        }
+    };
+
+    return { uploadImage, uploadChatImage, uploading, progress, error };
 }
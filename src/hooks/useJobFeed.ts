@@ -0,0 +1,127 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { doc, getDoc, GeoPoint } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/context/AuthContext";
+import { JobService, JobFeedCursor, JobFeedItem, JobFeedSort, sortJobFeed } from "@/lib/job-service";
+
+/** Same default as CreateListingModal */
+const DEFAULT_SERVICE_RADIUS_KM = 25;
+
+interface FeedPreferences {
+    center: { lat: number; lng: number } | null;
+    radiusKm: number;
+    categories: string[];
+}
+
+/**
+ * Hook giełdy zleceń dla fachowca
+ * Obszar (lokalizacja + promień) i branża pochodzą z profilu providers/{uid};
+ * bez lokalizacji w profilu używana jest lokalizacja urządzenia.
+ */
+export function useJobFeed(pageSize: number = 20) {
+    const { user } = useAuth();
+    const [preferences, setPreferences] = useState<FeedPreferences | null>(null);
+    const [sort, setSort] = useState<JobFeedSort>('distance');
+    const [allCategories, setAllCategories] = useState(false);
+
+    const [jobs, setJobs] = useState<JobFeedItem[]>([]);
+    const [cursor, setCursor] = useState<JobFeedCursor | null>(null);
+    const [loadingMore, setLoadingMore] = useState(false);
+    const requestRef = useRef(0);
+
+    // 1. Service area from the provider profile
+    useEffect(() => {
+        if (!user || !db) return;
+
+        let cancelled = false;
+        getDoc(doc(db, 'providers', user.uid)).then(snap => {
+            const provider = snap.data();
+            const location = provider?.location as GeoPoint | undefined;
+            const base = {
+                radiusKm: provider?.radius || DEFAULT_SERVICE_RADIUS_KM,
+                categories: provider?.serviceType ? [provider.serviceType as string] : []
+            };
+
+            if (location) {
+                if (!cancelled) setPreferences({ ...base, center: { lat: location.latitude, lng: location.longitude } });
+                return;
+            }
+
+            if (typeof navigator === 'undefined' || !navigator.geolocation) {
+                if (!cancelled) setPreferences({ ...base, center: null });
+                return;
+            }
+            navigator.geolocation.getCurrentPosition(
+                position => {
+                    if (!cancelled) setPreferences({ ...base, center: { lat: position.coords.latitude, lng: position.coords.longitude } });
+                },
+                () => {
+                    if (!cancelled) setPreferences({ ...base, center: null });
+                }
+            );
+        }).catch(error => {
+            console.error("Error loading provider profile:", error);
+            if (!cancelled) setPreferences({ center: null, radiusKm: DEFAULT_SERVICE_RADIUS_KM, categories: [] });
+        });
+
+        return () => { cancelled = true; };
+    }, [user]);
+
+    const fetchPage = useCallback(async (after: JobFeedCursor | null) => {
+        if (!preferences?.center) return null;
+
+        return JobService.getJobFeed({
+            center: preferences.center,
+            radiusKm: preferences.radiusKm,
+            categories: allCategories ? [] : preferences.categories,
+            sort,
+            excludeClientId: user?.uid
+        }, after, pageSize);
+    }, [preferences, allCategories, sort, user, pageSize]);
+
+    // 2. First page whenever the area, filter or sort changes
+    const feedKey = preferences ? JSON.stringify([preferences, allCategories, sort]) : null;
+    const [loadedKey, setLoadedKey] = useState<string | null>(null);
+    useEffect(() => {
+        if (!feedKey) return;
+
+        const request = ++requestRef.current;
+        fetchPage(null).then(result => {
+            if (request !== requestRef.current) return;
+            setJobs(result?.jobs || []);
+            setCursor(result?.nextCursor || null);
+            setLoadedKey(feedKey);
+        });
+    }, [feedKey, fetchPage]);
+
+    const loadMore = useCallback(async () => {
+        if (!cursor || loadingMore) return;
+        const request = requestRef.current;
+        setLoadingMore(true);
+
+        const result = await fetchPage(cursor);
+        if (request === requestRef.current && result) {
+            // A job can move between pages if it changed in the meantime
+            setJobs(prev => sortJobFeed([...prev, ...result.jobs.filter(job => !prev.some(p => p.id === job.id))], sort));
+            setCursor(result.nextCursor);
+        }
+        setLoadingMore(false);
+    }, [cursor, loadingMore, fetchPage, sort]);
+
+    return {
+        jobs,
+        loading: !feedKey || loadedKey !== feedKey,
+        loadingMore,
+        hasMore: cursor !== null,
+        loadMore,
+        sort,
+        setSort,
+        allCategories,
+        setAllCategories,
+        radiusKm: preferences?.radiusKm ?? DEFAULT_SERVICE_RADIUS_KM,
+        categories: preferences?.categories ?? [],
+        missingLocation: preferences !== null && preferences.center === null
+    };
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Timestamp } from "firebase/firestore";
+import { useAuth } from "@/context/AuthContext";
+import { ChatService } from "@/lib/chat-service";
+import { LIVE_LOCATION_MINUTES, LIVE_LOCATION_INTERVAL_MS } from "@/lib/chat-attachments";
+import { calculateStraightDistance, LatLng } from "@/hooks/useDirections";
+
+export interface SharedLocation extends LatLng {
+    etaMinutes?: number;
+    expiresAt: Timestamp;
+}
+
+function currentPosition(): Promise<LatLng> {
+    return new Promise((resolve, reject) => {
+        if (typeof navigator === 'undefined' || !navigator.geolocation) {
+            reject(new Error("Geolokalizacja niedostępna"));
+            return;
+        }
+        navigator.geolocation.getCurrentPosition(
+            position => resolve({ lat: position.coords.latitude, lng: position.coords.longitude }),
+            error => reject(new Error(error.message)),
+            { enableHighAccuracy: true, timeout: 10000 }
+        );
+    });
+}
+
+/**
+ * Hook udostępniania lokalizacji w czacie
+ * - pinLocation: jednorazowa pozycja (pinezka)
+ * - startLive: pozycja na żywo przez LIVE_LOCATION_MINUTES, zapisywana do
+ *   czatu najwyżej co LIVE_LOCATION_INTERVAL_MS; z destination liczone jest ETA
+ */
+export function useLiveLocation(chatId: string, destination: LatLng | null = null) {
+    const { user } = useAuth();
+    const [isLive, setIsLive] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const watchRef = useRef<number | null>(null);
+    const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const lastWriteRef = useRef(0);
+
+    const etaTo = useCallback((position: LatLng) => (
+        destination ? calculateStraightDistance(position, destination).estimatedMinutes : undefined
+    ), [destination]);
+
+    const clearWatch = useCallback(() => {
+        if (watchRef.current !== null) {
+            navigator.geolocation.clearWatch(watchRef.current);
+            watchRef.current = null;
+        }
+        if (timeoutRef.current) {
+            clearTimeout(timeoutRef.current);
+            timeoutRef.current = null;
+        }
+    }, []);
+
+    const pinLocation = useCallback(async (): Promise<LatLng | null> => {
+        setError(null);
+        try {
+            return await currentPosition();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : "Nie udało się pobrać lokalizacji");
+            return null;
+        }
+    }, []);
+
+    const stopLive = useCallback(() => {
+        clearWatch();
+        setIsLive(false);
+        if (user) ChatService.stopLiveLocation(chatId, user.uid);
+    }, [chatId, user, clearWatch]);
+
+    const startLive = useCallback(async (): Promise<SharedLocation | null> => {
+        if (!user) return null;
+        setError(null);
+
+        let position: LatLng;
+        try {
+            position = await currentPosition();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : "Nie udało się pobrać lokalizacji");
+            return null;
+        }
+
+        const expiresAt = Timestamp.fromMillis(Date.now() + LIVE_LOCATION_MINUTES * 60 * 1000);
+        const publish = (next: LatLng) => {
+            const etaMinutes = etaTo(next);
+            lastWriteRef.current = Date.now();
+            ChatService.updateLiveLocation(chatId, user.uid, {
+                ...next,
+                ...(etaMinutes !== undefined ? { etaMinutes } : {}),
+                expiresAt
+            });
+        };
+
+        clearWatch();
+        publish(position);
+        watchRef.current = navigator.geolocation.watchPosition(next => {
+            if (Date.now() - lastWriteRef.current < LIVE_LOCATION_INTERVAL_MS) return;
+            publish({ lat: next.coords.latitude, lng: next.coords.longitude });
+        }, undefined, { enableHighAccuracy: true, maximumAge: LIVE_LOCATION_INTERVAL_MS });
+        timeoutRef.current = setTimeout(stopLive, LIVE_LOCATION_MINUTES * 60 * 1000);
+        setIsLive(true);
+
+        const etaMinutes = etaTo(position);
+        return { ...position, ...(etaMinutes !== undefined ? { etaMinutes } : {}), expiresAt };
+    }, [chatId, user, etaTo, clearWatch, stopLive]);
+
+    // Leaving the chat stops the position updates (the last one stays until expiresAt)
+    useEffect(() => clearWatch, [clearWatch]);
+
+    return { pinLocation, startLive, stopLive, isLive, error };
+}
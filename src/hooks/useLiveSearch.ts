@@ -22,6 +22,8 @@ import {
 } from "firebase/firestore";
 import { geohashQueryBounds, distanceBetween } from "geofire-common";
 import { db } from "@/lib/firebase";
+import { AvailabilityService } from "@/lib/availability-service";
+import { DayPart } from "@/types/firestore-v2";
 import { useDebounce } from "./useDebounce";
 import {
     ServiceListing,
@@ -40,6 +42,10 @@ export interface SearchOptions {
     category?: ServiceCategory;
     minRating?: number;
     maxPrice?: number;
+    availableOn?: {
+        date: string;    // "2024-01-15" (czas lokalny)
+        part?: DayPart;  // Brak = dowolna pora dnia
+    };
 }
 
 export interface SearchResults {
@@ -79,7 +85,35 @@ export function useLiveSearch(options: SearchOptions | null): SearchResults {
         // Accumulator for results from all bound queries
         const allResults = new Map<string, ServiceListing>();
 
+        // Hosts free on the requested day (availability index), checked
+        // only for hosts in the results - once per host while the effect lives
+        const availableOn = options.availableOn;
+        const hostAvailability = new Map<string, boolean>();
+        const checkingHosts = new Set<string>();
+        let isCancelled = false;
+
+        const checkAvailability = (hostIds: string[]) => {
+            if (!availableOn || hostIds.length === 0) return;
+            hostIds.forEach(id => checkingHosts.add(id));
+
+            AvailabilityService.findAvailableHosts(availableOn.date, availableOn.part, hostIds)
+                .then(hosts => {
+                    if (isCancelled) return;
+                    hostIds.forEach(id => hostAvailability.set(id, hosts.has(id)));
+                })
+                .catch(err => {
+                    console.error("Availability filter error:", err);
+                    if (!isCancelled) hostIds.forEach(id => hostAvailability.set(id, false));
+                })
+                .finally(() => {
+                    hostIds.forEach(id => checkingHosts.delete(id));
+                    if (!isCancelled) processResults();
+                });
+        };
+
         const processResults = () => {
+            if (isCancelled) return;
+
             // Convert to array and filter by actual distance
             let results = Array.from(allResults.values()).filter(listing => {
                 const distance = distanceBetween(
@@ -100,6 +134,16 @@ export function useLiveSearch(options: SearchOptions | null): SearchResults {
                 results = results.filter(l => l.basePrice <= options.maxPrice!);
             }
 
+            if (availableOn) {
+                const unchecked = Array.from(new Set(results.map(l => l.providerId)))
+                    .filter(id => !hostAvailability.has(id) && !checkingHosts.has(id));
+                checkAvailability(unchecked);
+
+                // Wait for the availability index before showing anything
+                if (checkingHosts.size > 0) return;
+                results = results.filter(l => hostAvailability.get(l.providerId) === true);
+            }
+
             // Filter only active listings
             results = results.filter(l => l.isActive);
 
@@ -143,6 +187,7 @@ export function useLiveSearch(options: SearchOptions | null): SearchResults {
         }
 
         return () => {
+            isCancelled = true;
             unsubscribes.forEach(unsub => unsub());
         };
     }, [
@@ -151,7 +196,9 @@ export function useLiveSearch(options: SearchOptions | null): SearchResults {
         options?.radiusKm,
         options?.category,
         options?.minRating,
-        options?.maxPrice
+        options?.maxPrice,
+        options?.availableOn?.date,
+        options?.availableOn?.part
     ]);
 
     const promotedCount = listings.filter(l => l.isPromoted).length;
@@ -251,8 +298,19 @@ export function useLiveProviders(options: SearchOptions | null) {
                     })
                     : sorted;
 
+                // Availability filter - one index query per 30 hosts
+                const availableOn = debouncedOptions.availableOn;
+                const available = availableOn
+                    ? await AvailabilityService.findAvailableHosts(
+                        availableOn.date,
+                        availableOn.part,
+                        filtered.map(p => p.id)
+                    )
+                    : null;
+                const bookable = available ? filtered.filter(p => available.has(p.id)) : filtered;
+
                 if (isMounted) {
-                    setProviders(filtered);
+                    setProviders(bookable);
                     setIsLoading(false);
                 }
             } catch (error) {
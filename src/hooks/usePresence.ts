@@ -0,0 +1,81 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { PresenceService, PRESENCE_HEARTBEAT_MS, isOnline, formatLastSeen } from "@/lib/presence-service";
+import { UserPresence } from "@/types/firestore-v2";
+
+// How often "ostatnio online X min temu" is recomputed (local only, no reads)
+const LABEL_REFRESH_MS = 60 * 1000;
+
+/**
+ * Hook obecności zalogowanego użytkownika
+ * - 'online' przy wejściu i co PRESENCE_HEARTBEAT_MS, gdy karta jest widoczna
+ * - 'offline' po ukryciu / zamknięciu karty
+ * Jeden zapis na heartbeat - bez zapisów przy każdej akcji.
+ */
+export function usePresenceHeartbeat(userId: string | null | undefined) {
+    useEffect(() => {
+        if (!userId || typeof document === 'undefined') return;
+
+        let interval: ReturnType<typeof setInterval> | null = null;
+
+        const goOnline = () => {
+            PresenceService.setPresence(userId, 'online');
+            if (!interval) {
+                interval = setInterval(() => PresenceService.setPresence(userId, 'online'), PRESENCE_HEARTBEAT_MS);
+            }
+        };
+        const goOffline = () => {
+            if (interval) {
+                clearInterval(interval);
+                interval = null;
+            }
+            PresenceService.setPresence(userId, 'offline');
+        };
+        const handleVisibility = () => {
+            if (document.visibilityState === 'visible') goOnline();
+            else goOffline();
+        };
+
+        if (document.visibilityState === 'visible') goOnline();
+        document.addEventListener('visibilitychange', handleVisibility);
+        window.addEventListener('pagehide', goOffline);
+
+        return () => {
+            document.removeEventListener('visibilitychange', handleVisibility);
+            window.removeEventListener('pagehide', goOffline);
+            goOffline();
+        };
+    }, [userId]);
+}
+
+/**
+ * Hook obecności innego użytkownika (rozmówcy w czacie)
+ * @returns online i etykieta "online" / "ostatnio online 5 min temu"
+ */
+export function usePresence(userId: string | null | undefined) {
+    const [state, setState] = useState<{ userId: string; presence: UserPresence | null } | null>(null);
+    const [now, setNow] = useState(0);
+
+    useEffect(() => {
+        if (!userId) return;
+
+        const unsubscribe = PresenceService.subscribeToPresence(userId, (presence) => {
+            setState({ userId, presence });
+            setNow(Date.now());
+        });
+        // A stale 'online' (tab closed without going offline) expires without a new snapshot
+        const interval = setInterval(() => setNow(Date.now()), LABEL_REFRESH_MS);
+
+        return () => {
+            unsubscribe();
+            clearInterval(interval);
+        };
+    }, [userId]);
+
+    const presence = state && state.userId === userId ? state.presence : null;
+    return {
+        online: isOnline(presence, now),
+        label: presence ? formatLastSeen(presence, now) : null
+    };
+}
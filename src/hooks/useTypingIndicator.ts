@@ -0,0 +1,88 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useAuth } from "@/context/AuthContext";
+import {
+    PresenceService,
+    TYPING_THROTTLE_MS,
+    TYPING_IDLE_MS,
+    TYPING_STALE_MS
+} from "@/lib/presence-service";
+import { ChatTyping } from "@/types/firestore-v2";
+
+/**
+ * Hook wskaźnika pisania w czacie
+ * - notifyTyping: wołane przy zmianie pola tekstowego; zapis najwyżej co
+ *   TYPING_THROTTLE_MS, po TYPING_IDLE_MS bez klawisza wskaźnik znika
+ * - stopTyping: po wysłaniu wiadomości
+ * @returns uid rozmówców, którzy właśnie piszą
+ */
+export function useTypingIndicator(chatId: string | null | undefined) {
+    const { user } = useAuth();
+    const [typing, setTyping] = useState<{ chatId: string; userIds: string[] } | null>(null);
+    const lastWriteRef = useRef(0);
+    const idleRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    const uid = user?.uid;
+
+    // Incoming: other participants typing
+    useEffect(() => {
+        if (!chatId || !uid) return;
+
+        let entries: ChatTyping[] = [];
+        let expiry: ReturnType<typeof setTimeout> | null = null;
+
+        const evaluate = () => {
+            const nowMs = Date.now();
+            const active = entries.filter(entry =>
+                entry.userId !== uid && (!entry.updatedAt || nowMs - entry.updatedAt.toMillis() < TYPING_STALE_MS)
+            );
+            setTyping({ chatId, userIds: active.map(entry => entry.userId) });
+
+            // Drop the indicator when the newest write goes stale
+            if (expiry) clearTimeout(expiry);
+            expiry = active.length > 0 ? setTimeout(evaluate, TYPING_STALE_MS) : null;
+        };
+
+        const unsubscribe = PresenceService.subscribeToTyping(chatId, (next) => {
+            entries = next;
+            evaluate();
+        });
+
+        return () => {
+            unsubscribe();
+            if (expiry) clearTimeout(expiry);
+        };
+    }, [chatId, uid]);
+
+    const stopTyping = useCallback(() => {
+        if (idleRef.current) {
+            clearTimeout(idleRef.current);
+            idleRef.current = null;
+        }
+        if (!chatId || !uid || lastWriteRef.current === 0) return;
+
+        lastWriteRef.current = 0;
+        PresenceService.clearTyping(chatId, uid);
+    }, [chatId, uid]);
+
+    const notifyTyping = useCallback(() => {
+        if (!chatId || !uid) return;
+
+        if (idleRef.current) clearTimeout(idleRef.current);
+        idleRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+
+        if (Date.now() - lastWriteRef.current < TYPING_THROTTLE_MS) return;
+        lastWriteRef.current = Date.now();
+        PresenceService.setTyping(chatId, uid);
+    }, [chatId, uid, stopTyping]);
+
+    // Closing or switching the chat clears own indicator
+    useEffect(() => stopTyping, [stopTyping]);
+
+    return {
+        typingUserIds: typing && typing.chatId === chatId ? typing.userIds : [],
+        notifyTyping,
+        stopTyping
+    };
+}
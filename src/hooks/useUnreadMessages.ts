@@ -0,0 +1,22 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useAuth } from "@/context/AuthContext";
+import { ChatService } from "@/lib/chat-service";
+
+/**
+ * Hook sumy nieprzeczytanych wiadomości ze wszystkich czatów użytkownika
+ * (liczniki unreadCount utrzymuje backend)
+ * @returns liczba nieprzeczytanych wiadomości na żywo
+ */
+export function useUnreadMessages(): number {
+    const { user } = useAuth();
+    const [total, setTotal] = useState(0);
+
+    useEffect(() => {
+        if (!user) return;
+        return ChatService.subscribeToUnreadTotal(user.uid, setTotal);
+    }, [user]);
+
+    return user ? total : 0;
+}
@@ -1,15 +1,189 @@
-import { db } from "@/lib/firebase";
-import { ProviderSchedule, Booking } from "@/types/firestore-v2";
-import { doc, getDoc, setDoc, collection, query, where, getDocs, Timestamp } from "firebase/firestore";
+import { db, functions } from "@/lib/firebase";
+import { ProviderSchedule, Booking, AvailabilityDay, DayPart, BlockedRange, ScheduleException, TimeSlot } from "@/types/firestore-v2";
+import { doc, getDoc, setDoc, collection, query, where, getDocs, Timestamp, QueryConstraint } from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { dayOfWeekOf, fromLocalTime, shiftDateStr, toLocalParts } from "@/lib/local-time";
+import { parseIcsBusyIntervals } from "@/lib/ical";
+
+// Gap kept free between two bookings when the host did not set one
+export const DEFAULT_TRAVEL_BUFFER_MINUTES = 30;
+
+// Longest booking looked back for when checking overlap
+const MAX_BOOKING_HOURS = 24;
+
+// Firestore limit for 'in' queries
+const IN_QUERY_LIMIT = 30;
+
+// Suggested start times are rounded up to this step
+const SLOT_STEP_MINUTES = 30;
+
+// How far ahead imported calendars block time
+const ICAL_IMPORT_DAYS = 90;
+
+// Keeps the schedule document small (it is read on every availability check)
+const MAX_BLOCKED_RANGES = 500;
+const MAX_EXCEPTIONS = 200;
+
+// Longest single exception (a year of holiday)
+const MAX_EXCEPTION_DAYS = 366;
+
+const MAX_REASON_LENGTH = 100;
+
+/**
+ * Whether a booking blocks the host's calendar - unpaid bookings only
+ * while their slot hold lasts (same as blocksCalendar on the server)
+ */
+function blocksCalendar(booking: Booking, nowMs: number): boolean {
+    if (booking.status !== 'PENDING_PAYMENT' || !booking.slotHold) return true;
+    return booking.slotHold.active && booking.slotHold.expiresAt.toMillis() > nowMs;
+}
+
+/** Removes busy intervals from free ones */
+function subtractIntervals(free: [number, number][], busy: [number, number][]): [number, number][] {
+    return busy.reduce((remaining, [busyStart, busyEnd]) =>
+        remaining.flatMap(([start, end]): [number, number][] => {
+            if (busyEnd <= start || busyStart >= end) return [[start, end]];
+            return [
+                ...(busyStart > start ? [[start, busyStart] as [number, number]] : []),
+                ...(busyEnd < end ? [[busyEnd, end] as [number, number]] : [])
+            ];
+        }), free);
+}
+
+function slotIntervals(day: string, slots: TimeSlot[]): [number, number][] {
+    return slots.map((slot): [number, number] => [fromLocalTime(day, slot.start).getTime(), fromLocalTime(day, slot.end).getTime()]);
+}
+
+/**
+ * Working time of one local day: the weekly template, replaced by an
+ * override exception and cut by blocked exceptions.
+ */
+function dayIntervals(schedule: ProviderSchedule, day: string): [number, number][] {
+    if (schedule.blockedDates?.includes(day)) return [];
+
+    const exceptions = (schedule.exceptions || []).filter(e => e.startDate <= day && day <= e.endDate);
+    const override = exceptions.filter(e => e.type === 'override').pop();
+    const daySchedule = schedule.weeklySchedule?.find(d => d.dayOfWeek === dayOfWeekOf(day));
+
+    const slots = override
+        ? override.slots || []
+        : daySchedule?.isActive ? daySchedule.slots || [] : [];
+
+    let intervals = slotIntervals(day, slots);
+    for (const block of exceptions.filter(e => e.type === 'blocked')) {
+        if (!block.slots?.length) return [];
+        intervals = subtractIntervals(intervals, slotIntervals(day, block.slots));
+    }
+    return intervals;
+}
+
+/**
+ * Working time between `startMs` and `endMs` as merged [start, end)
+ * intervals - adjacent slots (also across midnight) form one interval.
+ * Slots are local (Europe/Warsaw) times, whatever the browser's zone.
+ */
+function workingIntervals(schedule: ProviderSchedule, startMs: number, endMs: number): [number, number][] {
+    const intervals: [number, number][] = [];
+    const lastDay = toLocalParts(new Date(endMs)).dateStr;
+
+    for (let day = toLocalParts(new Date(startMs)).dateStr; day <= lastDay; day = shiftDateStr(day, 1)) {
+        intervals.push(...dayIntervals(schedule, day));
+    }
+
+    intervals.sort((a, b) => a[0] - b[0]);
+    return intervals.reduce<[number, number][]>((merged, [start, end]) => {
+        const last = merged[merged.length - 1];
+        if (last && start <= last[1]) {
+            last[1] = Math.max(last[1], end);
+        } else {
+            merged.push([start, end]);
+        }
+        return merged;
+    }, []);
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+
+function isValidDate(date: string): boolean {
+    return DATE_PATTERN.test(date) && shiftDateStr(date, 0) === date;
+}
+
+function validateSlots(slots: TimeSlot[]): string | null {
+    const sorted = [...slots].sort((a, b) => a.start.localeCompare(b.start));
+    for (let i = 0; i < sorted.length; i++) {
+        const slot = sorted[i];
+        if (!TIME_PATTERN.test(slot.start) || !TIME_PATTERN.test(slot.end)) {
+            return "Nieprawidłowy format godziny (HH:MM)";
+        }
+        if (slot.start >= slot.end) {
+            return `Godzina końca musi być po godzinie początku (${slot.start}–${slot.end})`;
+        }
+        if (i > 0 && slot.start < sorted[i - 1].end) {
+            return `Przedziały godzin nakładają się (${sorted[i - 1].start}–${sorted[i - 1].end}, ${slot.start}–${slot.end})`;
+        }
+    }
+    return null;
+}
+
+/**
+ * Validates schedule exceptions before saving.
+ * Returns the first problem as a user-facing message, null when valid.
+ */
+export function validateScheduleExceptions(exceptions: ScheduleException[]): string | null {
+    if (exceptions.length > MAX_EXCEPTIONS) {
+        return `Maksymalnie ${MAX_EXCEPTIONS} wyjątków w grafiku`;
+    }
+
+    for (const exception of exceptions) {
+        if (!isValidDate(exception.startDate) || !isValidDate(exception.endDate)) {
+            return "Nieprawidłowa data wyjątku";
+        }
+        if (exception.endDate < exception.startDate) {
+            return "Data końca wyjątku jest przed datą początku";
+        }
+        if (shiftDateStr(exception.startDate, MAX_EXCEPTION_DAYS) <= exception.endDate) {
+            return `Wyjątek może trwać maksymalnie ${MAX_EXCEPTION_DAYS} dni`;
+        }
+        if ((exception.reason?.length ?? 0) > MAX_REASON_LENGTH) {
+            return `Opis wyjątku może mieć maksymalnie ${MAX_REASON_LENGTH} znaków`;
+        }
+
+        const slotsError = validateSlots(exception.slots || []);
+        if (slotsError) return slotsError;
+    }
+
+    // Two overrides of the same day would make its hours ambiguous
+    const overrides = exceptions
+        .filter(e => e.type === 'override')
+        .sort((a, b) => a.startDate.localeCompare(b.startDate));
+    for (let i = 1; i < overrides.length; i++) {
+        if (overrides[i].startDate <= overrides[i - 1].endDate) {
+            return `Zmienione godziny pracy nakładają się (${overrides[i - 1].startDate} i ${overrides[i].startDate})`;
+        }
+    }
+
+    return null;
+}
 
 export class AvailabilityService {
 
     /**
      * Creates or updates a provider's schedule
+     * Throws with a user-facing message when exceptions are invalid.
      */
     static async saveSchedule(userId: string, schedule: Partial<ProviderSchedule>): Promise<void> {
         if (!db) throw new Error("Database unavailable");
 
+        for (const day of schedule.weeklySchedule || []) {
+            const error = validateSlots(day.slots || []);
+            if (error) throw new Error(error);
+        }
+        if (schedule.exceptions) {
+            const error = validateScheduleExceptions(schedule.exceptions);
+            if (error) throw new Error(error);
+        }
+
         const scheduleRef = doc(db, "provider_schedules", userId);
         const now = Timestamp.now();
 
@@ -37,6 +211,9 @@ export class AvailabilityService {
 
     /**
      * Checks availability for a specific date
+     * The whole duration must fit in working time (adjacent slots count as
+     * one block) and keep the travel buffer to other bookings.
+     * Server-side copy: functions/src/lib/availability.ts - keep in sync.
      */
     static async isAvailable(userId: string, date: Date, durationMinutes: number = 60): Promise<boolean> {
         if (!db) return false;
@@ -44,97 +221,165 @@ export class AvailabilityService {
         const schedule = await this.getSchedule(userId);
         if (!schedule) return false; // Or true if default open?
 
-        // 1. Check if date is blocked manually
-        const dateStr = date.toISOString().split('T')[0];
-        if (schedule.blockedDates?.includes(dateStr)) return false;
-
-        // 2. Check weekly schedule
-        const dayOfWeek = date.getDay(); // 0 = Sunday
-        const daySchedule = schedule.weeklySchedule.find(d => d.dayOfWeek === dayOfWeek);
+        const reqStart = date.getTime();
+        const reqEnd = reqStart + durationMinutes * 60 * 1000;
 
-        if (!daySchedule || !daySchedule.isActive) return false;
+        // 1. Whole duration within working time (exceptions applied)
+        const fitsSchedule = workingIntervals(schedule, reqStart, reqEnd)
+            .some(([start, end]) => start <= reqStart && reqEnd <= end);
 
-        // 3. Check time slots
-        const hours = date.getHours();
-        const minutes = date.getMinutes();
-        const timeStr = `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+        if (!fitsSchedule) return false;
 
-        // Simple check: is start time within any slot?
-        // TODO: Advanced check for full duration overlap
-        const isInSlot = daySchedule.slots.some(slot =>
-            timeStr >= slot.start && timeStr < slot.end
+        // 2. Blocked ranges (imported calendar) - no travel buffer
+        const isBlocked = (schedule.blockedRanges || []).some(range =>
+            reqStart < range.end.toMillis() && reqEnd > range.start.toMillis()
         );
 
-        if (!isInSlot) return false;
+        if (isBlocked) return false;
 
-        // 4. Check existing bookings overlap
-        // This requires querying bookings collection
-        // Optimization: In a real app, we might check an 'availability' subcollection
-        // For now, let's query bookings for that day
-        const startOfDay = new Date(date);
-        startOfDay.setHours(0, 0, 0, 0);
-        const endOfDay = new Date(date);
-        endOfDay.setHours(23, 59, 59, 999);
+        // 3. Check existing bookings overlap, including travel between them
+        // Looks a day back so long bookings started earlier are caught
+        const bufferMs = (schedule.travelBufferMinutes ?? DEFAULT_TRAVEL_BUFFER_MINUTES) * 60 * 1000;
 
         const bookingsQuery = query(
             collection(db, 'bookings'),
             where('hostId', '==', userId),
-            where('scheduledDate', '>=', Timestamp.fromDate(startOfDay)),
-            where('scheduledDate', '<=', Timestamp.fromDate(endOfDay)),
+            where('scheduledDate', '>=', Timestamp.fromMillis(reqStart - MAX_BOOKING_HOURS * 60 * 60 * 1000 - bufferMs)),
+            where('scheduledDate', '<', Timestamp.fromMillis(reqEnd + bufferMs)),
             where('status', 'in', ['CONFIRMED', 'ACTIVE', 'PENDING_PAYMENT'])
         );
 
         const bookingsSnap = await getDocs(bookingsQuery);
-        const bookings = bookingsSnap.docs.map(d => d.data() as Booking);
-
-        // Check overlap
-        const reqStart = date.getTime();
-        const reqEnd = reqStart + durationMinutes * 60 * 1000;
+        const bookings = bookingsSnap.docs
+            .map(d => d.data() as Booking)
+            .filter(b => blocksCalendar(b, Date.now()));
 
         const hasOverlap = bookings.some(b => {
             const bStart = b.scheduledDate.toDate().getTime();
-            const bEnd = bStart + b.estimatedDuration * 60 * 1000;
-            return (reqStart < bEnd && reqEnd > bStart);
+            const bEnd = bStart + (b.estimatedDuration || 60) * 60 * 1000;
+            return (reqStart < bEnd + bufferMs && reqEnd + bufferMs > bStart);
         });
 
         return !hasOverlap;
     }
 
     /**
-     * Gets next available slots for a provider (simple version)
+     * Imports busy time from an .ics file (Google / Apple / Outlook export)
+     * for the next 90 days. Replaces earlier imported ranges, manual ones
+     * stay. Returns the number of blocked ranges saved.
      */
-    static async getNextAvailableSlots(userId: string, daysToCheck: number = 7): Promise<Date[]> {
-        const availableSlots: Date[] = [];
-        const now = new Date();
+    static async importCalendar(userId: string, icsText: string): Promise<number> {
+        const from = new Date();
+        const to = new Date(from.getTime() + ICAL_IMPORT_DAYS * 24 * 60 * 60 * 1000);
+
+        const imported: BlockedRange[] = parseIcsBusyIntervals(icsText, from, to)
+            .slice(0, MAX_BLOCKED_RANGES)
+            .map(interval => ({
+                start: Timestamp.fromDate(interval.start),
+                end: Timestamp.fromDate(interval.end),
+                source: 'ical' as const
+            }));
+
         const schedule = await this.getSchedule(userId);
+        const manual = (schedule?.blockedRanges || []).filter(range => range.source !== 'ical');
 
-        if (!schedule) return [];
+        await this.saveSchedule(userId, { blockedRanges: [...manual, ...imported] });
+        return imported.length;
+    }
 
-        for (let i = 0; i < daysToCheck; i++) {
-            const currentDay = new Date(now);
-            currentDay.setDate(now.getDate() + i);
-            const dateStr = currentDay.toISOString().split('T')[0];
+    /**
+     * Private iCal feed URL with the provider's confirmed bookings,
+     * to subscribe to in an external calendar. `rotate` revokes the old URL.
+     */
+    static async getCalendarFeedUrl(rotate: boolean = false): Promise<string> {
+        if (!functions) throw new Error("Functions unavailable");
+
+        const callable = httpsCallable<{ rotate?: boolean }, { url: string }>(functions, 'calendarGetFeedUrl');
+        const result = await callable({ rotate });
+        return result.data.url;
+    }
+
+    /**
+     * Gets free days of a provider from the availability index
+     * (availability/{hostId}_{date}, maintained by Cloud Functions)
+     */
+    static async getFreeDays(userId: string, daysToCheck: number = 7): Promise<AvailabilityDay[]> {
+        if (!db) return [];
+
+        const today = toLocalParts(new Date()).dateStr;
+
+        try {
+            const snap = await getDocs(query(
+                collection(db, 'availability'),
+                where('hostId', '==', userId),
+                where('date', '>=', today),
+                where('date', '<=', shiftDateStr(today, daysToCheck - 1))
+            ));
+            return snap.docs
+                .map(d => d.data() as AvailabilityDay)
+                .sort((a, b) => a.date.localeCompare(b.date));
+        } catch (error) {
+            console.error("Error fetching availability index:", error);
+            return [];
+        }
+    }
 
-            if (schedule.blockedDates?.includes(dateStr)) continue;
+    /**
+     * Which of `hostIds` (search results) have free time on `date`
+     * (optionally in a part of the day), e.g. "available tomorrow morning".
+     * One index query per IN_QUERY_LIMIT hosts - never the whole index.
+     */
+    static async findAvailableHosts(date: string, part: DayPart | undefined, hostIds: string[]): Promise<Set<string>> {
+        if (!db || hostIds.length === 0) return new Set();
+        const firestore = db;
+
+        const filters: QueryConstraint[] = [
+            where('date', '==', date),
+            part ? where(`parts.${part}`, '==', true) : where('freeMinutes', '>', 0)
+        ];
+
+        const chunks: string[][] = [];
+        for (let i = 0; i < hostIds.length; i += IN_QUERY_LIMIT) {
+            chunks.push(hostIds.slice(i, i + IN_QUERY_LIMIT));
+        }
 
-            const dayOfWeek = currentDay.getDay();
-            const daySchedule = schedule.weeklySchedule.find(d => d.dayOfWeek === dayOfWeek);
+        try {
+            const snaps = await Promise.all(chunks.map(chunk => getDocs(query(
+                collection(firestore, 'availability'),
+                ...filters,
+                where('hostId', 'in', chunk)
+            ))));
+            return new Set(snaps.flatMap(snap => snap.docs.map(d => (d.data() as AvailabilityDay).hostId)));
+        } catch (error) {
+            console.error("Error querying availability index:", error);
+            return new Set();
+        }
+    }
 
-            if (!daySchedule || !daySchedule.isActive) continue;
+    /**
+     * Gets next available slots for a provider
+     * Reads the availability index - one query instead of a check per slot.
+     * The booking itself is still verified with isAvailable() on the server.
+     */
+    static async getNextAvailableSlots(
+        userId: string,
+        daysToCheck: number = 7,
+        durationMinutes: number = 60
+    ): Promise<Date[]> {
+        const availableSlots: Date[] = [];
+        const stepMs = SLOT_STEP_MINUTES * 60 * 1000;
+        const earliest = Math.ceil(Date.now() / stepMs) * stepMs;
 
-            for (const slot of daySchedule.slots) {
-                // Parse slot start
-                const [h, m] = slot.start.split(':').map(Number);
-                const slotDate = new Date(currentDay);
-                slotDate.setHours(h, m, 0, 0);
+        const days = await this.getFreeDays(userId, daysToCheck);
 
-                // If slot is in the past (today), skip
-                if (slotDate < now) continue;
+        for (const day of days) {
+            for (const slot of day.freeSlots) {
+                // Today's windows may have already started
+                const start = Math.max(fromLocalTime(day.date, slot.start).getTime(), earliest);
+                const end = fromLocalTime(day.date, slot.end).getTime();
 
-                // Check against bookings (can utilize isAvailable logic per slot)
-                const isFree = await this.isAvailable(userId, slotDate);
-                if (isFree) {
-                    availableSlots.push(slotDate);
+                if (end - start >= durationMinutes * 60 * 1000) {
+                    availableSlots.push(new Date(start));
                     if (availableSlots.length > 5) return availableSlots; // Limit results
                 }
             }
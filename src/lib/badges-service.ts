@@ -111,7 +111,7 @@ export const BADGE_DEFINITIONS: Record<BadgeId, BadgeDefinition> = {
         name: 'Mistrz Terminowości',
         description: 'Zawsze przyjeżdża na czas',
         icon: 'Clock',
-        criteria: '>95% zleceń rozpoczętych punktualnie',
+        criteria: '>95% zleceń rozpoczętych punktualnie (check-in GPS na miejscu)',
         tiers: {
             bronze: 80,
             silver: 90,
@@ -287,10 +287,14 @@ export async function getUserBadges(userId: string): Promise<Badge[]> {
 // BADGE EVALUATION
 // ===========================================
 
+// Minimalna liczba check-inów, by punktualność była miarodajna
+const ON_TIME_MIN_CHECK_INS = 10;
+
 interface EvaluationMetrics {
     avgResponseTimeMinutes: number;
     favoriteCount: number;
-    onTimePercentage: number;
+    onTimePercentage: number;      // metrics/{hostId}.onTimePercentage
+    verifiedCheckIns: number;      // metrics/{hostId}.verifiedCheckIns
     fiveStarStreak: number;
     completedJobs: number;
     avgAcceptanceTimeMinutes: number;
@@ -329,7 +333,7 @@ export async function evaluateBadges(
     }
 
     // On Time Master
-    if (metrics.onTimePercentage >= 80) {
+    if (metrics.verifiedCheckIns >= ON_TIME_MIN_CHECK_INS && metrics.onTimePercentage >= 80) {
         const tier = determineTier(metrics.onTimePercentage, BADGE_DEFINITIONS.on_time_master.tiers!);
         await awardBadge(userId, 'on_time_master', tier);
         awarded.push('on_time_master');
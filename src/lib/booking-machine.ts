@@ -3,27 +3,21 @@
  * 
  * Implementacja maszyny stanów rezerwacji wzorowanej na Airbnb.
  * Obsługuje 8 stanów i waliduje przejścia między nimi.
+ *
+ * Przejścia wykonuje backend (callable Cloud Functions w
+ * functions/src/bookingActions.ts) - rezerwacje są tylko do odczytu
+ * dla klienta. Walidacja poniżej służy UI (np. które przyciski pokazać).
  */
 
-import {
-    doc,
-    getDoc,
-    updateDoc,
-    runTransaction,
-    Timestamp,
-    collection,
-    addDoc,
-    serverTimestamp
-} from "firebase/firestore";
-import { db } from "@/lib/firebase";
+import { httpsCallable } from "firebase/functions";
+import { Timestamp } from "firebase/firestore";
+import { functions } from "@/lib/firebase";
 import {
     Booking,
+    BookingRefund,
     BookingStatus,
-    BookingStatusChange,
-    VALID_STATUS_TRANSITIONS,
-    generateBookingHash,
-    Listing,
-    User
+    LocationVerification,
+    VALID_STATUS_TRANSITIONS
 } from "@/types/firestore-v2";
 
 // ===========================================
@@ -31,9 +25,8 @@ import {
 // ===========================================
 
 export interface CreateBookingInput {
-    clientId: string;
     hostId: string;
-    listingId: string;
+    listingId?: string;          // Brak = rezerwacja z profilu fachowca (mapa)
     scheduledDate: Date;
     estimatedDuration: number; // minutes
     serviceLocation: {
@@ -41,13 +34,46 @@ export interface CreateBookingInput {
         lng: number;
         address: string;
     };
+    notes?: string;
+}
+
+export interface CreateBookingSeriesInput extends Omit<CreateBookingInput, 'scheduledDate'> {
+    frequency: 'weekly' | 'biweekly';
+    startDate: Date;             // Pierwsza wizyta
+    endDate?: Date;              // Brak = do odwołania
+}
+
+/** Pozycja fachowca z Geolocation API */
+export interface CheckInPosition {
+    lat: number;
+    lng: number;
+    accuracy?: number; // metry
 }
 
 export interface BookingActionResult {
     success: boolean;
     bookingId?: string;
+    seriesId?: string;
     newStatus?: BookingStatus;
+    refund?: BookingRefund;
+    chargeId?: string;
+    totalAmount?: number;
+    verification?: LocationVerification;
+    holdExpiresAt?: Date;
     error?: string;
+    errorCode?: string;            // Kod błędu callable, np. 'functions/aborted' = termin zajęty
+}
+
+/** Odpowiedź callable - Timestampy przychodzą jako millis */
+interface BookingCallableResponse {
+    bookingId: string;
+    seriesId?: string;
+    newStatus: BookingStatus;
+    refund?: Omit<BookingRefund, 'calculatedAt'> & { calculatedAt: number };
+    chargeId?: string;
+    totalAmount?: number;
+    verification?: Omit<LocationVerification, 'recordedAt'> & { recordedAt: number };
+    holdExpiresAt?: number;
 }
 
 // ===========================================
@@ -126,213 +152,167 @@ export function canUserPerformAction(
 // ===========================================
 
 /**
- * Tworzy nowe zapytanie (INQUIRY)
+ * Wywołuje callable maszyny stanów i mapuje odpowiedź na BookingActionResult
  */
-export async function createInquiry(
-    input: CreateBookingInput
+async function callBookingAction(
+    name: string,
+    payload: Record<string, unknown>,
+    fallbackError: string
 ): Promise<BookingActionResult> {
-    if (!db) {
-        return { success: false, error: 'Baza danych niedostępna' };
+    if (!functions) {
+        return { success: false, error: 'Serwer niedostępny' };
     }
 
     try {
-        // Pobierz dane listingu i hosta dla snapshotów
-        const listingRef = doc(db, 'listings', input.listingId);
-        const listingSnap = await getDoc(listingRef);
-
-        if (!listingSnap.exists()) {
-            return { success: false, error: 'Oferta nie istnieje' };
-        }
-
-        const listing = listingSnap.data() as Listing;
-
-        // Pobierz dane hosta
-        const hostRef = doc(db, 'users', input.hostId);
-        const hostSnap = await getDoc(hostRef);
-        const host = hostSnap.exists() ? hostSnap.data() as User : null;
-
-        // Pobierz dane klienta
-        const clientRef = doc(db, 'users', input.clientId);
-        const clientSnap = await getDoc(clientRef);
-        const client = clientSnap.exists() ? clientSnap.data() as User : null;
-
-        const now = Timestamp.now();
-
-        const newBooking: Omit<Booking, 'id'> = {
-            clientId: input.clientId,
-            hostId: input.hostId,
-            listingId: input.listingId,
-
-            status: 'INQUIRY',
-            statusHistory: [{
-                status: 'INQUIRY',
-                changedAt: now,
-                changedBy: input.clientId
-            }],
-
-            // Denormalizowane snapshoty
-            listingSnapshot: {
-                title: listing.title,
-                serviceType: listing.serviceType,
-                priceAtBooking: listing.basePrice,
-                priceUnit: listing.priceUnit
-            },
-            hostSnapshot: {
-                displayName: host?.displayName || 'Fachowiec',
-                avatarUrl: host?.avatarUrl || null,
-                ratingAtBooking: listing.ratingAverage || 0
-            },
-            clientSnapshot: {
-                displayName: client?.displayName || 'Klient',
-                avatarUrl: client?.avatarUrl || null
-            },
-
-            scheduledDate: Timestamp.fromDate(input.scheduledDate),
-            estimatedDuration: input.estimatedDuration,
-            serviceLocation: input.serviceLocation,
-
-            pricing: {
-                baseAmount: listing.basePrice,
-                totalAmount: listing.basePrice, // Może być zaktualizowane później
-                currency: 'PLN'
-            },
-            paymentStatus: 'pending',
-
-            cancellationPolicy: 'flexible', // Domyślna
-            bookingHash: generateBookingHash(),
-            chatId: '', // Będzie ustawione po utworzeniu czatu
-
-            createdAt: now,
-            updatedAt: now
-        };
-
-        const bookingsRef = collection(db, 'bookings');
-        const docRef = await addDoc(bookingsRef, newBooking);
-
-        // Utwórz chat dla rezerwacji
-        const chatRef = collection(db, 'chats');
-        const chatDoc = await addDoc(chatRef, {
-            bookingId: docRef.id,
-            participantIds: [input.clientId, input.hostId],
-            lastMessage: null,
-            unreadCount: {
-                [input.clientId]: 0,
-                [input.hostId]: 0
-            },
-            isActive: true,
-            createdAt: serverTimestamp(),
-            updatedAt: serverTimestamp()
-        });
-
-        // Zaktualizuj booking z chatId
-        await updateDoc(docRef, { chatId: chatDoc.id });
+        const callable = httpsCallable<Record<string, unknown>, BookingCallableResponse>(functions, name);
+        const { data } = await callable(payload);
 
         return {
             success: true,
-            bookingId: docRef.id,
-            newStatus: 'INQUIRY'
+            bookingId: data.bookingId,
+            seriesId: data.seriesId,
+            newStatus: data.newStatus,
+            chargeId: data.chargeId,
+            totalAmount: data.totalAmount,
+            ...(data.refund && {
+                refund: { ...data.refund, calculatedAt: Timestamp.fromMillis(data.refund.calculatedAt) }
+            }),
+            ...(data.verification && {
+                verification: { ...data.verification, recordedAt: Timestamp.fromMillis(data.verification.recordedAt) }
+            }),
+            ...(data.holdExpiresAt && { holdExpiresAt: new Date(data.holdExpiresAt) })
         };
 
     } catch (error) {
-        console.error('Error creating inquiry:', error);
-        return { success: false, error: 'Błąd podczas tworzenia zapytania' };
+        console.error(`Error in ${name}:`, error);
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : fallbackError,
+            errorCode: (error as { code?: string }).code
+        };
     }
 }
 
+/**
+ * Tworzy nowe zapytanie (INQUIRY) wraz z czatem rezerwacji
+ */
+export async function createInquiry(
+    input: CreateBookingInput
+): Promise<BookingActionResult> {
+    return callBookingAction('bookingCreateInquiry', {
+        ...input,
+        scheduledDate: input.scheduledDate.toISOString()
+    }, 'Błąd podczas tworzenia zapytania');
+}
+
 /**
  * Request to Book - klient prosi o rezerwację (host musi zaakceptować)
+ * paymentId - płatność autoryzowana z góry, pobierana przy akceptacji
  */
 export async function requestToBook(
     bookingId: string,
-    clientId: string
+    paymentId?: string
 ): Promise<BookingActionResult> {
-    return transitionStatus(bookingId, 'PENDING_APPROVAL', clientId);
+    return callBookingAction('bookingRequestToBook', { bookingId, paymentId }, 'Błąd podczas zmiany statusu');
 }
 
 /**
  * Instant Book - natychmiastowa rezerwacja (pomija akceptację hosta)
+ * Odrzucana, gdy fachowiec ją wyłączył, klient nie spełnia
+ * instantBookRequirements oferty lub dzień jest już pełny
  */
 export async function instantBook(
-    bookingId: string,
-    clientId: string
+    bookingId: string
 ): Promise<BookingActionResult> {
-    return transitionStatus(bookingId, 'PENDING_PAYMENT', clientId);
+    return callBookingAction('bookingInstantBook', { bookingId }, 'Błąd podczas zmiany statusu');
 }
 
 /**
  * Host akceptuje Request to Book
  */
 export async function approveBooking(
-    bookingId: string,
-    hostId: string
+    bookingId: string
 ): Promise<BookingActionResult> {
-    return transitionStatus(bookingId, 'PENDING_PAYMENT', hostId);
+    return callBookingAction('bookingApprove', { bookingId }, 'Błąd podczas akceptacji');
 }
 
 /**
- * Potwierdza płatność (przechodzi do CONFIRMED)
+ * Fachowiec przyjmuje zlecenie z giełdy (hostId MARKETPLACE)
  */
-export async function confirmPayment(
+export async function claimMarketplaceBooking(
     bookingId: string
 ): Promise<BookingActionResult> {
-    return transitionStatus(bookingId, 'CONFIRMED', 'system');
+    return callBookingAction('bookingClaimMarketplace', { bookingId }, 'Błąd podczas przyjmowania zlecenia');
 }
 
 /**
- * Host rozpoczyna usługę (check-in)
+ * Potwierdza płatność (przechodzi do CONFIRMED)
  */
-export async function checkIn(
+export async function confirmPayment(
     bookingId: string,
-    hostId: string
+    paymentId: string
 ): Promise<BookingActionResult> {
-    if (!db) {
-        return { success: false, error: 'Baza danych niedostępna' };
-    }
-
-    try {
-        const bookingRef = doc(db, 'bookings', bookingId);
-
-        await runTransaction(db, async (transaction) => {
-            const bookingSnap = await transaction.get(bookingRef);
-
-            if (!bookingSnap.exists()) {
-                throw new Error('Rezerwacja nie istnieje');
-            }
-
-            const booking = bookingSnap.data() as Booking;
+    return callBookingAction('bookingConfirmPayment', { bookingId, paymentId }, 'Błąd podczas potwierdzania płatności');
+}
 
-            const validation = canUserPerformAction(hostId, booking, 'check_in');
-            if (!validation.allowed) {
-                throw new Error(validation.reason);
-            }
+/**
+ * Czy rezerwacja trzyma teraz swój termin (blokada na czas płatności)
+ */
+export function isSlotHeld(booking: Booking, now: Date = new Date()): boolean {
+    return booking.slotHold?.active === true && booking.slotHold.expiresAt.toMillis() > now.getTime();
+}
 
-            if (!isValidTransition(booking.status, 'ACTIVE')) {
-                throw new Error('Nieprawidłowe przejście statusu');
-            }
+/**
+ * Blokuje termin ponownie przed kolejną próbą płatności.
+ * Zwraca holdExpiresAt; błąd, gdy termin zajął już ktoś inny.
+ */
+export async function holdSlot(
+    bookingId: string
+): Promise<BookingActionResult> {
+    return callBookingAction('bookingHoldSlot', { bookingId }, 'Błąd podczas rezerwowania terminu');
+}
 
-            const now = Timestamp.now();
+/**
+ * Nieudana płatność - zwalnia termin, rezerwację można opłacić ponownie lub anulować
+ */
+export async function reportPaymentFailed(
+    bookingId: string,
+    reason?: string
+): Promise<BookingActionResult> {
+    return callBookingAction('bookingReportPaymentFailed', { bookingId, reason }, 'Błąd podczas zgłaszania nieudanej płatności');
+}
 
-            transaction.update(bookingRef, {
-                status: 'ACTIVE',
-                checkIn: now,
-                statusHistory: [...booking.statusHistory, {
-                    status: 'ACTIVE',
-                    changedAt: now,
-                    changedBy: hostId
-                }],
-                updatedAt: now
-            });
-        });
+/**
+ * Pobiera pozycję urządzenia do check-in/check-out.
+ * null = brak zgody lub GPS (akcja przejdzie, ale zostanie oznaczona)
+ */
+export function getCurrentPosition(timeoutMs: number = 10000): Promise<CheckInPosition | null> {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+        return Promise.resolve(null);
+    }
 
-        return { success: true, bookingId, newStatus: 'ACTIVE' };
+    return new Promise((resolve) => {
+        navigator.geolocation.getCurrentPosition(
+            (pos) => resolve({
+                lat: pos.coords.latitude,
+                lng: pos.coords.longitude,
+                accuracy: pos.coords.accuracy
+            }),
+            () => resolve(null),
+            { enableHighAccuracy: true, timeout: timeoutMs }
+        );
+    });
+}
 
-    } catch (error) {
-        console.error('Error checking in:', error);
-        return {
-            success: false,
-            error: error instanceof Error ? error.message : 'Błąd podczas rozpoczynania usługi'
-        };
-    }
+/**
+ * Host rozpoczyna usługę (check-in)
+ * Pozycja porównywana z serviceLocation - wynik w booking.checkInVerification
+ */
+export async function checkIn(
+    bookingId: string,
+    position?: CheckInPosition | null
+): Promise<BookingActionResult> {
+    return callBookingAction('bookingCheckIn', { bookingId, position }, 'Błąd podczas rozpoczynania usługi');
 }
 
 /**
@@ -340,180 +320,171 @@ export async function checkIn(
  */
 export async function checkOut(
     bookingId: string,
-    hostId: string
+    position?: CheckInPosition | null
 ): Promise<BookingActionResult> {
-    if (!db) {
-        return { success: false, error: 'Baza danych niedostępna' };
-    }
-
-    try {
-        const bookingRef = doc(db, 'bookings', bookingId);
-
-        await runTransaction(db, async (transaction) => {
-            const bookingSnap = await transaction.get(bookingRef);
-
-            if (!bookingSnap.exists()) {
-                throw new Error('Rezerwacja nie istnieje');
-            }
-
-            const booking = bookingSnap.data() as Booking;
-
-            const validation = canUserPerformAction(hostId, booking, 'check_out');
-            if (!validation.allowed) {
-                throw new Error(validation.reason);
-            }
-
-            if (!isValidTransition(booking.status, 'COMPLETED')) {
-                throw new Error('Nieprawidłowe przejście statusu');
-            }
-
-            const now = Timestamp.now();
-
-            // Oblicz okno recenzji (14 dni)
-            const reviewWindowEnd = new Date();
-            reviewWindowEnd.setDate(reviewWindowEnd.getDate() + 14);
-
-            transaction.update(bookingRef, {
-                status: 'COMPLETED',
-                checkOut: now,
-                reviewWindowEndsAt: Timestamp.fromDate(reviewWindowEnd),
-                statusHistory: [...booking.statusHistory, {
-                    status: 'COMPLETED',
-                    changedAt: now,
-                    changedBy: hostId
-                }],
-                updatedAt: now
-            });
-        });
-
-        return { success: true, bookingId, newStatus: 'COMPLETED' };
+    return callBookingAction('bookingCheckOut', { bookingId, position }, 'Błąd podczas kończenia usługi');
+}
 
-    } catch (error) {
-        console.error('Error checking out:', error);
-        return {
-            success: false,
-            error: error instanceof Error ? error.message : 'Błąd podczas kończenia usługi'
-        };
-    }
+/**
+ * Host zgłasza nieobecność klienta (min. 15 min po terminie, na miejscu)
+ * Nieobecność hosta wykrywa Cloud Function `detectHostNoShows`
+ */
+export async function reportClientNoShow(
+    bookingId: string,
+    position?: CheckInPosition | null
+): Promise<BookingActionResult> {
+    return callBookingAction('bookingReportNoShow', { bookingId, position }, 'Błąd podczas zgłaszania nieobecności');
 }
 
 /**
  * Anulowanie rezerwacji
+ * Zwrot wylicza serwer wg polityki anulowania (calculateRefund w functions)
  */
 export async function cancelBooking(
     bookingId: string,
-    userId: string,
     reason?: string
 ): Promise<BookingActionResult> {
-    if (!db) {
-        return { success: false, error: 'Baza danych niedostępna' };
-    }
-
-    try {
-        const bookingRef = doc(db, 'bookings', bookingId);
-
-        await runTransaction(db, async (transaction) => {
-            const bookingSnap = await transaction.get(bookingRef);
-
-            if (!bookingSnap.exists()) {
-                throw new Error('Rezerwacja nie istnieje');
-            }
-
-            const booking = bookingSnap.data() as Booking;
-
-            const validation = canUserPerformAction(userId, booking, 'cancel');
-            if (!validation.allowed) {
-                throw new Error(validation.reason);
-            }
-
-            const isClient = userId === booking.clientId;
-            const newStatus: BookingStatus = isClient ? 'CANCELED_BY_GUEST' : 'CANCELED_BY_HOST';
-
-            if (!isValidTransition(booking.status, newStatus)) {
-                throw new Error('Nie można anulować rezerwacji w tym stanie');
-            }
-
-            const now = Timestamp.now();
+    return callBookingAction('bookingCancel', { bookingId, reason }, 'Błąd podczas anulowania');
+}
 
-            transaction.update(bookingRef, {
-                status: newStatus,
-                statusHistory: [...booking.statusHistory, {
-                    status: newStatus,
-                    changedAt: now,
-                    changedBy: userId,
-                    reason: reason
-                }],
-                updatedAt: now
-            });
-        });
+// ===========================================
+// RESCHEDULE
+// ===========================================
 
-        const isClient = true; // Uproszczenie - sprawdzić w prawdziwej implementacji
-        const newStatus: BookingStatus = isClient ? 'CANCELED_BY_GUEST' : 'CANCELED_BY_HOST';
+/**
+ * Czy rezerwacja ma oczekującą propozycję zmiany terminu
+ */
+export function isReschedulePending(booking: Booking, now: Date = new Date()): boolean {
+    return booking.reschedule?.status === 'pending' &&
+        booking.reschedule.expiresAt.toDate() > now;
+}
 
-        return { success: true, bookingId, newStatus };
+/**
+ * Propozycja nowego terminu (klient lub fachowiec, tylko CONFIRMED).
+ * Wysłana w odpowiedzi na propozycję drugiej strony działa jak kontrpropozycja.
+ */
+export async function requestReschedule(
+    bookingId: string,
+    proposedDate: Date
+): Promise<BookingActionResult> {
+    return callBookingAction('bookingRequestReschedule', {
+        bookingId,
+        proposedDate: proposedDate.toISOString()
+    }, 'Błąd podczas zmiany terminu');
+}
 
-    } catch (error) {
-        console.error('Error canceling booking:', error);
-        return {
-            success: false,
-            error: error instanceof Error ? error.message : 'Błąd podczas anulowania'
-        };
-    }
+/**
+ * Akceptacja lub odrzucenie propozycji zmiany terminu
+ */
+export async function respondToReschedule(
+    bookingId: string,
+    accept: boolean
+): Promise<BookingActionResult> {
+    return callBookingAction('bookingRespondReschedule', { bookingId, accept }, 'Błąd podczas zmiany terminu');
 }
 
 // ===========================================
-// GENERIC STATUS TRANSITION
+// ADDITIONAL CHARGES
 // ===========================================
 
 /**
- * Generyczna funkcja przejścia statusu z walidacją
+ * Fachowiec dolicza dodatkową pracę w trakcie usługi (ACTIVE).
+ * Klient dostaje w czacie wiadomość payment_request do akceptacji.
  */
-async function transitionStatus(
+export async function addAdditionalCharge(
     bookingId: string,
-    newStatus: BookingStatus,
-    triggeredBy: string
+    description: string,
+    amount: number
 ): Promise<BookingActionResult> {
-    if (!db) {
-        return { success: false, error: 'Baza danych niedostępna' };
-    }
+    return callBookingAction('bookingAddCharge', { bookingId, description, amount }, 'Błąd podczas dodawania dopłaty');
+}
 
-    try {
-        const bookingRef = doc(db, 'bookings', bookingId);
+/**
+ * Klient akceptuje lub odrzuca dopłatę (przed checkOut)
+ */
+export async function respondToAdditionalCharge(
+    bookingId: string,
+    chargeId: string,
+    approve: boolean
+): Promise<BookingActionResult> {
+    return callBookingAction('bookingRespondCharge', { bookingId, chargeId, approve }, 'Błąd podczas odpowiedzi na dopłatę');
+}
 
-        await runTransaction(db, async (transaction) => {
-            const bookingSnap = await transaction.get(bookingRef);
+// ===========================================
+// RECURRING (sprzątanie, ogrodnik)
+// ===========================================
 
-            if (!bookingSnap.exists()) {
-                throw new Error('Rezerwacja nie istnieje');
-            }
+/**
+ * Klient zakłada cykl wizyt - czeka na akceptację fachowca
+ */
+export async function createBookingSeries(
+    input: CreateBookingSeriesInput
+): Promise<BookingActionResult> {
+    return callBookingAction('bookingCreateSeries', {
+        ...input,
+        startDate: input.startDate.toISOString(),
+        endDate: input.endDate?.toISOString()
+    }, 'Błąd podczas tworzenia cyklu wizyt');
+}
 
-            const booking = bookingSnap.data() as Booking;
+/**
+ * Fachowiec akceptuje lub odrzuca cykl wizyt
+ */
+export async function respondToBookingSeries(
+    seriesId: string,
+    accept: boolean
+): Promise<BookingActionResult> {
+    return callBookingAction('bookingRespondSeries', { seriesId, accept }, 'Błąd podczas odpowiedzi na cykl wizyt');
+}
 
-            if (!isValidTransition(booking.status, newStatus)) {
-                throw new Error(`Nieprawidłowe przejście: ${booking.status} → ${newStatus}`);
-            }
+/**
+ * Odwołanie jednej wizyty z cyklu (zwrot wg polityki dla tej wizyty)
+ * occurrenceDate - "2024-01-15", jak Booking.occurrenceDate
+ */
+export async function cancelSeriesOccurrence(
+    seriesId: string,
+    occurrenceDate: string,
+    reason?: string
+): Promise<BookingActionResult> {
+    return callBookingAction('bookingCancelOccurrence', { seriesId, occurrenceDate, reason }, 'Błąd podczas odwoływania wizyty');
+}
 
-            const now = Timestamp.now();
+/**
+ * Anulowanie całego cyklu - każda przyszła wizyta anulowana osobno
+ */
+export async function cancelBookingSeries(
+    seriesId: string,
+    reason?: string
+): Promise<BookingActionResult> {
+    return callBookingAction('bookingCancelSeries', { seriesId, reason }, 'Błąd podczas anulowania cyklu wizyt');
+}
 
-            transaction.update(bookingRef, {
-                status: newStatus,
-                statusHistory: [...booking.statusHistory, {
-                    status: newStatus,
-                    changedAt: now,
-                    changedBy: triggeredBy
-                }],
-                updatedAt: now
-            });
-        });
+// ===========================================
+// AUDIT LOG
+// ===========================================
 
-        return { success: true, bookingId, newStatus };
+/** Wynik weryfikacji łańcucha zdarzeń rezerwacji */
+export interface BookingEventsReport {
+    bookingId: string;
+    valid: boolean;
+    eventCount: number;
+    breaks: { seq: number; reason: string }[];
+}
 
+/**
+ * Sprawdza integralność dziennika zdarzeń rezerwacji (spory, wsparcie)
+ * Hashe przelicza backend - zwraca null, gdy weryfikacja się nie powiodła
+ */
+export async function verifyBookingEvents(bookingId: string): Promise<BookingEventsReport | null> {
+    if (!functions) return null;
+
+    try {
+        const callable = httpsCallable<{ bookingId: string }, BookingEventsReport>(functions, 'bookingVerifyEvents');
+        const { data } = await callable({ bookingId });
+        return data;
     } catch (error) {
-        console.error('Error transitioning status:', error);
-        return {
-            success: false,
-            error: error instanceof Error ? error.message : 'Błąd podczas zmiany statusu'
-        };
+        console.error('Error in bookingVerifyEvents:', error);
+        return null;
     }
 }
 
@@ -521,13 +492,5 @@ async function transitionStatus(
 // SCHEDULING (dla 24h timeout)
 // ===========================================
 
-/**
- * Sprawdza i wygasza rezerwacje PENDING_APPROVAL starsze niż 24h
- * Powinno być wywoływane przez Cloud Scheduler
- */
-export async function expirePendingBookings(): Promise<number> {
-    // Ta funkcja powinna być zaimplementowana jako Cloud Function
-    // Tu tylko sygnatura dla dokumentacji
-    console.warn('expirePendingBookings should be implemented as Cloud Function');
-    return 0;
-}
+// Wygaszanie rezerwacji PENDING_APPROVAL starszych niż 24h realizuje
+// Cloud Function `expirePendingBookings` (functions/src/bookingExpiry.ts)
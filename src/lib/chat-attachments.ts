@@ -0,0 +1,88 @@
+/**
+ * Chat attachments - limits, Storage paths and client-side image resizing
+ *
+ * Photos are stored under chats/{chatId}/{uid}/ - storage.rules lets only
+ * the chat's participants read them (and only the sender write, up to
+ * MAX_CHAT_UPLOAD_BYTES). Limits below must match storage.rules.
+ */
+
+/** Largest photo a user may pick (before compression) */
+export const MAX_CHAT_IMAGE_BYTES = 15 * 1024 * 1024;
+
+/** Largest upload accepted by storage.rules (after compression) */
+export const MAX_CHAT_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+/** Longer edge of the stored photo / thumbnail (px) */
+export const MAX_CHAT_IMAGE_DIMENSION = 1600;
+export const CHAT_THUMBNAIL_DIMENSION = 320;
+
+/** How long a live location is shared */
+export const LIVE_LOCATION_MINUTES = 30;
+
+/** Minimum time between live location writes */
+export const LIVE_LOCATION_INTERVAL_MS = 30 * 1000;
+
+const JPEG_QUALITY = 0.82;
+
+export interface ResizedImage {
+    blob: Blob;
+    width: number;
+    height: number;
+}
+
+/**
+ * Checks a picked file before upload
+ * @returns Polish error message or null
+ */
+export function validateChatImage(file: File): string | null {
+    if (!file.type.startsWith('image/')) {
+        return 'Można wysłać tylko zdjęcie';
+    }
+    if (file.size > MAX_CHAT_IMAGE_BYTES) {
+        return `Zdjęcie jest za duże (max ${MAX_CHAT_IMAGE_BYTES / 1024 / 1024} MB)`;
+    }
+    return null;
+}
+
+/**
+ * Storage path of a chat photo: chats/{chatId}/{uid}/{id}[_thumb].jpg
+ */
+export function chatImagePath(chatId: string, uid: string, id: string, thumbnail = false): string {
+    return `chats/${chatId}/${uid}/${id}${thumbnail ? '_thumb' : ''}.jpg`;
+}
+
+/**
+ * Scales an image down so its longer edge is at most maxDimension and
+ * re-encodes it as JPEG (also strips EXIF, incl. GPS)
+ */
+export async function resizeImage(file: Blob, maxDimension: number): Promise<ResizedImage> {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+        bitmap.close();
+        throw new Error('Nie udało się przetworzyć zdjęcia');
+    }
+    context.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+    if (!blob) {
+        throw new Error('Nie udało się przetworzyć zdjęcia');
+    }
+
+    return { blob, width, height };
+}
+
+/**
+ * Google Maps link for a shared location
+ */
+export function mapsUrl(lat: number, lng: number): string {
+    return `https://www.google.com/maps/search/?api=1&query=${lat},${lng}`;
+}
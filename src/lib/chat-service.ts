@@ -1,4 +1,5 @@
-import { db } from "./firebase";
+import { db, functions } from "./firebase";
+import { httpsCallable } from "firebase/functions";
 import {
     collection,
     query,
@@ -10,47 +11,26 @@ import {
     where,
     doc,
     updateDoc,
-    increment,
-    setDoc
+    getDoc,
+    deleteField
 } from "firebase/firestore";
-
-// ===========================================
-// TYPES
-// ===========================================
-
-export interface Chat {
-    id: string;
-    jobId?: string;
-    jobTitle?: string;
-    clientId: string;
-    clientName: string;
-    professionalId?: string;
-    professionalName?: string;
-    participantIds: string[];
-    lastMessage: string;
-    lastMessageAt: any;
-    unreadCount: {
-        client: number;
-        professional: number;
-    };
-    status: 'open' | 'negotiating' | 'accepted' | 'completed';
-    createdAt: any;
-}
-
-export interface Message {
-    id: string;
-    content: string;
-    senderId: string;
-    senderName: string;
-    senderRole: 'client' | 'professional' | 'system';
-    type: 'text' | 'proposal' | 'system';
-    createdAt: any;
-    proposalData?: {
-        price: number;
-        message: string;
-        providerId: string;
-    };
-}
+import {
+    BookingStatus,
+    Chat,
+    ChatAttachment,
+    ChatMessage,
+    LiveLocation,
+    bookingConverter,
+    chatConverter,
+    chatMessageConverter
+} from "@/types/firestore-v2";
+
+/** Booking statuses from which the parties may exchange contact details */
+const CONTACT_SHARING_STATUSES: BookingStatus[] = ['CONFIRMED', 'ACTIVE', 'COMPLETED'];
+
+// Kanoniczny model czatu: Chat / ChatMessage w types/firestore-v2.ts.
+// Konwertery normalizują też dokumenty w starym kształcie.
+export type { Chat, ChatAttachment, ChatMessage } from "@/types/firestore-v2";
 
 // ===========================================
 // SIMPLIFIED CHAT SERVICE
@@ -67,18 +47,14 @@ export const ChatService = {
         }
 
         const q = query(
-            collection(db as Firestore, "chats"),
+            collection(db as Firestore, "chats").withConverter(chatConverter),
             where("participantIds", "array-contains", userId),
             orderBy("lastMessageAt", "desc"),
             limit(50)
         );
 
         return onSnapshot(q, (snapshot) => {
-            const chats = snapshot.docs.map(doc => ({
-                id: doc.id,
-                ...doc.data()
-            } as Chat));
-            callback(chats);
+            callback(snapshot.docs.map(doc => doc.data()));
         }, (error) => {
             console.error("Error fetching chats:", error);
             callback([]);
@@ -88,24 +64,20 @@ export const ChatService = {
     /**
      * Subscribe to messages in a specific chat (real-time)
      */
-    subscribeToMessages: (chatId: string, callback: (messages: Message[]) => void) => {
+    subscribeToMessages: (chatId: string, callback: (messages: ChatMessage[]) => void) => {
         if (!db) {
             callback([]);
             return () => { };
         }
 
         const q = query(
-            collection(db as Firestore, `chats/${chatId}/messages`),
+            collection(db as Firestore, `chats/${chatId}/messages`).withConverter(chatMessageConverter),
             orderBy("createdAt", "asc"),
             limit(100)
         );
 
         return onSnapshot(q, (snapshot) => {
-            const messages = snapshot.docs.map(doc => ({
-                id: doc.id,
-                ...doc.data()
-            } as Message));
-            callback(messages);
+            callback(snapshot.docs.map(doc => doc.data()));
         }, (error) => {
             console.error("Error fetching messages:", error);
             callback([]);
@@ -113,73 +85,153 @@ export const ChatService = {
     },
 
     /**
-     * Send a message to a chat
-     * Step 1: Add message (always succeeds if auth + senderId match)
-     * Step 2: Try to update chat metadata (may fail if user not in participantIds yet)
+     * Send a message to a chat (text and/or an image / location attachment)
+     * Goes through chatSendMessage: sender and role come from the auth
+     * token and contact details are masked before the message is written
+     * (until the booking is confirmed). Chat metadata is updated there too.
+     * @returns id of the message or null
      */
     sendMessage: async (
         chatId: string,
         message: {
             content: string;
-            senderId: string;
             senderName: string;
-            senderRole: 'client' | 'professional';
+            attachments?: ChatAttachment[];
         }
     ) => {
-        if (!db) return null;
+        if (!functions) return null;
+
+        try {
+            const send = httpsCallable<
+                { chatId: string; content: string; senderName: string; attachments?: ChatAttachment[] },
+                { messageId: string; maskedContacts: string[] }
+            >(functions, 'chatSendMessage');
+            const { data } = await send({ chatId, ...message });
 
-        // Ensure senderRole has a valid value
-        const role = message.senderRole === 'professional' ? 'professional' : 'client';
+            return data.messageId;
+        } catch (error) {
+            console.error("Error sending message:", error);
+            return null;
+        }
+    },
+
+    /**
+     * Whether the booking behind a chat is confirmed - from then on the
+     * parties may exchange contact details (mirror of contactSharingAllowed
+     * in functions/src/lib/contactGuard.ts)
+     */
+    isContactSharingAllowed: async (chat: Pick<Chat, 'bookingId' | 'seriesId' | 'jobId'>): Promise<boolean> => {
+        if (!db) return false;
 
         try {
-            // Step 1: Add message - this should always work with proper rules
-            const msgRef = doc(collection(db as Firestore, `chats/${chatId}/messages`));
-            await setDoc(msgRef, {
-                id: msgRef.id,
-                content: message.content,
-                senderId: message.senderId,
-                senderName: message.senderName,
-                senderRole: role,
-                type: 'text',
-                createdAt: serverTimestamp()
-            });
+            if (chat.seriesId) {
+                const seriesSnap = await getDoc(doc(db as Firestore, 'booking_series', chat.seriesId));
+                return seriesSnap.data()?.status === 'active';
+            }
 
-            // Step 2: Try to update chat metadata (may fail if user not in participantIds)
-            try {
-                const otherRole = role === 'client' ? 'professional' : 'client';
-                await updateDoc(doc(db as Firestore, 'chats', chatId), {
-                    lastMessage: message.content.substring(0, 100),
-                    lastMessageAt: serverTimestamp(),
-                    [`unreadCount.${otherRole}`]: increment(1)
-                });
-            } catch (updateError) {
-                // Chat metadata update failed (user might not be in participantIds yet)
-                // This is OK - message was still sent successfully
-                console.warn("Could not update chat metadata (user may not be participant yet):", updateError);
+            let bookingId = chat.bookingId;
+            if (!bookingId && chat.jobId) {
+                const jobSnap = await getDoc(doc(db as Firestore, 'jobs', chat.jobId));
+                bookingId = jobSnap.data()?.bookingId;
             }
+            if (!bookingId) return false;
 
-            return msgRef.id;
+            const bookingSnap = await getDoc(doc(db as Firestore, 'bookings', bookingId).withConverter(bookingConverter));
+            const status = bookingSnap.data()?.status;
+            return !!status && CONTACT_SHARING_STATUSES.includes(status);
         } catch (error) {
-            console.error("Error sending message:", error);
+            console.error("Error checking booking status:", error);
+            return false;
+        }
+    },
+
+    /**
+     * Service address of a booking chat (destination for the live ETA)
+     */
+    getServiceLocation: async (bookingId: string): Promise<{ lat: number; lng: number } | null> => {
+        if (!db) return null;
+
+        try {
+            const snap = await getDoc(doc(db as Firestore, 'bookings', bookingId).withConverter(bookingConverter));
+            const location = snap.data()?.serviceLocation;
+            return location ? { lat: location.lat, lng: location.lng } : null;
+        } catch (error) {
+            console.error("Error fetching service location:", error);
             return null;
         }
     },
 
     /**
-     * Mark chat as read for a specific role
+     * Publish / refresh the sender's live location (chats/{chatId}.liveLocations.{uid})
+     */
+    updateLiveLocation: async (chatId: string, userId: string, location: Omit<LiveLocation, 'updatedAt'>) => {
+        if (!db) return;
+
+        try {
+            await updateDoc(doc(db as Firestore, 'chats', chatId), {
+                [`liveLocations.${userId}`]: { ...location, updatedAt: serverTimestamp() }
+            });
+        } catch (error) {
+            console.error("Error updating live location:", error);
+        }
+    },
+
+    /**
+     * Stop sharing the live location
      */
-    markAsRead: async (chatId: string, role: 'client' | 'professional') => {
+    stopLiveLocation: async (chatId: string, userId: string) => {
         if (!db) return;
 
         try {
             await updateDoc(doc(db as Firestore, 'chats', chatId), {
-                [`unreadCount.${role}`]: 0
+                [`liveLocations.${userId}`]: deleteField()
             });
+        } catch (error) {
+            console.error("Error stopping live location:", error);
+        }
+    },
+
+    /**
+     * Mark chat as read by the current user
+     * Moves the user's read cursor, resets their unread counter and sets
+     * read receipts on the other participants' messages (server-side)
+     */
+    markAsRead: async (chatId: string) => {
+        if (!functions) return;
+
+        try {
+            const markRead = httpsCallable<{ chatId: string }, { readAt: number; receipted: number }>(
+                functions,
+                'chatMarkRead'
+            );
+            await markRead({ chatId });
         } catch (error) {
             console.error("Error marking as read:", error);
         }
     },
 
+    /**
+     * Subscribe to the user's total unread count across all chats (real-time)
+     */
+    subscribeToUnreadTotal: (userId: string, callback: (total: number) => void) => {
+        if (!db) {
+            callback(0);
+            return () => { };
+        }
+
+        const q = query(
+            collection(db as Firestore, "chats").withConverter(chatConverter),
+            where("participantIds", "array-contains", userId)
+        );
+
+        return onSnapshot(q, (snapshot) => {
+            callback(snapshot.docs.reduce((total, doc) => total + (doc.data().unreadCount[userId] || 0), 0));
+        }, (error) => {
+            console.error("Error fetching unread count:", error);
+            callback(0);
+        });
+    },
+
     /**
      * Get chat metadata (one-time fetch)
      */
@@ -189,12 +241,8 @@ export const ChatService = {
             return () => { };
         }
 
-        return onSnapshot(doc(db as Firestore, 'chats', chatId), (snapshot) => {
-            if (snapshot.exists()) {
-                callback({ id: snapshot.id, ...snapshot.data() } as Chat);
-            } else {
-                callback(null);
-            }
+        return onSnapshot(doc(db as Firestore, 'chats', chatId).withConverter(chatConverter), (snapshot) => {
+            callback(snapshot.exists() ? snapshot.data() : null);
         });
     }
 };
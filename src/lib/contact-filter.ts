@@ -0,0 +1,92 @@
+/**
+ * Contact-detail filter for chat messages - mirror of
+ * functions/src/lib/contactFilter.ts (keep in sync)
+ *
+ * Deterministic (no AI): finds Polish phone numbers, e-mail addresses and
+ * IBANs, including obfuscated variants ("pięć-zero-jeden...", "jan (at) wp
+ * kropka pl"), and masks them. Used before a booking is CONFIRMED so that
+ * client and pro cannot take the deal off the platform.
+ */
+
+export type ContactKind = "phone" | "email" | "iban";
+
+export interface ContactFilterResult {
+    content: string;
+    kinds: ContactKind[];
+}
+
+export const CONTACT_MASK = "[dane kontaktowe ukryte]";
+
+/** Polish digit words (with and without diacritics) */
+const DIGIT_WORDS: Record<string, string> = {
+    zero: "0",
+    jeden: "1", jedna: "1", jedynka: "1",
+    dwa: "2", dwie: "2", "dwójka": "2", dwojka: "2",
+    trzy: "3", "trójka": "3", trojka: "3",
+    cztery: "4", "czwórka": "4", czworka: "4",
+    "pięć": "5", piec: "5", "piątka": "5", piatka: "5",
+    "sześć": "6", szesc: "6", "szóstka": "6", szostka: "6",
+    siedem: "7", "siódemka": "7", siodemka: "7",
+    osiem: "8", "ósemka": "8", osemka: "8",
+    "dziewięć": "9", dziewiec: "9", "dziewiątka": "9", dziewiatka: "9"
+};
+
+// Longest words first so "jedynka" wins over "jeden"
+const DIGIT_UNIT = `(?:\\d+|${Object.keys(DIGIT_WORDS).sort((a, b) => b.length - a.length).join("|")})`;
+const DIGIT_SEPARATOR = "[\\s\\-–—./()_*|]*";
+
+/** +48 / 0048 prefix, then digit units separated by spaces, dashes, dots... */
+const PHONE_PATTERN = new RegExp(`(?:\\+|00)?${DIGIT_UNIT}(?:${DIGIT_SEPARATOR}${DIGIT_UNIT})*`, "giu");
+
+/** PL IBAN: (PL) + 26 digits, optionally grouped by 4 */
+const IBAN_PATTERN = /\b(?:PL[\s-]?)?\d{2}(?:[\s-]?\d{4}){6}\b/gi;
+
+/** name@domain.tld, also "(at)", "[at]", "małpa" and "kropka" / "(dot)" */
+const EMAIL_PATTERN = new RegExp(
+    "[a-z0-9._%+-]+\\s*(?:@|\\(at\\)|\\[at\\]|\\s(?:at|małpa|malpa)\\s)\\s*" +
+    "[a-z0-9-]+(?:\\s*(?:\\.|\\(dot\\)|\\[dot\\]|\\s(?:dot|kropka)\\s)\\s*[a-z0-9-]+)*" +
+    "\\s*(?:\\.|\\(dot\\)|\\[dot\\]|\\s(?:dot|kropka)\\s)\\s*[a-z]{2,}",
+    "giu"
+);
+
+/** 9 digits (PL number), up to 11 with the 48 country code */
+const MIN_PHONE_DIGITS = 9;
+const MAX_PHONE_DIGITS = 11;
+
+function digitsOf(match: string): string {
+    return (match.toLowerCase().match(new RegExp(DIGIT_UNIT, "giu")) || [])
+        .map(unit => DIGIT_WORDS[unit] ?? unit)
+        .join("");
+}
+
+function isPhoneNumber(match: string): boolean {
+    let digits = digitsOf(match);
+    if (digits.startsWith("0048")) digits = digits.slice(2);
+    if (digits.length > MIN_PHONE_DIGITS && digits.startsWith("48")) digits = digits.slice(2);
+    return digits.length >= MIN_PHONE_DIGITS && digits.length <= MAX_PHONE_DIGITS;
+}
+
+/**
+ * Masks contact details in a message
+ * @returns masked content and what was found (empty = message is clean)
+ */
+export function maskContactDetails(content: string): ContactFilterResult {
+    const kinds = new Set<ContactKind>();
+    let masked = content;
+
+    masked = masked.replace(IBAN_PATTERN, () => {
+        kinds.add("iban");
+        return CONTACT_MASK;
+    });
+    masked = masked.replace(EMAIL_PATTERN, () => {
+        kinds.add("email");
+        return CONTACT_MASK;
+    });
+    masked = masked.replace(PHONE_PATTERN, (match) => {
+        if (!isPhoneNumber(match)) return match;
+        kinds.add("phone");
+        return CONTACT_MASK;
+    });
+
+    return { content: masked, kinds: Array.from(kinds) };
+}
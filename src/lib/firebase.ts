@@ -1,6 +1,7 @@
 import { initializeApp, getApps, getApp, FirebaseApp } from "firebase/app";
 import { getFirestore, Firestore } from "firebase/firestore";
 import { getAuth, Auth } from "firebase/auth";
+import { getFunctions, Functions } from "firebase/functions";
 import { getAnalytics, Analytics, isSupported } from "firebase/analytics";
 
 const firebaseConfig = {
@@ -17,6 +18,7 @@ const firebaseConfig = {
 let app: FirebaseApp | null = null;
 let db: Firestore | null = null;
 let auth: Auth | null = null;
+let functions: Functions | null = null;
 let analytics: Analytics | null = null;
 
 // Initialize Firebase if config is present (works on both client and server for API routes)
@@ -25,6 +27,7 @@ if (firebaseConfig.apiKey) {
         app = !getApps().length ? initializeApp(firebaseConfig) : getApp();
         db = getFirestore(app);
         auth = getAuth(app);
+        functions = getFunctions(app);
 
         // Initialize Analytics conditionally (browser only)
         if (typeof window !== "undefined") {
@@ -38,4 +41,4 @@ if (firebaseConfig.apiKey) {
     }
 }
 
-export { app, db, auth, analytics };
+export { app, db, auth, functions, analytics };
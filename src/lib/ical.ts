@@ -0,0 +1,492 @@
+/**
+ * iCalendar (RFC 5545) import
+ *
+ * Turns an .ics file exported from Google / Apple / Outlook calendar into
+ * busy intervals for the provider's schedule (ProviderSchedule.blockedRanges).
+ * Only times are kept - summaries and attendees never leave the browser.
+ *
+ * Supported: VEVENT with DTSTART + DTEND / DURATION, all-day events,
+ * UTC, floating and TZID times (IANA or common Windows zone names),
+ * RRULE (DAILY / WEEKLY / MONTHLY / YEARLY with INTERVAL, COUNT, UNTIL,
+ * BYDAY incl. ordinals, BYMONTHDAY, BYMONTH), EXDATE and RECURRENCE-ID
+ * overrides. Cancelled and transparent ("free") events are skipped.
+ * VTIMEZONE blocks are ignored - zones are resolved by name via Intl.
+ */
+
+import { TIME_ZONE, dayOfWeekOf, fromLocalTime, shiftDateStr } from '@/lib/local-time';
+
+export interface BusyInterval {
+    start: Date;
+    end: Date;
+}
+
+interface IcsProperty {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+}
+
+/** Wall-clock time of an event; time = null for all-day values */
+interface IcsDateTime {
+    date: string;          // "2024-01-15"
+    time: string | null;   // "09:30"
+    utc: boolean;
+    timeZone: string;
+}
+
+interface IcsEvent {
+    uid: string;
+    start: IcsDateTime;
+    end?: IcsDateTime;
+    duration?: string;
+    rrule?: Record<string, string>;
+    exdates: IcsDateTime[];
+    recurrenceId?: IcsDateTime;
+    skipped: boolean;      // STATUS:CANCELLED or TRANSP:TRANSPARENT
+}
+
+interface WeekdayRule {
+    weekday: number;       // 0 = Sunday
+    ordinal: number;       // 0 = every, 2 = second, -1 = last
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Zone names used by Outlook / Exchange instead of IANA ids */
+const WINDOWS_TIME_ZONES: Record<string, string> = {
+    'Central European Standard Time': 'Europe/Warsaw',
+    'Central Europe Standard Time': 'Europe/Budapest',
+    'W. Europe Standard Time': 'Europe/Berlin',
+    'Romance Standard Time': 'Europe/Paris',
+    'GMT Standard Time': 'Europe/London',
+    'FLE Standard Time': 'Europe/Kiev',
+    'E. Europe Standard Time': 'Europe/Chisinau',
+    'Russian Standard Time': 'Europe/Moscow',
+    'Eastern Standard Time': 'America/New_York',
+    'Pacific Standard Time': 'America/Los_Angeles',
+    'UTC': 'UTC'
+};
+
+// ===========================================
+// LEXING
+// ===========================================
+
+/** Splits into content lines and joins folded continuation lines */
+function unfoldLines(text: string): string[] {
+    const lines: string[] = [];
+    for (const raw of text.split(/\r\n|\n|\r/)) {
+        if ((raw.startsWith(' ') || raw.startsWith('\t')) && lines.length > 0) {
+            lines[lines.length - 1] += raw.slice(1);
+        } else if (raw.trim().length > 0) {
+            lines.push(raw);
+        }
+    }
+    return lines;
+}
+
+/** NAME;PARAM=VALUE;PARAM="quoted:value":value */
+function parseProperty(line: string): IcsProperty | null {
+    let inQuotes = false;
+    let colon = -1;
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') inQuotes = !inQuotes;
+        else if (line[i] === ':' && !inQuotes) {
+            colon = i;
+            break;
+        }
+    }
+    if (colon < 0) return null;
+
+    const [name, ...rawParams] = line.slice(0, colon).split(';');
+    const params: Record<string, string> = {};
+    for (const param of rawParams) {
+        const eq = param.indexOf('=');
+        if (eq > 0) {
+            params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+        }
+    }
+
+    return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+// ===========================================
+// DATES & TIME ZONES
+// ===========================================
+
+function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-GB', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * TZID → IANA zone. Floating times and unknown zones fall back to
+ * Polish time, the zone schedules are kept in.
+ */
+function resolveTimeZone(tzid: string | undefined): string {
+    if (!tzid) return TIME_ZONE;
+    if (WINDOWS_TIME_ZONES[tzid]) return WINDOWS_TIME_ZONES[tzid];
+
+    // "/mozilla.org/20050126_1/Europe/Warsaw" and similar prefixes
+    const iana = /[A-Za-z_]+\/[A-Za-z_-]+(?:\/[A-Za-z_-]+)?$/.exec(tzid)?.[0] || tzid;
+    return isValidTimeZone(iana) ? iana : TIME_ZONE;
+}
+
+/** 20240115 | 20240115T093000 | 20240115T093000Z */
+function parseDateTime(value: string, params: Record<string, string>): IcsDateTime | null {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+    if (!match) return null;
+
+    const [, year, month, day, hour, minute, , utc] = match;
+    return {
+        date: `${year}-${month}-${day}`,
+        time: hour && params.VALUE !== 'DATE' ? `${hour}:${minute}` : null,
+        utc: Boolean(utc),
+        timeZone: resolveTimeZone(params.TZID)
+    };
+}
+
+/** EXDATE / RDATE values may be comma-separated lists */
+function parseDateTimeList(property: IcsProperty): IcsDateTime[] {
+    return property.value.split(',')
+        .map(value => parseDateTime(value, property.params))
+        .filter((dt): dt is IcsDateTime => dt !== null);
+}
+
+/** Absolute time of a wall-clock value; all-day values start at local midnight */
+function toMillis(dt: IcsDateTime): number {
+    if (!dt.time) return fromLocalTime(dt.date, '00:00').getTime();
+    if (dt.utc) {
+        const [year, month, day] = dt.date.split('-').map(Number);
+        const [hour, minute] = dt.time.split(':').map(Number);
+        return Date.UTC(year, month - 1, day, hour, minute);
+    }
+    return fromLocalTime(dt.date, dt.time, dt.timeZone).getTime();
+}
+
+/** ISO 8601 duration (P1W, P1D, PT1H30M) split into nominal days and exact millis */
+function parseDuration(value: string): { days: number; ms: number } | null {
+    const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+    if (!match) return null;
+
+    const [, sign, weeks, days, hours, minutes, seconds] = match;
+    const factor = sign === '-' ? -1 : 1;
+    return {
+        days: factor * (Number(weeks || 0) * 7 + Number(days || 0)),
+        ms: factor * (Number(hours || 0) * 3600 + Number(minutes || 0) * 60 + Number(seconds || 0)) * 1000
+    };
+}
+
+function dayNumber(dateStr: string): number {
+    const [year, month, day] = dateStr.split('-').map(Number);
+    return Date.UTC(year, month - 1, day) / DAY_MS;
+}
+
+function daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// ===========================================
+// RECURRENCE
+// ===========================================
+
+function parseRule(value: string): Record<string, string> {
+    const rule: Record<string, string> = {};
+    for (const part of value.split(';')) {
+        const [key, ruleValue] = part.split('=');
+        if (key && ruleValue) rule[key.toUpperCase()] = ruleValue.toUpperCase();
+    }
+    return rule;
+}
+
+/** MO, 2TU, -1FR */
+function parseWeekdays(value: string | undefined): WeekdayRule[] | null {
+    if (!value) return null;
+    return value.split(',').flatMap(code => {
+        const match = /^([+-]?\d+)?(SU|MO|TU|WE|TH|FR|SA)$/.exec(code.trim());
+        return match ? [{ weekday: WEEKDAY_CODES.indexOf(match[2]), ordinal: Number(match[1] || 0) }] : [];
+    });
+}
+
+function parseNumbers(value: string | undefined): number[] | null {
+    if (!value) return null;
+    return value.split(',').map(Number).filter(n => Number.isInteger(n) && n !== 0);
+}
+
+/**
+ * Local dates of a recurring event from DTSTART up to `lastDate`.
+ * Steps by FREQ/INTERVAL and checks only the candidate days of each
+ * period (a yearly birthday from 1980 is ~50 steps, not ~17 000 days).
+ * Unsupported frequencies yield DTSTART only.
+ */
+function expandDates(start: IcsDateTime, rule: Record<string, string>, lastDate: string): string[] {
+    const freq = rule.FREQ;
+    if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) return [start.date];
+
+    const interval = Math.max(1, Number(rule.INTERVAL) || 1);
+    const count = Number(rule.COUNT) || Infinity;
+    const until = rule.UNTIL ? parseDateTime(rule.UNTIL, {}) : null;
+    const untilMs = until ? (until.time ? toMillis(until) : toMillis({ ...until, date: shiftDateStr(until.date, 1) }) - 1) : Infinity;
+
+    const byDay = parseWeekdays(rule.BYDAY);
+    const byMonthDay = parseNumbers(rule.BYMONTHDAY);
+    const byMonth = parseNumbers(rule.BYMONTH);
+
+    const [startYear, startMonth, startDay] = start.date.split('-').map(Number);
+    const startNumber = dayNumber(start.date);
+    const startWeekday = dayOfWeekOf(start.date);
+    const startMonday = startNumber - (startWeekday + 6) % 7;
+
+    const matches = (date: string, number: number): boolean => {
+        const [year, month, day] = date.split('-').map(Number);
+        const weekday = dayOfWeekOf(date);
+        const monthLength = daysInMonth(year, month);
+
+        if (byMonth && !byMonth.includes(month)) return false;
+
+        const monthDayOk = !byMonthDay || byMonthDay.some(n => (n > 0 ? n : monthLength + n + 1) === day);
+
+        // Ordinals (2TU, -1FR) count within the month or the year
+        const weekdayOk = (scope: 'none' | 'month' | 'year') => !byDay || byDay.some(rule => {
+            if (rule.weekday !== weekday) return false;
+            if (rule.ordinal === 0 || scope === 'none') return true;
+
+            const index = scope === 'month' ? day : number - dayNumber(`${year}-01-01`) + 1;
+            const length = scope === 'month' ? monthLength : dayNumber(`${year + 1}-01-01`) - dayNumber(`${year}-01-01`);
+            return rule.ordinal > 0
+                ? Math.ceil(index / 7) === rule.ordinal
+                : -Math.ceil((length - index + 1) / 7) === rule.ordinal;
+        });
+
+        switch (freq) {
+            case 'DAILY':
+                return (number - startNumber) % interval === 0 && monthDayOk && weekdayOk('none');
+            case 'WEEKLY': {
+                const weeks = (number - (weekday + 6) % 7 - startMonday) / 7;
+                return weeks % interval === 0 && (byDay ? weekdayOk('none') : weekday === startWeekday);
+            }
+            case 'MONTHLY': {
+                const months = (year - startYear) * 12 + month - startMonth;
+                if (months % interval !== 0) return false;
+                if (byMonthDay || byDay) return monthDayOk && weekdayOk('month');
+                return day === startDay;
+            }
+            default: {
+                if ((year - startYear) % interval !== 0) return false;
+                if (byMonthDay || byDay) return monthDayOk && weekdayOk(byMonth ? 'month' : 'year');
+                return day === startDay && (Boolean(byMonth) || month === startMonth);
+            }
+        }
+    };
+
+    const pad = (value: number) => String(value).padStart(2, '0');
+
+    // BYDAY / BYMONTHDAY pick days within the month, otherwise DTSTART's day of month
+    const monthDays = (year: number, month: number): string[] => {
+        const length = daysInMonth(year, month);
+        if (byMonthDay || byDay) {
+            return Array.from({ length }, (_, i) => `${year}-${pad(month)}-${pad(i + 1)}`);
+        }
+        return startDay <= length ? [`${year}-${pad(month)}-${pad(startDay)}`] : [];
+    };
+    const yearMonths = byMonth
+        ? [...new Set(byMonth.filter(month => month >= 1 && month <= 12))].sort((a, b) => a - b)
+        : (byMonthDay || byDay ? Array.from({ length: 12 }, (_, i) => i + 1) : [startMonth]);
+    const startMondayDate = shiftDateStr(start.date, startMonday - startNumber);
+
+    // n-th period of the rule (every INTERVAL-th day / week / month / year): first day + candidate days in order
+    const period = (n: number): { first: string; days: string[] } => {
+        const step = n * interval;
+        switch (freq) {
+            case 'DAILY': {
+                const date = shiftDateStr(start.date, step);
+                return { first: date, days: [date] };
+            }
+            case 'WEEKLY': {
+                const first = shiftDateStr(startMondayDate, step * 7);
+                return { first, days: Array.from({ length: 7 }, (_, i) => shiftDateStr(first, i)) };
+            }
+            case 'MONTHLY': {
+                const months = startMonth - 1 + step;
+                const year = startYear + Math.floor(months / 12);
+                const month = months % 12 + 1;
+                return { first: `${year}-${pad(month)}-01`, days: monthDays(year, month) };
+            }
+            default: {
+                const year = startYear + step;
+                return { first: `${year}-01-01`, days: yearMonths.flatMap(month => monthDays(year, month)) };
+            }
+        }
+    };
+
+    const dates: string[] = [];
+    const lastNumber = dayNumber(lastDate);
+    const isPastUntil = (date: string) => untilMs !== Infinity && toMillis({ ...start, date }) > untilMs;
+
+    // DTSTART is always the first occurrence, matching the rule or not
+    if (startNumber > lastNumber || isPastUntil(start.date)) return dates;
+    dates.push(start.date);
+
+    for (let n = 0; dates.length < count; n++) {
+        const { first, days } = period(n);
+        if (dayNumber(first) > lastNumber) break;
+
+        for (const date of days) {
+            const number = dayNumber(date);
+            if (number <= startNumber || !matches(date, number)) continue;
+            if (number > lastNumber || isPastUntil(date)) return dates;
+
+            dates.push(date);
+            if (dates.length >= count) break;
+        }
+    }
+
+    return dates;
+}
+
+// ===========================================
+// PARSING
+// ===========================================
+
+function readEvents(text: string): IcsEvent[] {
+    const lines = unfoldLines(text);
+    if (!lines.some(line => line.toUpperCase() === 'BEGIN:VCALENDAR')) {
+        throw new Error('Plik nie jest kalendarzem iCalendar (.ics)');
+    }
+
+    const events: IcsEvent[] = [];
+    const components: string[] = [];
+    let current: Partial<IcsEvent> | null = null;
+
+    for (const line of lines) {
+        const property = parseProperty(line);
+        if (!property) continue;
+
+        if (property.name === 'BEGIN') {
+            components.push(property.value.toUpperCase());
+            if (property.value.toUpperCase() === 'VEVENT') current = { exdates: [], skipped: false };
+            continue;
+        }
+        if (property.name === 'END') {
+            const component = components.pop();
+            if (component === 'VEVENT' && current) {
+                if (current.start) events.push(current as IcsEvent);
+                current = null;
+            }
+            continue;
+        }
+        // Properties of VALARM etc. nested in the event are not the event's
+        if (!current || components[components.length - 1] !== 'VEVENT') continue;
+
+        switch (property.name) {
+            case 'UID':
+                current.uid = property.value;
+                break;
+            case 'DTSTART':
+                current.start = parseDateTime(property.value, property.params) || undefined;
+                break;
+            case 'DTEND':
+                current.end = parseDateTime(property.value, property.params) || undefined;
+                break;
+            case 'DURATION':
+                current.duration = property.value;
+                break;
+            case 'RRULE':
+                current.rrule = parseRule(property.value);
+                break;
+            case 'EXDATE':
+                current.exdates = [...(current.exdates || []), ...parseDateTimeList(property)];
+                break;
+            case 'RECURRENCE-ID':
+                current.recurrenceId = parseDateTime(property.value, property.params) || undefined;
+                break;
+            case 'STATUS':
+                if (property.value.toUpperCase() === 'CANCELLED') current.skipped = true;
+                break;
+            case 'TRANSP':
+                if (property.value.toUpperCase() === 'TRANSPARENT') current.skipped = true;
+                break;
+        }
+    }
+
+    return events.map((event, i) => ({ ...event, uid: event.uid || `event-${i}` }));
+}
+
+/** End of the occurrence starting on `date`, null for events without duration */
+function occurrenceEnd(event: IcsEvent, date: string): number | null {
+    if (event.end) {
+        const days = dayNumber(event.end.date) - dayNumber(event.start.date);
+        return toMillis({ ...event.end, date: shiftDateStr(date, days) });
+    }
+
+    const duration = event.duration ? parseDuration(event.duration) : null;
+    if (duration) {
+        return toMillis({ ...event.start, date: shiftDateStr(date, duration.days) }) + duration.ms;
+    }
+
+    // RFC 5545: all-day events without an end last one day, timed ones no time at all
+    return event.start.time ? null : toMillis({ ...event.start, date: shiftDateStr(date, 1) });
+}
+
+/**
+ * Busy intervals of the calendar overlapping [from, to), clipped to it,
+ * sorted and merged.
+ */
+export function parseIcsBusyIntervals(text: string, from: Date, to: Date): BusyInterval[] {
+    const fromMs = from.getTime();
+    const toMs = to.getTime();
+    const events = readEvents(text);
+
+    // Occurrences replaced by a RECURRENCE-ID override (moved or cancelled)
+    const overridden = new Set(events
+        .filter(event => event.recurrenceId)
+        .map(event => `${event.uid}|${toMillis(event.recurrenceId as IcsDateTime)}`));
+
+    const intervals: [number, number][] = [];
+
+    for (const event of events) {
+        if (event.skipped) continue;
+
+        const firstEnd = occurrenceEnd(event, event.start.date);
+        if (firstEnd === null) continue;
+
+        // Occurrences ending before the window are skipped without converting times
+        const spanDays = Math.ceil((firstEnd - toMillis(event.start)) / DAY_MS) + 1;
+        const excluded = new Set(event.exdates.map(toMillis));
+        const dates = event.rrule && !event.recurrenceId
+            ? expandDates(event.start, event.rrule, shiftDateStr(new Date(toMs).toISOString().split('T')[0], 1))
+            : [event.start.date];
+
+        for (const date of dates) {
+            if (dayNumber(date) + spanDays < Math.floor(fromMs / DAY_MS)) continue;
+
+            const start = toMillis({ ...event.start, date });
+            if (start >= toMs) break;
+            if (excluded.has(start)) continue;
+            if (!event.recurrenceId && event.rrule && overridden.has(`${event.uid}|${start}`)) continue;
+
+            const end = occurrenceEnd(event, date);
+            if (end === null || end <= fromMs || end <= start) continue;
+
+            intervals.push([Math.max(start, fromMs), Math.min(end, toMs)]);
+        }
+    }
+
+    intervals.sort((a, b) => a[0] - b[0]);
+    return intervals
+        .reduce<[number, number][]>((merged, [start, end]) => {
+            const last = merged[merged.length - 1];
+            if (last && start <= last[1]) {
+                last[1] = Math.max(last[1], end);
+            } else {
+                merged.push([start, end]);
+            }
+            return merged;
+        }, [])
+        .map(([start, end]) => ({ start: new Date(start), end: new Date(end) }));
+}
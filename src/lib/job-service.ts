@@ -1,4 +1,5 @@
-import { db } from "@/lib/firebase";
+import { db, functions } from "@/lib/firebase";
+import { httpsCallable } from "firebase/functions";
 import {
     collection,
     addDoc,
@@ -6,15 +7,120 @@ import {
     doc,
     query,
     where,
+    getDoc,
     getDocs,
     serverTimestamp,
     Timestamp,
     runTransaction,
     arrayUnion,
     Firestore,
-    onSnapshot
+    onSnapshot,
+    orderBy,
+    startAt,
+    startAfter,
+    endAt,
+    limit,
+    QueryDocumentSnapshot
 } from "firebase/firestore";
-import { Job, JobProposal, JobStatus } from "@/types/firestore-v2";
+import * as geofire from 'geofire-common';
+import { CHAT_SCHEMA_VERSION, Job, JobProposal, JobStatus } from "@/types/firestore-v2";
+import { toServiceCategory } from "@/types/listings";
+import { cancelBooking } from "@/lib/booking-machine";
+
+// Search radius (stored on every new job) and repost options - keep in sync with functions/src/jobExpiry.ts
+export const DEFAULT_JOB_RADIUS_KM = 15;
+export const MAX_JOB_RADIUS_KM = 50;
+const RADIUS_WIDEN_FACTOR = 1.5;
+const BUDGET_RAISE_FACTOR = 1.2;
+
+export interface RepostOptions {
+    widenRadius?: boolean;   // Zasięg x1.5 (max 50 km)
+    raiseBudget?: boolean;   // Budżet +20%, zaokrąglony w górę do 10 zł
+}
+
+/** Radius and budget the job would get after a repost with these options */
+export function previewRepost(job: Pick<Job, 'searchRadiusKm' | 'priceEstimate'>, options: RepostOptions) {
+    const radius = job.searchRadiusKm || DEFAULT_JOB_RADIUS_KM;
+    const raise = (value: number) => Math.ceil(value * BUDGET_RAISE_FACTOR / 10) * 10;
+
+    return {
+        searchRadiusKm: options.widenRadius
+            ? Math.min(Math.round(radius * RADIUS_WIDEN_FACTOR), MAX_JOB_RADIUS_KM)
+            : radius,
+        priceEstimate: options.raiseBudget && job.priceEstimate
+            ? { min: raise(job.priceEstimate.min), max: raise(job.priceEstimate.max) }
+            : job.priceEstimate
+    };
+}
+
+// ===========================================
+// JOB FEED (professionals)
+// ===========================================
+
+export type JobFeedSort = 'distance' | 'urgency' | 'recent';
+
+export interface JobFeedQuery {
+    center: { lat: number; lng: number };
+    radiusKm: number;             // Service radius of the pro
+    categories?: string[];        // Empty / missing = all categories
+    sort: JobFeedSort;
+    excludeClientId?: string;     // The pro's own jobs
+}
+
+/** Last document read in each geohash range of the feed area; null = range exhausted */
+export interface JobFeedCursor {
+    positions: (QueryDocumentSnapshot | null)[];
+}
+
+export type JobFeedItem = Job & { distance: number };
+
+const URGENCY_RANK: Record<Job['urgency'], number> = {
+    asap: 0,
+    today: 1,
+    week: 2,
+    flexible: 3
+};
+
+/** Ascending sort key; ties are broken by job id */
+function feedSortKey(job: JobFeedItem, sort: JobFeedSort): number {
+    switch (sort) {
+        case 'distance':
+            return job.distance;
+        case 'urgency':
+            // Same urgency - closer first (distance is capped at 50 km)
+            return (URGENCY_RANK[job.urgency] ?? 3) * 1000 + job.distance;
+        case 'recent':
+            return -(job.createdAt?.toMillis?.() || 0);
+    }
+}
+
+/** Feed items in the selected order - pages are merged and re-sorted as they load */
+export function sortJobFeed(jobs: JobFeedItem[], sort: JobFeedSort): JobFeedItem[] {
+    return [...jobs].sort((a, b) =>
+        feedSortKey(a, sort) - feedSortKey(b, sort) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+    );
+}
+
+/** What a professional fills in when submitting or editing a proposal */
+export interface ProposalDraft {
+    price: number;
+    message: string;
+    availability?: Date | null;   // null = do ustalenia
+}
+
+interface ProposalPayload {
+    price: number;
+    message: string;
+    availability: number | null;
+}
+
+function toProposalPayload(proposal: ProposalDraft): ProposalPayload {
+    return {
+        price: proposal.price,
+        message: proposal.message,
+        availability: proposal.availability ? proposal.availability.getTime() : null
+    };
+}
 
 export class JobService {
 
@@ -42,6 +148,7 @@ export class JobService {
                 // 2. Prepare Job Payload with cross-reference
                 const finalJob = {
                     ...jobData,
+                    searchRadiusKm: jobData.searchRadiusKm || DEFAULT_JOB_RADIUS_KM,
                     status: 'open',
                     proposalIds: [],
                     chatId: chatRef.id,        // Link to Chat
@@ -53,13 +160,14 @@ export class JobService {
                     _lock: null                 // Optimistic lock field
                 };
 
-                // 3. Prepare Chat Payload with cross-reference
+                // 3. Prepare Chat Payload with cross-reference (canonical Chat shape)
                 const initialChat = {
-                    id: chatRef.id,
                     jobId: jobRef.id,          // Link to Job
                     jobTitle: jobData.title,   // For display in messages tab
                     clientId,
                     clientName,
+                    professionalId: null,       // Set when a pro is hired
+                    professionalName: null,
                     participantIds: [clientId], // Initially only client
                     status: 'open',             // Active for AI/System messages
                     isActive: true,
@@ -67,22 +175,14 @@ export class JobService {
                     lastMessageAt: now,
                     createdAt: now,
                     updatedAt: now,
-                    unreadCount: { client: 0, professional: 0 }
+                    unreadCount: { [clientId]: 0 },
+                    readCursors: {},
+                    schemaVersion: CHAT_SCHEMA_VERSION
                 };
 
-                // 4. Atomic Write
+                // 4. Atomic Write (the system message is posted by onJobCreated)
                 transaction.set(jobRef, finalJob);
                 transaction.set(chatRef, initialChat);
-
-                // 5. Initial System Message
-                const msgRef = doc(collection(db as Firestore, `chats/${chatRef.id}/messages`));
-                transaction.set(msgRef, {
-                    content: '📋 Zlecenie zostało utworzone i jest widoczne dla fachowców.',
-                    senderId: 'system',
-                    senderRole: 'system',
-                    type: 'system',
-                    createdAt: now
-                });
             });
 
             console.log("Atomic Genesis Transaction successful.");
@@ -107,6 +207,7 @@ export class JobService {
 
             const newJob = {
                 ...jobData,
+                searchRadiusKm: jobData.searchRadiusKm || DEFAULT_JOB_RADIUS_KM,
                 status: jobData.status || 'open',
                 proposalIds: [],
                 createdAt: now,
@@ -124,136 +225,123 @@ export class JobService {
 
     /**
      * Submit a proposal for a job
+     * Runs server-side (proposalSubmit): attaches it to Job.proposalIds,
+     * bumps proposalCount and notifies the client in the job chat.
      */
-    static async submitProposal(jobId: string, proposal: Omit<JobProposal, 'id' | 'createdAt' | 'status'>): Promise<string | null> {
-        if (!db) return null;
+    static async submitProposal(
+        jobId: string,
+        proposal: ProposalDraft
+    ): Promise<{ success: boolean; proposalId?: string; error?: string }> {
+        if (!functions) return { success: false, error: 'Functions not initialized' };
 
         try {
-            // 1. Create proposal
-            const proposalData = {
-                ...proposal,
-                jobId,
-                status: 'pending',
-                createdAt: serverTimestamp()
-            };
-
-            const proposalRef = await addDoc(collection(db, 'jobs', jobId, 'proposals'), proposalData);
-
-            // 2. Update Job with proposal ID
-            const jobRef = doc(db, 'jobs', jobId);
-            // Note: In real app use arrayUnion, but keeping it simple for now or fetch existing first
-            // Keeping proposalIds in root document helps with counting without reading subcollection
-            // await updateDoc(jobRef, {
-            //    proposalIds: arrayUnion(proposalRef.id)
-            // });
+            const submit = httpsCallable<ProposalPayload & { jobId: string }, { proposalId: string }>(
+                functions,
+                'proposalSubmit'
+            );
+            const { data } = await submit({ jobId, ...toProposalPayload(proposal) });
 
-            return proposalRef.id;
+            return { success: true, proposalId: data.proposalId };
         } catch (error) {
             console.error("Error submitting proposal:", error);
-            return null;
+            return { success: false, error: error instanceof Error ? error.message : "Nie udało się wysłać oferty" };
         }
     }
 
     /**
-     * Accept a proposal transactionally (Double Booking Fix)
+     * Edit a pending proposal - the previous version goes to revisions[]
      */
-    static async acceptProposalAtomic(
+    static async editProposal(
         jobId: string,
         proposalId: string,
-        providerId: string,
-        providerName: string
+        proposal: ProposalDraft
     ): Promise<{ success: boolean; error?: string }> {
-        if (!db) return { success: false, error: 'DB not initialized' };
-
-        const jobRef = doc(db as Firestore, 'jobs', jobId);
-        const proposalRef = doc(db as Firestore, 'jobs', jobId, 'proposals', proposalId);
+        if (!functions) return { success: false, error: 'Functions not initialized' };
 
         try {
-            await runTransaction(db as Firestore, async (transaction) => {
-                // 1. READ: Get current state
-                const jobSnap = await transaction.get(jobRef);
-                const proposalSnap = await transaction.get(proposalRef);
+            const edit = httpsCallable<ProposalPayload & { jobId: string; proposalId: string }, { changed: boolean }>(
+                functions,
+                'proposalEdit'
+            );
+            await edit({ jobId, proposalId, ...toProposalPayload(proposal) });
 
-                if (!jobSnap.exists() || !proposalSnap.exists()) {
-                    throw new Error('Job or Proposal not found');
-                }
+            return { success: true };
+        } catch (error) {
+            console.error("Error editing proposal:", error);
+            return { success: false, error: error instanceof Error ? error.message : "Nie udało się zapisać oferty" };
+        }
+    }
 
-                // 2. LOGIC GATE: Check if status allows acceptance
-                const currentStatus = jobSnap.data().status;
-                if (currentStatus !== 'open') {
-                    throw new Error(`Job already ${currentStatus}. Cannot accept.`);
-                }
+    /**
+     * Professional withdraws a pending proposal
+     */
+    static async withdrawProposal(
+        jobId: string,
+        proposalId: string
+    ): Promise<{ success: boolean; error?: string }> {
+        if (!functions) return { success: false, error: 'Functions not initialized' };
 
-                // 3. WRITE: Commit changes
-                transaction.update(jobRef, {
-                    status: 'accepted',
-                    assignedProId: providerId,
-                    assignedProName: providerName,
-                    acceptedAt: serverTimestamp(),
-                    updatedAt: serverTimestamp()
-                });
+        try {
+            const withdraw = httpsCallable<{ jobId: string; proposalId: string }, { status: string }>(
+                functions,
+                'proposalWithdraw'
+            );
+            await withdraw({ jobId, proposalId });
 
-                transaction.update(proposalRef, {
-                    status: 'accepted',
-                    acceptedAt: serverTimestamp()
-                });
+            return { success: true };
+        } catch (error) {
+            console.error("Error withdrawing proposal:", error);
+            return { success: false, error: error instanceof Error ? error.message : "Nie udało się wycofać oferty" };
+        }
+    }
 
-                // 4. Update linked chat to include professional
-                const chatId = jobSnap.data().chatId;
-                if (chatId) {
-                    const chatRef = doc(db as Firestore, 'chats', chatId);
-                    transaction.update(chatRef, {
-                        professionalId: providerId,
-                        professionalName: providerName,
-                        participantIds: arrayUnion(providerId), // Add pro to participants
-                        status: 'active',
-                        updatedAt: serverTimestamp()
-                    });
-                    // Add system message to chat
-                    const msgRef = doc(collection(db as Firestore, `chats/${chatId}/messages`));
-                    transaction.set(msgRef, {
-                        content: `🤝 Oferta fachowca ${providerName} została zaakceptowana.`,
-                        senderId: 'system',
-                        senderRole: 'system',
-                        type: 'system',
-                        createdAt: serverTimestamp()
-                    });
-                }
-            });
+    /**
+     * The professional's pending proposal for a job (one per job), if any
+     */
+    static async getOwnPendingProposal(jobId: string, proId: string): Promise<JobProposal | null> {
+        if (!db) return null;
 
-            return { success: true };
+        try {
+            const q = query(
+                collection(db, 'jobs', jobId, 'proposals'),
+                where('proId', '==', proId),
+                where('status', '==', 'pending')
+            );
+            const snap = await getDocs(q);
+            if (snap.empty) return null;
 
-        } catch (error: any) {
-            console.error("Accept Proposal Transaction FAILED:", error);
-            return { success: false, error: error.message };
+            const d = snap.docs[0];
+            return { id: d.id, ...d.data() } as JobProposal;
+        } catch (error) {
+            console.error("Error fetching own proposal:", error);
+            return null;
         }
     }
 
     /**
-     * Accept a proposal (Legacy)
+     * Accept a proposal transactionally (Double Booking Fix)
+     * Runs server-side (bookingAcceptProposal): creates the Booking with the
+     * proposal price, links Job.bookingId and adds the pro to the job chat.
+     * From then on the job status follows the booking.
      */
-    static async acceptProposal(jobId: string, proposalId: string): Promise<boolean> {
-        if (!db) return false;
+    static async acceptProposalAtomic(
+        jobId: string,
+        proposalId: string
+    ): Promise<{ success: boolean; bookingId?: string; error?: string }> {
+        if (!functions) return { success: false, error: 'Functions not initialized' };
 
         try {
-            const jobRef = doc(db, 'jobs', jobId);
-            const proposalRef = doc(db, 'jobs', jobId, 'proposals', proposalId);
-
-            // Transaction would be better here
-            await updateDoc(jobRef, {
-                status: 'accepted',
-                updatedAt: serverTimestamp()
-                // assignedProId: ... (fetch from proposal)
-            });
+            const accept = httpsCallable<{ jobId: string; proposalId: string }, { bookingId: string }>(
+                functions,
+                'bookingAcceptProposal'
+            );
+            const { data } = await accept({ jobId, proposalId });
 
-            await updateDoc(proposalRef, {
-                status: 'accepted'
-            });
+            return { success: true, bookingId: data.bookingId };
 
-            return true;
-        } catch (error) {
-            console.error("Error accepting proposal:", error);
-            return false;
+        } catch (error: any) {
+            console.error("Accept Proposal FAILED:", error);
+            return { success: false, error: error.message };
         }
     }
 
@@ -277,9 +365,87 @@ export class JobService {
         }
     }
 
+    /**
+     * Job board for professionals: open jobs within the pro's radius
+     * (and the job's own search radius), optionally limited to categories.
+     *
+     * Geohash range queries like useNearbyProviders, exact distance
+     * filtered client-side. Each page reads at most `pageSize` more
+     * documents per range, continuing after `cursor` - earlier pages are
+     * never read again. Jobs are sorted within the page; callers merge
+     * pages with sortJobFeed().
+     */
+    static async getJobFeed(
+        feedQuery: JobFeedQuery,
+        cursor: JobFeedCursor | null = null,
+        pageSize: number = 20
+    ): Promise<{ jobs: JobFeedItem[]; nextCursor: JobFeedCursor | null }> {
+        if (!db) return { jobs: [], nextCursor: null };
+
+        try {
+            const { center, sort } = feedQuery;
+            const radiusKm = Math.min(feedQuery.radiusKm, MAX_JOB_RADIUS_KM);
+            const categories = (feedQuery.categories || []).flatMap(category => toServiceCategory(category) ?? []);
+            const now = Date.now();
+
+            // Same area = same ranges, so cursor.positions[i] belongs to bounds[i]
+            const bounds = geofire.geohashQueryBounds([center.lat, center.lng], radiusKm * 1000);
+            const snapshots = await Promise.all(bounds.map(([start, end], i) => {
+                const position = cursor ? cursor.positions[i] : undefined;
+                if (position === null) return null;
+
+                return getDocs(query(
+                    collection(db as Firestore, 'jobs'),
+                    where('status', '==', 'open'),
+                    orderBy('geoHash'),
+                    position ? startAfter(position) : startAt(start),
+                    endAt(end),
+                    limit(pageSize)
+                ));
+            }));
+
+            const jobs: JobFeedItem[] = [];
+            const seen = new Set<string>();
+
+            for (const snap of snapshots) {
+                for (const d of snap?.docs || []) {
+                    if (seen.has(d.id)) continue;
+                    seen.add(d.id);
+
+                    const job = { id: d.id, ...d.data() } as Job;
+                    if (!job.location || job.clientId === feedQuery.excludeClientId) continue;
+                    if (job.expiresAt && job.expiresAt.toMillis() <= now) continue;
+                    const jobCategory = toServiceCategory(job.category);
+                    if (categories.length > 0 && (!jobCategory || !categories.includes(jobCategory))) continue;
+
+                    const distance = geofire.distanceBetween(
+                        [job.location.lat, job.location.lng],
+                        [center.lat, center.lng]
+                    );
+                    if (distance > radiusKm || distance > (job.searchRadiusKm || DEFAULT_JOB_RADIUS_KM)) continue;
+
+                    jobs.push({ ...job, distance });
+                }
+            }
+
+            // A range that filled its page may have more
+            const positions = snapshots.map(snap =>
+                snap && snap.docs.length === pageSize ? snap.docs[snap.docs.length - 1] : null
+            );
+
+            return {
+                jobs: sortJobFeed(jobs, sort),
+                nextCursor: positions.some(Boolean) ? { positions } : null
+            };
+        } catch (error) {
+            console.error("Error fetching job feed:", error);
+            return { jobs: [], nextCursor: null };
+        }
+    }
+
     /**
      * Get open jobs (for marketplace) via simple query
-     * Advanced geo-query should be done via separate logic (like useNearbyProviders style)
+     * Unfiltered - the pro job board uses getJobFeed()
      */
     static async getOpenJobs(limit: number = 20): Promise<Job[]> {
         if (!db) return [];
@@ -300,7 +466,7 @@ export class JobService {
     }
 
     /**
-     * Subscribe to open jobs (real-time for professionals)
+     * Subscribe to open jobs (real-time, unfiltered - see getJobFeed())
      */
     static subscribeToOpenJobs(callback: (jobs: Job[]) => void): () => void {
         if (!db) {
@@ -340,7 +506,7 @@ export class JobService {
 
     /**
      * Professional accepts a job - atomic transaction
-     * Updates job status, adds pro to chat, sends system message
+     * Updates job status, adds pro to chat (system message - onJobAccepted)
      */
     static async acceptJob(
         jobId: string,
@@ -385,24 +551,6 @@ export class JobService {
                         status: 'accepted',
                         updatedAt: now
                     });
-
-                    // 3. Send system message
-                    const msgRef = doc(collection(db as Firestore, `chats/${chatId}/messages`));
-                    transaction.set(msgRef, {
-                        content: `✅ ${professionalName} zaakceptował zlecenie! Możecie teraz rozmawiać.`,
-                        senderId: 'system',
-                        senderName: 'System',
-                        senderRole: 'system',
-                        type: 'system',
-                        createdAt: now
-                    });
-
-                    // Update last message
-                    transaction.update(chatRef, {
-                        lastMessage: `✅ ${professionalName} zaakceptował zlecenie!`,
-                        lastMessageAt: now,
-                        'unreadCount.client': 1
-                    });
                 }
             });
 
@@ -416,46 +564,49 @@ export class JobService {
 
     /**
      * Client rejects a proposal from a professional
+     * Runs server-side (proposalReject) - detaches it from Job.proposalIds.
      */
     static async rejectProposal(
         jobId: string,
-        proposalId: string,
-        clientId: string
+        proposalId: string
     ): Promise<{ success: boolean; error?: string }> {
-        if (!db) return { success: false, error: "Database not available" };
+        if (!functions) return { success: false, error: 'Functions not initialized' };
 
         try {
-            const jobRef = doc(db, 'jobs', jobId);
-            const proposalRef = doc(db, 'jobs', jobId, 'proposals', proposalId);
-
-            const [jobSnap, proposalSnap] = await Promise.all([
-                getDoc(jobRef),
-                getDoc(proposalRef)
-            ]);
-
-            if (!jobSnap.exists()) {
-                return { success: false, error: "Job not found" };
-            }
+            const reject = httpsCallable<{ jobId: string; proposalId: string }, { status: string }>(
+                functions,
+                'proposalReject'
+            );
+            await reject({ jobId, proposalId });
 
-            if (!proposalSnap.exists()) {
-                return { success: false, error: "Proposal not found" };
-            }
+            return { success: true };
+        } catch (error) {
+            console.error("Error rejecting proposal:", error);
+            return { success: false, error: error instanceof Error ? error.message : "Nie udało się odrzucić oferty" };
+        }
+    }
 
-            const jobData = jobSnap.data();
-            if (jobData.clientId !== clientId) {
-                return { success: false, error: "Not authorized to reject this proposal" };
-            }
+    /**
+     * Repost an expired job (jobRepost) - new job + chat with the same
+     * description, photos and location. The old job keeps its history.
+     */
+    static async repostJob(
+        jobId: string,
+        options: RepostOptions = {}
+    ): Promise<{ success: boolean; jobId?: string; chatId?: string; error?: string }> {
+        if (!functions) return { success: false, error: 'Functions not initialized' };
 
-            // Update proposal status to rejected
-            await updateDoc(proposalRef, {
-                status: 'rejected',
-                rejectedAt: serverTimestamp()
-            });
+        try {
+            const repost = httpsCallable<RepostOptions & { jobId: string }, { jobId: string; chatId: string }>(
+                functions,
+                'jobRepost'
+            );
+            const { data } = await repost({ jobId, ...options });
 
-            return { success: true };
+            return { success: true, jobId: data.jobId, chatId: data.chatId };
         } catch (error) {
-            console.error("Error rejecting proposal:", error);
-            return { success: false, error: "Failed to reject proposal" };
+            console.error("Error reposting job:", error);
+            return { success: false, error: error instanceof Error ? error.message : "Nie udało się opublikować zlecenia" };
         }
     }
 
@@ -489,6 +640,15 @@ export class JobService {
                 return { success: false, error: "Cannot cancel completed job" };
             }
 
+            // Booked job - cancel the booking (refund policy applies),
+            // the job status follows via onJobBookingStatusChanged
+            if (jobData.bookingId) {
+                const result = await cancelBooking(jobData.bookingId, reason);
+                return result.success
+                    ? { success: true }
+                    : { success: false, error: result.error || "Failed to cancel booking" };
+            }
+
             await updateDoc(jobRef, {
                 status: 'cancelled',
                 cancelledAt: serverTimestamp(),
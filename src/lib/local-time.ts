@@ -0,0 +1,71 @@
+/**
+ * Local time helpers (Europe/Warsaw)
+ *
+ * Schedules and blocked dates are stored in Polish local time, independent
+ * of the browser's time zone. Mirrors functions/src/lib/time.ts - keep in sync.
+ */
+
+export const TIME_ZONE = 'Europe/Warsaw';
+
+export interface LocalParts {
+    dateStr: string;     // "2024-01-15"
+    dayOfWeek: number;   // 0 = Sunday
+    timeStr: string;     // "14:30"
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function getParts(date: Date, timeZone: string): Record<string, string> {
+    const parts = new Intl.DateTimeFormat('en-GB', {
+        timeZone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+        hourCycle: 'h23',
+        weekday: 'short'
+    }).formatToParts(date);
+
+    return Object.fromEntries(parts.map(p => [p.type, p.value]));
+}
+
+export function toLocalParts(date: Date, timeZone: string = TIME_ZONE): LocalParts {
+    const p = getParts(date, timeZone);
+    return {
+        dateStr: `${p.year}-${p.month}-${p.day}`,
+        dayOfWeek: WEEKDAYS.indexOf(p.weekday),
+        timeStr: `${p.hour}:${p.minute}`
+    };
+}
+
+/** Offset of local time from UTC at `date`, in minutes (60 or 120 in Poland) */
+export function zoneOffsetMinutes(date: Date, timeZone: string = TIME_ZONE): number {
+    const p = getParts(date, timeZone);
+    const asUtc = Date.UTC(+p.year, +p.month - 1, +p.day, +p.hour, +p.minute, +p.second);
+    return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/** Local wall-clock time ("2024-01-15", "14:30") to an absolute Date */
+export function fromLocalTime(dateStr: string, timeStr: string, timeZone: string = TIME_ZONE): Date {
+    const [year, month, day] = dateStr.split('-').map(Number);
+    const [hour, minute] = timeStr.split(':').map(Number);
+    const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+
+    // Offset at the first guess, then at the result (DST switch days)
+    const guess = asUtc - zoneOffsetMinutes(new Date(asUtc), timeZone) * 60 * 1000;
+    return new Date(asUtc - zoneOffsetMinutes(new Date(guess), timeZone) * 60 * 1000);
+}
+
+/** Calendar arithmetic on "YYYY-MM-DD" strings */
+export function shiftDateStr(dateStr: string, days: number): string {
+    const [year, month, day] = dateStr.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+/** Day of week (0 = Sunday) of a "YYYY-MM-DD" string */
+export function dayOfWeekOf(dateStr: string): number {
+    const [year, month, day] = dateStr.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
@@ -0,0 +1,144 @@
+import { db } from "./firebase";
+import {
+    collection,
+    onSnapshot,
+    serverTimestamp,
+    Firestore,
+    doc,
+    setDoc,
+    deleteDoc
+} from "firebase/firestore";
+import { UserPresence, ChatTyping } from "@/types/firestore-v2";
+
+// Online heartbeat while the app is visible
+export const PRESENCE_HEARTBEAT_MS = 2 * 60 * 1000;
+
+// 'online' without a heartbeat for this long counts as offline (closed tab, lost connection)
+export const PRESENCE_STALE_MS = 5 * 60 * 1000;
+
+// At most one typing write per chat in this interval
+export const TYPING_THROTTLE_MS = 4000;
+
+// Typing without a keystroke for this long stops the indicator on the sender's side
+export const TYPING_IDLE_MS = 5000;
+
+// Receivers drop a typing doc older than this (sender crashed before deleting it)
+export const TYPING_STALE_MS = 10000;
+
+/** Whether a presence doc means "online right now" */
+export function isOnline(presence: UserPresence | null, nowMs: number): boolean {
+    if (!presence || presence.state !== 'online') return false;
+    // Pending serverTimestamp() - own write, just sent
+    if (!presence.lastSeen) return true;
+    return nowMs - presence.lastSeen.toMillis() < PRESENCE_STALE_MS;
+}
+
+/**
+ * "Ostatnio online" label
+ */
+export function formatLastSeen(presence: UserPresence | null, nowMs: number): string {
+    if (isOnline(presence, nowMs)) return 'online';
+    if (!presence?.lastSeen) return 'offline';
+
+    const minutes = Math.floor((nowMs - presence.lastSeen.toMillis()) / 60000);
+    if (minutes < 1) return 'ostatnio online przed chwilą';
+    if (minutes < 60) return `ostatnio online ${minutes} min temu`;
+    if (minutes < 1440) return `ostatnio online ${Math.floor(minutes / 60)} godz. temu`;
+    return `ostatnio online ${presence.lastSeen.toDate().toLocaleDateString('pl-PL', { day: 'numeric', month: 'short' })}`;
+}
+
+// ===========================================
+// PRESENCE SERVICE
+// ===========================================
+
+export const PresenceService = {
+    /**
+     * Write own presence (heartbeat / going offline)
+     */
+    setPresence: async (userId: string, state: UserPresence['state']) => {
+        if (!db) return;
+
+        try {
+            await setDoc(doc(db as Firestore, 'presence', userId), {
+                state,
+                lastSeen: serverTimestamp()
+            });
+        } catch (error) {
+            console.error("Error updating presence:", error);
+        }
+    },
+
+    /**
+     * Subscribe to another user's presence
+     */
+    subscribeToPresence: (userId: string, callback: (presence: UserPresence | null) => void) => {
+        if (!db) {
+            callback(null);
+            return () => { };
+        }
+
+        return onSnapshot(doc(db as Firestore, 'presence', userId), (snapshot) => {
+            if (!snapshot.exists()) {
+                callback(null);
+                return;
+            }
+            const data = snapshot.data({ serverTimestamps: 'estimate' });
+            callback({
+                state: data.state === 'online' ? 'online' : 'offline',
+                lastSeen: data.lastSeen || null
+            });
+        }, (error) => {
+            console.error("Error fetching presence:", error);
+            callback(null);
+        });
+    },
+
+    /**
+     * Mark the user as typing in a chat (throttled by useTypingIndicator)
+     */
+    setTyping: async (chatId: string, userId: string) => {
+        if (!db) return;
+
+        try {
+            await setDoc(doc(db as Firestore, 'chats', chatId, 'typing', userId), {
+                userId,
+                updatedAt: serverTimestamp()
+            });
+        } catch (error) {
+            console.error("Error updating typing status:", error);
+        }
+    },
+
+    /**
+     * Clear the typing indicator (message sent, input idle, chat closed)
+     */
+    clearTyping: async (chatId: string, userId: string) => {
+        if (!db) return;
+
+        try {
+            await deleteDoc(doc(db as Firestore, 'chats', chatId, 'typing', userId));
+        } catch (error) {
+            console.error("Error clearing typing status:", error);
+        }
+    },
+
+    /**
+     * Subscribe to who is typing in a chat
+     */
+    subscribeToTyping: (chatId: string, callback: (typing: ChatTyping[]) => void) => {
+        if (!db) {
+            callback([]);
+            return () => { };
+        }
+
+        return onSnapshot(collection(db as Firestore, 'chats', chatId, 'typing'), (snapshot) => {
+            callback(snapshot.docs.map(typingDoc => {
+                const data = typingDoc.data({ serverTimestamps: 'estimate' });
+                return { userId: typingDoc.id, updatedAt: data.updatedAt || null };
+            }));
+        }, (error) => {
+            console.error("Error fetching typing status:", error);
+            callback([]);
+        });
+    }
+};
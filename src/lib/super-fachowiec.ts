@@ -26,8 +26,7 @@ import { db } from "@/lib/firebase";
 import {
     HostMetrics,
     Review,
-    Booking,
-    BookingStatus
+    Booking
 } from "@/types/firestore-v2";
 
 // ===========================================
@@ -56,6 +55,7 @@ export interface EvaluationResult {
     metrics: {
         averageRating: number;
         responseRate: number;
+        acceptanceRate: number;
         cancellationRate: number;
         completedBookings: number;
         totalHours: number;
@@ -91,12 +91,12 @@ export async function evaluateSuperFachowiecStatus(
     // Pobierz metryki
     const [
         averageRating,
-        responseRate,
+        { acceptanceRate, responseRate },
         cancellationRate,
         bookingStats
     ] = await Promise.all([
         calculateAverageRating(hostId, windowStart),
-        calculateResponseRate(hostId, windowStart),
+        calculateRequestRates(hostId, windowStart),
         calculateCancellationRate(hostId, windowStart),
         getBookingStats(hostId, windowStart)
     ]);
@@ -136,6 +136,7 @@ export async function evaluateSuperFachowiecStatus(
         metrics: {
             averageRating,
             responseRate,
+            acceptanceRate,
             cancellationRate,
             completedBookings: bookingStats.completedBookings,
             totalHours: bookingStats.totalHours
@@ -183,7 +184,7 @@ export async function saveEvaluationResult(
         hostId: result.hostId,
         responseRate: result.metrics.responseRate,
         cancellationRate: result.metrics.cancellationRate,
-        acceptanceRate: 0, // TODO: Implement
+        acceptanceRate: result.metrics.acceptanceRate,
         completedBookings: result.metrics.completedBookings,
         totalHoursWorked: result.metrics.totalHours,
         totalEarnings: 0, // TODO: Implement
@@ -263,16 +264,19 @@ async function calculateAverageRating(
 }
 
 /**
- * Oblicza response rate (% odpowiedzi w <24h)
+ * Oblicza acceptance rate i response rate z próśb o rezerwację (Request to Book).
+ * Ta sama definicja co recalculateRequestMetrics w functions/src/lib/hostMetrics.ts
+ * (keep in sync) - pierwszy status po PENDING_APPROVAL to odpowiedź hosta:
+ * - acceptance rate = zaakceptowane / (zaakceptowane + odrzucone + wygasłe)
+ * - response rate   = (zaakceptowane + odrzucone) / (zaakceptowane + odrzucone + wygasłe)
  */
-async function calculateResponseRate(
+async function calculateRequestRates(
     hostId: string,
     since: Date
-): Promise<number> {
-    if (!db) return 0;
+): Promise<{ acceptanceRate: number; responseRate: number }> {
+    if (!db) return { acceptanceRate: 0, responseRate: 0 };
 
     try {
-        // Pobierz wszystkie rezerwacje gdzie host jest odbiorcą
         const bookingsRef = collection(db, 'bookings');
         const q = query(
             bookingsRef,
@@ -281,47 +285,46 @@ async function calculateResponseRate(
 
         const snapshot = await getDocs(q);
 
-        if (snapshot.empty) {
-            return 1; // Brak rezerwacji = 100% (nie można obliczyć)
-        }
-
         const bookings = snapshot.docs
             .map(d => d.data() as Booking)
             .filter(b => b.createdAt.toDate() >= since);
 
-        if (bookings.length === 0) {
-            return 1;
-        }
-
-        // Zlicz rezerwacje gdzie host odpowiedział (przeszły poza INQUIRY/PENDING_APPROVAL/EXPIRED)
-        const respondedStatuses: BookingStatus[] = [
-            'PENDING_PAYMENT', 'CONFIRMED', 'ACTIVE', 'COMPLETED',
-            'CANCELED_BY_HOST' // Anulowanie też jest formą odpowiedzi
-        ];
+        let accepted = 0;
+        let declined = 0;
+        let expired = 0;
 
-        const respondedBookings = bookings.filter(b =>
-            respondedStatuses.includes(b.status) || b.status === 'CANCELED_BY_GUEST'
-        );
-
-        // Wyklucz te, które wygasły (host nie odpowiedział)
-        const expiredBookings = bookings.filter(b => b.status === 'EXPIRED');
+        for (const b of bookings) {
+            const history = b.statusHistory || [];
+            const requestIdx = history.findIndex(h => h.status === 'PENDING_APPROVAL');
+            if (requestIdx === -1) continue;
 
-        const totalRequiringResponse = respondedBookings.length + expiredBookings.length;
+            const outcome = history[requestIdx + 1]?.status;
+            if (outcome === 'PENDING_PAYMENT') accepted++;
+            else if (outcome === 'CANCELED_BY_HOST') declined++;
+            else if (outcome === 'EXPIRED') expired++;
+        }
 
-        if (totalRequiringResponse === 0) {
-            return 1;
+        const total = accepted + declined + expired;
+        if (total === 0) {
+            return { acceptanceRate: 1, responseRate: 1 }; // Brak próśb = 100%
         }
 
-        return respondedBookings.length / totalRequiringResponse;
+        return {
+            acceptanceRate: accepted / total,
+            responseRate: (accepted + declined) / total
+        };
 
     } catch (error) {
-        console.error('Error calculating response rate:', error);
-        return 0;
+        console.error('Error calculating request rates:', error);
+        return { acceptanceRate: 0, responseRate: 0 };
     }
 }
 
 /**
- * Oblicza cancellation rate (% anulowań przez hosta)
+ * Oblicza cancellation rate (% anulowań i nieobecności hosta).
+ * Ta sama definicja co recalculateCancellationRate w functions/src/lib/hostMetrics.ts
+ * (keep in sync) - liczą się tylko rezerwacje, które osiągnęły CONFIRMED;
+ * odrzucona prośba (PENDING_APPROVAL → CANCELED_BY_HOST) nie jest anulowaniem.
  */
 async function calculateCancellationRate(
     hostId: string,
@@ -347,13 +350,7 @@ async function calculateCancellationRate(
             .filter(b => b.createdAt.toDate() >= since);
 
         // Tylko rezerwacje, które były potwierdzone
-        const confirmedStatuses: BookingStatus[] = [
-            'CONFIRMED', 'ACTIVE', 'COMPLETED',
-            'CANCELED_BY_GUEST', 'CANCELED_BY_HOST'
-        ];
-
         const confirmedBookings = bookings.filter(b =>
-            confirmedStatuses.includes(b.status) ||
             b.statusHistory?.some(h => h.status === 'CONFIRMED')
         );
 
@@ -361,8 +358,9 @@ async function calculateCancellationRate(
             return 0;
         }
 
+        // Nieobecność fachowca liczy się jak anulowanie przez niego
         const canceledByHost = confirmedBookings.filter(b =>
-            b.status === 'CANCELED_BY_HOST'
+            b.status === 'CANCELED_BY_HOST' || b.status === 'NO_SHOW_HOST'
         );
 
         return canceledByHost.length / confirmedBookings.length;
@@ -1,6 +1,6 @@
 /**
- * Chat & Message Types for FachowcyNow
- * Includes AI analysis, intent detection, and trust scoring
+ * Chat AI & Trust Types for FachowcyNow
+ * AI analysis, intent detection, and trust scoring
  */
 
 // ===========================================
@@ -20,60 +20,7 @@ export interface AIAnalysis {
     analyzedAt: Date;
 }
 
-export interface ChatMessage {
-    id: string;
-    chatId: string;
-    senderId: string;
-    senderName: string;
-    senderRole: 'client' | 'professional';
-    content: string;
-    timestamp: Date;
-    readAt?: Date;
-    aiAnalysis?: AIAnalysis;
-    // Media attachments
-    images?: string[];
-    // System generated
-    isSystemMessage?: boolean;
-}
-
-// ===========================================
-// CHAT ROOM TYPES
-// ===========================================
-
-export type ChatStatus =
-    | 'inquiry'       // Zapytanie
-    | 'quoted'        // Wycena wysłana
-    | 'accepted'      // Zaakceptowano
-    | 'in_progress'   // W drodze
-    | 'completed';    // Gotowe
-
-export interface ChatRoom {
-    id: string;
-    clientId: string;
-    clientName: string;
-    clientImageUrl?: string;
-    professionalId: string;
-    professionalName: string;
-    professionalImageUrl?: string;
-    participantIds?: string[]; // Array of UIDs for easy querying
-    isActive?: boolean; // If true, shows in list
-    bookingId?: string;
-    status: ChatStatus;
-    createdAt: Date;
-    updatedAt: Date;
-    lastMessage?: string;
-    lastMessageAt?: Date;
-    unreadCount: {
-        client: number;
-        professional: number;
-    };
-    // AI Features
-    suggestedReplies?: string[];
-    trustWarnings?: string[];
-    // Deal tracking
-    quotedAmount?: number;
-    scheduledDate?: Date;
-}
+// Czat i wiadomości: Chat / ChatMessage w types/firestore-v2.ts
 
 // ===========================================
 // TRUST SCORE TYPES
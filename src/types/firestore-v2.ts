@@ -8,6 +8,9 @@
  * - users/{uid}/privateData/{docId}
  * - listings/{listingId}
  * - bookings/{bookingId}
+ * - bookings/{bookingId}/events/{seq}
+ * - booking_series/{seriesId}
+ * - availability/{hostId}_{date}
  * - reviews/{reviewId}
  * - metrics/{hostId}
  * - chats/{chatId}
@@ -53,12 +56,14 @@ export type BookingStatus =
     | 'COMPLETED'         // Zakończone - otwarte okno recenzji (14 dni)
     | 'CANCELED_BY_GUEST' // Anulowane przez klienta
     | 'CANCELED_BY_HOST'  // Anulowane przez fachowca
-    | 'EXPIRED';          // Host nie odpowiedział w 24h
+    | 'EXPIRED'           // Host nie odpowiedział w 24h
+    | 'NO_SHOW_HOST'      // Fachowiec nie rozpoczął usługi (wykrywane automatycznie)
+    | 'NO_SHOW_CLIENT';   // Klient nieobecny (zgłasza fachowiec na miejscu)
 
-/** Polityka anulowania */
+/** Polityka anulowania (progi: CANCELLATION_POLICY_TIERS w functions/src/lib/bookingMachine.ts) */
 export type CancellationPolicy =
-    | 'flexible'  // Pełny zwrot do 24h przed
-    | 'moderate'  // 50% zwrot do 5 dni przed
+    | 'flexible'  // Pełny zwrot do 24h przed, potem 50%
+    | 'moderate'  // Pełny zwrot do 5 dni przed, 50% do 24h przed
     | 'strict';   // Brak zwrotu
 
 /** Typ wiadomości w czacie */
@@ -68,7 +73,8 @@ export type MessageType =
     | 'action'
     | 'image'
     | 'location'
-    | 'payment_request';
+    | 'payment_request'
+    | 'proposal_notification';
 
 // ===========================================
 // USERS COLLECTION (users/{uid})
@@ -102,6 +108,15 @@ export interface User {
         isSuperFachowiec: boolean;
     };
 
+    // Dla klientów - zgłoszone nieobecności (NO_SHOW_CLIENT)
+    noShowCount?: number;
+
+    // Dla klientów - ocena od fachowców (instantBookRequirements.minRating)
+    guestRating?: {
+        average: number;
+        count: number;
+    };
+
     // Metadata
     createdAt: Timestamp;
     updatedAt: Timestamp;
@@ -201,6 +216,22 @@ export interface Listing {
  * Rezerwacja / Zlecenie
  * Zawiera denormalizowane snapshoty dla audytowalności
  */
+/**
+ * Blokada terminu podczas płatności
+ *
+ * Zakładana przy wejściu w PENDING_PAYMENT na 10 minut. Wygasła lub
+ * zwolniona (nieudana płatność) nie blokuje kalendarza fachowca -
+ * rezerwacja zostaje w PENDING_PAYMENT i można ją opłacić (jeśli termin
+ * jest wolny) albo anulować.
+ */
+export interface SlotHold {
+    active: boolean;
+    expiresAt: Timestamp;
+    createdAt: Timestamp;
+    releasedAt?: Timestamp;
+    releaseReason?: 'expired' | 'payment_failed' | 'paid';
+}
+
 export interface Booking {
     id: string;
 
@@ -235,6 +266,10 @@ export interface Booking {
     estimatedDuration: number;     // Minuty
     checkIn?: Timestamp;           // Faktyczny start (GPS/manual)
     checkOut?: Timestamp;          // Faktyczny koniec
+    checkInVerification?: LocationVerification;
+    checkOutVerification?: LocationVerification;
+    noShowVerification?: LocationVerification; // Pozycja fachowca przy zgłoszeniu NO_SHOW_CLIENT
+    reschedule?: BookingReschedule; // Ostatnia propozycja zmiany terminu
 
     // Lokalizacja usługi
     serviceLocation: {
@@ -242,21 +277,21 @@ export interface Booking {
         lng: number;
         address: string;
     };
+    notes?: string;                // Opis problemu od klienta
 
     // Finanse
     pricing: {
         baseAmount: number;
-        additionalCharges?: {
-            description: string;
-            amount: number;
-        }[];
-        totalAmount: number;
+        additionalCharges?: AdditionalCharge[];
+        totalAmount: number;           // baseAmount + zaakceptowane dopłaty
         currency: 'PLN';
     };
-    paymentStatus: 'pending' | 'authorized' | 'captured' | 'refunded' | 'failed';
+    paymentStatus: 'pending' | 'authorized' | 'captured' | 'refunded' | 'partially_refunded' | 'failed';
+    paymentId?: string;            // Identyfikator transakcji u operatora
 
     // Polityka
     cancellationPolicy: CancellationPolicy;
+    refund?: BookingRefund;        // Ustawiane przy anulowaniu
 
     // Identyfikator potwierdzenia
     bookingHash: string;           // Np. "FN-2024-ABCD1234"
@@ -264,12 +299,79 @@ export interface Booking {
     // Chat
     chatId: string;                // Referencja do chats/{chatId}
 
+    // Dziennik zdarzeń - ostatnie ogniwo łańcucha bookings/{id}/events
+    eventsHead?: { seq: number; hash: string };
+
+    // Blokada terminu na czas płatności (PENDING_PAYMENT)
+    slotHold?: SlotHold;
+
+    // Zlecenie z giełdy (tylko rezerwacje z zaakceptowanej oferty)
+    jobId?: string;                // Referencja do jobs/{jobId}
+    proposalId?: string;           // jobs/{jobId}/proposals/{proposalId}
+
+    // Cykl rezerwacji (tylko wizyty cykliczne)
+    seriesId?: string;             // Referencja do booking_series/{seriesId}
+    occurrenceDate?: string;       // "2024-01-15" (czas lokalny)
+
     // Metadata
     createdAt: Timestamp;
     updatedAt: Timestamp;
 
     // Okno recenzji (otwiera się po COMPLETED)
     reviewWindowEndsAt?: Timestamp; // 14 dni po checkOut
+    hasReview?: boolean;           // Ustawiane przez onReviewCreated
+}
+
+/** Usługi, które można zarezerwować cyklicznie */
+export const RECURRING_SERVICE_TYPES: ServiceType[] = ['sprzatanie', 'ogrodnik'];
+
+/**
+ * Cykl rezerwacji (wizyty co tydzień / co dwa tygodnie)
+ * Ścieżka: booking_series/{seriesId}
+ *
+ * Po akceptacji fachowca backend tworzy z wyprzedzeniem (28 dni)
+ * pojedyncze rezerwacje z seriesId - od razu CONFIRMED, bez płatności
+ * z góry za wizytę. Zapis tylko przez Cloud Functions.
+ */
+export interface BookingSeries {
+    id: string;
+
+    // Uczestnicy
+    clientId: string;
+    hostId: string;
+    listingId: string;
+
+    status: 'pending_approval' | 'active' | 'declined' | 'canceled' | 'ended';
+
+    // Reguła powtarzania
+    rule: {
+        frequency: 'weekly' | 'biweekly';
+    };
+    startDate: Timestamp;          // Pierwsza wizyta (wyznacza dzień tygodnia i godzinę)
+    endDate: Timestamp | null;     // null = do odwołania
+    skipDates: string[];           // Odwołane wizyty ("2024-01-15")
+    conflictDates: string[];       // Pominięte - fachowiec niedostępny
+    nextOccurrence: number;        // Indeks następnej wizyty do utworzenia
+
+    // Szablon rezerwacji
+    listingSnapshot: Booking['listingSnapshot'];
+    hostSnapshot: Booking['hostSnapshot'];
+    clientSnapshot: Booking['clientSnapshot'];
+    basePrice: number;             // Cena za wizytę
+    estimatedDuration: number;     // Minuty
+    serviceLocation: Booking['serviceLocation'];
+    notes?: string;
+    cancellationPolicy: CancellationPolicy;
+
+    chatId: string;                // Wspólny czat dla wszystkich wizyt
+
+    // Anulowanie
+    canceledBy?: string;
+    canceledAt?: Timestamp;
+
+    // Metadata
+    createdAt: Timestamp;
+    updatedAt: Timestamp;
 }
 
 /** Historia zmian statusu rezerwacji */
@@ -280,6 +382,97 @@ export interface BookingStatusChange {
     reason?: string;               // Powód zmiany (np. przy anulowaniu)
 }
 
+/** Typy zdarzeń w dzienniku rezerwacji */
+export type BookingEventType =
+    | 'created'
+    | 'status_changed'
+    | 'reschedule_requested'
+    | 'reschedule_answered'
+    | 'charge_added'
+    | 'charge_answered'
+    | 'check_in_verified'
+    | 'check_out_verified'
+    | 'slot_held'
+    | 'slot_released';
+
+/**
+ * Zdarzenie w dzienniku rezerwacji (append-only)
+ * Ścieżka: bookings/{bookingId}/events/{seq} (seq z zerami wiodącymi)
+ *
+ * Zapis tylko przez Cloud Functions. Każde zdarzenie zawiera hash
+ * poprzedniego (SHA-256), więc zmiana lub usunięcie wpisu jest wykrywalne.
+ */
+export interface BookingEvent {
+    seq: number;                   // 0, 1, 2... bez luk
+    type: BookingEventType;
+    actor: string;                 // uid użytkownika lub 'system'
+    status?: BookingStatus;        // Nowy status (created / status_changed)
+    reason?: string;
+    data?: Record<string, unknown>; // Szczegóły zdarzenia (Timestampy jako millis)
+    createdAt: number;             // millis
+    prevHash: string;              // Hash poprzedniego zdarzenia (64 zera dla pierwszego)
+    hash: string;                  // SHA-256 z pozostałych pól
+}
+
+/**
+ * Weryfikacja GPS przy check-in / check-out.
+ * Pozycja poza promieniem nie blokuje akcji - jest tylko oznaczana.
+ */
+export interface LocationVerification {
+    status: 'verified' | 'outside_radius' | 'no_location';
+    lat?: number;
+    lng?: number;
+    accuracyMeters?: number;       // Dokładność GPS z przeglądarki
+    distanceMeters?: number;       // Odległość od serviceLocation
+    radiusMeters: number;
+    recordedAt: Timestamp;
+
+    // Tylko check-in - punktualność względem scheduledDate
+    minutesLate?: number;          // Ujemne = przed czasem
+    isOnTime?: boolean;            // verified + spóźnienie <= 15 min
+}
+
+/**
+ * Dopłata (change order) dodana przez fachowca w trakcie usługi (ACTIVE).
+ * Klient akceptuje ją w czacie (wiadomość payment_request).
+ */
+export interface AdditionalCharge {
+    id: string;
+    description: string;
+    amount: number;
+    status: 'pending' | 'approved' | 'rejected' | 'expired'; // expired = brak odpowiedzi do checkOut
+    requestedAt: Timestamp;
+    respondedAt?: Timestamp;
+}
+
+/**
+ * Propozycja zmiany terminu (tylko w CONFIRMED).
+ * Oczekująca = status 'pending' i expiresAt w przyszłości.
+ */
+export interface BookingReschedule {
+    proposedDate: Timestamp;
+    previousDate: Timestamp;
+    proposedBy: string;            // uid klienta lub fachowca
+    isCounter: boolean;            // Odpowiedź na propozycję drugiej strony
+    status: 'pending' | 'accepted' | 'declined';
+    expiresAt: Timestamp;          // 48h, najpóźniej obecny termin usługi
+    createdAt: Timestamp;
+    respondedAt?: Timestamp;
+}
+
+/** Rozbicie zwrotu przy anulowaniu rezerwacji */
+export interface BookingRefund {
+    policy: CancellationPolicy;
+    canceledBy: 'client' | 'host';
+    hoursBeforeService: number;    // Ujemne = po terminie usługi
+    refundPercent: number;         // 0-100
+    refundAmount: number;          // Kwota zwracana klientowi
+    platformFeeRetained: number;   // Prowizja zatrzymana przez platformę
+    hostPayout: number;            // Kwota dla fachowca
+    currency: 'PLN';
+    calculatedAt: Timestamp;
+}
+
 // ===========================================
 // REVIEWS COLLECTION (reviews/{reviewId})
 // ===========================================
@@ -346,6 +539,8 @@ export interface HostMetrics {
     responseRate: number;          // 0.0 - 1.0 (odpowiedzi w <24h)
     cancellationRate: number;      // 0.0 - 1.0 (anulowania przez hosta)
     acceptanceRate: number;        // 0.0 - 1.0 (akceptacje Request to Book)
+    onTimePercentage?: number;     // 0 - 100 (punktualne check-iny GPS)
+    verifiedCheckIns?: number;     // Liczba check-inów w oknie
 
     // Volume metrics
     completedBookings: number;
@@ -379,38 +574,99 @@ export interface HostMetrics {
 // CHATS COLLECTION (chats/{chatId})
 // ===========================================
 
+/** Rola nadawcy wiadomości */
+export type ChatRole = 'client' | 'professional' | 'system';
+
+/** Wersja schematu czatu (CHAT_SCHEMA_VERSION w functions/src/lib/chat.ts) */
+export const CHAT_SCHEMA_VERSION = 2;
+
 /**
- * Konwersacja powiązana z rezerwacją
+ * Konwersacja klienta z fachowcem
+ *
+ * Jeden model dla czatów rezerwacji (bookingId), zleceń (jobId) i serii
+ * (seriesId). Starsze dokumenty (lastMessage jako obiekt, unreadCount
+ * po roli, brak clientId) czyta normalizeChat - patrz chatConverter.
  */
 export interface Chat {
     id: string;
 
-    // Kontekst
-    bookingId: string;
+    // Kontekst (co najmniej jedno z pól)
+    bookingId?: string;
+    jobId?: string;
+    seriesId?: string;
+    jobTitle?: string;             // Denormalizacja dla czatów zleceń
 
     // Uczestnicy
-    participantIds: string[];      // [clientId, hostId]
+    participantIds: string[];      // [clientId, professionalId]
+    clientId: string;
+    clientName: string;
+    professionalId: string | null; // null - zlecenie bez wybranego fachowca
+    professionalName: string | null;
 
     // Podsumowanie (denormalizacja dla listy czatów)
-    lastMessage: {
-        text: string;
-        senderId: string;
-        sentAt: Timestamp;
-    } | null;
+    lastMessage: string;
+    lastMessageAt: Timestamp | null;
 
-    // Nieprzeczytane
+    // Nieprzeczytane (klucz = uid uczestnika) - zapisuje tylko backend
     unreadCount: {
         [participantId: string]: number;
     };
+    // Kursor odczytu: do kiedy uczestnik przeczytał czat (chatMarkRead)
+    readCursors: {
+        [participantId: string]: Timestamp;
+    };
+    // Lokalizacje udostępniane na żywo (klucz = uid nadawcy)
+    liveLocations?: {
+        [participantId: string]: LiveLocation;
+    };
 
     // Status
+    status: string;                // open | negotiating | accepted | active | closed ...
     isActive: boolean;             // false po zakończeniu okna recenzji
+    schemaVersion: number;
 
     // Metadata
     createdAt: Timestamp;
     updatedAt: Timestamp;
 }
 
+/**
+ * Udostępniona lokalizacja na żywo (chats/{chatId}.liveLocations.{uid})
+ * Nadpisywana przez nadawcę co kilkadziesiąt sekund do expiresAt.
+ */
+export interface LiveLocation {
+    lat: number;
+    lng: number;
+    etaMinutes?: number;           // Do miejsca usługi (rezerwacje)
+    updatedAt: Timestamp;
+    expiresAt: Timestamp;
+}
+
+/**
+ * Załącznik wiadomości
+ *
+ * Zdjęcia leżą w Storage pod chats/{chatId}/{uid}/... (czytają tylko
+ * uczestnicy czatu) - w wiadomości zapisana jest ścieżka, nie publiczny URL.
+ */
+export type ChatAttachment =
+    | {
+        type: 'image';
+        path: string;              // Pełny rozmiar (max MAX_CHAT_IMAGE_DIMENSION px)
+        thumbnailPath: string;
+        width: number;
+        height: number;
+        size: number;              // Bajty po kompresji
+    }
+    | {
+        type: 'location';
+        lat: number;
+        lng: number;
+        address?: string;
+        live?: boolean;            // Aktualna pozycja w Chat.liveLocations[senderId]
+        etaMinutes?: number;       // ETA w chwili wysłania
+        expiresAt?: Timestamp;     // Koniec udostępniania na żywo
+    };
+
 /**
  * Wiadomość w czacie
  * Ścieżka: chats/{chatId}/messages/{messageId}
@@ -418,34 +674,61 @@ export interface Chat {
 export interface ChatMessage {
     id: string;
 
-    // Nadawca
+    // Nadawca ('system' dla wiadomości systemowych)
     senderId: string;
-    senderName: string;            // Denormalizacja
+    senderName?: string;           // Denormalizacja
+    senderRole: ChatRole;
 
     // Treść
     type: MessageType;
-    text: string;
+    content: string;
 
-    // Załączniki
-    attachments?: {
-        type: 'image' | 'location';
-        url?: string;
-        lat?: number;
-        lng?: number;
-    }[];
+    // Załączniki (limity: chat-attachments.ts)
+    attachments?: ChatAttachment[];
 
     // Akcje systemowe
     actionData?: {
-        type: 'booking_confirmed' | 'booking_canceled' | 'check_in' | 'check_out' | 'payment_request';
+        type:
+            | 'booking_confirmed'
+            | 'booking_canceled'
+            | 'check_in'
+            | 'check_out'
+            | 'payment_request'
+            | 'reschedule_requested'
+            | 'reschedule_accepted'
+            | 'reschedule_declined';
         payload: Record<string, unknown>;
     };
+    proposalId?: string;           // Wiadomości o ofertach (proposal_notification)
+    maskedContacts?: ('phone' | 'email' | 'iban')[]; // Ukryte dane kontaktowe (contact-filter.ts)
 
-    // Status
-    isRead: boolean;
+    // Potwierdzenie odczytu (ustawia chatMarkRead)
+    isRead?: boolean;
     readAt?: Timestamp;
 
     // Metadata
-    createdAt: Timestamp;
+    createdAt: Timestamp | null;   // null do potwierdzenia serverTimestamp()
+}
+
+/**
+ * Obecność użytkownika
+ * Ścieżka: presence/{uid}
+ *
+ * Odświeżana przez usePresenceHeartbeat najwyżej co PRESENCE_HEARTBEAT_MS -
+ * 'online' bez świeżego lastSeen (zamknięta karta) oznacza offline.
+ */
+export interface UserPresence {
+    state: 'online' | 'offline';
+    lastSeen: Timestamp | null;    // null do potwierdzenia serverTimestamp()
+}
+
+/**
+ * Wskaźnik pisania
+ * Ścieżka: chats/{chatId}/typing/{uid} (usuwany po wysłaniu / bezczynności)
+ */
+export interface ChatTyping {
+    userId: string;
+    updatedAt: Timestamp | null;
 }
 
 // ===========================================
@@ -482,6 +765,16 @@ export const bookingConverter: FirestoreDataConverter<Booking> = {
     }
 };
 
+export const bookingSeriesConverter: FirestoreDataConverter<BookingSeries> = {
+    toFirestore(series: BookingSeries): DocumentData {
+        return { ...series };
+    },
+    fromFirestore(snapshot: QueryDocumentSnapshot): BookingSeries {
+        const data = snapshot.data();
+        return { id: snapshot.id, ...data } as BookingSeries;
+    }
+};
+
 export const reviewConverter: FirestoreDataConverter<Review> = {
     toFirestore(review: Review): DocumentData {
         return { ...review };
@@ -502,23 +795,98 @@ export const hostMetricsConverter: FirestoreDataConverter<HostMetrics> = {
     }
 };
 
+/**
+ * Czyta dokument czatu w starym lub nowym kształcie
+ * (lustro normalizeChat w functions/src/lib/chat.ts)
+ */
+export function normalizeChat(id: string, data: DocumentData): Chat {
+    const participantIds: string[] = Array.isArray(data.participantIds) ? data.participantIds : [];
+    // Czaty rezerwacji: participantIds = [clientId, hostId]
+    const clientId: string = data.clientId || participantIds[0] || '';
+    const professionalId: string | null = data.professionalId ||
+        participantIds.find(uid => uid !== clientId) || null;
+
+    const legacyLast = data.lastMessage && typeof data.lastMessage === 'object' ? data.lastMessage : null;
+
+    // Stary klucz roli ({ client, professional }) → uid
+    const unreadCount: Record<string, number> = {};
+    Object.entries(data.unreadCount || {}).forEach(([key, value]) => {
+        if (typeof value !== 'number') return;
+        const uid = key === 'client' ? clientId : key === 'professional' ? professionalId : key;
+        if (uid) unreadCount[uid] = (unreadCount[uid] || 0) + value;
+    });
+
+    return {
+        id,
+        ...(data.bookingId ? { bookingId: data.bookingId } : {}),
+        ...(data.jobId ? { jobId: data.jobId } : {}),
+        ...(data.seriesId ? { seriesId: data.seriesId } : {}),
+        ...(data.jobTitle ? { jobTitle: data.jobTitle } : {}),
+        participantIds: Array.from(new Set([...participantIds, clientId, ...(professionalId ? [professionalId] : [])]))
+            .filter(Boolean),
+        clientId,
+        clientName: data.clientName || 'Klient',
+        professionalId,
+        professionalName: professionalId ? data.professionalName || 'Fachowiec' : null,
+        lastMessage: legacyLast ? legacyLast.text || '' : data.lastMessage || '',
+        lastMessageAt: data.lastMessageAt || legacyLast?.sentAt || data.updatedAt || null,
+        unreadCount,
+        readCursors: data.readCursors || {},
+        ...(data.liveLocations ? { liveLocations: data.liveLocations } : {}),
+        status: data.status || (data.isActive === false ? 'closed' : 'active'),
+        isActive: data.isActive !== false,
+        schemaVersion: CHAT_SCHEMA_VERSION,
+        createdAt: data.createdAt,
+        updatedAt: data.updatedAt || data.createdAt
+    };
+}
+
+/**
+ * Czyta wiadomość w starym (text, timestamp) lub nowym kształcie
+ * (lustro normalizeMessage w functions/src/lib/chat.ts)
+ */
+export function normalizeMessage(id: string, data: DocumentData, chat?: Pick<Chat, 'clientId'>): ChatMessage {
+    const senderId: string = data.senderId || 'system';
+    const isSystem = senderId === 'system' || senderId === 'mediator' ||
+        data.senderRole === 'system' || data.type === 'system' || data.isSystemMessage === true;
+
+    let senderRole: ChatRole = data.senderRole || 'client';
+    if (isSystem) {
+        senderRole = 'system';
+    } else if (!data.senderRole && chat) {
+        senderRole = senderId === chat.clientId ? 'client' : 'professional';
+    }
+
+    return {
+        ...data,
+        id,
+        senderId,
+        senderRole,
+        type: data.type || (isSystem ? 'system' : 'text'),
+        content: data.content ?? data.text ?? '',
+        createdAt: data.createdAt || data.timestamp || null
+    } as ChatMessage;
+}
+
 export const chatConverter: FirestoreDataConverter<Chat> = {
     toFirestore(chat: Chat): DocumentData {
-        return { ...chat };
+        const data: DocumentData = { ...chat, schemaVersion: CHAT_SCHEMA_VERSION };
+        delete data.id;
+        return data;
     },
     fromFirestore(snapshot: QueryDocumentSnapshot): Chat {
-        const data = snapshot.data();
-        return { id: snapshot.id, ...data } as Chat;
+        return normalizeChat(snapshot.id, snapshot.data());
     }
 };
 
 export const chatMessageConverter: FirestoreDataConverter<ChatMessage> = {
     toFirestore(message: ChatMessage): DocumentData {
-        return { ...message };
+        const data: DocumentData = { ...message };
+        delete data.id;
+        return data;
     },
     fromFirestore(snapshot: QueryDocumentSnapshot): ChatMessage {
-        const data = snapshot.data();
-        return { id: snapshot.id, ...data } as ChatMessage;
+        return normalizeMessage(snapshot.id, snapshot.data());
     }
 };
 
@@ -595,13 +963,15 @@ export function generateBookingHash(): string {
 export const VALID_STATUS_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
     'INQUIRY': ['PENDING_APPROVAL', 'PENDING_PAYMENT', 'CANCELED_BY_GUEST'],
     'PENDING_APPROVAL': ['PENDING_PAYMENT', 'EXPIRED', 'CANCELED_BY_HOST', 'CANCELED_BY_GUEST'],
-    'PENDING_PAYMENT': ['CONFIRMED', 'CANCELED_BY_GUEST'],
-    'CONFIRMED': ['ACTIVE', 'CANCELED_BY_GUEST', 'CANCELED_BY_HOST'],
+    'PENDING_PAYMENT': ['CONFIRMED', 'CANCELED_BY_GUEST', 'CANCELED_BY_HOST'],
+    'CONFIRMED': ['ACTIVE', 'CANCELED_BY_GUEST', 'CANCELED_BY_HOST', 'NO_SHOW_HOST', 'NO_SHOW_CLIENT'],
     'ACTIVE': ['COMPLETED'],
     'COMPLETED': [], // Terminal state
     'CANCELED_BY_GUEST': [], // Terminal state
     'CANCELED_BY_HOST': [], // Terminal state
     'EXPIRED': [], // Terminal state
+    'NO_SHOW_HOST': [], // Terminal state
+    'NO_SHOW_CLIENT': [], // Terminal state
 };
 
 // ===========================================
@@ -619,12 +989,68 @@ export interface DaySchedule {
     isActive: boolean;
 }
 
+/**
+ * Wyjątek od tygodniowego grafiku (czas lokalny, daty włącznie)
+ *
+ * - blocked: bez slots = całe dni wolne (urlop), ze slots = zablokowane
+ *   godziny w każdym dniu okresu ("wtorek 12:00–15:00")
+ * - override: slots zastępują godziny z weeklySchedule w tych dniach
+ *   (pusta lista = dzień wolny); blokady są odejmowane po nadpisaniu
+ */
+export interface ScheduleException {
+    id: string;
+    type: 'blocked' | 'override';
+    startDate: string;     // "2024-07-01"
+    endDate: string;       // "2024-07-14" (= startDate dla jednego dnia)
+    slots?: TimeSlot[];
+    reason?: string;       // "Urlop", "Szkolenie" - opis dla fachowca
+}
+
 export interface ProviderSchedule {
     userId: string;
     weeklySchedule: DaySchedule[];
-    blockedDates: string[]; // "2024-01-15" - completely blocked days
-    instantBooking: boolean;
-    maxBookingsPerDay: number;
+    blockedDates: string[]; // "2024-01-15" - całe dni (starszy format, zastąpiony przez exceptions)
+    exceptions?: ScheduleException[]; // Blokady godzin, urlopy i zmienione godziny w wybrane dni
+    blockedRanges?: BlockedRange[]; // Zajęte godziny (import iCal lub ręczne)
+    travelBufferMinutes?: number; // Przerwa na dojazd między rezerwacjami (domyślnie 30)
+    instantBooking: boolean;       // false = tylko Request to Book
+    maxBookingsPerDay: number;     // Limit rezerwacji na dzień (0 = bez limitu)
+    updatedAt: Timestamp;
+}
+
+/**
+ * Zajęty przedział czasu w grafiku fachowca.
+ * Import iCal zastępuje wszystkie przedziały ze źródłem 'ical';
+ * tytuły wydarzeń nie są zapisywane.
+ */
+export interface BlockedRange {
+    start: Timestamp;
+    end: Timestamp;
+    source: 'ical' | 'manual';
+}
+
+/** Pory dnia używane przy wyszukiwaniu ("dostępny jutro rano") */
+export type DayPart = 'morning' | 'afternoon' | 'evening';
+
+export const DAY_PARTS: Record<DayPart, TimeSlot> = {
+    morning: { start: '06:00', end: '12:00' },
+    afternoon: { start: '12:00', end: '17:00' },
+    evening: { start: '17:00', end: '22:00' }
+};
+
+/**
+ * Wolne terminy fachowca w danym dniu (indeks)
+ * Ścieżka: availability/{hostId}_{date}
+ *
+ * Utrzymywane przez Cloud Functions przy zmianie grafiku lub rezerwacji,
+ * 30 dni do przodu. Tylko do odczytu.
+ */
+export interface AvailabilityDay {
+    hostId: string;
+    date: string;                  // "2024-01-15" (czas lokalny)
+    freeSlots: TimeSlot[];         // Wolne okna po odjęciu rezerwacji i dojazdów
+    freeMinutes: number;
+    parts: Record<DayPart, boolean>; // Okno min. 60 min w danej porze dnia
     updatedAt: Timestamp;
 }
 
@@ -659,6 +1085,7 @@ export interface Job {
     priceEstimate: { min: number; max: number };
     urgency: 'asap' | 'today' | 'week' | 'flexible';
     preferredDate?: Timestamp;
+    searchRadiusKm?: number;       // Zasięg wyszukiwania fachowców (domyślnie 15 km)
 
     status: JobStatus;
     source: 'ai_chat' | 'map' | 'marketplace';
@@ -666,14 +1093,21 @@ export interface Job {
     // Assignment
     assignedProId?: string;
     assignedProName?: string;
-    proposalIds: string[];
-    bookingId?: string;
+    proposalIds: string[];         // Oferty w grze (pending / accepted) - utrzymywane przez Cloud Functions
+    proposalCount?: number;        // = proposalIds.length
+    bookingId?: string;            // Po akceptacji oferty - status zlecenia wynika z rezerwacji
     chatId?: string;
 
+    // Ponowna publikacja wygasłego zlecenia
+    repostOf?: string;             // Zlecenie, z którego powstało
+    repostedAs?: string;           // Nowe zlecenie (ustawiane na starym)
+    repostCount?: number;
+
     // Meta
     createdAt: Timestamp;
     updatedAt: Timestamp;
     expiresAt: Timestamp;
+    expiredAt?: Timestamp;
 }
 
 export interface JobProposal {
@@ -688,7 +1122,26 @@ export interface JobProposal {
     message: string;
     availability: Timestamp;
 
-    status: 'pending' | 'accepted' | 'rejected' | 'withdrawn';
+    status: ProposalStatus;
+    revisions?: ProposalRevision[]; // Poprzednie wersje, najstarsza pierwsza
+    expiresAt?: Timestamp;          // Kopia Job.expiresAt - oferta wygasa razem ze zleceniem
     createdAt: Timestamp;
+    updatedAt?: Timestamp;
+    editedAt?: Timestamp;
+    acceptedAt?: Timestamp;
+    rejectedAt?: Timestamp;
+    rejectionReason?: string;       // Np. odrzucona automatycznie po akceptacji innej oferty
+    withdrawnAt?: Timestamp;
+    expiredAt?: Timestamp;
+}
+
+export type ProposalStatus = 'pending' | 'accepted' | 'rejected' | 'withdrawn' | 'expired';
+
+/** Wersja oferty sprzed edycji */
+export interface ProposalRevision {
+    price: number;
+    message: string;
+    availability: Timestamp | null;
+    submittedAt: Timestamp;         // Od kiedy obowiązywała ta wersja
 }
 
@@ -36,6 +36,18 @@ export const SERVICE_CATEGORY_LABELS: Record<ServiceCategory, string> = {
     other: 'Inne'
 };
 
+/**
+ * Kategoria jako slug - przyjmuje slug ('zlota_raczka') albo etykietę
+ * ('Złota Rączka', zapisywaną w zleceniach). Nieznana wartość = null.
+ */
+export function toServiceCategory(value: string | null | undefined): ServiceCategory | null {
+    if (!value) return null;
+    const normalized = value.trim().toLowerCase();
+    const entry = (Object.entries(SERVICE_CATEGORY_LABELS) as [ServiceCategory, string][])
+        .find(([slug, label]) => slug === normalized || label.toLowerCase() === normalized);
+    return entry ? entry[0] : null;
+}
+
 export const SERVICE_CATEGORY_ICONS: Record<ServiceCategory, string> = {
     hydraulik: '🔧',
     elektryk: '⚡',